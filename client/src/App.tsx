@@ -3,24 +3,52 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { Spinner } from "@/components/ui/spinner";
+import { useAuth } from "@/hooks/use-auth";
+import { useTelegramTheme } from "@/hooks/use-telegram";
 import Dashboard from "@/pages/dashboard";
+import PrayerTimesPage from "@/pages/prayer-times";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/prayer-times" component={PrayerTimesPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Everything behind the router reads the signed-in user's data, so nothing renders until
+// there is a session
+function AuthGate() {
+  const { user, isLoading, isMiniApp, error, loginWithWidget } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Spinner className="size-6 text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login isMiniApp={isMiniApp} error={error} onLogin={loginWithWidget} />;
+  }
+
+  return <Router />;
+}
+
 function App() {
+  useTelegramTheme();
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <AuthGate />
       </TooltipProvider>
     </QueryClientProvider>
   );
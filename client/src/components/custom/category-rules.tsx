@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2, Sparkles } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CategoryRule, InsertCategoryRule } from "@shared/schema";
+import { describeRule, parseAmountRange, parseRulePattern, type LearnedRule, type RuleField } from "@shared/category-rules";
+import { haptic } from "@/lib/telegram";
+
+const FIELD_LABELS: Record<RuleField, string> = {
+  any: "Izoh yoki do'kon",
+  description: "Faqat izoh",
+  merchant: "Faqat do'kon",
+};
+
+async function fetchRules(): Promise<CategoryRule[]> {
+  const res = await fetch("/api/category-rules");
+  if (!res.ok) throw new Error("Failed to fetch category rules");
+  return res.json();
+}
+
+async function fetchSuggestions(): Promise<LearnedRule[]> {
+  const res = await fetch("/api/category-rules/suggestions");
+  if (!res.ok) throw new Error("Failed to fetch rule suggestions");
+  return res.json();
+}
+
+async function createRule(rule: Omit<InsertCategoryRule, "telegramUserId">): Promise<CategoryRule> {
+  const res = await fetch("/api/category-rules", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(rule),
+  });
+  if (!res.ok) throw new Error("Failed to create category rule");
+  return res.json();
+}
+
+async function deleteRule(id: number): Promise<void> {
+  const res = await fetch(`/api/category-rules/${id}`, { method: "DELETE" });
+  if (!res.ok) throw new Error("Failed to delete category rule");
+}
+
+export function CategoryRulesManager({ categoryNames }: { categoryNames: string[] }) {
+  const [pattern, setPattern] = useState("");
+  const [range, setRange] = useState("");
+  const [field, setField] = useState<RuleField>("any");
+  const [category, setCategory] = useState("");
+  const queryClient = useQueryClient();
+
+  const { data: rules = [] } = useQuery({
+    queryKey: ["category-rules"],
+    queryFn: fetchRules,
+  });
+
+  const { data: suggestions = [] } = useQuery({
+    queryKey: ["category-rules", "suggestions"],
+    queryFn: fetchSuggestions,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["category-rules"] });
+      haptic.success();
+      setPattern("");
+      setRange("");
+    },
+    onError: () => haptic.error(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteRule,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["category-rules"] }),
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedPattern = pattern.trim() ? parseRulePattern(pattern) : null;
+    const parsedRange = range.trim() ? parseAmountRange(range) : null;
+    if ((pattern.trim() && !parsedPattern) || (range.trim() && !parsedRange) || (!parsedPattern && !parsedRange) || !category) {
+      haptic.error();
+      return;
+    }
+
+    createMutation.mutate({
+      pattern: parsedPattern?.pattern ?? null,
+      matchType: parsedPattern?.matchType ?? "keyword",
+      field,
+      minAmount: parsedRange?.minAmount ?? null,
+      maxAmount: parsedRange?.maxAmount ?? null,
+      category,
+    });
+  };
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div>
+        <h3 className="font-serif font-semibold">Avto-kategoriya qoidalari</h3>
+        <p className="text-xs text-muted-foreground">Mos kelgan xarajatga kategoriya o'zi qo'yiladi</p>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50 text-sm"
+            data-testid={`rule-item-${rule.id}`}
+          >
+            <span className="truncate">{describeRule(rule)}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+              onClick={() => deleteMutation.mutate(rule.id)}
+              data-testid={`btn-delete-rule-${rule.id}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Sparkles className="w-3 h-3" /> Tavsiyalar
+          </p>
+          {suggestions.map((s) => (
+            <Button
+              key={s.keyword}
+              variant="outline"
+              size="sm"
+              className="w-full justify-between"
+              onClick={() => createMutation.mutate({ pattern: s.keyword, matchType: "keyword", field: "any", category: s.category })}
+              data-testid={`btn-learn-rule-${s.keyword}`}
+            >
+              <span>"{s.keyword}" → {s.category}</span>
+              <span className="text-xs text-muted-foreground">{s.count} marta</span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <Input
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder="Kalit so'z yoki shablon: yandex*"
+          data-testid="input-rule-pattern"
+        />
+        <div className="flex gap-2">
+          <Input
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            placeholder="Summa: 10k-50k, >1 mln"
+            className="flex-1"
+            data-testid="input-rule-range"
+          />
+          <Select value={field} onValueChange={(value) => setField(value as RuleField)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FIELD_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Kategoriya" />
+            </SelectTrigger>
+            <SelectContent>
+              {categoryNames.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="icon" disabled={createMutation.isPending} data-testid="btn-add-rule">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useTelegramBackButton, useTelegramMainButton } from "@/hooks/use-telegram";
+import { haptic } from "@/lib/telegram";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -6,6 +8,7 @@ import {
   Plus, 
   Wallet, 
   TrendingDown, 
+  TrendingUp,
   ShoppingBag, 
   Coffee, 
   Car, 
@@ -22,7 +25,10 @@ import {
   Gift,
   Briefcase,
   Smartphone,
-  Music
+  Music,
+  Landmark,
+  ArrowRightLeft,
+  FileSpreadsheet
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
@@ -42,7 +48,14 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Expense, InsertExpense, ExpenseCategory, InsertExpenseCategory } from "@shared/schema";
+import type { Expense, InsertExpense, ExpenseCategory, InsertExpenseCategory, Income, InsertIncome, Account } from "@shared/schema";
+import { parseExpenseInput } from "@shared/uz-parser";
+import { CURRENCIES, CURRENCY_CODES, formatMoney, isCurrencyCode, type CurrencyCode } from "@shared/currency";
+import { INCOME_SOURCES, getIncomeSourceIcon } from "@shared/income";
+import { ACCOUNT_TYPES, getAccountIcon, isAccountType, type AccountType } from "@shared/accounts";
+import { CategoryRulesManager } from "./category-rules";
+import { ImportExportPanel } from "./import-export";
+import { format } from "date-fns";
 
 const AVAILABLE_ICONS = [
   { name: "wallet", icon: Wallet, label: "Hamyon" },
@@ -84,6 +97,79 @@ async function createExpense(expense: InsertExpense): Promise<Expense> {
   return res.json();
 }
 
+async function fetchIncomes(): Promise<Income[]> {
+  const res = await fetch("/api/incomes");
+  if (!res.ok) throw new Error("Failed to fetch incomes");
+  return res.json();
+}
+
+async function createIncome(income: Omit<InsertIncome, "telegramUserId">): Promise<Income> {
+  const res = await fetch("/api/incomes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(income),
+  });
+  if (!res.ok) throw new Error("Failed to create income");
+  return res.json();
+}
+
+async function deleteIncome(id: number): Promise<void> {
+  const res = await fetch(`/api/incomes/${id}`, { method: "DELETE" });
+  if (!res.ok) throw new Error("Failed to delete income");
+}
+
+type AccountWithBalance = Account & { balance: number };
+
+async function fetchAccounts(): Promise<AccountWithBalance[]> {
+  const res = await fetch("/api/accounts");
+  if (!res.ok) throw new Error("Failed to fetch accounts");
+  return res.json();
+}
+
+async function createAccount(account: { name: string; type: AccountType; openingBalance: number; currency: CurrencyCode }): Promise<Account> {
+  const res = await fetch("/api/accounts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(account),
+  });
+  if (!res.ok) throw new Error("Failed to create account");
+  return res.json();
+}
+
+async function deleteAccount(id: number): Promise<void> {
+  const res = await fetch(`/api/accounts/${id}`, { method: "DELETE" });
+  if (!res.ok) throw new Error("Failed to delete account");
+}
+
+async function createTransfer(transfer: { fromAccountId: number; toAccountId: number; amount: number; currency: CurrencyCode }): Promise<void> {
+  const res = await fetch("/api/transfers", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(transfer),
+  });
+  if (!res.ok) throw new Error("Failed to create transfer");
+}
+
+interface CurrencySettings {
+  currency: CurrencyCode;
+  rates: Record<CurrencyCode, number | null>; // so'm per unit
+}
+
+async function fetchCurrencySettings(): Promise<CurrencySettings> {
+  const res = await fetch("/api/currency");
+  if (!res.ok) throw new Error("Failed to fetch currency settings");
+  return res.json();
+}
+
+// The category the user's own rules or history pick for this description, if any
+async function fetchCategoryMatch(description: string, amount: number, currency: CurrencyCode): Promise<string | null> {
+  const params = new URLSearchParams({ description, amount: String(amount), currency });
+  const res = await fetch(`/api/category-rules/match?${params}`);
+  if (!res.ok) return null;
+  const match: { category: string } | null = await res.json();
+  return match?.category ?? null;
+}
+
 async function deleteExpense(id: number): Promise<void> {
   const res = await fetch(`/api/expenses/${id}`, { method: "DELETE" });
   if (!res.ok) throw new Error("Failed to delete expense");
@@ -120,16 +206,22 @@ async function deleteCategory(id: number): Promise<void> {
   if (!res.ok) throw new Error("Failed to delete category");
 }
 
+type EntryKind = "expense" | "income";
+
 function getIconComponent(iconName: string) {
   const found = AVAILABLE_ICONS.find(i => i.name === iconName);
   return found ? found.icon : Wallet;
 }
 
-export function ExpenseTracker() {
+export function ExpenseTracker({ active = false }: { active?: boolean }) {
   const [amount, setAmount] = useState("");
   const [description, setDescription] = useState("");
   const [category, setCategory] = useState<string>("");
+  const [currency, setCurrency] = useState<CurrencyCode | null>(null);
+  const [kind, setKind] = useState<EntryKind>("expense");
+  const [accountId, setAccountId] = useState<number | null>(null);
   const [sheetOpen, setSheetOpen] = useState(false);
+  const [accountsOpen, setAccountsOpen] = useState(false);
   const queryClient = useQueryClient();
 
   const { data: expenses = [] } = useQuery({
@@ -137,17 +229,68 @@ export function ExpenseTracker() {
     queryFn: fetchExpenses,
   });
 
+  const { data: incomes = [] } = useQuery({
+    queryKey: ["incomes"],
+    queryFn: fetchIncomes,
+  });
+
   const { data: categories = [] } = useQuery({
     queryKey: ["expense-categories"],
     queryFn: fetchCategories,
   });
 
+  const { data: accounts = [] } = useQuery({
+    queryKey: ["accounts"],
+    queryFn: fetchAccounts,
+  });
+  // Like the bot, a single account is used without asking
+  const entryAccountId = accountId ?? (accounts.length === 1 ? accounts[0].id : null);
+
+  const { data: currencySettings } = useQuery({
+    queryKey: ["currency"],
+    queryFn: fetchCurrencySettings,
+  });
+  const baseCurrency = currencySettings?.currency ?? "UZS";
+  // Until the user picks one, new expenses are in their base currency
+  const inputCurrency = currency ?? baseCurrency;
+
+  const resetForm = () => {
+    haptic.success();
+    setAmount("");
+    setDescription("");
+    setCategory("");
+    setCurrency(null);
+    setAccountId(null);
+  };
+
   const createExpenseMutation = useMutation({
     mutationFn: createExpense,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
-      setAmount("");
-      setDescription("");
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      resetForm();
+    },
+    onError: () => haptic.error(),
+  });
+
+  const createIncomeMutation = useMutation({
+    mutationFn: createIncome,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incomes"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      resetForm();
+    },
+    onError: () => haptic.error(),
+  });
+
+  const deleteIncomeMutation = useMutation({
+    mutationFn: deleteIncome,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["incomes"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
     },
   });
 
@@ -155,6 +298,8 @@ export function ExpenseTracker() {
     mutationFn: deleteExpense,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
     },
   });
 
@@ -162,25 +307,117 @@ export function ExpenseTracker() {
     ? categories.map(c => ({ id: c.id, name: c.name, icon: c.icon }))
     : DEFAULT_CATEGORIES.map((c, i) => ({ id: i, ...c }));
 
-  const totalSpent = expenses.reduce((acc, curr) => acc + curr.amount, 0);
+  // Amounts are stored in so'm; the total is shown in the base currency at today's rate
+  const totalSom = expenses.reduce((acc, curr) => acc + curr.amount, 0);
+  const incomeSom = incomes.reduce((acc, curr) => acc + curr.amount, 0);
+  const baseRate = currencySettings?.rates[baseCurrency];
+  const formatBase = (som: number) => baseRate ? formatMoney(som / baseRate, baseCurrency) : formatMoney(som);
+  const totalSpent = formatBase(totalSom);
+  const netSom = incomeSom - totalSom;
 
-  const addExpense = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!amount || !description || !category) return;
+  // Expenses and incomes share one list, newest first
+  const entries = [
+    ...expenses.map(expense => ({ kind: "expense" as const, entry: expense })),
+    ...incomes.map(income => ({ kind: "income" as const, entry: income })),
+  ].sort((a, b) => new Date(b.entry.createdAt).getTime() - new Date(a.entry.createdAt).getTime());
+
+  const switchKind = (next: EntryKind) => {
+    setKind(next);
+    setCategory("");
+  };
+
+  // "kecha taksiga 25k" typed into the description fills in amount and category
+  const parseDescription = () => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const parsed = parseExpenseInput(description, today);
+    const hint = kind === "expense" && parsed.categoryHint && allCategories.some(c => c.name === parsed.categoryHint)
+      ? parsed.categoryHint
+      : null;
+    return { ...parsed, today, hint };
+  };
+
+  const handleDescriptionBlur = () => {
+    if (!description.trim()) return;
+    const parsed = parseDescription();
+    if (!category && parsed.hint) setCategory(parsed.hint);
+    if (kind === "expense" && !category) {
+      const value = amount ? parseFloat(amount.replace(/\s/g, "").replace(",", ".")) : parsed.amount ?? 0;
+      // A rule or the user's history beats the parser's keyword guess, but never a manual choice
+      fetchCategoryMatch(parsed.description || description, value || 0, amount ? inputCurrency : parsed.currency ?? inputCurrency)
+        .then(match => {
+          if (match && allCategories.some(c => c.name === match)) {
+            setCategory(current => !current || current === parsed.hint ? match : current);
+          }
+        })
+        .catch(() => {});
+    }
+    if (!amount && parsed.amount) {
+      setAmount(String(parsed.amount));
+      if (parsed.currency) setCurrency(parsed.currency);
+      if (parsed.description) setDescription(parsed.description);
+    }
+  };
+
+  const submitExpense = () => {
+    const parsed = parseDescription();
+    const finalAmount = amount ? parseFloat(amount.replace(/\s/g, "").replace(",", ".")) : parsed.amount;
+    const finalCurrency = amount ? inputCurrency : parsed.currency ?? inputCurrency;
+    const finalCategory = category || parsed.hint;
+    // With the amount typed separately, numbers in the description are part of the text
+    const finalDescription = amount ? description.trim() : parsed.description;
+    if (!finalAmount || !finalDescription || !finalCategory) {
+      haptic.error();
+      return;
+    }
+
+    const createdAt = parsed.date && parsed.date !== parsed.today ? { createdAt: new Date(`${parsed.date}T12:00`) } : {};
+    if (kind === "income") {
+      createIncomeMutation.mutate({
+        amount: finalAmount,
+        currency: finalCurrency,
+        description: finalDescription,
+        source: finalCategory,
+        accountId: entryAccountId,
+        ...createdAt,
+      });
+      return;
+    }
 
     createExpenseMutation.mutate({
-      amount: parseInt(amount.replace(/\s/g, "")),
-      description,
-      category,
+      amount: finalAmount,
+      currency: finalCurrency,
+      description: finalDescription,
+      category: finalCategory,
+      accountId: entryAccountId,
+      ...createdAt,
     });
   };
 
+  const addExpense = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitExpense();
+  };
+
+  // Mini App: the bottom button saves the form and the header back arrow closes the categories sheet
+  useTelegramMainButton({
+    text: kind === "income" ? "Daromadni saqlash" : "Xarajatni saqlash",
+    visible: active && !sheetOpen && !accountsOpen && (amount.trim().length > 0 || description.trim().length > 0),
+    loading: createExpenseMutation.isPending || createIncomeMutation.isPending,
+    onClick: submitExpense,
+  });
+  useTelegramBackButton(active && (sheetOpen || accountsOpen), () => {
+    setSheetOpen(false);
+    setAccountsOpen(false);
+  });
+
   const handleDeleteExpense = (id: number) => {
+    haptic.warning();
     deleteExpenseMutation.mutate(id);
   };
 
-  const formatCurrency = (val: number) => {
-    return new Intl.NumberFormat('uz-UZ', { style: 'currency', currency: 'UZS', maximumFractionDigits: 0 }).format(val);
+  const handleDeleteIncome = (id: number) => {
+    haptic.warning();
+    deleteIncomeMutation.mutate(id);
   };
 
   return (
@@ -195,17 +432,57 @@ export function ExpenseTracker() {
             <div className="text-right">
               <span className="text-xs text-muted-foreground uppercase tracking-wider font-bold">Jami</span>
               <div className="text-2xl font-bold text-destructive flex items-center justify-end gap-2 font-mono">
-                {formatCurrency(totalSpent)}
+                {totalSpent}
                 <TrendingDown className="w-5 h-5" />
               </div>
+              {incomes.length > 0 && (
+                <div
+                  className={cn("text-xs font-mono mt-1", netSom >= 0 ? "text-green-600" : "text-destructive")}
+                  data-testid="text-net-balance"
+                >
+                  Balans: {netSom >= 0 ? "+" : "−"}{formatBase(Math.abs(netSom))}
+                </div>
+              )}
             </div>
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="outline" size="icon" className="rounded-full" data-testid="btn-open-import-export">
+                  <FileSpreadsheet className="w-5 h-5" />
+                </Button>
+              </SheetTrigger>
+              <SheetContent className="w-[340px] sm:w-[400px] overflow-y-auto">
+                <SheetHeader>
+                  <SheetTitle className="font-serif">Import / Eksport</SheetTitle>
+                  <SheetDescription>
+                    Excel va CSV fayllar bilan ishlash
+                  </SheetDescription>
+                </SheetHeader>
+                <ImportExportPanel />
+              </SheetContent>
+            </Sheet>
+            <Sheet open={accountsOpen} onOpenChange={setAccountsOpen}>
+              <SheetTrigger asChild>
+                <Button variant="outline" size="icon" className="rounded-full" data-testid="btn-open-accounts">
+                  <Landmark className="w-5 h-5" />
+                </Button>
+              </SheetTrigger>
+              <SheetContent className="w-[340px] sm:w-[400px]">
+                <SheetHeader>
+                  <SheetTitle className="font-serif">Hisoblar</SheetTitle>
+                  <SheetDescription>
+                    Naqd pul, kartalar va jamg'arma qoldiqlari
+                  </SheetDescription>
+                </SheetHeader>
+                <AccountsPanel accounts={accounts} formatBase={formatBase} inputCurrency={inputCurrency} />
+              </SheetContent>
+            </Sheet>
             <Sheet open={sheetOpen} onOpenChange={setSheetOpen}>
               <SheetTrigger asChild>
                 <Button variant="outline" size="icon" className="rounded-full" data-testid="btn-open-categories">
                   <Settings2 className="w-5 h-5" />
                 </Button>
               </SheetTrigger>
-              <SheetContent className="w-[340px] sm:w-[400px]">
+              <SheetContent className="w-[340px] sm:w-[400px] overflow-y-auto">
                 <SheetHeader>
                   <SheetTitle className="font-serif">Kategoriyalar</SheetTitle>
                   <SheetDescription>
@@ -216,27 +493,67 @@ export function ExpenseTracker() {
                   categories={categories} 
                   onClose={() => setSheetOpen(false)} 
                 />
+                <CategoryRulesManager categoryNames={allCategories.map(c => c.name)} />
               </SheetContent>
             </Sheet>
           </div>
         </div>
 
         <form onSubmit={addExpense} className="space-y-3">
+          <div className="flex items-center gap-1 bg-muted/50 p-1 rounded-full w-fit">
+            <Button
+              type="button"
+              size="sm"
+              variant={kind === "expense" ? "default" : "ghost"}
+              onClick={() => switchKind("expense")}
+              className="rounded-full px-4"
+              data-testid="btn-kind-expense"
+            >
+              Xarajat
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={kind === "income" ? "default" : "ghost"}
+              onClick={() => switchKind("income")}
+              className="rounded-full px-4"
+              data-testid="btn-kind-income"
+            >
+              Daromad
+            </Button>
+          </div>
           <div className="flex gap-2">
             <Input 
               type="number" 
+              step="any"
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
-              placeholder="Summa (so'm)" 
+              placeholder={`Summa (${CURRENCIES[inputCurrency].symbol})`} 
               className="flex-1 bg-background font-mono"
               data-testid="input-expense-amount"
             />
+            <Select value={inputCurrency} onValueChange={(value) => isCurrencyCode(value) && setCurrency(value)}>
+              <SelectTrigger className="w-[90px] bg-background" data-testid="select-expense-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_CODES.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {CURRENCIES[code].flag} {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={category} onValueChange={setCategory}>
               <SelectTrigger className="w-[160px] bg-background">
-                <SelectValue placeholder="Kategoriya" />
+                <SelectValue placeholder={kind === "income" ? "Manba" : "Kategoriya"} />
               </SelectTrigger>
               <SelectContent>
-                {allCategories.map((cat) => {
+                {kind === "income" ? INCOME_SOURCES.map((source) => (
+                  <SelectItem key={source.name} value={source.name}>
+                    {source.icon} {source.name}
+                  </SelectItem>
+                )) : allCategories.map((cat) => {
                   const IconComp = getIconComponent(cat.icon);
                   return (
                     <SelectItem key={cat.id} value={cat.name}>
@@ -250,10 +567,29 @@ export function ExpenseTracker() {
             </Select>
           </div>
           <div className="flex gap-2">
+            {accounts.length > 0 && (
+              <Select
+                value={entryAccountId === null ? "none" : String(entryAccountId)}
+                onValueChange={(value) => setAccountId(value === "none" ? null : parseInt(value))}
+              >
+                <SelectTrigger className="w-[130px] bg-background" data-testid="select-entry-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Hisobsiz</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={String(account.id)}>
+                      {getAccountIcon(account.type)} {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <Input 
               value={description}
               onChange={(e) => setDescription(e.target.value)}
-              placeholder="Nima uchun?" 
+              onBlur={handleDescriptionBlur}
+              placeholder={kind === "income" ? "Qayerdan? (masalan: oylik maosh 8 mln)" : "Nima uchun? (masalan: kecha taksiga 25k)"} 
               className="flex-1 bg-background"
               data-testid="input-expense-description"
             />
@@ -262,7 +598,7 @@ export function ExpenseTracker() {
               size="icon" 
               className="bg-primary text-primary-foreground shrink-0"
               data-testid="btn-add-expense"
-              disabled={createExpenseMutation.isPending}
+              disabled={createExpenseMutation.isPending || createIncomeMutation.isPending}
             >
               <Plus className="w-5 h-5" />
             </Button>
@@ -273,7 +609,7 @@ export function ExpenseTracker() {
       <ScrollArea className="flex-1 p-4">
         <div className="space-y-3">
           <AnimatePresence mode="popLayout">
-            {expenses.length === 0 ? (
+            {entries.length === 0 ? (
               <motion.div 
                 initial={{ opacity: 0 }} 
                 animate={{ opacity: 1 }}
@@ -283,13 +619,18 @@ export function ExpenseTracker() {
                 <p>Bugun xarajat qilmadingiz</p>
               </motion.div>
             ) : (
-              expenses.map((expense) => (
+              entries.map((item) => item.kind === "income" ? (
+                <IncomeItem
+                  key={`income-${item.entry.id}`}
+                  income={item.entry}
+                  onDelete={() => handleDeleteIncome(item.entry.id)}
+                />
+              ) : (
                 <ExpenseItem 
-                  key={expense.id} 
-                  expense={expense} 
+                  key={item.entry.id} 
+                  expense={item.entry} 
                   categories={allCategories}
-                  onDelete={() => handleDeleteExpense(expense.id)}
-                  formatCurrency={formatCurrency}
+                  onDelete={() => handleDeleteExpense(item.entry.id)}
                 />
               ))
             )}
@@ -300,6 +641,187 @@ export function ExpenseTracker() {
   );
 }
 
+function AccountsPanel({
+  accounts,
+  formatBase,
+  inputCurrency,
+}: {
+  accounts: AccountWithBalance[],
+  formatBase: (som: number) => string,
+  inputCurrency: CurrencyCode,
+}) {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("cash");
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [transferAmount, setTransferAmount] = useState("");
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: createAccount,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      haptic.success();
+      setName("");
+      setOpeningBalance("");
+    },
+    onError: () => haptic.error(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAccount,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["accounts"] }),
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: createTransfer,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      haptic.success();
+      setTransferAmount("");
+    },
+    onError: () => haptic.error(),
+  });
+
+  const parseNumber = (value: string) => parseFloat(value.replace(/\s/g, "").replace(",", "."));
+  const total = accounts.reduce((sum, a) => sum + a.balance, 0);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    createMutation.mutate({
+      name: name.trim(),
+      type,
+      openingBalance: openingBalance ? parseNumber(openingBalance) || 0 : 0,
+      currency: inputCurrency,
+    });
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseNumber(transferAmount);
+    if (!fromId || !toId || fromId === toId || !amount) {
+      haptic.error();
+      return;
+    }
+    transferMutation.mutate({ fromAccountId: parseInt(fromId), toAccountId: parseInt(toId), amount, currency: inputCurrency });
+  };
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="space-y-2">
+        {accounts.map((account) => (
+          <div
+            key={account.id}
+            className="group flex items-center justify-between p-3 rounded-lg bg-muted/50"
+            data-testid={`account-item-${account.id}`}
+          >
+            <span className="flex items-center gap-2 font-medium">
+              {getAccountIcon(account.type)} {account.name}
+            </span>
+            <div className="flex items-center gap-2">
+              <span className={cn("font-mono text-sm", account.balance < 0 && "text-destructive")}>
+                {formatBase(account.balance)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={() => deleteMutation.mutate(account.id)}
+                data-testid={`btn-delete-account-${account.id}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {accounts.length > 0 && (
+          <div className="flex justify-between px-3 text-sm font-bold">
+            <span>Jami</span>
+            <span className="font-mono" data-testid="text-accounts-total">{formatBase(total)}</span>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <p className="text-sm font-medium">Yangi hisob</p>
+        <div className="flex gap-2">
+          <Select value={type} onValueChange={(value) => isAccountType(value) && setType(value)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACCOUNT_TYPES.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.icon} {t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nomi"
+            className="flex-1"
+            data-testid="input-account-name"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            step="any"
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(e.target.value)}
+            placeholder={`Boshlang'ich qoldiq (${CURRENCIES[inputCurrency].symbol})`}
+            className="flex-1 font-mono"
+            data-testid="input-account-balance"
+          />
+          <Button type="submit" size="icon" disabled={!name.trim() || createMutation.isPending} data-testid="btn-add-account">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </form>
+
+      {accounts.length >= 2 && (
+        <form onSubmit={handleTransfer} className="space-y-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <ArrowRightLeft className="w-4 h-4" /> O'tkazma
+          </p>
+          <div className="flex gap-2">
+            {[{ value: fromId, set: setFromId, label: "Qayerdan" }, { value: toId, set: setToId, label: "Qayerga" }].map((field) => (
+              <Select key={field.label} value={field.value} onValueChange={field.set}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={field.label} />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={String(account.id)}>
+                      {getAccountIcon(account.type)} {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              step="any"
+              value={transferAmount}
+              onChange={(e) => setTransferAmount(e.target.value)}
+              placeholder={`Summa (${CURRENCIES[inputCurrency].symbol})`}
+              className="flex-1 font-mono"
+              data-testid="input-transfer-amount"
+            />
+            <Button type="submit" size="icon" disabled={transferMutation.isPending} data-testid="btn-add-transfer">
+              <Check className="w-4 h-4" />
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
 function CategoryManager({ categories, onClose }: { categories: ExpenseCategory[], onClose: () => void }) {
   const [newCategoryName, setNewCategoryName] = useState("");
   const [newCategoryIcon, setNewCategoryIcon] = useState("wallet");
@@ -476,12 +998,10 @@ function ExpenseItem({
   expense, 
   categories,
   onDelete, 
-  formatCurrency 
 }: { 
   expense: Expense, 
   categories: { id: number; name: string; icon: string }[],
   onDelete: () => void, 
-  formatCurrency: (v: number) => string 
 }) {
   const cat = categories.find(c => c.name === expense.category);
   const Icon = cat ? getIconComponent(cat.icon) : Wallet;
@@ -507,7 +1027,9 @@ function ExpenseItem({
       
       <div className="flex items-center gap-3">
         <span className="font-mono font-bold text-destructive">
-          -{formatCurrency(expense.amount)}
+          -{expense.originalAmount != null && isCurrencyCode(expense.currency)
+            ? formatMoney(expense.originalAmount, expense.currency)
+            : formatMoney(expense.amount)}
         </span>
         <Button 
           variant="ghost" 
@@ -522,3 +1044,45 @@ function ExpenseItem({
     </motion.div>
   );
 }
+
+function IncomeItem({ income, onDelete }: { income: Income, onDelete: () => void }) {
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, height: 0 }}
+      className="group flex items-center justify-between p-3 rounded-xl bg-card border border-border/50 hover:border-primary/20 transition-all"
+      data-testid={`income-item-${income.id}`}
+    >
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-full bg-green-500/10 flex items-center justify-center text-lg">
+          {getIncomeSourceIcon(income.source)}
+        </div>
+        <div>
+          <p className="font-medium leading-none">{income.description}</p>
+          <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+            <TrendingUp className="w-3 h-3" /> {income.source}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="font-mono font-bold text-green-600">
+          +{income.originalAmount != null && isCurrencyCode(income.currency)
+            ? formatMoney(income.originalAmount, income.currency)
+            : formatMoney(income.amount)}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onDelete}
+          className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+          data-testid={`btn-delete-income-${income.id}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, Upload, Check, FileText } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { IMPORT_FIELDS, IMPORT_FIELD_LABELS, type ColumnMapping, type ImportRow } from "@shared/csv";
+import { formatMoney } from "@shared/currency";
+import { haptic } from "@/lib/telegram";
+import { cn } from "@/lib/utils";
+import { format, startOfMonth } from "date-fns";
+
+type ExportDataset = "expenses" | "tasks" | "goals";
+
+const DATASET_LABELS: Record<ExportDataset, string> = {
+  expenses: "Xarajatlar",
+  tasks: "Vazifalar",
+  goals: "Maqsadlar",
+};
+
+type ImportRowStatus = "new" | "duplicate" | "credit" | "invalid";
+
+interface ImportPreview {
+  headers: string[] | null;
+  columnCount: number;
+  mapping: ColumnMapping;
+  rows: Array<ImportRow & { status: ImportRowStatus }>;
+  counts: Record<ImportRowStatus, number>;
+}
+
+interface ImportResult extends Record<ImportRowStatus, number> {
+  imported: number;
+  failed: number;
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: "Yangi", className: "text-green-600" },
+  duplicate: { label: "Takror", className: "text-muted-foreground" },
+  credit: { label: "Kirim", className: "text-primary" },
+  invalid: { label: "Xato", className: "text-destructive" },
+};
+
+async function importCsv(csv: string, mapping: ColumnMapping | null, dryRun: boolean): Promise<ImportPreview | ImportResult> {
+  const params = new URLSearchParams({ dryRun: String(dryRun) });
+  if (mapping) params.set("mapping", JSON.stringify(mapping));
+  const res = await fetch(`/api/import/expenses?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv" },
+    body: csv,
+  });
+  if (!res.ok) throw new Error("Failed to import expenses");
+  return res.json();
+}
+
+export function ImportExportPanel() {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [dataset, setDataset] = useState<ExportDataset>("expenses");
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [csv, setCsv] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: ({ text, mapping }: { text: string; mapping: ColumnMapping | null }) => importCsv(text, mapping, true),
+    onSuccess: (data) => setPreview(data as ImportPreview),
+    onError: () => haptic.error(),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => importCsv(csv!, preview!.mapping, false),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      haptic.success();
+      setResult(data as ImportResult);
+      setPreview(null);
+      setCsv(null);
+    },
+    onError: () => haptic.error(),
+  });
+
+  const exportUrl = (fileFormat: "csv" | "xlsx") =>
+    `/api/export?${new URLSearchParams({ dataset, format: fileFormat, from, to })}`;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const text = await file.text();
+    setCsv(text);
+    setResult(null);
+    previewMutation.mutate({ text, mapping: null });
+  };
+
+  const changeMapping = (field: keyof ColumnMapping, value: string) => {
+    if (!csv || !preview) return;
+    const mapping = { ...preview.mapping };
+    if (value === "none") delete mapping[field];
+    else mapping[field] = parseInt(value);
+    previewMutation.mutate({ text: csv, mapping });
+  };
+
+  const columnLabel = (index: number) => {
+    const header = preview?.headers?.[index];
+    return `${index + 1}-ustun${header ? `: ${header}` : ""}`;
+  };
+
+  return (
+    <div className="mt-6 space-y-8">
+      <div className="space-y-3">
+        <h3 className="font-serif font-semibold">Yuklab olish</h3>
+        <Select value={dataset} onValueChange={(value) => setDataset(value as ExportDataset)}>
+          <SelectTrigger data-testid="select-export-dataset">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DATASET_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-export-from" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-export-to" />
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" className={cn("flex-1", from > to && "pointer-events-none opacity-50")}>
+            <a href={exportUrl("xlsx")} download data-testid="btn-export-xlsx">
+              <Download className="w-4 h-4 mr-2" /> Excel
+            </a>
+          </Button>
+          <Button asChild variant="outline" className={cn("flex-1", from > to && "pointer-events-none opacity-50")}>
+            <a href={exportUrl("csv")} download data-testid="btn-export-csv">
+              <Download className="w-4 h-4 mr-2" /> CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-serif font-semibold">Oylik hisobot (PDF)</h3>
+          <p className="text-xs text-muted-foreground">Kategoriyalar, byudjet, o'tgan oy bilan solishtirish va grafiklar</p>
+        </div>
+        <div className="flex gap-2">
+          <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="flex-1" data-testid="input-statement-month" />
+          <Button asChild variant="outline" className={cn(!month && "pointer-events-none opacity-50")}>
+            <a href={`/api/statement?month=${month}`} download data-testid="btn-statement-pdf">
+              <FileText className="w-4 h-4 mr-2" /> PDF
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-serif font-semibold">CSV import</h3>
+          <p className="text-xs text-muted-foreground">Saqlashdan oldin natija ko'rsatiladi, takrorlar o'tkazib yuboriladi</p>
+        </div>
+        <Button asChild variant="outline" className="w-full">
+          <label className="cursor-pointer" data-testid="btn-import-file">
+            <Upload className="w-4 h-4 mr-2" /> CSV fayl tanlash
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          </label>
+        </Button>
+
+        {result && (
+          <div className="p-3 rounded-lg bg-muted/50 text-sm" data-testid="import-result">
+            ✅ {result.imported} ta saqlandi · {result.duplicate} takror · {result.credit} kirim · {result.invalid} xato
+            {result.failed > 0 && <div className="text-destructive">{result.failed} ta valyuta kursi yo'qligi uchun saqlanmadi</div>}
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">{IMPORT_FIELD_LABELS[field]}</span>
+                  <Select
+                    value={preview.mapping[field] !== undefined ? String(preview.mapping[field]) : "none"}
+                    onValueChange={(value) => changeMapping(field, value)}
+                  >
+                    <SelectTrigger className="h-8 text-xs" data-testid={`select-mapping-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">—</SelectItem>
+                      {Array.from({ length: preview.columnCount }, (_, i) => (
+                        <SelectItem key={i} value={String(i)}>{columnLabel(i)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3 text-xs">
+              {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map((status) => (
+                <span key={status} className={STATUS_STYLES[status].className}>
+                  {STATUS_STYLES[status].label}: {preview.counts[status]}
+                </span>
+              ))}
+            </div>
+
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {preview.rows.slice(0, 50).map((row) => (
+                <div key={row.line} className="flex items-center justify-between gap-2 text-xs p-2 rounded bg-muted/30" data-testid={`import-row-${row.line}`}>
+                  <div className="min-w-0">
+                    <div className="truncate">{row.description || "—"}</div>
+                    <div className="text-muted-foreground">
+                      {row.date ?? "?"}{row.category ? ` · ${row.category}` : ""}{row.error ? ` · ${row.error}` : ""}
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="font-mono">{row.amount ? formatMoney(row.amount, row.currency) : "—"}</div>
+                    <div className={cn("font-medium", STATUS_STYLES[row.status].className)}>{STATUS_STYLES[row.status].label}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              className="w-full"
+              disabled={preview.counts.new === 0 || importMutation.isPending || previewMutation.isPending}
+              onClick={() => importMutation.mutate()}
+              data-testid="btn-import-confirm"
+            >
+              <Check className="w-4 h-4 mr-2" /> {preview.counts.new} ta xarajatni saqlash
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
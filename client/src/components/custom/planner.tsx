@@ -4,9 +4,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   CheckCircle2, 
+  CircleStop,
   Clock, 
   Flag, 
   Plus, 
+  Repeat,
   Trash2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -18,8 +20,21 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Task, InsertTask } from "@shared/schema";
+import type { Task, InsertTask, RecurringTask, InsertRecurringTask } from "@shared/schema";
+import { parseTaskInput } from "@shared/uz-parser";
+import {
+  FREQUENCY_LABELS,
+  WEEKDAY_SHORT_NAMES,
+  describeRecurrence,
+  formatDaysOfWeek,
+  getUzbekistanDateString,
+  getWeekday,
+  uzDateTimeToUTC,
+  type RecurrenceFrequency,
+} from "@shared/recurrence";
 import { useState } from "react";
+import { useTelegramMainButton } from "@/hooks/use-telegram";
+import { haptic } from "@/lib/telegram";
 
 export type Priority = "high" | "medium" | "low";
 
@@ -39,6 +54,28 @@ async function createTask(task: InsertTask): Promise<Task> {
   return res.json();
 }
 
+async function fetchRecurringTasks(): Promise<RecurringTask[]> {
+  const res = await fetch("/api/recurring-tasks");
+  if (!res.ok) throw new Error("Failed to fetch recurring tasks");
+  return res.json();
+}
+
+async function createRecurringTask(data: InsertRecurringTask): Promise<{ recurringTask: RecurringTask; task: Task | null }> {
+  const res = await fetch("/api/recurring-tasks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) throw new Error("Failed to create recurring task");
+  return res.json();
+}
+
+// Stops future instances; tasks already created stay in the list
+async function stopRecurringTask(id: number): Promise<void> {
+  const res = await fetch(`/api/recurring-tasks/${id}`, { method: "DELETE" });
+  if (!res.ok) throw new Error("Failed to stop recurring task");
+}
+
 async function updateTask(id: number, updates: Partial<InsertTask>): Promise<Task> {
   const res = await fetch(`/api/tasks/${id}`, {
     method: "PATCH",
@@ -54,9 +91,12 @@ async function deleteTask(id: number): Promise<void> {
   if (!res.ok) throw new Error("Failed to delete task");
 }
 
-export function PlannerWidget() {
+export function PlannerWidget({ active = false }: { active?: boolean }) {
   const [newTask, setNewTask] = useState("");
   const [selectedPriority, setSelectedPriority] = useState<Priority>("medium");
+  const [recurrence, setRecurrence] = useState<RecurrenceFrequency | "none">("none");
+  const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+  const [recurrenceInterval, setRecurrenceInterval] = useState("2");
   const queryClient = useQueryClient();
 
   const { data: tasks = [] } = useQuery({
@@ -64,12 +104,34 @@ export function PlannerWidget() {
     queryFn: fetchTasks,
   });
 
+  const { data: recurringTasks = [] } = useQuery({
+    queryKey: ["recurring-tasks"],
+    queryFn: fetchRecurringTasks,
+  });
+
   const createMutation = useMutation({
     mutationFn: createTask,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      haptic.success();
+      setNewTask("");
+    },
+    onError: () => haptic.error(),
+  });
+
+  const createRecurringMutation = useMutation({
+    mutationFn: createRecurringTask,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      haptic.success();
       setNewTask("");
+      setRecurrence("none");
+      setRecurrenceDays([]);
     },
+    onError: () => haptic.error(),
   });
 
   const updateMutation = useMutation({
@@ -77,39 +139,100 @@ export function PlannerWidget() {
       updateTask(id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
     },
   });
 
+  const stopRecurringMutation = useMutation({
+    mutationFn: stopRecurringTask,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-tasks"] });
+      haptic.success();
+    },
+    onError: () => haptic.error(),
+  });
+
   const deleteMutation = useMutation({
     mutationFn: deleteTask,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
     },
   });
 
   const activeTasks = tasks.filter(t => !t.completed);
   const completedTasks = tasks.filter(t => t.completed);
 
-  const addTask = (e: React.FormEvent) => {
-    e.preventDefault();
+  const submitTask = () => {
     if (!newTask.trim()) return;
 
+    // Dates follow Uzbekistan time like the bot and the scheduler, whatever the browser's timezone
+    const now = new Date();
+    const todayStr = getUzbekistanDateString(now);
+    // "ertaga soat 9da shifokorga" -> title, date, time and priority
+    const parsed = parseTaskInput(newTask, todayStr);
+    const priority = parsed.priority ?? selectedPriority;
+
+    if (recurrence !== "none") {
+      createRecurringMutation.mutate({
+        text: parsed.title,
+        priority,
+        frequency: recurrence,
+        interval: recurrence === "interval" ? Math.max(1, parseInt(recurrenceInterval) || 1) : 1,
+        daysOfWeek: recurrence === "weekly"
+          ? formatDaysOfWeek(recurrenceDays.length > 0 ? recurrenceDays : [getWeekday(todayStr)])
+          : null,
+        dayOfMonth: recurrence === "monthly" ? Number(todayStr.slice(8)) : null,
+        time: parsed.time,
+        startDate: todayStr,
+      });
+      return;
+    }
+
+    const reminderTime = parsed.time ? uzDateTimeToUTC(parsed.date ?? todayStr, parsed.time) : null;
     createMutation.mutate({
-      text: newTask,
+      text: parsed.title,
       completed: false,
-      priority: selectedPriority,
-      time: new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' }),
+      priority,
+      time: parsed.time ?? now.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Tashkent' }),
+      reminderTime: reminderTime && reminderTime > now ? reminderTime : null,
     });
   };
 
+  const addTask = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitTask();
+  };
+
+  const isSaving = createMutation.isPending || createRecurringMutation.isPending;
+
+  // In the Mini App the native bottom button submits the form
+  useTelegramMainButton({
+    text: "Vazifa qo'shish",
+    visible: active && newTask.trim().length > 0,
+    loading: isSaving,
+    onClick: submitTask,
+  });
+
   const toggleTask = (task: Task) => {
+    haptic.impact();
     updateMutation.mutate({
       id: task.id,
       updates: { completed: !task.completed },
     });
   };
 
+  const toggleRecurrenceDay = (day: number) => {
+    setRecurrenceDays(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day]);
+  };
+
+  const handleStopRecurring = (id: number) => {
+    haptic.warning();
+    stopRecurringMutation.mutate(id);
+  };
+
   const handleDelete = (id: number) => {
+    haptic.warning();
     deleteMutation.mutate(id);
   };
 
@@ -134,8 +257,8 @@ export function PlannerWidget() {
           <Input 
             value={newTask}
             onChange={(e) => setNewTask(e.target.value)}
-            placeholder="Yangi vazifa yozing..." 
-            className="pr-24 py-6 text-lg bg-background shadow-sm border-muted-foreground/20 focus-visible:ring-primary rounded-2xl"
+            placeholder="Yangi vazifa yozing... (masalan: ertaga soat 9da shifokorga)" 
+            className="pr-32 py-6 text-lg bg-background shadow-sm border-muted-foreground/20 focus-visible:ring-primary rounded-2xl"
             data-testid="input-new-task"
           />
           <div className="absolute right-2 top-2 bottom-2 flex items-center gap-1">
@@ -157,29 +280,85 @@ export function PlannerWidget() {
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full hover:bg-muted" data-testid="btn-recurrence">
+                  <Repeat className={cn("w-4 h-4", recurrence === "none" ? "text-muted-foreground" : "text-primary")} />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setRecurrence("none")}>
+                  Takrorlanmaydi
+                </DropdownMenuItem>
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                  <DropdownMenuItem key={frequency} onClick={() => setRecurrence(frequency)}>
+                    <Repeat className="w-4 h-4 mr-2 text-primary" /> {FREQUENCY_LABELS[frequency]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             
             <Button 
               type="submit" 
               size="icon" 
               className="h-8 w-8 rounded-xl bg-primary text-primary-foreground hover:bg-primary/90 shadow-md"
               data-testid="btn-add-task"
-              disabled={createMutation.isPending}
+              disabled={isSaving}
             >
               <Plus className="w-5 h-5" />
             </Button>
           </div>
         </form>
+
+        {recurrence !== "none" && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Repeat className="w-3 h-3" /> {FREQUENCY_LABELS[recurrence]}
+            </span>
+            {recurrence === "weekly" && [1, 2, 3, 4, 5, 6, 0].map((day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleRecurrenceDay(day)}
+                className={cn(
+                  "w-8 h-8 rounded-full border text-xs font-medium transition-colors",
+                  recurrenceDays.includes(day)
+                    ? "bg-primary border-primary text-primary-foreground"
+                    : "border-muted-foreground/30 hover:border-primary"
+                )}
+                data-testid={`btn-recurrence-day-${day}`}
+              >
+                {WEEKDAY_SHORT_NAMES[day]}
+              </button>
+            ))}
+            {recurrence === "interval" && (
+              <Input
+                type="number"
+                min={1}
+                max={365}
+                value={recurrenceInterval}
+                onChange={(e) => setRecurrenceInterval(e.target.value)}
+                className="w-20 h-8 rounded-lg"
+                data-testid="input-recurrence-interval"
+              />
+            )}
+          </div>
+        )}
       </div>
 
       <Tabs defaultValue="active" className="flex-1 flex flex-col overflow-hidden">
         <div className="px-6 pt-4">
-          <TabsList className="grid w-full grid-cols-2 bg-muted/50 p-1 rounded-xl">
+          <TabsList className="grid w-full grid-cols-3 bg-muted/50 p-1 rounded-xl">
             <TabsTrigger value="active" className="rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm">
               Jarayonda ({activeTasks.length})
             </TabsTrigger>
             <TabsTrigger value="completed" className="rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm">
               Bajarilgan ({completedTasks.length})
             </TabsTrigger>
+            <TabsTrigger value="recurring" className="rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm">
+              Takroriy ({recurringTasks.length})
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -233,6 +412,31 @@ export function PlannerWidget() {
                 )}
               </AnimatePresence>
             </TabsContent>
+
+            <TabsContent value="recurring" className="mt-0 space-y-3">
+              <AnimatePresence mode="popLayout">
+                {recurringTasks.length === 0 ? (
+                  <motion.div 
+                    initial={{ opacity: 0 }} 
+                    animate={{ opacity: 1 }}
+                    className="flex flex-col items-center justify-center h-40 text-muted-foreground text-center"
+                  >
+                    <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-3">
+                      <Repeat className="w-6 h-6 opacity-20" />
+                    </div>
+                    <p>Takroriy vazifalar yo'q</p>
+                  </motion.div>
+                ) : (
+                  recurringTasks.map((rule) => (
+                    <RecurringTaskItem
+                      key={rule.id}
+                      rule={rule}
+                      onStop={() => handleStopRecurring(rule.id)}
+                    />
+                  ))
+                )}
+              </AnimatePresence>
+            </TabsContent>
           </ScrollArea>
         </div>
       </Tabs>
@@ -287,6 +491,11 @@ function TaskItem({ task, onToggle, onDelete }: { task: Task; onToggle: () => vo
               <span className="w-1.5 h-1.5 rounded-full bg-secondary" /> {task.category}
             </span>
           )}
+          {task.recurringTaskId && (
+            <span className="flex items-center gap-1">
+              <Repeat className="w-3 h-3" /> Takroriy
+            </span>
+          )}
         </div>
       </div>
 
@@ -306,6 +515,49 @@ function TaskItem({ task, onToggle, onDelete }: { task: Task; onToggle: () => vo
   );
 }
 
+function RecurringTaskItem({ rule, onStop }: { rule: RecurringTask; onStop: () => void }) {
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="group relative flex items-start gap-3 p-4 rounded-2xl border bg-card border-border hover:border-primary/30 hover:shadow-sm transition-all duration-300"
+      data-testid={`recurring-task-item-${rule.id}`}
+    >
+      <div className="mt-1 shrink-0 w-6 h-6 rounded-full bg-primary/10 text-primary flex items-center justify-center">
+        <Repeat className="w-3.5 h-3.5" />
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-medium leading-snug break-words">{rule.text}</p>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{describeRecurrence(rule)}</span>
+          {rule.time && (
+            <span className="flex items-center gap-1 bg-muted px-2 py-0.5 rounded-md">
+              <Clock className="w-3 h-3" /> {rule.time}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity absolute right-3 top-3 bg-card/80 backdrop-blur-sm p-1 rounded-lg shadow-sm border border-border/50">
+         <PriorityBadge priority={rule.priority as Priority} />
+         <Button 
+           variant="ghost" 
+           size="icon" 
+           className="h-7 w-7 text-destructive hover:bg-destructive/10" 
+           onClick={onStop}
+           title="To'xtatish"
+           data-testid={`btn-stop-recurring-${rule.id}`}
+         >
+           <CircleStop className="w-4 h-4" />
+         </Button>
+      </div>
+    </motion.div>
+  );
+}
+
 function PriorityBadge({ priority }: { priority: Priority }) {
   const colors = {
     high: "text-destructive bg-destructive/10",
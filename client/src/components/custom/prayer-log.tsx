@@ -0,0 +1,164 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { CalendarDays, Moon } from "lucide-react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PRAYER_NAMES, REMINDER_PRAYERS, type ReminderPrayer } from "@shared/prayer-reminder";
+import type { PrayerLogOverview, PrayerLogStatus } from "@shared/prayer-log";
+import type { StatsRange } from "@shared/stats";
+import { presetRange } from "@/lib/stats";
+import { haptic } from "@/lib/telegram";
+
+async function fetchPrayerLog(range: StatsRange): Promise<PrayerLogOverview> {
+  const params = new URLSearchParams({ from: range.from, to: range.to });
+  const res = await fetch(`/api/prayer-log?${params}`);
+  if (!res.ok) throw new Error("Failed to fetch prayer log");
+  return res.json();
+}
+
+async function setPrayerStatus(entry: { date: string; prayer: ReminderPrayer; status: PrayerLogStatus | null }): Promise<void> {
+  const res = await fetch("/api/prayer-log", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(entry),
+  });
+  if (!res.ok) throw new Error("Failed to update prayer log");
+}
+
+async function makeUpQaza(prayer: ReminderPrayer): Promise<void> {
+  const res = await fetch("/api/prayer-log/make-up", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ prayer }),
+  });
+  if (!res.ok) throw new Error("Failed to record make-up prayer");
+}
+
+// Clicking a cell moves it through unmarked → prayed → qaza → unmarked, as in the bot
+function nextStatus(status: PrayerLogStatus | null): PrayerLogStatus | null {
+  if (status === null) return "prayed";
+  return status === "prayed" ? "qaza" : null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  prayed: "bg-primary text-primary-foreground",
+  qaza: "bg-amber-400/80 text-amber-950",
+  none: "bg-muted text-muted-foreground",
+};
+
+export function PrayerLogWidget() {
+  const range = presetRange("week");
+  const queryClient = useQueryClient();
+
+  const { data: log } = useQuery({
+    queryKey: ["prayer-log", range.from, range.to],
+    queryFn: () => fetchPrayerLog(range),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: setPrayerStatus,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prayer-log"] });
+      haptic.selection();
+    },
+    onError: () => haptic.error(),
+  });
+
+  const makeUpMutation = useMutation({
+    mutationFn: makeUpQaza,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prayer-log"] });
+      haptic.success();
+    },
+    onError: () => haptic.error(),
+  });
+
+  const owed = REMINDER_PRAYERS.filter(prayer => (log?.qaza.outstanding[prayer] ?? 0) > 0);
+
+  return (
+    <Card className="border-border/40 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-serif flex items-center gap-2">
+          <Moon className="w-5 h-5 text-primary" /> Namoz daftari
+        </CardTitle>
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/prayer-times" data-testid="link-prayer-times">
+            <CalendarDays className="w-4 h-4 mr-2" /> Vaqtlar jadvali
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Oxirgi 7 kun, o'z vaqtida</span>
+            <span className="text-muted-foreground font-mono">
+              {log ? `${log.consistency.prayed}/${log.consistency.total} · ${log.consistency.percent}%` : "—"}
+            </span>
+          </div>
+          <Progress value={log?.consistency.percent ?? 0} />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm" data-testid="prayer-log-table">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-medium py-1">Sana</th>
+                {REMINDER_PRAYERS.map(prayer => (
+                  <th key={prayer} className="font-medium py-1">{PRAYER_NAMES[prayer]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(log?.days ?? []).map(day => (
+                <tr key={day.date}>
+                  <td className="py-1 font-mono text-muted-foreground">{day.date.slice(8, 10)}.{day.date.slice(5, 7)}</td>
+                  {REMINDER_PRAYERS.map(prayer => {
+                    const status = day.prayers[prayer];
+                    return (
+                      <td key={prayer} className="py-1 text-center">
+                        <button
+                          type="button"
+                          className={`w-8 h-8 rounded-lg transition-colors ${STATUS_STYLES[status ?? "none"]}`}
+                          title={status === "prayed" ? "O'qildi" : status === "qaza" ? "Qazo" : "Belgilanmagan"}
+                          onClick={() => statusMutation.mutate({ date: day.date, prayer, status: nextStatus(status) })}
+                          data-testid={`prayer-cell-${day.date}-${prayer}`}
+                        >
+                          {status === "prayed" ? "✓" : status === "qaza" ? "⏳" : ""}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Qazo qarzi</span>
+            <span className="text-muted-foreground font-mono">
+              {log ? `${log.qaza.total} ta${log.qaza.madeUp > 0 ? ` · ado qilingan ${log.qaza.madeUp}` : ""}` : "—"}
+            </span>
+          </div>
+          {owed.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {owed.map(prayer => (
+                <Button
+                  key={prayer}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => makeUpMutation.mutate(prayer)}
+                  data-testid={`btn-makeup-${prayer}`}
+                >
+                  {PRAYER_NAMES[prayer]} ({log!.qaza.outstanding[prayer]}) — o'qidim
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
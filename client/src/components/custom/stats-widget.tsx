@@ -1,34 +1,128 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
 import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip, PieChart, Pie, Cell } from "recharts";
-import { CheckCircle2, TrendingUp, Wallet } from "lucide-react";
-
-const taskData = [
-  { name: "Du", completed: 8, total: 12 },
-  { name: "Se", completed: 10, total: 12 },
-  { name: "Ch", completed: 7, total: 10 },
-  { name: "Pa", completed: 12, total: 14 },
-  { name: "Ju", completed: 9, total: 10 },
-  { name: "Sh", completed: 5, total: 8 },
-  { name: "Ya", completed: 6, total: 6 },
-];
-
-const expenseData = [
-  { name: "Ovqat", value: 450000, color: "hsl(150, 40%, 30%)" },
-  { name: "Yo'l", value: 120000, color: "hsl(45, 60%, 50%)" },
-  { name: "Xarid", value: 850000, color: "hsl(170, 30%, 40%)" },
-  { name: "To'lov", value: 300000, color: "hsl(30, 50%, 60%)" },
-];
+import { CheckCircle2, Flame, Target, Timer, TrendingUp, Wallet } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import type { HabitDayStat, StatsRange } from "@shared/stats";
+import { WEEKDAY_SHORT_NAMES } from "@shared/recurrence";
+import { fetchStatsOverview, presetRange, type StatsPreset } from "@/lib/stats";
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map(n => `hsl(var(--chart-${n}))`);
+
+const PRESET_LABELS: Record<StatsPreset, string> = {
+  week: "Hafta",
+  month: "Oy",
+  custom: "Boshqa",
+};
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat('uz-UZ', { style: 'currency', currency: 'UZS', maximumFractionDigits: 0 }).format(value);
+}
+
+// 1 700 000 -> "1.7m", 450 000 -> "450k"
+function formatCompact(value: number) {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, "")}m`;
+  if (value >= 1_000) return `${Math.round(value / 1_000)}k`;
+  return String(value);
+}
+
+// Weekday names for a week, day.month once the range gets longer
+function dayLabel(date: string, rangeDays: number) {
+  const [year, month, day] = date.split("-").map(Number);
+  if (rangeDays <= 7) return WEEKDAY_SHORT_NAMES[new Date(year, month - 1, day).getDay()];
+  return `${String(day).padStart(2, "0")}.${String(month).padStart(2, "0")}`;
+}
+
+// Heatmap columns are Monday-to-Sunday weeks; days outside the range are left blank
+function heatmapWeeks(days: HabitDayStat[]): (HabitDayStat | null)[][] {
+  if (days.length === 0) return [];
+  const [year, month, day] = days[0].date.split("-").map(Number);
+  const padding = (new Date(year, month - 1, day).getDay() + 6) % 7;
+  const cells: (HabitDayStat | null)[] = [...Array(padding).fill(null), ...days];
+  const weeks: (HabitDayStat | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+}
+
+function heatmapColor(day: HabitDayStat, habitCount: number) {
+  if (day.done === 0) return day.frozen > 0 ? "bg-sky-300/70" : "bg-muted";
+  const share = habitCount > 0 ? day.done / habitCount : 1;
+  if (share >= 1) return "bg-primary";
+  if (share >= 0.5) return "bg-primary/60";
+  return "bg-primary/30";
+}
 
 export function StatsWidget() {
+  const [preset, setPreset] = useState<StatsPreset>("week");
+  const [customRange, setCustomRange] = useState<StatsRange>(() => presetRange("week"));
+
+  const range = preset === "custom" ? customRange : presetRange(preset);
+  const validRange = range.from <= range.to;
+
+  const { data: stats } = useQuery({
+    queryKey: ["stats", range.from, range.to],
+    queryFn: () => fetchStatsOverview(range),
+    enabled: validRange,
+  });
+
+  const taskData = (stats?.tasksByDay ?? []).map(day => ({
+    name: dayLabel(day.date, stats!.tasksByDay.length),
+    completed: day.completed,
+    total: day.total,
+  }));
+
+  const expenseData = (stats?.expensesByCategory ?? []).map((row, index) => ({
+    name: row.category,
+    value: row.total,
+    color: CHART_COLORS[index % CHART_COLORS.length],
+  }));
+
+  const goals = stats?.goals ?? [];
+  const habits = stats?.habits ?? [];
+  const weeks = heatmapWeeks(stats?.habitsByDay ?? []);
+
   return (
     <div className="space-y-6 h-full overflow-y-auto pb-20 md:pb-0">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <Tabs value={preset} onValueChange={(value) => setPreset(value as StatsPreset)}>
+          <TabsList>
+            {(Object.keys(PRESET_LABELS) as StatsPreset[]).map((key) => (
+              <TabsTrigger key={key} value={key} data-testid={`stats-range-${key}`}>
+                {PRESET_LABELS[key]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {preset === "custom" && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={customRange.from}
+              max={customRange.to}
+              onChange={(e) => e.target.value && setCustomRange(r => ({ ...r, from: e.target.value }))}
+              className="bg-background w-[150px]"
+            />
+            <span className="text-muted-foreground">—</span>
+            <Input
+              type="date"
+              value={customRange.to}
+              min={customRange.from}
+              onChange={(e) => e.target.value && setCustomRange(r => ({ ...r, to: e.target.value }))}
+              className="bg-background w-[150px]"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="bg-primary text-primary-foreground border-none shadow-md">
           <CardContent className="p-6 flex items-center justify-between">
             <div>
-              <p className="text-primary-foreground/80 text-sm font-medium">Haftalik Unumdorlik</p>
-              <h3 className="text-3xl font-bold mt-2">85%</h3>
+              <p className="text-primary-foreground/80 text-sm font-medium">Unumdorlik</p>
+              <h3 className="text-3xl font-bold mt-2">{stats ? `${stats.summary.completionRate}%` : "—"}</h3>
             </div>
             <div className="bg-primary-foreground/20 p-3 rounded-full">
               <TrendingUp className="w-6 h-6" />
@@ -39,7 +133,7 @@ export function StatsWidget() {
           <CardContent className="p-6 flex items-center justify-between">
             <div>
               <p className="text-muted-foreground text-sm font-medium">Bajarilgan Vazifalar</p>
-              <h3 className="text-3xl font-bold mt-2 text-primary">42</h3>
+              <h3 className="text-3xl font-bold mt-2 text-primary">{stats ? stats.summary.tasksCompleted : "—"}</h3>
             </div>
             <div className="bg-muted p-3 rounded-full text-muted-foreground">
               <CheckCircle2 className="w-6 h-6" />
@@ -49,14 +143,25 @@ export function StatsWidget() {
         <Card>
           <CardContent className="p-6 flex items-center justify-between">
             <div>
-              <p className="text-muted-foreground text-sm font-medium">Haftalik Xarajat</p>
-              <h3 className="text-3xl font-bold mt-2 text-destructive">1.7m</h3>
+              <p className="text-muted-foreground text-sm font-medium">Xarajat</p>
+              <h3 className="text-3xl font-bold mt-2 text-destructive">{stats ? formatCompact(stats.summary.expensesTotal) : "—"}</h3>
             </div>
             <div className="bg-muted p-3 rounded-full text-muted-foreground">
               <Wallet className="w-6 h-6" />
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="p-6 flex items-center justify-between">
+            <div>
+              <p className="text-muted-foreground text-sm font-medium">Fokus</p>
+              <h3 className="text-3xl font-bold mt-2">{stats ? `${(stats.summary.focusMinutes / 60).toFixed(1)} soat` : "—"}</h3>
+            </div>
+            <div className="bg-muted p-3 rounded-full text-muted-foreground">
+              <Timer className="w-6 h-6" />
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -80,6 +185,7 @@ export function StatsWidget() {
                     fontSize={12} 
                     tickLine={false} 
                     axisLine={false} 
+                    allowDecimals={false}
                     tickFormatter={(value) => `${value}`} 
                   />
                   <Tooltip 
@@ -88,12 +194,14 @@ export function StatsWidget() {
                   />
                   <Bar 
                     dataKey="total" 
+                    name="Jami"
                     fill="hsl(var(--muted))" 
                     radius={[4, 4, 0, 0]} 
                     stackId="a"
                   />
                   <Bar 
                     dataKey="completed" 
+                    name="Bajarildi"
                     fill="hsl(var(--primary))" 
                     radius={[4, 4, 0, 0]} 
                     stackId="b"
@@ -111,27 +219,31 @@ export function StatsWidget() {
           </CardHeader>
           <CardContent>
             <div className="h-[300px] w-full flex items-center justify-center">
-              <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={expenseData}
-                    cx="50%"
-                    cy="50%"
-                    innerRadius={60}
-                    outerRadius={80}
-                    paddingAngle={5}
-                    dataKey="value"
-                  >
-                    {expenseData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.color} stroke="none" />
-                    ))}
-                  </Pie>
-                  <Tooltip 
-                    formatter={(value: number) => new Intl.NumberFormat('uz-UZ', { style: 'currency', currency: 'UZS', maximumFractionDigits: 0 }).format(value)}
-                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
-                  />
-                </PieChart>
-              </ResponsiveContainer>
+              {expenseData.length === 0 ? (
+                <p className="text-muted-foreground text-sm">Bu davrda xarajat yo'q</p>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={expenseData}
+                      cx="50%"
+                      cy="50%"
+                      innerRadius={60}
+                      outerRadius={80}
+                      paddingAngle={5}
+                      dataKey="value"
+                    >
+                      {expenseData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={entry.color} stroke="none" />
+                      ))}
+                    </Pie>
+                    <Tooltip 
+                      formatter={(value: number) => formatCurrency(value)}
+                      contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                    />
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
             </div>
             <div className="flex flex-wrap justify-center gap-4 mt-4">
               {expenseData.map((entry, index) => (
@@ -144,6 +256,76 @@ export function StatsWidget() {
           </CardContent>
         </Card>
       </div>
+
+      <Card className="border-border/40 shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-lg font-serif flex items-center gap-2">
+            <Target className="w-5 h-5 text-primary" /> Maqsadlar
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {goals.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Bu davrda maqsad yo'q. Maqsadlarni botda qo'shishingiz mumkin.</p>
+          ) : (
+            goals.map((goal) => (
+              <div key={goal.id} className="space-y-2" data-testid={`goal-progress-${goal.id}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{goal.title}</span>
+                  <span className="text-muted-foreground font-mono">
+                    {goal.type === "savings"
+                      ? `${formatCompact(goal.currentCount)}/${formatCompact(goal.targetCount)} ${goal.currency === "UZS" ? "so'm" : goal.currency}`
+                      : `${goal.currentCount}/${goal.targetCount}`} · {goal.percent}%
+                  </span>
+                </div>
+                <Progress value={goal.percent} />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/40 shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-lg font-serif flex items-center gap-2">
+            <Flame className="w-5 h-5 text-primary" /> Odatlar
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {habits.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Odatlar yo'q. Ularni botda qo'shishingiz mumkin.</p>
+          ) : (
+            <>
+              <div className="flex gap-1 overflow-x-auto" data-testid="habit-heatmap">
+                {weeks.map((week, index) => (
+                  <div key={index} className="flex flex-col gap-1">
+                    {week.map((day, dayIndex) =>
+                      day ? (
+                        <div
+                          key={day.date}
+                          className={`w-4 h-4 rounded-sm ${heatmapColor(day, habits.length)}`}
+                          title={`${day.date}: ${day.done}/${habits.length} bajarildi${day.frozen > 0 ? `, ${day.frozen} muzlatilgan` : ""}`}
+                        />
+                      ) : (
+                        <div key={`pad-${dayIndex}`} className="w-4 h-4" />
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                {habits.map((habit) => (
+                  <div key={habit.id} className="flex items-center justify-between text-sm" data-testid={`habit-streak-${habit.id}`}>
+                    <span className="font-medium">{habit.title}</span>
+                    <span className="text-muted-foreground font-mono">
+                      🔥 {habit.current} {habit.frequency === "weekly" ? "hafta" : "kun"} · rekord {habit.best}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
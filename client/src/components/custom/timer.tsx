@@ -1,41 +1,160 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
-import { Play, Pause, RotateCcw, Coffee } from "lucide-react";
+import { Play, Square, Coffee } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { FocusSession, Task } from "@shared/schema";
+import { haptic } from "@/lib/telegram";
+
+type Mode = "focus" | "break";
+
+const PRESETS: Record<Mode, number[]> = {
+  focus: [25, 50],
+  break: [5, 15],
+};
+
+async function fetchActiveSession(): Promise<FocusSession | null> {
+  const res = await fetch("/api/focus-sessions/active");
+  if (!res.ok) throw new Error("Failed to fetch focus session");
+  return res.json();
+}
+
+async function fetchTasks(): Promise<Task[]> {
+  const res = await fetch("/api/tasks");
+  if (!res.ok) throw new Error("Failed to fetch tasks");
+  return res.json();
+}
+
+async function startSession(data: { mode: Mode; durationMinutes: number; taskId: number | null }): Promise<FocusSession> {
+  const res = await fetch("/api/focus-sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) throw new Error("Failed to start focus session");
+  return res.json();
+}
+
+async function finishSession(id: number, outcome: "complete" | "abandon"): Promise<FocusSession> {
+  const res = await fetch(`/api/focus-sessions/${id}/${outcome}`, { method: "POST" });
+  if (!res.ok) throw new Error(`Failed to ${outcome} focus session`);
+  return res.json();
+}
+
+// A short two-tone chime; browsers without Web Audio just stay silent
+function playChime() {
+  try {
+    const audio = new AudioContext();
+    [880, 660].forEach((frequency, i) => {
+      const oscillator = audio.createOscillator();
+      const gain = audio.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, audio.currentTime + i * 0.25);
+      gain.gain.exponentialRampToValueAtTime(0.001, audio.currentTime + i * 0.25 + 0.4);
+      oscillator.connect(gain).connect(audio.destination);
+      oscillator.start(audio.currentTime + i * 0.25);
+      oscillator.stop(audio.currentTime + i * 0.25 + 0.4);
+    });
+    setTimeout(() => audio.close(), 1000);
+  } catch {
+    // ignore
+  }
+}
+
+function secondsUntil(endsAt: Date | string): number {
+  return Math.max(0, Math.round((new Date(endsAt).getTime() - Date.now()) / 1000));
+}
 
 export function FocusTimer() {
-  const [timeLeft, setTimeLeft] = useState(25 * 60);
-  const [isActive, setIsActive] = useState(false);
-  const [mode, setMode] = useState<"focus" | "break">("focus");
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<Mode>("focus");
+  const [duration, setDuration] = useState(PRESETS.focus[0]);
+  const [taskId, setTaskId] = useState<number | null>(null);
+  const [timeLeft, setTimeLeft] = useState(duration * 60);
+  const [justFinished, setJustFinished] = useState(false);
+  const completingRef = useRef<number | null>(null);
+
+  // The server owns the timer, so a session started in the bot or another tab shows up here too
+  const { data: session } = useQuery({
+    queryKey: ["focus-session"],
+    queryFn: fetchActiveSession,
+  });
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ["tasks"],
+    queryFn: fetchTasks,
+  });
+  const pendingTasks = tasks.filter(task => !task.completed);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["focus-session"] });
+    queryClient.invalidateQueries({ queryKey: ["stats"] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: startSession,
+    onSuccess: (started) => {
+      queryClient.setQueryData(["focus-session"], started);
+      setJustFinished(false);
+      haptic.impact("medium");
+    },
+  });
+
+  const finishMutation = useMutation({
+    mutationFn: ({ id, outcome }: { id: number; outcome: "complete" | "abandon" }) => finishSession(id, outcome),
+    onSuccess: (_, { outcome }) => {
+      queryClient.setQueryData(["focus-session"], null);
+      if (outcome === "complete") {
+        haptic.success();
+        playChime();
+        setJustFinished(true);
+      } else {
+        haptic.warning();
+      }
+      invalidate();
+    },
+    onSettled: () => {
+      completingRef.current = null;
+    },
+  });
+
+  const isActive = !!session;
+  const activeMode: Mode = session ? (session.mode as Mode) : mode;
+  const totalSeconds = (session ? session.durationMinutes : duration) * 60;
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft((seconds) => seconds - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      setIsActive(false);
-      // Play sound or notify
+    if (!session) {
+      setTimeLeft(duration * 60);
+      return;
     }
 
+    const tick = () => {
+      const left = secondsUntil(session.endsAt);
+      setTimeLeft(left);
+      if (left === 0 && completingRef.current !== session.id) {
+        completingRef.current = session.id;
+        finishMutation.mutate({ id: session.id, outcome: "complete" });
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [isActive, timeLeft]);
+  }, [session, duration]);
 
-  const toggleTimer = () => setIsActive(!isActive);
-
-  const resetTimer = () => {
-    setIsActive(false);
-    setTimeLeft(mode === "focus" ? 25 * 60 : 5 * 60);
+  const switchMode = (newMode: Mode) => {
+    if (isActive) return;
+    setMode(newMode);
+    setDuration(PRESETS[newMode][0]);
+    setJustFinished(false);
   };
 
-  const switchMode = (newMode: "focus" | "break") => {
-    setMode(newMode);
-    setIsActive(false);
-    setTimeLeft(newMode === "focus" ? 25 * 60 : 5 * 60);
+  const toggleTimer = () => {
+    if (session) {
+      finishMutation.mutate({ id: session.id, outcome: "abandon" });
+    } else {
+      startMutation.mutate({ mode, durationMinutes: duration, taskId: mode === "focus" ? taskId : null });
+    }
   };
 
   const formatTime = (seconds: number) => {
@@ -44,25 +163,30 @@ export function FocusTimer() {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const progress = mode === "focus" 
-    ? ((25 * 60 - timeLeft) / (25 * 60)) * 100 
-    : ((5 * 60 - timeLeft) / (5 * 60)) * 100;
+  const progress = ((totalSeconds - timeLeft) / totalSeconds) * 100;
+  const activeTask = session?.taskId ? tasks.find(task => task.id === session.taskId) : undefined;
+
+  let statusText = "Tayyormisiz?";
+  if (isActive) statusText = activeMode === "focus" ? "Diqqat qiling" : "Dam oling";
+  else if (justFinished) statusText = mode === "focus" ? "Barakalla! Tugadi" : "Tanaffus tugadi";
 
   return (
     <Card className="border-none shadow-lg bg-card/50 backdrop-blur-sm">
       <CardContent className="p-8 flex flex-col items-center gap-6">
         <div className="flex items-center gap-2 bg-muted/50 p-1 rounded-full">
           <Button
-            variant={mode === "focus" ? "default" : "ghost"}
+            variant={activeMode === "focus" ? "default" : "ghost"}
             onClick={() => switchMode("focus")}
+            disabled={isActive && activeMode !== "focus"}
             className="rounded-full px-6 transition-all"
             data-testid="btn-mode-focus"
           >
             Diqqat (Focus)
           </Button>
           <Button
-            variant={mode === "break" ? "secondary" : "ghost"}
+            variant={activeMode === "break" ? "secondary" : "ghost"}
             onClick={() => switchMode("break")}
+            disabled={isActive && activeMode !== "break"}
             className="rounded-full px-6 transition-all"
             data-testid="btn-mode-break"
           >
@@ -70,6 +194,23 @@ export function FocusTimer() {
           </Button>
         </div>
 
+        {!isActive && (
+          <div className="flex items-center gap-2">
+            {PRESETS[mode].map(minutes => (
+              <Button
+                key={minutes}
+                size="sm"
+                variant={duration === minutes ? "secondary" : "outline"}
+                className="rounded-full"
+                onClick={() => setDuration(minutes)}
+                data-testid={`btn-duration-${minutes}`}
+              >
+                {minutes} daq
+              </Button>
+            ))}
+          </div>
+        )}
+
         <div className="relative flex items-center justify-center w-64 h-64">
           <svg className="w-full h-full transform -rotate-90">
             <circle
@@ -92,7 +233,7 @@ export function FocusTimer() {
               strokeDashoffset={2 * Math.PI * 120 * (1 - progress / 100)}
               className={cn(
                 "transition-all duration-1000 ease-linear",
-                mode === "focus" ? "text-primary" : "text-secondary"
+                activeMode === "focus" ? "text-primary" : "text-secondary"
               )}
             />
           </svg>
@@ -100,23 +241,31 @@ export function FocusTimer() {
             <span className="text-6xl font-mono font-bold tracking-tighter" data-testid="text-timer">
               {formatTime(timeLeft)}
             </span>
-            <span className="text-muted-foreground mt-2 font-medium">
-              {isActive ? (mode === "focus" ? "Diqqat qiling" : "Dam oling") : "Tayyormisiz?"}
-            </span>
+            <span className="text-muted-foreground mt-2 font-medium">{statusText}</span>
           </div>
         </div>
 
-        <div className="flex items-center gap-4">
-          <Button
-            size="lg"
-            variant="outline"
-            className="rounded-full w-14 h-14 p-0 border-2"
-            onClick={resetTimer}
-            data-testid="btn-reset"
+        {activeTask && (
+          <p className="text-sm text-muted-foreground text-center max-w-xs truncate" data-testid="text-focus-task">
+            📝 {activeTask.text}
+          </p>
+        )}
+
+        {!isActive && mode === "focus" && pendingTasks.length > 0 && (
+          <select
+            value={taskId ?? ""}
+            onChange={(e) => setTaskId(e.target.value ? parseInt(e.target.value) : null)}
+            className="w-full max-w-xs rounded-md border border-input bg-background px-3 py-2 text-sm"
+            data-testid="select-focus-task"
           >
-            <RotateCcw className="w-5 h-5" />
-          </Button>
-          
+            <option value="">Vazifasiz</option>
+            {pendingTasks.map(task => (
+              <option key={task.id} value={task.id}>{task.text}</option>
+            ))}
+          </select>
+        )}
+
+        <div className="flex items-center gap-4">
           <Button
             size="lg"
             className={cn(
@@ -124,16 +273,17 @@ export function FocusTimer() {
               isActive ? "bg-destructive hover:bg-destructive/90" : "bg-primary hover:bg-primary/90"
             )}
             onClick={toggleTimer}
+            disabled={startMutation.isPending || finishMutation.isPending}
             data-testid="btn-toggle"
           >
             {isActive ? (
-              <Pause className="w-8 h-8" />
+              <Square className="w-7 h-7" />
             ) : (
               <Play className="w-8 h-8 ml-1" />
             )}
           </Button>
 
-          {mode === "focus" && (
+          {!isActive && mode === "focus" && (
              <Button
              size="lg"
              variant="outline"
@@ -0,0 +1,63 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { getWebApp, type TelegramLoginUser } from "@/lib/telegram";
+
+export interface AuthUser {
+  telegramUserId: string;
+  firstName: string | null;
+  username: string | null;
+}
+
+const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+export function useAuth() {
+  const queryClient = useQueryClient();
+  const webApp = getWebApp();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onLoggedIn = async (res: Response) => {
+    const loggedIn: AuthUser = await res.json();
+    // Anything cached before login belonged to nobody
+    queryClient.clear();
+    queryClient.setQueryData(AUTH_QUERY_KEY, loggedIn);
+  };
+
+  const webAppLogin = useMutation({
+    mutationFn: (initData: string) => apiRequest("POST", "/api/auth/telegram-webapp", { initData }),
+    onSuccess: onLoggedIn,
+  });
+
+  const widgetLogin = useMutation({
+    mutationFn: (data: TelegramLoginUser) => apiRequest("POST", "/api/auth/telegram-login", data),
+    onSuccess: onLoggedIn,
+  });
+
+  const logout = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/logout"),
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+
+  // Inside Telegram the launch data is enough to sign in without any prompt
+  useEffect(() => {
+    if (!isLoading && !user && webApp && webAppLogin.isIdle) {
+      webAppLogin.mutate(webApp.initData);
+    }
+  }, [isLoading, user, webApp, webAppLogin]);
+
+  return {
+    user: user ?? null,
+    isLoading: isLoading || webAppLogin.isPending,
+    isMiniApp: !!webApp,
+    error: webAppLogin.error || widgetLogin.error,
+    loginWithWidget: widgetLogin.mutate,
+    logout: logout.mutate,
+  };
+}
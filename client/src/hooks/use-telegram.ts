@@ -0,0 +1,90 @@
+import { useEffect, useRef } from "react";
+import { applyTelegramTheme, getWebApp } from "@/lib/telegram";
+
+// Follows the Telegram client's colors, including live light/dark switches
+export function useTelegramTheme() {
+  useEffect(() => {
+    const webApp = getWebApp();
+    if (!webApp) return;
+
+    webApp.ready();
+    webApp.expand();
+    const apply = () => applyTelegramTheme(webApp);
+    apply();
+    webApp.onEvent("themeChanged", apply);
+    return () => webApp.offEvent("themeChanged", apply);
+  }, []);
+}
+
+interface MainButtonOptions {
+  text: string;
+  visible: boolean;
+  disabled?: boolean;
+  loading?: boolean;
+  onClick: () => void;
+}
+
+// Telegram's native bottom button, driven by whichever form is on screen
+export function useTelegramMainButton({ text, visible, disabled = false, loading = false, onClick }: MainButtonOptions) {
+  const onClickRef = useRef(onClick);
+  onClickRef.current = onClick;
+
+  useEffect(() => {
+    const button = getWebApp()?.MainButton;
+    if (!button || !visible) return;
+
+    const handleClick = () => onClickRef.current();
+    button.setText(text);
+    button.onClick(handleClick);
+    button.show();
+    return () => {
+      button.offClick(handleClick);
+      button.hide();
+    };
+  }, [text, visible]);
+
+  useEffect(() => {
+    const button = getWebApp()?.MainButton;
+    if (!button || !visible) return;
+
+    if (disabled) button.disable();
+    else button.enable();
+    if (loading) button.showProgress();
+    else button.hideProgress();
+  }, [visible, disabled, loading]);
+}
+
+// Screens that want the header back arrow stack up; only the innermost one
+// (e.g. a sheet over a tab) handles the press
+const backHandlers: Array<{ current: () => void }> = [];
+
+function syncBackButton() {
+  const button = getWebApp()?.BackButton;
+  if (!button) return;
+  if (backHandlers.length > 0) button.show();
+  else button.hide();
+}
+
+function handleBackPress() {
+  backHandlers[backHandlers.length - 1]?.current();
+}
+
+export function useTelegramBackButton(active: boolean, onBack: () => void) {
+  const onBackRef = useRef(onBack);
+  onBackRef.current = onBack;
+
+  useEffect(() => {
+    const button = getWebApp()?.BackButton;
+    if (!button || !active) return;
+
+    const entry = { current: () => onBackRef.current() };
+    if (backHandlers.length === 0) button.onClick(handleBackPress);
+    backHandlers.push(entry);
+    syncBackButton();
+    return () => {
+      backHandlers.splice(backHandlers.indexOf(entry), 1);
+      if (backHandlers.length === 0) button.offClick(handleBackPress);
+      syncBackButton();
+    };
+  }, [active]);
+}
@@ -0,0 +1,25 @@
+import { format, subDays } from "date-fns";
+import type { StatsOverview, StatsRange } from "@shared/stats";
+
+export type StatsPreset = "week" | "month" | "custom";
+
+export function todayString(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+// Presets end today: the last 7 or 30 days including today
+export function presetRange(preset: Exclude<StatsPreset, "custom">): StatsRange {
+  const today = new Date();
+  const days = preset === "week" ? 7 : 30;
+  return {
+    from: format(subDays(today, days - 1), "yyyy-MM-dd"),
+    to: format(today, "yyyy-MM-dd"),
+  };
+}
+
+export async function fetchStatsOverview(range: StatsRange): Promise<StatsOverview> {
+  const params = new URLSearchParams({ from: range.from, to: range.to });
+  const res = await fetch(`/api/stats/overview?${params}`);
+  if (!res.ok) throw new Error("Failed to fetch statistics");
+  return res.json();
+}
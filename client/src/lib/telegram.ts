@@ -0,0 +1,184 @@
+// Telegram Mini App bridge, injected by telegram-web-app.js when the dashboard is
+// opened from inside Telegram. In a regular browser `window.Telegram` is missing.
+
+export interface TelegramThemeParams {
+  bg_color?: string;
+  text_color?: string;
+  hint_color?: string;
+  link_color?: string;
+  button_color?: string;
+  button_text_color?: string;
+  secondary_bg_color?: string;
+  header_bg_color?: string;
+  accent_text_color?: string;
+  section_bg_color?: string;
+  destructive_text_color?: string;
+}
+
+interface TelegramBottomButton {
+  isVisible: boolean;
+  setText(text: string): void;
+  show(): void;
+  hide(): void;
+  enable(): void;
+  disable(): void;
+  showProgress(leaveActive?: boolean): void;
+  hideProgress(): void;
+  onClick(callback: () => void): void;
+  offClick(callback: () => void): void;
+}
+
+interface TelegramBackButton {
+  show(): void;
+  hide(): void;
+  onClick(callback: () => void): void;
+  offClick(callback: () => void): void;
+}
+
+interface TelegramHapticFeedback {
+  impactOccurred(style: "light" | "medium" | "heavy" | "rigid" | "soft"): void;
+  notificationOccurred(type: "error" | "success" | "warning"): void;
+  selectionChanged(): void;
+}
+
+export interface TelegramWebApp {
+  initData: string;
+  colorScheme: "light" | "dark";
+  themeParams: TelegramThemeParams;
+  MainButton: TelegramBottomButton;
+  BackButton: TelegramBackButton;
+  HapticFeedback: TelegramHapticFeedback;
+  ready(): void;
+  expand(): void;
+  setHeaderColor(color: string): void;
+  setBackgroundColor(color: string): void;
+  onEvent(event: "themeChanged", callback: () => void): void;
+  offEvent(event: "themeChanged", callback: () => void): void;
+}
+
+export interface TelegramLoginUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number;
+  hash: string;
+}
+
+declare global {
+  interface Window {
+    Telegram?: { WebApp?: TelegramWebApp };
+    onTelegramAuth?: (user: TelegramLoginUser) => void;
+  }
+}
+
+export function getWebApp(): TelegramWebApp | null {
+  const webApp = window.Telegram?.WebApp;
+  // The script also loads in a normal browser, but initData is only filled inside Telegram
+  return webApp && webApp.initData ? webApp : null;
+}
+
+// Telegram Web and Desktop open the Mini App in a cross-site iframe where the session
+// cookie isn't sent, so inside Telegram every API call carries the signed launch data
+export function sendInitDataWithApiRequests() {
+  const webApp = getWebApp();
+  if (!webApp) return;
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), window.location.href);
+    if (url.origin !== window.location.origin || !url.pathname.startsWith("/api/")) {
+      return originalFetch(input, init);
+    }
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    headers.set("X-Telegram-Init-Data", webApp.initData);
+    return originalFetch(input, { ...init, headers });
+  };
+}
+
+export const TELEGRAM_BOT_USERNAME = import.meta.env.VITE_TELEGRAM_BOT_USERNAME as string | undefined;
+
+// "#2481cc" -> "207 70% 47%", the bare HSL triple our CSS tokens are written in
+function hexToHslTriple(hex: string): string | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 16);
+  const r = ((value >> 16) & 255) / 255;
+  const g = ((value >> 8) & 255) / 255;
+  const b = (value & 255) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+
+  let hue = 0;
+  let saturation = 0;
+  if (max !== min) {
+    const delta = max - min;
+    saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue *= 60;
+  }
+
+  return `${Math.round(hue)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+}
+
+// Which Telegram theme color drives each design token from index.css. Tokens whose
+// param is missing keep the app's own palette.
+const THEME_TOKENS: Record<string, Array<keyof TelegramThemeParams>> = {
+  "--background": ["bg_color"],
+  "--foreground": ["text_color"],
+  "--card": ["section_bg_color", "bg_color"],
+  "--card-foreground": ["text_color"],
+  "--popover": ["section_bg_color", "bg_color"],
+  "--popover-foreground": ["text_color"],
+  "--primary": ["button_color"],
+  "--primary-foreground": ["button_text_color"],
+  "--muted": ["secondary_bg_color"],
+  "--muted-foreground": ["hint_color"],
+  "--accent": ["secondary_bg_color"],
+  "--accent-foreground": ["accent_text_color", "text_color"],
+  "--destructive": ["destructive_text_color"],
+  "--border": ["secondary_bg_color"],
+  "--input": ["secondary_bg_color"],
+  "--ring": ["button_color"],
+};
+
+export function applyTelegramTheme(webApp: TelegramWebApp) {
+  const root = document.documentElement;
+  root.classList.toggle("dark", webApp.colorScheme === "dark");
+
+  for (const [token, params] of Object.entries(THEME_TOKENS)) {
+    const color = params.map(param => webApp.themeParams[param]).find(Boolean);
+    const hsl = color ? hexToHslTriple(color) : null;
+    if (hsl) root.style.setProperty(token, hsl);
+    else root.style.removeProperty(token);
+  }
+
+  if (webApp.themeParams.bg_color) {
+    webApp.setHeaderColor(webApp.themeParams.bg_color);
+    webApp.setBackgroundColor(webApp.themeParams.bg_color);
+  }
+}
+
+// Haptics are no-ops outside Telegram, so components can call them unconditionally
+export const haptic = {
+  impact(style: "light" | "medium" | "heavy" = "light") {
+    getWebApp()?.HapticFeedback.impactOccurred(style);
+  },
+  success() {
+    getWebApp()?.HapticFeedback.notificationOccurred("success");
+  },
+  warning() {
+    getWebApp()?.HapticFeedback.notificationOccurred("warning");
+  },
+  error() {
+    getWebApp()?.HapticFeedback.notificationOccurred("error");
+  },
+  selection() {
+    getWebApp()?.HapticFeedback.selectionChanged();
+  },
+};
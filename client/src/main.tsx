@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { sendInitDataWithApiRequests } from "./lib/telegram";
 import "./index.css";
 
+sendInitDataWithApiRequests();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -3,14 +3,37 @@ import { PlannerWidget } from "@/components/custom/planner";
 import { QuoteCard } from "@/components/custom/quote-card";
 import { ExpenseTracker } from "@/components/custom/expense-tracker";
 import { StatsWidget } from "@/components/custom/stats-widget";
+import { PrayerLogWidget } from "@/components/custom/prayer-log";
 import { SettingsWidget } from "@/components/custom/settings-widget";
 import { Button } from "@/components/ui/button";
-import { Settings, PieChart, Calendar, LayoutGrid, Home, ListTodo, User, Wallet } from "lucide-react";
+import { Settings, PieChart, Calendar, LayoutGrid, Home, ListTodo, User, Wallet, LogOut } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { useTelegramBackButton } from "@/hooks/use-telegram";
+import { haptic } from "@/lib/telegram";
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchStatsOverview, todayString } from "@/lib/stats";
+
+type Tab = "home" | "planner" | "expenses" | "stats" | "settings";
 
 export default function Dashboard() {
-  const [activeTab, setActiveTab] = useState<"home" | "planner" | "expenses" | "stats" | "settings">("home");
+  const [activeTab, setActiveTab] = useState<Tab>("home");
+  const { user, isMiniApp, logout } = useAuth();
+
+  const openTab = (tab: Tab) => {
+    if (tab !== activeTab) haptic.selection();
+    setActiveTab(tab);
+  };
+
+  const today = todayString();
+  const { data: todayStats } = useQuery({
+    queryKey: ["stats", today, today],
+    queryFn: () => fetchStatsOverview({ from: today, to: today }),
+  });
+
+  // Inside Telegram the header back arrow returns to the home tab
+  useTelegramBackButton(activeTab !== "home", () => openTab("home"));
 
   return (
     <div className="min-h-screen bg-background text-foreground pb-24 md:pb-8 transition-colors duration-300">
@@ -24,12 +47,13 @@ export default function Dashboard() {
           </div>
           
           <div className="flex gap-2 bg-card/50 backdrop-blur-sm p-1.5 rounded-2xl border border-border/40 shadow-sm">
-            <NavButton icon={<LayoutGrid className="w-5 h-5" />} active={activeTab === "home"} onClick={() => setActiveTab("home")} />
-            <NavButton icon={<Calendar className="w-5 h-5" />} active={activeTab === "planner"} onClick={() => setActiveTab("planner")} />
-            <NavButton icon={<Wallet className="w-5 h-5" />} active={activeTab === "expenses"} onClick={() => setActiveTab("expenses")} />
-            <NavButton icon={<PieChart className="w-5 h-5" />} active={activeTab === "stats"} onClick={() => setActiveTab("stats")} />
+            <NavButton icon={<LayoutGrid className="w-5 h-5" />} active={activeTab === "home"} onClick={() => openTab("home")} />
+            <NavButton icon={<Calendar className="w-5 h-5" />} active={activeTab === "planner"} onClick={() => openTab("planner")} />
+            <NavButton icon={<Wallet className="w-5 h-5" />} active={activeTab === "expenses"} onClick={() => openTab("expenses")} />
+            <NavButton icon={<PieChart className="w-5 h-5" />} active={activeTab === "stats"} onClick={() => openTab("stats")} />
             <div className="w-px h-6 bg-border mx-1 self-center" />
-            <NavButton icon={<Settings className="w-5 h-5" />} active={activeTab === "settings"} onClick={() => setActiveTab("settings")} />
+            <NavButton icon={<Settings className="w-5 h-5" />} active={activeTab === "settings"} onClick={() => openTab("settings")} />
+            {!isMiniApp && <NavButton icon={<LogOut className="w-5 h-5" />} onClick={() => logout()} />}
           </div>
         </header>
 
@@ -41,12 +65,19 @@ export default function Dashboard() {
              </div>
              <div>
                 <h1 className="text-xl font-bold text-foreground font-serif">Barakali Vaqt</h1>
-                <p className="text-xs text-muted-foreground">Xush kelibsiz</p>
+                <p className="text-xs text-muted-foreground">Xush kelibsiz{user?.firstName ? `, ${user.firstName}` : ""}</p>
              </div>
           </div>
-          <Button variant="ghost" size="icon" className="rounded-full" onClick={() => setActiveTab("settings")}>
-            <Settings className="w-5 h-5" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="rounded-full" onClick={() => openTab("settings")}>
+              <Settings className="w-5 h-5" />
+            </Button>
+            {!isMiniApp && (
+              <Button variant="ghost" size="icon" className="rounded-full" onClick={() => logout()}>
+                <LogOut className="w-5 h-5" />
+              </Button>
+            )}
+          </div>
         </header>
 
         {/* Dashboard Grid */}
@@ -65,8 +96,13 @@ export default function Dashboard() {
             
             {/* Quick Stats */}
             <div className="grid grid-cols-2 gap-4">
-              <StatCard label="Fokus (soat)" value="4.5" trend="+12%" />
-              <StatCard label="Vazifalar" value="8/12" trend="66%" color="text-secondary" />
+              <StatCard label="Fokus (soat)" value={todayStats ? (todayStats.summary.focusMinutes / 60).toFixed(1) : "—"} />
+              <StatCard
+                label="Vazifalar"
+                value={todayStats ? `${todayStats.summary.tasksCompleted}/${todayStats.summary.tasksTotal}` : "—"}
+                trend={todayStats ? `${todayStats.summary.completionRate}%` : undefined}
+                color="text-secondary"
+              />
             </div>
           </div>
 
@@ -74,15 +110,16 @@ export default function Dashboard() {
           <div className={cn("lg:col-span-8 h-full space-y-6", activeTab === "home" && "hidden lg:block")}>
             
             <div className={cn(activeTab !== "planner" && activeTab !== "home" && "hidden", activeTab === "expenses" && "hidden", activeTab === "stats" && "hidden", activeTab === "settings" && "hidden")}>
-               <PlannerWidget />
+               <PlannerWidget active={activeTab === "planner"} />
             </div>
             
             <div className={cn(activeTab !== "expenses" && "hidden")}>
-               <ExpenseTracker />
+               <ExpenseTracker active={activeTab === "expenses"} />
             </div>
 
-            <div className={cn(activeTab !== "stats" && "hidden")}>
+            <div className={cn("space-y-6", activeTab !== "stats" && "hidden")}>
                <StatsWidget />
+               <PrayerLogWidget />
             </div>
 
             <div className={cn(activeTab !== "settings" && "hidden")}>
@@ -101,25 +138,25 @@ export default function Dashboard() {
             icon={<Home className="w-6 h-6" />} 
             label="Asosiy" 
             active={activeTab === "home"} 
-            onClick={() => setActiveTab("home")} 
+            onClick={() => openTab("home")} 
           />
           <MobileNavButton 
             icon={<ListTodo className="w-6 h-6" />} 
             label="Rejalar" 
             active={activeTab === "planner"} 
-            onClick={() => setActiveTab("planner")} 
+            onClick={() => openTab("planner")} 
           />
           <MobileNavButton 
             icon={<Wallet className="w-6 h-6" />} 
             label="Xarajat" 
             active={activeTab === "expenses"} 
-            onClick={() => setActiveTab("expenses")} 
+            onClick={() => openTab("expenses")} 
           />
           <MobileNavButton 
             icon={<PieChart className="w-6 h-6" />} 
             label="Statistika" 
             active={activeTab === "stats"} 
-            onClick={() => setActiveTab("stats")} 
+            onClick={() => openTab("stats")} 
           />
         </div>
       </div>
@@ -158,15 +195,17 @@ function MobileNavButton({ icon, label, active, onClick }: { icon: React.ReactNo
   );
 }
 
-function StatCard({ label, value, trend, color = "text-primary" }: { label: string, value: string, trend: string, color?: string }) {
+function StatCard({ label, value, trend, color = "text-primary" }: { label: string, value: string, trend?: string, color?: string }) {
   return (
     <div className="bg-card p-5 rounded-2xl shadow-sm border border-border/40 flex flex-col justify-between hover:shadow-md transition-all duration-300">
       <span className="text-sm text-muted-foreground font-medium">{label}</span>
       <div className="flex items-end justify-between mt-2">
         <span className={cn("text-3xl font-serif font-bold", color)}>{value}</span>
-        <span className="text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 px-2 py-1 rounded-full">
-          {trend}
-        </span>
+        {trend && (
+          <span className="text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 px-2 py-1 rounded-full">
+            {trend}
+          </span>
+        )}
       </div>
     </div>
   );
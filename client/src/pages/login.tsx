@@ -0,0 +1,70 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Spinner } from "@/components/ui/spinner";
+import { LayoutGrid } from "lucide-react";
+import { TELEGRAM_BOT_USERNAME, type TelegramLoginUser } from "@/lib/telegram";
+
+interface LoginProps {
+  isMiniApp: boolean;
+  error: Error | null;
+  onLogin: (user: TelegramLoginUser) => void;
+}
+
+export default function Login({ isMiniApp, error, onLogin }: LoginProps) {
+  const widgetRef = useRef<HTMLDivElement>(null);
+
+  // The Login Widget is a script that renders its own iframe button and calls back
+  // through a global function once the user confirms in Telegram
+  useEffect(() => {
+    if (isMiniApp || !TELEGRAM_BOT_USERNAME || !widgetRef.current) return;
+
+    window.onTelegramAuth = onLogin;
+    const script = document.createElement("script");
+    script.src = "https://telegram.org/js/telegram-widget.js?22";
+    script.async = true;
+    script.setAttribute("data-telegram-login", TELEGRAM_BOT_USERNAME);
+    script.setAttribute("data-size", "large");
+    script.setAttribute("data-radius", "12");
+    script.setAttribute("data-request-access", "write");
+    script.setAttribute("data-onauth", "onTelegramAuth(user)");
+
+    const container = widgetRef.current;
+    container.appendChild(script);
+    return () => {
+      container.innerHTML = "";
+      delete window.onTelegramAuth;
+    };
+  }, [isMiniApp, onLogin]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-4">
+      <Card className="w-full max-w-md border-border/40 shadow-sm">
+        <CardHeader className="items-center text-center space-y-3">
+          <div className="w-12 h-12 rounded-xl bg-primary flex items-center justify-center text-primary-foreground shadow-lg shadow-primary/20">
+            <LayoutGrid className="w-7 h-7" />
+          </div>
+          <CardTitle className="font-serif text-2xl">Barakali Vaqt</CardTitle>
+          <CardDescription>
+            {isMiniApp
+              ? "Telegram orqali kirilmoqda..."
+              : "Vazifa va xarajatlaringizni ko'rish uchun Telegram orqali kiring"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {isMiniApp && !error && <Spinner className="size-6 text-primary" />}
+          {!isMiniApp && <div ref={widgetRef} className="min-h-[48px]" />}
+          {!isMiniApp && !TELEGRAM_BOT_USERNAME && (
+            <p className="text-sm text-muted-foreground text-center">
+              Kirish uchun botni oching va "Ilovani ochish" tugmasini bosing.
+            </p>
+          )}
+          {error && (
+            <p className="text-sm text-destructive text-center">
+              Kirishda xatolik yuz berdi. Iltimos, qaytadan urinib ko'ring.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Spinner } from "@/components/ui/spinner";
+import { ArrowLeft, ChevronLeft, ChevronRight, FileText, Moon } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { todayString } from "@/lib/stats";
+import { haptic } from "@/lib/telegram";
+import { useTelegramBackButton } from "@/hooks/use-telegram";
+import {
+  formatTimetableDate, formatTimetableMonth, getWeekdayShortName, shiftTimetableMonth,
+  type PrayerTimetable, type RamadanRange,
+} from "@shared/prayer-timetable";
+
+async function fetchMonthTimetable(month: string): Promise<PrayerTimetable> {
+  const res = await fetch(`/api/prayer-times/month?month=${month}`);
+  if (!res.ok) throw new Error("Failed to fetch prayer timetable");
+  return res.json();
+}
+
+async function fetchRamadanTimetable(): Promise<{ ramadan: RamadanRange; timetable: PrayerTimetable }> {
+  const res = await fetch("/api/prayer-times/ramadan");
+  if (!res.ok) throw new Error("Failed to fetch Ramadan timetable");
+  return res.json();
+}
+
+const MONTH_COLUMNS = [
+  { key: "fajr", label: "Bomdod" },
+  { key: "sunrise", label: "Quyosh" },
+  { key: "dhuhr", label: "Peshin" },
+  { key: "asr", label: "Asr" },
+  { key: "maghrib", label: "Shom" },
+  { key: "isha", label: "Xufton" },
+] as const;
+
+function MonthTable({ timetable, today }: { timetable: PrayerTimetable; today: string }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" data-testid="prayer-month-table">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-medium py-1">Sana</th>
+            {MONTH_COLUMNS.map(column => (
+              <th key={column.key} className="font-medium py-1">{column.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {timetable.days.map(day => (
+            <tr key={day.date} className={cn(day.date === today && "bg-primary/10 font-semibold")}>
+              <td className="py-1 text-muted-foreground">
+                {formatTimetableDate(day.date)} <span className="text-xs">{getWeekdayShortName(day.date)}</span>
+              </td>
+              {MONTH_COLUMNS.map(column => (
+                <td key={column.key} className="py-1 text-center">{day.times[column.key]}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RamadanTable({ timetable, today }: { timetable: PrayerTimetable; today: string }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" data-testid="imsakiya-table">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-medium py-1">Kun</th>
+            <th className="text-left font-medium py-1">Sana</th>
+            <th className="font-medium py-1">Saharlik</th>
+            <th className="font-medium py-1">Iftorlik</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {timetable.days.map(day => (
+            <tr key={day.date} className={cn(day.date === today && "bg-primary/10 font-semibold")}>
+              <td className="py-1">{day.ramadanDay}</td>
+              <td className="py-1 text-muted-foreground">
+                {formatTimetableDate(day.date)} <span className="text-xs">{getWeekdayShortName(day.date)}</span>
+              </td>
+              <td className="py-1 text-center text-primary font-semibold">{day.times.fajr}</td>
+              <td className="py-1 text-center text-primary font-semibold">{day.times.maghrib}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PrayerTimesPage() {
+  const [, navigate] = useLocation();
+  const today = todayString();
+  const [month, setMonth] = useState(today.slice(0, 7));
+
+  useTelegramBackButton(true, () => navigate("/"));
+
+  const { data: monthly, isLoading: monthLoading } = useQuery({
+    queryKey: ["prayer-times", "month", month],
+    queryFn: () => fetchMonthTimetable(month),
+  });
+
+  const { data: ramadan, isLoading: ramadanLoading } = useQuery({
+    queryKey: ["prayer-times", "ramadan"],
+    queryFn: fetchRamadanTimetable,
+  });
+
+  const changeMonth = (delta: number) => {
+    haptic.selection();
+    setMonth(shiftTimetableMonth(month, delta));
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-6">
+        <header className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" className="rounded-full" onClick={() => navigate("/")} data-testid="btn-prayer-times-back">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-primary font-serif">Namoz vaqtlari</h1>
+            <p className="text-sm text-muted-foreground">{monthly?.place ?? ramadan?.timetable.place ?? ""}</p>
+          </div>
+        </header>
+
+        <Tabs defaultValue="month">
+          <TabsList className="grid w-full grid-cols-2 bg-muted/50 p-1 rounded-xl">
+            <TabsTrigger value="month" className="rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm">
+              Oylik jadval
+            </TabsTrigger>
+            <TabsTrigger value="ramadan" className="rounded-lg data-[state=active]:bg-background data-[state=active]:shadow-sm">
+              Ramazon taqvimi
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="month">
+            <Card className="border-border/40 shadow-sm">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <Button variant="ghost" size="icon" onClick={() => changeMonth(-1)} data-testid="btn-prev-month">
+                  <ChevronLeft className="w-5 h-5" />
+                </Button>
+                <CardTitle className="text-lg font-serif">{formatTimetableMonth(month)}</CardTitle>
+                <Button variant="ghost" size="icon" onClick={() => changeMonth(1)} data-testid="btn-next-month">
+                  <ChevronRight className="w-5 h-5" />
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {monthLoading && <Spinner className="size-6 text-primary mx-auto" />}
+                {monthly && <MonthTable timetable={monthly} today={today} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="ramadan">
+            <Card className="border-border/40 shadow-sm">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg font-serif flex items-center gap-2">
+                  <Moon className="w-5 h-5 text-primary" />
+                  {ramadan ? `Ramazon ${ramadan.ramadan.from.slice(0, 4)}` : "Ramazon"}
+                </CardTitle>
+                <Button asChild variant="outline" size="sm">
+                  <a href="/api/prayer-times/imsakiya" download data-testid="btn-imsakiya-pdf">
+                    <FileText className="w-4 h-4 mr-2" /> PDF
+                  </a>
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {ramadanLoading && <Spinner className="size-6 text-primary mx-auto" />}
+                {ramadan && (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      {formatTimetableDate(ramadan.ramadan.from)} – {formatTimetableDate(ramadan.ramadan.to)} · Saharlik Bomdod kirguncha, iftorlik Shom vaqtida
+                    </p>
+                    <RamadanTable timetable={ramadan.timetable} today={today} />
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { storage } from "./storage";
+import { computeAccountBalances } from "@shared/accounts";
+import type { Account, Transfer } from "@shared/schema";
+
+export type AccountWithBalance = Account & { balance: number };
+
+export async function getAccountsWithBalances(telegramUserId: string): Promise<AccountWithBalance[]> {
+  const [accounts, expenses, incomes, transfers] = await Promise.all([
+    storage.getAccounts(telegramUserId),
+    storage.getExpenses(telegramUserId),
+    storage.getIncomes(telegramUserId),
+    storage.getTransfers(telegramUserId),
+  ]);
+
+  const balances = computeAccountBalances(accounts, expenses, incomes, transfers);
+  return accounts.map(account => ({
+    ...account,
+    balance: balances.find(b => b.accountId === account.id)?.balance ?? account.openingBalance,
+  }));
+}
+
+// Both accounts must belong to the user and differ. Returns null when they don't.
+export async function transferBetweenAccounts(
+  telegramUserId: string,
+  fromAccountId: number,
+  toAccountId: number,
+  amount: number,
+  note?: string | null,
+): Promise<Transfer | null> {
+  if (fromAccountId === toAccountId || amount <= 0) return null;
+
+  const [from, to] = await Promise.all([
+    storage.getAccount(fromAccountId, telegramUserId),
+    storage.getAccount(toAccountId, telegramUserId),
+  ]);
+  if (!from || !to) return null;
+
+  return storage.createTransfer({ fromAccountId, toAccountId, amount: Math.round(amount), note: note ?? null, telegramUserId });
+}
@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import type pg from "pg";
+import { pool } from "./db";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    telegramUserId: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      telegramUserId?: string; // set by requireAuth, from the session or the Mini App header
+    }
+  }
+}
+
+export interface TelegramAuthUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+}
+
+// Signed login payloads older than this are rejected (replay protection)
+const AUTH_MAX_AGE_SECONDS = 24 * 60 * 60;
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+function safeCompare(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function isFresh(authDate: string | undefined): boolean {
+  const timestamp = parseInt(authDate || "");
+  if (!timestamp) return false;
+  return Date.now() / 1000 - timestamp <= AUTH_MAX_AGE_SECONDS;
+}
+
+// Both payloads are signed over "key=value" lines sorted by key, excluding the hash itself
+function buildDataCheckString(fields: Record<string, string>): string {
+  return Object.keys(fields)
+    .filter(key => key !== "hash")
+    .sort()
+    .map(key => `${key}=${fields[key]}`)
+    .join("\n");
+}
+
+// Mini App launch data: https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+export function verifyWebAppInitData(initData: string, botToken: string): TelegramAuthUser | null {
+  const params = new URLSearchParams(initData);
+  const fields = Object.fromEntries(Array.from(params.entries()));
+  if (!fields.hash || !fields.user || !isFresh(fields.auth_date)) return null;
+
+  const secret = crypto.createHmac("sha256", "WebAppData").update(botToken).digest();
+  const expected = crypto.createHmac("sha256", secret).update(buildDataCheckString(fields)).digest("hex");
+  if (!safeCompare(expected, fields.hash)) return null;
+
+  try {
+    const user = JSON.parse(fields.user) as TelegramAuthUser;
+    return typeof user.id === "number" ? user : null;
+  } catch {
+    return null;
+  }
+}
+
+// Login Widget callback data: https://core.telegram.org/widgets/login#checking-authorization
+export function verifyLoginWidgetData(data: Record<string, unknown>, botToken: string): TelegramAuthUser | null {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined && value !== null) fields[key] = String(value);
+  }
+  if (!fields.hash || !fields.id || !isFresh(fields.auth_date)) return null;
+
+  const secret = crypto.createHash("sha256").update(botToken).digest();
+  const expected = crypto.createHmac("sha256", secret).update(buildDataCheckString(fields)).digest("hex");
+  if (!safeCompare(expected, fields.hash)) return null;
+
+  return {
+    id: parseInt(fields.id),
+    first_name: fields.first_name,
+    last_name: fields.last_name,
+    username: fields.username,
+  };
+}
+
+// Telegram Web and Desktop open the Mini App in a cross-site iframe where the session
+// cookie isn't sent, so the app signs every request with its launch data instead
+const INIT_DATA_HEADER = "X-Telegram-Init-Data";
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const initData = req.get(INIT_DATA_HEADER);
+  if (initData) {
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    const user = botToken ? verifyWebAppInitData(initData, botToken) : null;
+    if (!user) {
+      return res.status(401).json({ error: "Invalid Telegram init data" });
+    }
+    req.telegramUserId = user.id.toString();
+    return next();
+  }
+
+  if (!req.session.telegramUserId) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  req.telegramUserId = req.session.telegramUserId;
+  next();
+}
+
+// Only valid behind requireAuth
+export function getSessionUserId(req: Request): string {
+  return req.telegramUserId!;
+}
+
+async function startSession(req: Request, user: TelegramAuthUser): Promise<string> {
+  const telegramUserId = user.id.toString();
+
+  // A fresh session id on login so a pre-login cookie can't be fixated
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate(err => (err ? reject(err) : resolve()));
+  });
+  req.session.telegramUserId = telegramUserId;
+
+  await storage.createOrUpdateBotUser({
+    telegramUserId,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    username: user.username,
+  });
+
+  return telegramUserId;
+}
+
+export function setupAuth(app: Express) {
+  const PgStore = connectPgSimple(session);
+  const isProduction = process.env.NODE_ENV === "production";
+
+  if (isProduction && !process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Cookies are marked secure in production, which requires trusting the platform's proxy
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool: pool as pg.Pool, tableName: "session" }),
+    secret: process.env.SESSION_SECRET || "barakali-vaqt-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: "lax",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+
+  app.post("/api/auth/telegram-webapp", async (req, res) => {
+    try {
+      const botToken = process.env.TELEGRAM_BOT_TOKEN;
+      const initData = typeof req.body?.initData === "string" ? req.body.initData : "";
+      const user = botToken && initData ? verifyWebAppInitData(initData, botToken) : null;
+      if (!user) {
+        return res.status(401).json({ error: "Invalid Telegram init data" });
+      }
+      const telegramUserId = await startSession(req, user);
+      res.json({ telegramUserId, firstName: user.first_name || null, username: user.username || null });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to authenticate" });
+    }
+  });
+
+  app.post("/api/auth/telegram-login", async (req, res) => {
+    try {
+      const botToken = process.env.TELEGRAM_BOT_TOKEN;
+      const user = botToken && req.body ? verifyLoginWidgetData(req.body, botToken) : null;
+      if (!user) {
+        return res.status(401).json({ error: "Invalid Telegram login data" });
+      }
+      const telegramUserId = await startSession(req, user);
+      res.json({ telegramUserId, firstName: user.first_name || null, username: user.username || null });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to authenticate" });
+    }
+  });
+
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const telegramUserId = getSessionUserId(req);
+      const botUser = await storage.getBotUser(telegramUserId);
+      res.json({
+        telegramUserId,
+        firstName: botUser?.firstName || null,
+        username: botUser?.username || null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch user" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy(err => {
+      if (err) {
+        return res.status(500).json({ error: "Failed to log out" });
+      }
+      res.clearCookie("connect.sid");
+      res.json({ success: true });
+    });
+  });
+}
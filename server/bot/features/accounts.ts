@@ -0,0 +1,265 @@
+import { Markup } from "telegraf";
+import { storage } from "../../storage";
+import { userStates } from "../../conversation-state";
+import { convertToSom, getMoneyView, getUserCurrency } from "../../currency";
+import { getAccountsWithBalances, transferBetweenAccounts } from "../../accounts";
+import { extractAmount, extractCurrencyAmount } from "@shared/uz-parser";
+import { ACCOUNT_TYPES, getAccountIcon, isAccountType } from "@shared/accounts";
+import { defineFeature } from "../registry";
+import { formatCurrency, getTelegramUserId, checkSubscription, showSubscriptionRequired, getAccountKeyboard } from "../helpers";
+
+export const accountsFeature = defineFeature("accounts");
+
+// "2 mln", "150 000" in the user's currency or "300$"; returns so'm, or null when unreadable
+async function parseMoneyInput(text: string, telegramUserId: string): Promise<number | null> {
+  if (text.trim() === "0") return 0;
+
+  const money = extractCurrencyAmount(text);
+  const amount = money ? money.value.amount : extractAmount(text)?.value;
+  if (!amount) return null;
+
+  const currency = money?.value.currency ?? await getUserCurrency(telegramUserId);
+  const converted = await convertToSom(amount, currency);
+  return converted?.amount ?? null;
+}
+
+async function buildAccountsMenu(telegramUserId: string) {
+  const accounts = await getAccountsWithBalances(telegramUserId);
+  const money = await getMoneyView(telegramUserId);
+
+  const buttons: any[] = [];
+  let message = "🏦 *Hisoblar*\n\n";
+  if (accounts.length === 0) {
+    message += "Hali hisob qo'shilmagan.\n\nNaqd pul, Uzcard, Humo kartalari va jamg'armani alohida kuzatish uchun hisob qo'shing.";
+  } else {
+    accounts.forEach((account, i) => {
+      const branch = i === accounts.length - 1 ? "└" : "├";
+      message += `${branch} ${getAccountIcon(account.type)} ${account.name}: *${money.format(account.balance)}*\n`;
+      buttons.push([Markup.button.callback(`${getAccountIcon(account.type)} ${account.name}`, `account_view_${account.id}`)]);
+    });
+    const total = accounts.reduce((sum, a) => sum + a.balance, 0);
+    message += `\n💰 *Jami: ${money.format(total)}*`;
+  }
+
+  buttons.push([Markup.button.callback("➕ Hisob qo'shish", "account_add")]);
+  if (accounts.length >= 2) {
+    buttons.push([Markup.button.callback("🔁 Hisoblararo o'tkazma", "transfer_start")]);
+  }
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+
+  return { message, keyboard: Markup.inlineKeyboard(buttons) };
+}
+
+accountsFeature.action("menu_accounts", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Hisoblar");
+    return;
+  }
+
+  const { message, keyboard } = await buildAccountsMenu(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+accountsFeature.action(/^account_view_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const accountId = parseInt(ctx.match[1]);
+
+  const accounts = await getAccountsWithBalances(telegramUserId);
+  const account = accounts.find(a => a.id === accountId);
+  if (!account) {
+    await ctx.editMessageText("Hisob topilmadi.", Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_accounts")]]));
+    return;
+  }
+
+  const money = await getMoneyView(telegramUserId);
+  const transfers = (await storage.getTransfers(telegramUserId))
+    .filter(t => t.fromAccountId === accountId || t.toAccountId === accountId)
+    .slice(0, 5);
+
+  let message = `${getAccountIcon(account.type)} *${account.name}*\n\n`;
+  message += `💰 Balans: *${money.format(account.balance)}*\n`;
+  message += `📌 Boshlang'ich: ${money.format(account.openingBalance)}\n`;
+  if (transfers.length > 0) {
+    message += `\n🔁 *So'nggi o'tkazmalar:*\n`;
+    transfers.forEach(t => {
+      const outgoing = t.fromAccountId === accountId;
+      const other = accounts.find(a => a.id === (outgoing ? t.toAccountId : t.fromAccountId));
+      message += `• ${outgoing ? "➡️" : "⬅️"} ${other?.name ?? "o'chirilgan hisob"}: ${outgoing ? "−" : "+"}${money.format(t.amount)}\n`;
+    });
+  }
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🗑 Hisobni o'chirish", `account_delete_${account.id}`)],
+      [Markup.button.callback("🔙 Orqaga", "menu_accounts")],
+    ]),
+  });
+});
+
+accountsFeature.action(/^account_delete_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const accountId = parseInt(ctx.match[1]);
+
+  try {
+    await storage.deleteAccount(accountId, telegramUserId);
+    await ctx.answerCbQuery("Hisob o'chirildi! 🗑");
+
+    const { message, keyboard } = await buildAccountsMenu(telegramUserId);
+    await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+accountsFeature.action("account_add", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  await userStates.set(numericId, { action: "add_account", step: "type" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText("🏦 *Yangi hisob*\n\nHisob turini tanlang:", {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      ...ACCOUNT_TYPES.map(t => [Markup.button.callback(`${t.icon} ${t.name}`, `account_type_${t.id}`)]),
+      [Markup.button.callback("❌ Bekor", "menu_accounts")],
+    ]),
+  });
+});
+
+accountsFeature.action(/^account_type_(.+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  const type = ctx.match[1];
+  if (state?.action !== "add_account" || !isAccountType(type)) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const typeInfo = ACCOUNT_TYPES.find(t => t.id === type)!;
+  await userStates.set(numericId, { action: "add_account", step: "name", data: { type } });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    `${typeInfo.icon} *${typeInfo.name}*\n\nHisob nomini yozing:\n\n_Masalan: ${type === "cash" ? "Hamyon" : type === "savings" ? "Uy uchun" : `${typeInfo.name} oylik karta`}_`,
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "menu_accounts")]]) }
+  );
+});
+
+accountsFeature.action("transfer_start", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const accounts = await storage.getAccounts(getTelegramUserId(ctx));
+  await userStates.set(numericId, { action: "add_transfer", step: "from" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText("🔁 *O'tkazma*\n\nQaysi hisobdan?", {
+    parse_mode: "Markdown",
+    ...getAccountKeyboard(accounts, "transfer_from_", "menu_accounts"),
+  });
+});
+
+accountsFeature.action(/^transfer_from_(\d+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_transfer" || state.step !== "from") {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const fromAccountId = parseInt(ctx.match[1]);
+  const accounts = (await storage.getAccounts(getTelegramUserId(ctx))).filter(a => a.id !== fromAccountId);
+  await userStates.set(numericId, { action: "add_transfer", step: "to", data: { fromAccountId } });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText("🔁 *O'tkazma*\n\nQaysi hisobga?", {
+    parse_mode: "Markdown",
+    ...getAccountKeyboard(accounts, "transfer_to_", "menu_accounts"),
+  });
+});
+
+accountsFeature.action(/^transfer_to_(\d+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_transfer" || state.step !== "to") {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  await userStates.set(numericId, {
+    action: "add_transfer",
+    step: "amount",
+    data: { ...state.data, toAccountId: parseInt(ctx.match[1]) },
+  });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText("🔁 *O'tkazma*\n\nSummani kiriting:\n\n_Masalan: 500 000 yoki 100$_", {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "menu_accounts")]]),
+  });
+});
+
+accountsFeature.onText("add_account", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+  const text = ctx.message.text.trim();
+
+  if (state.step === "name") {
+    if (!text || text.length > 40) {
+      await ctx.reply("Iltimos, 40 belgidan qisqa nom yozing:");
+      return;
+    }
+    await userStates.set(numericId, { action: "add_account", step: "balance", data: { ...state.data, name: text } });
+    await ctx.reply(
+      `💰 *${text}* hisobida hozir qancha pul bor?\n\n_Masalan: 1.5 mln, 200$ yoki 0_`,
+      { parse_mode: "Markdown" }
+    );
+  } else if (state.step === "balance") {
+    const openingBalance = await parseMoneyInput(text, telegramUserId);
+    if (openingBalance === null) {
+      await ctx.reply("❌ Summani tushunmadim. Masalan: 1500000, 1.5 mln yoki 200$");
+      return;
+    }
+
+    const { type, name } = state.data ?? {};
+    if (!type || !name) return;
+    await storage.createAccount({ name, type, openingBalance, telegramUserId });
+    await userStates.delete(numericId);
+
+    const { message, keyboard } = await buildAccountsMenu(telegramUserId);
+    await ctx.reply(`✅ *${name}* hisobi qo'shildi!\n\n${message}`, { parse_mode: "Markdown", ...keyboard });
+  }
+});
+
+accountsFeature.onText("add_transfer", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+
+  if (state.step === "amount") {
+    const amount = await parseMoneyInput(ctx.message.text, telegramUserId);
+    if (!amount) {
+      await ctx.reply("❌ Summani tushunmadim. Masalan: 500000 yoki 100$");
+      return;
+    }
+
+    const { fromAccountId, toAccountId } = state.data ?? {};
+    if (!fromAccountId || !toAccountId) return;
+    const transfer = await transferBetweenAccounts(telegramUserId, fromAccountId, toAccountId, amount);
+    await userStates.delete(numericId);
+    if (!transfer) {
+      await ctx.reply("❌ O'tkazma amalga oshmadi. Hisoblarni qaytadan tanlang.",
+        Markup.inlineKeyboard([[Markup.button.callback("🔙 Hisoblar", "menu_accounts")]]));
+      return;
+    }
+
+    const { message, keyboard } = await buildAccountsMenu(telegramUserId);
+    await ctx.reply(`✅ ${formatCurrency(transfer.amount)} o'tkazildi.\n\n${message}`, { parse_mode: "Markdown", ...keyboard });
+  }
+});
@@ -0,0 +1,1136 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import { userStates } from "../../conversation-state";
+import { defineFeature, type TextContext } from "../registry";
+import { ADMIN_GROUP_ID, SUBSCRIPTION_PLANS, escapeMarkdown, formatCurrency, getTelegramUserId, invalidateSubscriptionCache } from "../helpers";
+import { invalidatePromoCampaignCache } from "../../campaigns";
+import { parseDateRange } from "../../export";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "../../recurring";
+import {
+  CAMPAIGN_AUDIENCES, CAMPAIGN_AUDIENCE_LABELS, PROMO_FEATURES, PROMO_FEATURE_LABELS,
+  MAX_CAMPAIGN_NAME_LENGTH, MAX_CAMPAIGN_BANNER_LENGTH, describeCampaignFeatures, isCampaignAudience,
+  isPromoFeature, parseCampaignFeatures, serializeCampaignFeatures,
+} from "@shared/campaigns";
+import type { PromoCampaign } from "@shared/schema";
+
+export const adminFeature = defineFeature("admin");
+
+export async function notifyAdminsAboutPayment(ctx: Context, request: any, photoFileId: string) {
+  const admins = await storage.getAdminUsers();
+  const user = await storage.getBotUser(request.telegramUserId);
+  
+  console.log(`Payment notification: Found ${admins.length} admins`);
+  if (admins.length === 0) {
+    console.warn("WARNING: No admin users found in database! Payment request #" + request.id + " will not be notified.");
+  }
+  
+  const firstName = user?.firstName || "";
+  const lastName = user?.lastName || "";
+  const username = user?.username || "yo'q";
+  const fullName = request.fullName || "";
+  
+  const message = `🔔 <b>Yangi to'lov so'rovi!</b>\n\n` +
+    `📝 So'rov: #${request.id}\n` +
+    `👤 Ism: ${fullName || firstName + " " + lastName}\n` +
+    `🆔 Username: @${username}\n` +
+    `📞 Telefon: ${request.phoneNumber || "kiritilmagan"}\n` +
+    `📦 Tarif: ${request.planType}\n` +
+    `💵 Summa: ${formatCurrency(request.amount)}\n` +
+    `🆔 Telegram ID: ${request.telegramUserId}\n` +
+    `⏰ Vaqt: ${new Date().toLocaleString("uz-UZ", { timeZone: "Asia/Tashkent" })}`;
+  
+  const keyboard = Markup.inlineKeyboard([
+    [Markup.button.callback("✅ Tasdiqlash", `approve_payment_${request.id}`)],
+    [Markup.button.callback("❌ Rad etish", `reject_payment_${request.id}`)],
+  ]);
+  
+  // Track who we've already notified to avoid duplicates
+  const notifiedIds = new Set<string>();
+  
+  // Send to admin group if configured
+  if (ADMIN_GROUP_ID) {
+    try {
+      await ctx.telegram.sendPhoto(ADMIN_GROUP_ID, photoFileId, {
+        caption: message,
+        parse_mode: "HTML",
+        ...keyboard,
+      });
+      notifiedIds.add(ADMIN_GROUP_ID);
+    } catch (error) {
+      console.error("Failed to send to admin group:", error);
+    }
+  }
+  
+  // Also send to individual admins (skip if already notified via ADMIN_GROUP_ID)
+  for (const admin of admins) {
+    if (notifiedIds.has(admin.telegramUserId)) {
+      continue; // Skip duplicate
+    }
+    try {
+      await ctx.telegram.sendPhoto(admin.telegramUserId, photoFileId, {
+        caption: message,
+        parse_mode: "HTML",
+        ...keyboard,
+      });
+      notifiedIds.add(admin.telegramUserId);
+    } catch (error) {
+      console.error(`Failed to send to admin ${admin.telegramUserId}:`, error);
+    }
+  }
+}
+
+// Admin payment approval
+adminFeature.action(/^approve_payment_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda ruxsat yo'q", { show_alert: true });
+    return;
+  }
+  
+  await ctx.answerCbQuery("Tasdiqlanmoqda...");
+  
+  const paymentId = parseInt(ctx.match[1]);
+  const request = await storage.getPaymentRequest(paymentId);
+  
+  if (!request) {
+    await ctx.editMessageCaption("To'lov so'rovi topilmadi.");
+    return;
+  }
+  
+  if (request.status !== "pending") {
+    await ctx.editMessageCaption(`Bu so'rov allaqachon ko'rib chiqilgan.\nHolat: ${request.status}`);
+    return;
+  }
+  
+  // Update payment request
+  await storage.updatePaymentRequest(paymentId, {
+    status: "approved",
+    processedBy: telegramUserId,
+    processedAt: new Date(),
+  });
+  
+  // Create/extend subscription
+  const plan = SUBSCRIPTION_PLANS[request.planType as keyof typeof SUBSCRIPTION_PLANS] || SUBSCRIPTION_PLANS.monthly_1;
+  const existingSub = await storage.getSubscription(request.telegramUserId);
+  
+  const startDate = existingSub?.endDate && new Date(existingSub.endDate) > new Date() 
+    ? new Date(existingSub.endDate) 
+    : new Date();
+  const endDate = new Date(startDate.getTime() + plan.days * 24 * 60 * 60 * 1000);
+  
+  if (existingSub) {
+    await storage.updateSubscription(request.telegramUserId, {
+      status: "active",
+      planType: request.planType,
+      startDate: existingSub?.endDate && new Date(existingSub.endDate) > new Date() ? existingSub.endDate : new Date(),
+      endDate,
+    });
+  } else {
+    await storage.createSubscription({
+      telegramUserId: request.telegramUserId,
+      status: "active",
+      planType: request.planType,
+      startDate: new Date(),
+      endDate,
+      trialUsed: true,
+    });
+  }
+  
+  // Invalidate subscription cache after activation
+  invalidateSubscriptionCache(request.telegramUserId);
+  
+  // Notify user
+  try {
+    await ctx.telegram.sendMessage(
+      request.telegramUserId,
+      `🎉 *Tabriklaymiz!*\n\n` +
+      `Sizning to'lovingiz tasdiqlandi!\n\n` +
+      `📦 Tarif: *${plan.name}*\n` +
+      `⏰ Muddat: *${plan.days} kun*\n` +
+      `📅 Tugash sanasi: *${endDate.toLocaleDateString("uz-UZ")}*\n\n` +
+      `Xizmatlarimizdan foydalanganingiz uchun rahmat! 🌿`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+        ]),
+      }
+    );
+  } catch (error) {
+    console.error("Failed to notify user:", error);
+  }
+  
+  await ctx.editMessageCaption(
+    (ctx.callbackQuery.message as any)?.caption + `\n\n✅ *TASDIQLANGAN*\nAdmin: ${admin.firstName || telegramUserId}`,
+    { parse_mode: "Markdown" }
+  );
+});
+
+adminFeature.action(/^reject_payment_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda ruxsat yo'q", { show_alert: true });
+    return;
+  }
+  
+  await ctx.answerCbQuery("Rad etilmoqda...");
+  
+  const paymentId = parseInt(ctx.match[1]);
+  const request = await storage.getPaymentRequest(paymentId);
+  
+  if (!request) {
+    await ctx.editMessageCaption("To'lov so'rovi topilmadi.");
+    return;
+  }
+  
+  if (request.status !== "pending") {
+    await ctx.editMessageCaption(`Bu so'rov allaqachon ko'rib chiqilgan.\nHolat: ${request.status}`);
+    return;
+  }
+  
+  // Ask for rejection reason
+  await userStates.set(ctx.from!.id, {
+    action: "reject_payment",
+    step: "awaiting_reason",
+    data: { paymentId, telegramUserId: request.telegramUserId },
+  });
+  
+  await ctx.editMessageCaption(
+    (ctx.callbackQuery.message as any)?.caption + "\n\n❓ Rad etish sababini kiriting:",
+    { parse_mode: "Markdown" }
+  );
+});
+
+// Handle rejection reason
+adminFeature.onText("reject_payment", async (ctx, state) => {
+  if (!state.data) return;
+  const reason = ctx.message.text.trim();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  
+  await storage.updatePaymentRequest(state.data.paymentId, {
+    status: "rejected",
+    adminNote: reason,
+    processedBy: getTelegramUserId(ctx),
+    processedAt: new Date(),
+  });
+  
+  // Notify user
+  try {
+    await ctx.telegram.sendMessage(
+      state.data.telegramUserId,
+      `❌ *To'lov rad etildi*\n\n` +
+      `So'rov: #${state.data.paymentId}\n` +
+      `Sabab: ${reason}\n\n` +
+      `Agar savollaringiz bo'lsa, admin bilan bog'laning.`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("💎 Qaytadan to'lash", "menu_subscription")],
+          [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+        ]),
+      }
+    );
+  } catch (error) {
+    console.error("Failed to notify user:", error);
+  }
+  
+  await userStates.delete(ctx.from!.id);
+  
+  await ctx.reply(
+    `✅ To'lov #${state.data.paymentId} rad etildi.\n` +
+    `Foydalanuvchiga xabar yuborildi.`,
+    {
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+      ]),
+    }
+  );
+  
+  return;
+});
+
+// Admin Panel
+adminFeature.command("admin", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const user = await storage.getBotUser(telegramUserId);
+  
+  if (!user?.isAdmin) {
+    await ctx.reply("Sizda admin huquqlari yo'q.");
+    return;
+  }
+  
+  await showAdminPanel(ctx);
+});
+
+adminFeature.action("admin_panel", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const user = await storage.getBotUser(telegramUserId);
+  
+  if (!user?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  await showAdminPanel(ctx, true);
+});
+
+async function showAdminPanel(ctx: Context, edit: boolean = false) {
+  const users = await storage.getAllBotUsers();
+  const activeSubscriptions = await storage.getActiveSubscriptions();
+  const pendingPayments = await storage.getPendingPaymentRequests();
+  
+  const trialUsers = activeSubscriptions.filter(s => s.status === "trial").length;
+  const paidUsers = activeSubscriptions.filter(s => s.status === "active").length;
+  
+  const message = `👑 *Admin Panel*\n\n` +
+    `📊 *Statistika:*\n` +
+    `├ Jami foydalanuvchilar: ${users.length}\n` +
+    `├ Faol obunalar: ${activeSubscriptions.length}\n` +
+    `├ Sinov muddatida: ${trialUsers}\n` +
+    `├ To'lov qilganlar: ${paidUsers}\n` +
+    `└ Kutilayotgan to'lovlar: ${pendingPayments.length}\n`;
+  
+  const keyboard = Markup.inlineKeyboard([
+    [Markup.button.callback("📋 Foydalanuvchilar ro'yxati", "admin_users")],
+    [Markup.button.callback("💰 To'lov so'rovlari", "admin_payments")],
+    [Markup.button.callback("📊 Obunalar hisoboti", "admin_subscriptions")],
+    [Markup.button.callback("📢 Broadcast yuborish", "admin_broadcast")],
+    [Markup.button.callback("🎁 Aksiyalar", "admin_campaigns")],
+    [Markup.button.callback("⚙️ Sozlamalar", "admin_settings")],
+    [Markup.button.callback("🔙 Orqaga", "back_main")],
+  ]);
+  
+  if (edit) {
+    await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+  } else {
+    await ctx.reply(message, { parse_mode: "Markdown", ...keyboard });
+  }
+}
+
+adminFeature.action("admin_users", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  const users = await storage.getAllBotUsers();
+  const subscriptions = await storage.getActiveSubscriptions();
+  
+  const subMap = new Map(subscriptions.map(s => [s.telegramUserId, s]));
+  
+  let message = `👥 *Foydalanuvchilar* (${users.length} ta)\n\n`;
+  
+  const recentUsers = users.slice(0, 10);
+  for (const user of recentUsers) {
+    const sub = subMap.get(user.telegramUserId);
+    let status = "⚪ Obunasiz";
+    if (sub) {
+      if (sub.status === "trial") status = "🎁 Sinov";
+      else if (sub.status === "active") status = "✅ Premium";
+    }
+    
+    message += `${user.firstName || "?"} ${user.lastName || ""} (@${user.username || "noname"})\n`;
+    message += `├ ID: \`${user.telegramUserId}\`\n`;
+    message += `└ ${status}\n\n`;
+  }
+  
+  if (users.length > 10) {
+    message += `_...va yana ${users.length - 10} ta foydalanuvchi_`;
+  }
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🔙 Admin panel", "admin_panel")],
+    ]),
+  });
+});
+
+adminFeature.action("admin_payments", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  const payments = await storage.getPendingPaymentRequests();
+  
+  if (payments.length === 0) {
+    await ctx.editMessageText("✅ Kutilayotgan to'lov so'rovlari yo'q.", {
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("🔙 Admin panel", "admin_panel")],
+      ]),
+    });
+    return;
+  }
+  
+  let message = `💰 *Kutilayotgan to'lovlar* (${payments.length} ta)\n\n`;
+  message += `Har bir to'lovni alohida ko'rish uchun tugmani bosing:\n\n`;
+  
+  for (const payment of payments) {
+    const user = await storage.getBotUser(payment.telegramUserId);
+    const date = new Date(payment.createdAt).toLocaleString("uz-UZ", { timeZone: "Asia/Tashkent" });
+    message += `📄 *#${payment.id}* - ${payment.fullName || user?.firstName || "?"}\n`;
+    message += `├ 📦 Tarif: ${payment.planType}\n`;
+    message += `├ 💵 Summa: ${formatCurrency(payment.amount)}\n`;
+    message += `├ 📞 Tel: ${payment.phoneNumber || "kiritilmagan"}\n`;
+    message += `├ 🆔 ID: \`${payment.telegramUserId}\`\n`;
+    message += `└ 📅 Sana: ${date}\n\n`;
+  }
+  
+  // Create view buttons for each payment (to see receipt photo)
+  const viewButtons = payments.slice(0, 5).map(p => [
+    Markup.button.callback(`📷 #${p.id} chekni ko'rish`, `view_receipt_${p.id}`),
+  ]);
+  
+  const actionButtons = payments.slice(0, 5).map(p => [
+    Markup.button.callback(`✅ #${p.id}`, `approve_payment_${p.id}`),
+    Markup.button.callback(`❌ #${p.id}`, `reject_payment_${p.id}`),
+  ]);
+  
+  const allButtons = [...viewButtons, ...actionButtons];
+  allButtons.push([Markup.button.callback("🔙 Admin panel", "admin_panel")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(allButtons),
+  });
+});
+
+// View receipt photo
+adminFeature.action(/^view_receipt_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda ruxsat yo'q", { show_alert: true });
+    return;
+  }
+  
+  const paymentId = parseInt(ctx.match[1]);
+  const payment = await storage.getPaymentRequest(paymentId);
+  
+  if (!payment) {
+    await ctx.answerCbQuery("To'lov topilmadi", { show_alert: true });
+    return;
+  }
+  
+  const user = await storage.getBotUser(payment.telegramUserId);
+  const date = new Date(payment.createdAt).toLocaleString("uz-UZ", { timeZone: "Asia/Tashkent" });
+  
+  const caption = `📄 <b>To'lov so'rovi #${payment.id}</b>\n\n` +
+    `👤 Ism: ${payment.fullName || "?"}\n` +
+    `📞 Telefon: ${payment.phoneNumber || "kiritilmagan"}\n` +
+    `🆔 Telegram ID: ${payment.telegramUserId}\n` +
+    `👤 Username: @${user?.username || "yo'q"}\n` +
+    `📦 Tarif: ${payment.planType}\n` +
+    `💵 Summa: ${formatCurrency(payment.amount)}\n` +
+    `📅 Sana: ${date}\n` +
+    `📊 Holat: ${payment.status}`;
+  
+  try {
+    await ctx.telegram.sendPhoto(telegramUserId, payment.receiptPhotoId, {
+      caption,
+      parse_mode: "HTML",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("✅ Tasdiqlash", `approve_payment_${payment.id}`)],
+        [Markup.button.callback("❌ Rad etish", `reject_payment_${payment.id}`)],
+        [Markup.button.callback("🔙 To'lovlar ro'yxati", "admin_payments")],
+      ]),
+    });
+  } catch (error) {
+    console.error("Failed to send receipt photo:", error);
+    await ctx.reply("Chek rasmini yuborishda xatolik yuz berdi.");
+  }
+});
+
+adminFeature.action("admin_subscriptions", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  const subscriptions = await storage.getActiveSubscriptions();
+  const expiringIn3Days = await storage.getExpiringSubscriptions(3);
+  
+  let message = `📊 *Obunalar hisoboti*\n\n`;
+  message += `Jami faol: ${subscriptions.length}\n`;
+  message += `3 kun ichida tugaydiganlar: ${expiringIn3Days.length}\n\n`;
+  
+  const trialCount = subscriptions.filter(s => s.status === "trial").length;
+  const paidCount = subscriptions.filter(s => s.status === "active").length;
+  
+  message += `📈 *Taqsimlanish:*\n`;
+  message += `├ 🎁 Sinov: ${trialCount}\n`;
+  message += `└ ✅ Premium: ${paidCount}\n\n`;
+  
+  if (expiringIn3Days.length > 0) {
+    message += `⚠️ *Tez tugayadiganlar:*\n`;
+    for (const sub of expiringIn3Days.slice(0, 5)) {
+      const user = await storage.getBotUser(sub.telegramUserId);
+      const daysLeft = Math.ceil((new Date(sub.endDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      message += `• ${user?.firstName || "?"} - ${daysLeft} kun qoldi\n`;
+    }
+  }
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🔙 Admin panel", "admin_panel")],
+    ]),
+  });
+});
+
+adminFeature.action("admin_broadcast", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  await userStates.set(ctx.from!.id, {
+    action: "admin_broadcast",
+    step: "message",
+    data: {},
+  });
+  
+  await ctx.editMessageText(
+    `📢 *Broadcast yuborish*\n\n` +
+    `Barcha foydalanuvchilarga yuboriladigan xabarni yozing:`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("❌ Bekor qilish", "cancel_broadcast")],
+      ]),
+    }
+  );
+});
+
+adminFeature.action("cancel_broadcast", async (ctx) => {
+  await ctx.answerCbQuery();
+  await userStates.delete(ctx.from!.id);
+  await showAdminPanel(ctx, true);
+});
+
+adminFeature.onText("admin_broadcast", async (ctx) => {
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) {
+    await userStates.delete(ctx.from!.id);
+    return;
+  }
+  
+  const message = ctx.message.text.trim();
+  
+  await userStates.set(ctx.from!.id, {
+    action: "admin_broadcast",
+    step: "confirm",
+    data: { message },
+  });
+  
+  await ctx.reply(
+    `📢 *Xabar tasdiqlanishi*\n\n` +
+    `Quyidagi xabar barcha foydalanuvchilarga yuboriladi:\n\n` +
+    `---\n${message}\n---\n\n` +
+    `Davom etasizmi?`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("✅ Yuborish", "confirm_broadcast")],
+        [Markup.button.callback("❌ Bekor qilish", "cancel_broadcast")],
+      ]),
+    }
+  );
+  
+  return;
+});
+
+adminFeature.action("confirm_broadcast", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  const state = await userStates.get(ctx.from!.id);
+  if (!state || state.action !== "admin_broadcast" || !state.data?.message) {
+    await ctx.editMessageText("Xato yuz berdi. Qaytadan urinib ko'ring.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Admin panel", "admin_panel")]]),
+    });
+    return;
+  }
+  
+  await userStates.delete(ctx.from!.id);
+  
+  await ctx.editMessageText("📤 Xabarlar yuborilmoqda...", { parse_mode: "Markdown" });
+  
+  const users = await storage.getAllBotUsers();
+  let successCount = 0;
+  let failCount = 0;
+  
+  for (const user of users) {
+    try {
+      await ctx.telegram.sendMessage(
+        user.telegramUserId,
+        `📢 *Yangilik*\n\n${state.data.message}`,
+        { parse_mode: "Markdown" }
+      );
+      successCount++;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    } catch (error) {
+      failCount++;
+    }
+  }
+  
+  await ctx.editMessageText(
+    `✅ *Broadcast yuborildi!*\n\n` +
+    `├ Muvaffaqiyatli: ${successCount}\n` +
+    `└ Xatolik: ${failCount}`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Admin panel", "admin_panel")]]),
+    }
+  );
+});
+
+adminFeature.action("admin_settings", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const admin = await storage.getBotUser(telegramUserId);
+  
+  if (!admin?.isAdmin) {
+    await ctx.answerCbQuery("Sizda admin huquqlari yo'q", { show_alert: true });
+    return;
+  }
+  
+  const cardNumber = await storage.getAdminSetting("payment_card") || "O'rnatilmagan";
+  const cardHolder = await storage.getAdminSetting("payment_card_holder") || "O'rnatilmagan";
+  
+  const message = `⚙️ *Admin sozlamalari*\n\n` +
+    `💳 *To'lov kartasi:*\n` +
+    `├ Raqam: \`${cardNumber}\`\n` +
+    `└ Egasi: ${cardHolder}\n\n` +
+    `Sozlamalarni o'zgartirish uchun tugmalarni bosing:`;
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("💳 Karta raqamini o'zgartirish", "set_payment_card")],
+      [Markup.button.callback("👤 Karta egasini o'zgartirish", "set_card_holder")],
+      [Markup.button.callback("👑 Admin qo'shish", "add_admin")],
+      [Markup.button.callback("🔙 Admin panel", "admin_panel")],
+    ]),
+  });
+});
+
+adminFeature.action("set_payment_card", async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+  
+  await userStates.set(ctx.from!.id, {
+    action: "admin_set_card",
+    step: "number",
+    data: {},
+  });
+  
+  await ctx.editMessageText(
+    "💳 Yangi karta raqamini kiriting:\n_(Masalan: 8600 1234 5678 9012)_",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("❌ Bekor qilish", "admin_settings")],
+      ]),
+    }
+  );
+});
+
+adminFeature.action("set_card_holder", async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+  
+  await userStates.set(ctx.from!.id, {
+    action: "admin_set_holder",
+    step: "name",
+    data: {},
+  });
+  
+  await ctx.editMessageText(
+    "👤 Karta egasi nomini kiriting:\n_(Masalan: ALIYEV VALI)_",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("❌ Bekor qilish", "admin_settings")],
+      ]),
+    }
+  );
+});
+
+adminFeature.action("add_admin", async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+  
+  await userStates.set(ctx.from!.id, {
+    action: "admin_add_admin",
+    step: "user_id",
+    data: {},
+  });
+  
+  await ctx.editMessageText(
+    "👑 Yangi adminning Telegram User ID sini kiriting:\n\n" +
+    "_(User ID ni olish uchun foydalanuvchi /start buyrug'ini yuborishi kerak)_",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("❌ Bekor qilish", "admin_settings")],
+      ]),
+    }
+  );
+});
+
+// Admin settings inputs: each one only applies to the sender if they're still an admin
+async function requireAdmin(ctx: TextContext): Promise<boolean> {
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) {
+    await userStates.delete(ctx.from.id);
+    return false;
+  }
+  return true;
+}
+
+adminFeature.onText("admin_set_card", async (ctx) => {
+  if (!(await requireAdmin(ctx))) return;
+  
+  const text = ctx.message.text.trim();
+  await storage.setAdminSetting("payment_card", text);
+  await userStates.delete(ctx.from.id);
+  await ctx.reply(`✅ Karta raqami o'zgartirildi: ${text}`, {
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Sozlamalar", "admin_settings")]]),
+  });
+});
+
+adminFeature.onText("admin_set_holder", async (ctx) => {
+  if (!(await requireAdmin(ctx))) return;
+  
+  const text = ctx.message.text.trim();
+  await storage.setAdminSetting("payment_card_holder", text);
+  await userStates.delete(ctx.from.id);
+  await ctx.reply(`✅ Karta egasi o'zgartirildi: ${text}`, {
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Sozlamalar", "admin_settings")]]),
+  });
+});
+
+adminFeature.onText("admin_add_admin", async (ctx) => {
+  if (!(await requireAdmin(ctx))) return;
+  
+  const text = ctx.message.text.trim();
+  const targetUser = await storage.getBotUser(text);
+  if (!targetUser) {
+    await ctx.reply("Bu User ID topilmadi. Foydalanuvchi avval /start buyrug'ini yuborishi kerak.");
+    return;
+  }
+  
+  await storage.setUserAdmin(text, true);
+  await userStates.delete(ctx.from.id);
+  await ctx.reply(`✅ ${targetUser.firstName || targetUser.username || text} admin qilib tayinlandi!`, {
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Sozlamalar", "admin_settings")]]),
+  });
+});
+
+// Promo campaigns: free access for a period, to everyone or to one audience
+
+// "18.02.2026"
+function formatCampaignDate(date: Date): string {
+  return getUzbekistanDateString(date).split("-").reverse().join(".");
+}
+
+function getCampaignState(campaign: PromoCampaign, now: Date = new Date()): string {
+  if (!campaign.active) return "⏸ O'chirilgan";
+  if (campaign.startsAt > now) return "🕒 Rejalashtirilgan";
+  if (campaign.endsAt < now) return "✅ Tugagan";
+  return "🟢 Faol";
+}
+
+// Campaigns run from the start of the first day to the end of the last one, Uzbekistan time
+function parseCampaignPeriod(text: string): { startsAt: Date; endsAt: Date } | null {
+  const range = parseDateRange(text);
+  if (!range) return null;
+  const startsAt = uzDateTimeToUTC(range.from, "00:00");
+  const endsAt = uzDateTimeToUTC(range.to, "23:59");
+  return startsAt && endsAt ? { startsAt, endsAt } : null;
+}
+
+async function showCampaigns(ctx: Context, edit: boolean = true) {
+  const campaigns = await storage.getPromoCampaigns();
+  const now = new Date();
+
+  let message = `🎁 *Aksiyalar*\n\n`;
+  if (campaigns.length === 0) {
+    message += `Hozircha aksiyalar yo'q.\n\n_Aksiya davomida tanlangan imkoniyatlar obunasiz ham ishlaydi._`;
+  } else {
+    for (const campaign of campaigns.slice(0, 10)) {
+      message += `${getCampaignState(campaign, now)} *${escapeMarkdown(campaign.name)}*\n`;
+      message += `└ ${formatCampaignDate(campaign.startsAt)} - ${formatCampaignDate(campaign.endsAt)}\n`;
+    }
+  }
+
+  const keyboard = Markup.inlineKeyboard([
+    ...campaigns.slice(0, 10).map(c => [Markup.button.callback(c.name, `admin_campaign_${c.id}`)]),
+    [Markup.button.callback("➕ Yangi aksiya", "admin_campaign_new")],
+    [Markup.button.callback("🔙 Admin panel", "admin_panel")],
+  ]);
+
+  if (edit) {
+    await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+  } else {
+    await ctx.reply(message, { parse_mode: "Markdown", ...keyboard });
+  }
+}
+
+async function showCampaign(ctx: Context, campaign: PromoCampaign, edit: boolean = true) {
+  const message = `🎁 *${escapeMarkdown(campaign.name)}*\n\n` +
+    `Holati: ${getCampaignState(campaign)}\n` +
+    `📅 Muddat: ${formatCampaignDate(campaign.startsAt)} - ${formatCampaignDate(campaign.endsAt)}\n` +
+    `👥 Kimlar uchun: ${CAMPAIGN_AUDIENCE_LABELS[isCampaignAudience(campaign.audience) ? campaign.audience : "all"]}\n` +
+    `🔓 Bepul: ${describeCampaignFeatures(campaign.features)}\n\n` +
+    `📝 Banner:\n${campaign.bannerText ? escapeMarkdown(campaign.bannerText) : "_Yo'q_"}`;
+
+  const keyboard = Markup.inlineKeyboard([
+    [Markup.button.callback("👥 Auditoriya", `campaign_audience_${campaign.id}`), Markup.button.callback("🔓 Imkoniyatlar", `campaign_features_${campaign.id}`)],
+    [Markup.button.callback("✏️ Nomi", `campaign_edit_name_${campaign.id}`), Markup.button.callback("📅 Muddat", `campaign_edit_period_${campaign.id}`), Markup.button.callback("📝 Banner", `campaign_edit_banner_${campaign.id}`)],
+    [Markup.button.callback(campaign.active ? "⏸ O'chirish" : "▶️ Yoqish", `campaign_toggle_${campaign.id}`), Markup.button.callback("🗑 O'chirib tashlash", `campaign_delete_${campaign.id}`)],
+    [Markup.button.callback("🔙 Aksiyalar", "admin_campaigns")],
+  ]);
+
+  if (edit) {
+    await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+  } else {
+    await ctx.reply(message, { parse_mode: "Markdown", ...keyboard });
+  }
+}
+
+async function showCampaignFeatures(ctx: Context, campaign: PromoCampaign) {
+  const selected = parseCampaignFeatures(campaign.features);
+  const allUnlocked = selected.length === 0;
+
+  await ctx.editMessageText(
+    `🔓 *${escapeMarkdown(campaign.name)}* — bepul imkoniyatlar\n\n` +
+    `Hech narsa tanlanmasa, aksiya barcha imkoniyatlarni ochadi.`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback(`${allUnlocked ? "✅" : "⬜"} Barcha imkoniyatlar`, `campaign_feature_${campaign.id}_all`)],
+        ...PROMO_FEATURES.map(feature => [
+          Markup.button.callback(`${selected.includes(feature) ? "✅" : "⬜"} ${PROMO_FEATURE_LABELS[feature]}`, `campaign_feature_${campaign.id}_${feature}`),
+        ]),
+        [Markup.button.callback("🔙 Aksiya", `admin_campaign_${campaign.id}`)],
+      ]),
+    }
+  );
+}
+
+// Loads the campaign behind a callback, or tells the admin it is gone
+async function getCampaignForAction(ctx: Context, id: number): Promise<PromoCampaign | null> {
+  const campaign = await storage.getPromoCampaign(id);
+  if (!campaign) {
+    await ctx.editMessageText("Aksiya topilmadi.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Aksiyalar", "admin_campaigns")]]),
+    });
+    return null;
+  }
+  return campaign;
+}
+
+async function updateCampaign(id: number, changes: Parameters<typeof storage.updatePromoCampaign>[1]) {
+  const campaign = await storage.updatePromoCampaign(id, changes);
+  invalidatePromoCampaignCache();
+  return campaign;
+}
+
+adminFeature.action("admin_campaigns", async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  await userStates.delete(ctx.from!.id);
+  await showCampaigns(ctx);
+});
+
+adminFeature.action("admin_campaign_new", async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  await userStates.set(ctx.from!.id, {
+    action: "admin_campaign",
+    step: "name",
+    data: {},
+  });
+
+  await ctx.editMessageText(
+    `🎁 *Yangi aksiya*\n\nAksiya nomini kiriting:\n_(Masalan: Ramazon aksiyasi)_`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor qilish", "admin_campaigns")]]),
+    }
+  );
+});
+
+adminFeature.action(/^admin_campaign_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  await userStates.delete(ctx.from!.id);
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[1]));
+  if (campaign) await showCampaign(ctx, campaign);
+});
+
+adminFeature.action(/^campaign_audience_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[1]));
+  if (!campaign) return;
+
+  const current = CAMPAIGN_AUDIENCES.indexOf(isCampaignAudience(campaign.audience) ? campaign.audience : "all");
+  const audience = CAMPAIGN_AUDIENCES[(current + 1) % CAMPAIGN_AUDIENCES.length];
+  const updated = await updateCampaign(campaign.id, { audience });
+  if (updated) await showCampaign(ctx, updated);
+});
+
+adminFeature.action(/^campaign_features_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[1]));
+  if (campaign) await showCampaignFeatures(ctx, campaign);
+});
+
+adminFeature.action(new RegExp(`^campaign_feature_(\\d+)_(all|${PROMO_FEATURES.join("|")})$`), async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[1]));
+  if (!campaign) return;
+
+  const feature = ctx.match[2];
+  let features: string | null = null;
+  if (isPromoFeature(feature)) {
+    const selected = parseCampaignFeatures(campaign.features);
+    features = serializeCampaignFeatures(selected.includes(feature) ? selected.filter(f => f !== feature) : [...selected, feature]);
+  }
+
+  const updated = await updateCampaign(campaign.id, { features });
+  if (updated) await showCampaignFeatures(ctx, updated);
+});
+
+adminFeature.action(/^campaign_toggle_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[1]));
+  if (!campaign) return;
+
+  const updated = await updateCampaign(campaign.id, { active: !campaign.active });
+  if (updated) await showCampaign(ctx, updated);
+});
+
+const CAMPAIGN_EDIT_PROMPTS: Record<string, string> = {
+  name: "✏️ Aksiyaning yangi nomini kiriting:",
+  period: "📅 Aksiya muddatini kiriting:\n_(Masalan: 01.09.2026 - 30.09.2026)_",
+  banner: "📝 Banner matnini kiriting:\n_(Olib tashlash uchun \"-\" yuboring)_",
+};
+
+adminFeature.action(/^campaign_edit_(name|period|banner)_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[2]));
+  if (!campaign) return;
+
+  await userStates.set(ctx.from!.id, {
+    action: "admin_campaign_edit",
+    step: "value",
+    data: { id: campaign.id, field: ctx.match[1] },
+  });
+
+  await ctx.editMessageText(CAMPAIGN_EDIT_PROMPTS[ctx.match[1]], {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor qilish", `admin_campaign_${campaign.id}`)]]),
+  });
+});
+
+adminFeature.action(/^campaign_delete_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  const campaign = await getCampaignForAction(ctx, parseInt(ctx.match[1]));
+  if (!campaign) return;
+
+  await ctx.editMessageText(
+    `🗑 *${escapeMarkdown(campaign.name)}* aksiyasini o'chirib tashlaysizmi?\n\nFoydalanuvchilar bepul kirishdan darhol mahrum bo'ladi.`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("✅ Ha, o'chirish", `campaign_delete_confirm_${campaign.id}`)],
+        [Markup.button.callback("❌ Bekor qilish", `admin_campaign_${campaign.id}`)],
+      ]),
+    }
+  );
+});
+
+adminFeature.action(/^campaign_delete_confirm_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const admin = await storage.getBotUser(getTelegramUserId(ctx));
+  if (!admin?.isAdmin) return;
+
+  await storage.deletePromoCampaign(parseInt(ctx.match[1]));
+  invalidatePromoCampaignCache();
+  await showCampaigns(ctx);
+});
+
+adminFeature.onText("admin_campaign", async (ctx, state) => {
+  if (!(await requireAdmin(ctx))) return;
+
+  const text = ctx.message.text.trim();
+  const cancelKeyboard = Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor qilish", "admin_campaigns")]]);
+
+  if (state.step === "name") {
+    if (!text || text.length > MAX_CAMPAIGN_NAME_LENGTH) {
+      await ctx.reply(`Nom 1-${MAX_CAMPAIGN_NAME_LENGTH} belgidan iborat bo'lishi kerak.`, cancelKeyboard);
+      return;
+    }
+    await userStates.set(ctx.from.id, { action: "admin_campaign", step: "period", data: { name: text } });
+    await ctx.reply("📅 Aksiya muddatini kiriting:\n_(Masalan: 01.09.2026 - 30.09.2026)_", {
+      parse_mode: "Markdown",
+      ...cancelKeyboard,
+    });
+    return;
+  }
+
+  if (state.step === "period") {
+    const period = parseCampaignPeriod(text);
+    if (!period) {
+      await ctx.reply("Muddat noto'g'ri. Masalan: 01.09.2026 - 30.09.2026", cancelKeyboard);
+      return;
+    }
+    await userStates.set(ctx.from.id, {
+      action: "admin_campaign",
+      step: "banner",
+      data: { ...state.data, startsAt: period.startsAt.toISOString(), endsAt: period.endsAt.toISOString() },
+    });
+    await ctx.reply("📝 Foydalanuvchilarga ko'rsatiladigan banner matnini kiriting:\n_(Bannersiz qoldirish uchun \"-\" yuboring)_", {
+      parse_mode: "Markdown",
+      ...cancelKeyboard,
+    });
+    return;
+  }
+
+  if (text.length > MAX_CAMPAIGN_BANNER_LENGTH) {
+    await ctx.reply(`Banner ${MAX_CAMPAIGN_BANNER_LENGTH} belgidan oshmasligi kerak.`, cancelKeyboard);
+    return;
+  }
+
+  const { name, startsAt, endsAt } = state.data ?? {};
+  if (!name || !startsAt || !endsAt) return;
+
+  // New campaigns unlock everything for everyone; the admin narrows them down afterwards
+  const campaign = await storage.createPromoCampaign({
+    name,
+    startsAt: new Date(startsAt),
+    endsAt: new Date(endsAt),
+    bannerText: text === "-" ? null : text,
+    createdBy: getTelegramUserId(ctx),
+  });
+  await userStates.delete(ctx.from.id);
+  invalidatePromoCampaignCache();
+  await ctx.reply("✅ Aksiya yaratildi!");
+  await showCampaign(ctx, campaign, false);
+});
+
+adminFeature.onText("admin_campaign_edit", async (ctx, state) => {
+  if (!(await requireAdmin(ctx))) return;
+
+  if (!state.data) return;
+  const text = ctx.message.text.trim();
+  const { id, field } = state.data;
+  const cancelKeyboard = Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor qilish", `admin_campaign_${id}`)]]);
+  let changes: Parameters<typeof storage.updatePromoCampaign>[1];
+
+  switch (field) {
+    case "name":
+      if (!text || text.length > MAX_CAMPAIGN_NAME_LENGTH) {
+        await ctx.reply(`Nom 1-${MAX_CAMPAIGN_NAME_LENGTH} belgidan iborat bo'lishi kerak.`, cancelKeyboard);
+        return;
+      }
+      changes = { name: text };
+      break;
+    case "period": {
+      const period = parseCampaignPeriod(text);
+      if (!period) {
+        await ctx.reply("Muddat noto'g'ri. Masalan: 01.09.2026 - 30.09.2026", cancelKeyboard);
+        return;
+      }
+      changes = period;
+      break;
+    }
+    default:
+      if (text.length > MAX_CAMPAIGN_BANNER_LENGTH) {
+        await ctx.reply(`Banner ${MAX_CAMPAIGN_BANNER_LENGTH} belgidan oshmasligi kerak.`, cancelKeyboard);
+        return;
+      }
+      changes = { bannerText: text === "-" ? null : text };
+  }
+
+  await userStates.delete(ctx.from.id);
+  const campaign = await updateCampaign(id, changes);
+  if (!campaign) {
+    await ctx.reply("Aksiya topilmadi.", Markup.inlineKeyboard([[Markup.button.callback("🔙 Aksiyalar", "admin_campaigns")]]));
+    return;
+  }
+  await showCampaign(ctx, campaign, false);
+});
+
+// Auto-fix database key names and set correct card on startup
+export async function fixAdminSettingsKeys() {
+  try {
+    // Always ensure correct card is set
+    await storage.setAdminSetting("payment_card", "6262 5700 1554 8698");
+    await storage.setAdminSetting("payment_card_holder", "Yunusova D.");
+    console.log("✅ Payment card settings updated");
+  } catch (error) {
+    console.error("Auto-fix error:", error);
+  }
+}
@@ -0,0 +1,274 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import { userStates, type ConversationData } from "../../conversation-state";
+import { getUserCurrency } from "../../currency";
+import { getUzbekistanDateString } from "../../recurring";
+import { formatBudgetDay, getBudgetStatuses, getBudgetStatusEmoji } from "../../budget";
+import { extractCurrencyAmount } from "@shared/uz-parser";
+import { formatMoney } from "@shared/currency";
+import {
+  describeBudgetPeriod,
+  formatBudgetPeriod,
+  getBudgetLabel,
+  MAX_BUDGET_START_DAY,
+  MAX_CUSTOM_PERIOD_DAYS,
+  MIN_CUSTOM_PERIOD_DAYS,
+  OVERALL_BUDGET_LABEL,
+  type BudgetPeriod,
+} from "@shared/budget";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, checkSubscription, showSubscriptionRequired, defaultCategories, getCategoryKeyboard } from "../helpers";
+
+export const budgetFeature = defineFeature("budget");
+
+async function showBudgetMenu(ctx: Context, telegramUserId: string) {
+  const statuses = await getBudgetStatuses(telegramUserId);
+
+  let message = "💳 *Byudjet Limitleri*\n\n";
+
+  if (statuses.length === 0) {
+    message += "Hozircha limit yo'q.\n\nLimit qo'shish uchun tugmani bosing.";
+  }
+
+  for (const { limit, money, status } of statuses) {
+    const format = (amount: number) => formatMoney(amount, money.currency);
+
+    message += `${getBudgetStatusEmoji(status)} *${getBudgetLabel(limit)}* — ${describeBudgetPeriod(limit).toLowerCase()}\n`;
+    message += `├ Davr: ${formatBudgetPeriod(status.period)} (${status.daysElapsed}/${status.daysTotal} kun)\n`;
+    message += `├ Limit: ${format(status.limit)}${status.carryOver > 0 ? ` (+${format(status.carryOver)} o'tgan davrdan)` : ""}\n`;
+    message += `├ Sarflangan: ${format(status.spent)} (${status.percent}%)\n`;
+    message += `├ Qoldi: ${format(Math.max(0, status.remaining))}\n`;
+    message += status.overrunDate
+      ? `└ ⚠️ Shu sur'atda limit ${formatBudgetDay(status.overrunDate)} da tugaydi\n\n`
+      : `└ Prognoz: ${format(status.projected)}\n\n`;
+  }
+
+  const buttons: any[] = [];
+  statuses.forEach(({ limit }) => {
+    buttons.push([
+      Markup.button.callback(`🗑 ${getBudgetLabel(limit)}`, `delete_budget_${limit.id}`),
+      Markup.button.callback(`🔁 O'tkazish: ${limit.rollover ? "ha" : "yo'q"}`, `budget_rollover_toggle_${limit.id}`),
+    ]);
+  });
+  buttons.push([Markup.button.callback("➕ Yangi limit", "add_budget")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "back_main")]);
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+}
+
+budgetFeature.action("menu_budget", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "budget");
+
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Byudjet");
+    return;
+  }
+
+  await showBudgetMenu(ctx, telegramUserId);
+});
+
+budgetFeature.action("add_budget", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const categories = await storage.getExpenseCategories(telegramUserId);
+  const catNames = categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+
+  await userStates.set(numericId, { action: "add_budget", step: "category" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "💳 *Yangi byudjet limiti*\n\nKategoriyani tanlang yoki barcha xarajatlar uchun umumiy limit qo'ying:",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback(`🌐 ${OVERALL_BUDGET_LABEL}`, "budget_overall")],
+        ...getCategoryKeyboard(catNames).reply_markup.inline_keyboard,
+      ]),
+    }
+  );
+});
+
+// Category limits are picked through the shared cat_ handler in expenses.ts
+budgetFeature.action("budget_overall", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_budget" || state.step !== "category") return;
+
+  await userStates.set(numericId, { action: "add_budget", step: "amount", data: { category: null } });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    `💳 *${OVERALL_BUDGET_LABEL}*\n\nBarcha kategoriyalar bo'yicha limit summasini kiriting:\n\n_Masalan: 5000000_`,
+    { parse_mode: "Markdown" }
+  );
+});
+
+budgetFeature.action(/^delete_budget_(\d+)$/, async (ctx) => {
+  const budgetId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    await storage.deleteBudgetLimit(budgetId, telegramUserId);
+    await ctx.answerCbQuery("Limit o'chirildi! 🗑");
+    await showBudgetMenu(ctx, telegramUserId);
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+budgetFeature.action(/^budget_rollover_toggle_(\d+)$/, async (ctx) => {
+  const budgetId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    const limit = (await storage.getBudgetLimits(telegramUserId)).find(l => l.id === budgetId);
+    if (!limit) {
+      await ctx.answerCbQuery("Limit topilmadi");
+      return;
+    }
+    await storage.updateBudgetLimit(budgetId, { rollover: !limit.rollover }, telegramUserId);
+    await ctx.answerCbQuery(limit.rollover ? "Qoldiq endi o'tkazilmaydi" : "Qoldiq keyingi davrga o'tadi 🔁");
+    await showBudgetMenu(ctx, telegramUserId);
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+async function askRollover(ctx: Context, numericId: number, data: ConversationData["add_budget"]) {
+  await userStates.set(numericId, { action: "add_budget", step: "rollover", data });
+  const message = "🔁 Davr oxirida ishlatilmay qolgan summa keyingi davr limitiga qo'shilsinmi?";
+  const keyboard = Markup.inlineKeyboard([
+    [
+      Markup.button.callback("✅ Ha", "budget_rollover_yes"),
+      Markup.button.callback("➡️ Yo'q", "budget_rollover_no"),
+    ],
+    [Markup.button.callback("❌ Bekor", "cancel")],
+  ]);
+  if (ctx.callbackQuery) await ctx.editMessageText(message, keyboard);
+  else await ctx.reply(message, keyboard);
+}
+
+budgetFeature.action(/^budget_period_(weekly|monthly|cycle|custom)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const choice = ctx.match[1] as BudgetPeriod | "cycle";
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_budget" || state.step !== "period") return;
+
+  await ctx.answerCbQuery();
+
+  if (choice === "cycle") {
+    await userStates.set(numericId, { action: "add_budget", step: "start_day", data: { ...state.data, period: "monthly" } });
+    await ctx.editMessageText(
+      `📆 Davr har oyning qaysi sanasida boshlanadi? (1–${MAX_BUDGET_START_DAY})\n\n_Masalan: 10 — maosh kuni_`,
+      { parse_mode: "Markdown" }
+    );
+    return;
+  }
+
+  if (choice === "custom") {
+    await userStates.set(numericId, { action: "add_budget", step: "custom_days", data: { ...state.data, period: "custom" } });
+    await ctx.editMessageText(
+      `🔄 Davr necha kun davom etadi? (${MIN_CUSTOM_PERIOD_DAYS}–${MAX_CUSTOM_PERIOD_DAYS})\n\nBirinchi davr bugundan boshlanadi.\n\n_Masalan: 14_`,
+      { parse_mode: "Markdown" }
+    );
+    return;
+  }
+
+  await askRollover(ctx, numericId, { ...state.data, period: choice, startDay: 1 });
+});
+
+budgetFeature.action(/^budget_rollover_(yes|no)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+
+  if (!state || state.action !== "add_budget" || state.step !== "rollover") return;
+
+  const { category, amount, currency, period, startDay, periodDays, anchorDate } = state.data ?? {};
+  if (amount === undefined || !period) return;
+  const rollover = ctx.match[1] === "yes";
+
+  try {
+    const limit = await storage.createBudgetLimit({
+      category: category ?? null,
+      limitAmount: amount,
+      currency: currency || "UZS",
+      period,
+      startDay: startDay || 1,
+      periodDays: periodDays ?? null,
+      anchorDate: anchorDate ?? null,
+      rollover,
+      telegramUserId,
+    });
+
+    await userStates.delete(numericId);
+    await ctx.answerCbQuery("Limit qo'shildi!");
+    await ctx.editMessageText(
+      `✅ Byudjet limiti qo'shildi!\n\n📁 ${category ? `Kategoriya: *${category}*` : `*${OVERALL_BUDGET_LABEL}*`}\n💰 Limit: *${formatMoney(amount, currency || "UZS")}*\n📅 Davr: ${describeBudgetPeriod(limit)}\n🔁 Qoldiqni o'tkazish: ${rollover ? "ha" : "yo'q"}`,
+      { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_budget")]]) }
+    );
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+
+budgetFeature.onText("add_budget", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const text = ctx.message.text;
+
+  if (state.step === "amount") {
+    // "500000" is in the user's currency; "300$" sets the limit in dollars
+    const money = extractCurrencyAmount(text);
+    const amount = money ? Math.round(money.value.amount) : parseInt(text.replace(/\s/g, ""));
+    if (isNaN(amount) || amount <= 0) {
+      await ctx.reply("Iltimos, to'g'ri summa kiriting (faqat raqam):");
+      return;
+    }
+    const currency = money?.value.currency ?? await getUserCurrency(getTelegramUserId(ctx));
+
+    await userStates.set(numericId, {
+      action: "add_budget",
+      step: "period",
+      data: { ...state.data, amount, currency },
+    });
+    await ctx.reply(
+      "Davr tanlang:",
+      Markup.inlineKeyboard([
+        [
+          Markup.button.callback("📅 Haftalik", "budget_period_weekly"),
+          Markup.button.callback("📆 Oylik", "budget_period_monthly"),
+        ],
+        [Markup.button.callback("💼 Oylik, boshqa sanadan (maosh kuni)", "budget_period_cycle")],
+        [Markup.button.callback("🔄 Har N kunda", "budget_period_custom")],
+        [Markup.button.callback("❌ Bekor", "cancel")],
+      ])
+    );
+  } else if (state.step === "start_day") {
+    const startDay = parseInt(text.trim());
+    if (isNaN(startDay) || startDay < 1 || startDay > MAX_BUDGET_START_DAY) {
+      await ctx.reply(`Iltimos, 1 dan ${MAX_BUDGET_START_DAY} gacha sana kiriting:`);
+      return;
+    }
+    await askRollover(ctx, numericId, { ...state.data, startDay });
+  } else if (state.step === "custom_days") {
+    const periodDays = parseInt(text.trim());
+    if (isNaN(periodDays) || periodDays < MIN_CUSTOM_PERIOD_DAYS || periodDays > MAX_CUSTOM_PERIOD_DAYS) {
+      await ctx.reply(`Iltimos, ${MIN_CUSTOM_PERIOD_DAYS} dan ${MAX_CUSTOM_PERIOD_DAYS} gacha kun kiriting:`);
+      return;
+    }
+    await askRollover(ctx, numericId, { ...state.data, periodDays, anchorDate: getUzbekistanDateString() });
+  }
+});
@@ -0,0 +1,409 @@
+import { Markup } from "telegraf";
+import { storage } from "../../storage";
+import { userStates } from "../../conversation-state";
+import { getMoneyView } from "../../currency";
+import { formatCashFlowLines, summarizeCashFlow } from "@shared/income";
+import { defineFeature } from "../registry";
+import { importBankSms } from "./sms";
+import { findPromoBanner } from "../../campaigns";
+import { getTelegramUserId, mainMenuKeyboard, persistentKeyboard, subscriptionCache, checkSubscription, escapeMarkdown, createTrialSubscription, showSubscriptionRequired, formatPromoBanner } from "../helpers";
+
+export const coreFeature = defineFeature("core");
+
+// Handle persistent "Asosiy menu" button press
+coreFeature.hear("📋 Asosiy menu", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId);
+  
+  if (!subStatus.isActive) {
+    // A campaign that unlocks only some features still leaves those usable
+    const promo = await findPromoBanner(telegramUserId, subStatus.status);
+    await ctx.reply(
+      "⚠️ Obuna muddatingiz tugagan yoki faol emas.\n\nBarcha imkoniyatlardan foydalanish uchun obunani yangilang." +
+        (promo ? `\n\n${formatPromoBanner(promo)}` : ""),
+      {
+        parse_mode: "Markdown",
+        ...persistentKeyboard,
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("💎 Obunani yangilash", "menu_subscription")],
+          [Markup.button.callback("🎁 Bepul sinov (3 kun)", "start_trial")],
+          ...(promo ? [[Markup.button.callback("📋 Asosiy menyu", "back_main")]] : []),
+        ]),
+      }
+    );
+    return;
+  }
+  
+  const statusText = subStatus.campaign ? `🎁 ${escapeMarkdown(subStatus.campaign.name)}` : subStatus.status === "trial" ? "Sinov" : "Premium";
+  await ctx.reply(
+    `📋 *Asosiy menyu*\n\n💎 Obuna: *${statusText}* (${subStatus.daysLeft} kun qoldi)\n\nQuyidagi tugmalardan birini tanlang:`,
+    {
+      parse_mode: "Markdown",
+      ...mainMenuKeyboard,
+    }
+  );
+  // Always ensure keyboard is visible
+  await ctx.reply("👇 Menu tugmasi:", persistentKeyboard);
+});
+
+// /menu command - always works, shows main menu
+coreFeature.command("menu", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId);
+  
+  // Always send persistent keyboard first
+  await ctx.reply("📋 Asosiy menyu", persistentKeyboard);
+  
+  if (!subStatus.isActive) {
+    const promo = await findPromoBanner(telegramUserId, subStatus.status);
+    await ctx.reply(
+      "⚠️ Obuna muddatingiz tugagan yoki faol emas.\n\nBarcha imkoniyatlardan foydalanish uchun obunani yangilang." +
+        (promo ? `\n\n${formatPromoBanner(promo)}` : ""),
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("💎 Obunani yangilash", "menu_subscription")],
+          [Markup.button.callback("🎁 Bepul sinov (3 kun)", "start_trial")],
+          ...(promo ? [[Markup.button.callback("📋 Asosiy menyu", "back_main")]] : []),
+        ]),
+      }
+    );
+    return;
+  }
+  
+  const statusText = subStatus.campaign ? `🎁 ${escapeMarkdown(subStatus.campaign.name)}` : subStatus.status === "trial" ? "Sinov" : "Premium";
+  await ctx.reply(
+    `📋 *Asosiy menyu*\n\n💎 Obuna: *${statusText}* (${subStatus.daysLeft} kun qoldi)\n\nQuyidagi tugmalardan birini tanlang:`,
+    {
+      parse_mode: "Markdown",
+      ...mainMenuKeyboard,
+    }
+  );
+});
+
+coreFeature.command("start", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const firstName = ctx.from?.first_name || "";
+  const lastName = ctx.from?.last_name || "";
+  const username = ctx.from?.username || "";
+  
+  // Register or update user
+  await storage.createOrUpdateBotUser({
+    telegramUserId,
+    firstName,
+    lastName,
+    username,
+  });
+  
+  await storage.createOrUpdateUserSettings({
+    telegramUserId,
+    dailyReportEnabled: true,
+    dailyReportTime: "20:00",
+    weeklyReportEnabled: true,
+    weeklyReportDay: "sunday",
+    timezone: "Asia/Tashkent",
+  });
+  
+  // Check if user has subscription
+  const subStatus = await checkSubscription(telegramUserId);
+
+  // Check if user has set a region
+  const prayerSettings = await storage.getPrayerSettings(telegramUserId);
+  const hasRegion = !!prayerSettings;
+  
+  if (subStatus.campaign) {
+    // The trial is kept for after the campaign
+    const welcomeMessage = `
+🌿 *Barakali Vaqt* ga xush kelibsiz, ${firstName}!
+
+${formatPromoBanner(subStatus.campaign)}
+
+✨ *Bot imkoniyatlari:*
+📋 Vazifalar va eslatmalar
+💰 Xarajatlarni kuzatish
+🎯 Maqsadlar va statistika
+🕌 Namoz vaqtlari va eslatmalar
+🍽 Saharlik va Iftorlik eslatmalari
+📊 Kunlik va haftalik hisobotlar
+    `;
+    await ctx.replyWithMarkdown(welcomeMessage);
+  } else if (subStatus.status === "none") {
+    const success = await createTrialSubscription(telegramUserId);
+    
+    if (success) {
+      subscriptionCache.delete(telegramUserId);
+      
+      const trialEndDate = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+      const welcomeMessage = `
+🌿 *Barakali Vaqt* ga xush kelibsiz, ${firstName}!
+
+🎁 *Sizga 3 kunlik BEPUL sinov muddati berildi!*
+
+Sizning shaxsiy rejalashtirish va xarajatlarni kuzatish yordamchingiz.
+
+✨ *Bot imkoniyatlari:*
+📋 Vazifalar va eslatmalar
+💰 Xarajatlarni kuzatish
+🎯 Maqsadlar va statistika
+🕌 Namoz vaqtlari va eslatmalar
+📊 Kunlik va haftalik hisobotlar
+
+⏰ *Sinov muddati:* ${trialEndDate.toLocaleDateString('uz-UZ')} gacha
+      `;
+      await ctx.replyWithMarkdown(welcomeMessage);
+    } else {
+      const welcomeMessage = `
+🌿 *Barakali Vaqt* ga xush kelibsiz, ${firstName}!
+
+⚠️ Sizning sinov muddatingiz allaqachon ishlatilgan.
+
+Barcha imkoniyatlardan foydalanish uchun obuna sotib oling.
+      `;
+      await ctx.replyWithMarkdown(welcomeMessage, Markup.inlineKeyboard([
+        [Markup.button.callback("💎 Obuna rejalarini ko'rish", "menu_subscription")],
+      ]));
+    }
+  } else if (subStatus.isActive) {
+    const statusText = subStatus.status === "trial" ? "Sinov" : "Premium";
+    const welcomeMessage = `
+🌿 *Barakali Vaqt* ga xush kelibsiz, ${firstName}!
+
+💎 Obuna: *${statusText}*
+⏰ Qolgan muddat: *${subStatus.daysLeft} kun*
+    `;
+    await ctx.replyWithMarkdown(welcomeMessage);
+  } else {
+    const welcomeMessage = `
+🌿 *Barakali Vaqt* ga xush kelibsiz, ${firstName}!
+
+⚠️ Sizning obuna muddatingiz tugagan.
+
+Barcha imkoniyatlardan foydalanish uchun obunani yangilang.
+    `;
+    await ctx.replyWithMarkdown(welcomeMessage, Markup.inlineKeyboard([
+      [Markup.button.callback("💎 Obunani yangilash", "menu_subscription")],
+    ]));
+  }
+
+  // Always send persistent keyboard
+  await ctx.reply("👇 Istalgan vaqt asosiy menyuga qaytish uchun quyidagi tugmani bosing:", persistentKeyboard);
+
+  if (!hasRegion) {
+    await ctx.reply(
+      "📍 *Avval joylashuvingizni belgilang!*\n\nPastdagi tugmani bosib GPS joylashuvingizni yuboring.\n\n_Joylashuv faqat namoz vaqtlarini aniqlash uchun ishlatiladi._",
+      {
+        parse_mode: "Markdown",
+        ...Markup.keyboard([
+          [Markup.button.locationRequest("📍 Joylashuvni yuborish")]
+        ]).resize().oneTime(),
+      }
+    );
+  } else {
+    await ctx.reply("Quyidagi tugmalardan birini tanlang:", mainMenuKeyboard);
+  }
+});
+
+coreFeature.action("back_main", async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.editMessageText("Asosiy menyu:", mainMenuKeyboard);
+});
+
+coreFeature.action("cancel", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (numericId) await userStates.delete(numericId);
+  await ctx.answerCbQuery("Bekor qilindi");
+  await ctx.editMessageText("Asosiy menyu:", mainMenuKeyboard);
+});
+
+coreFeature.action("menu_stats", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "reports");
+  
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Statistika");
+    return;
+  }
+  
+  const tasks = await storage.getTasks(telegramUserId);
+  const expenses = await storage.getExpenses(telegramUserId);
+  const goals = await storage.getActiveGoals(telegramUserId);
+  
+  const completedTasks = tasks.filter(t => t.completed).length;
+  const pendingTasks = tasks.filter(t => !t.completed).length;
+  
+  const today = new Date();
+  const thisWeek = new Date(today);
+  thisWeek.setDate(today.getDate() - 7);
+  
+  const weekExpenses = expenses.filter(e => new Date(e.createdAt) >= thisWeek);
+  const weekTotal = weekExpenses.reduce((sum, e) => sum + e.amount, 0);
+  
+  const todayExpenses = expenses.filter(e => {
+    const expDate = new Date(e.createdAt);
+    return expDate.toDateString() === today.toDateString();
+  });
+  const todayTotal = todayExpenses.reduce((sum, e) => sum + e.amount, 0);
+  
+  const categoryTotals: Record<string, number> = {};
+  weekExpenses.forEach(e => {
+    categoryTotals[e.category] = (categoryTotals[e.category] || 0) + e.amount;
+  });
+  const money = await getMoneyView(telegramUserId);
+  const weekIncome = (await storage.getIncomes(telegramUserId))
+    .filter(i => new Date(i.createdAt) >= thisWeek)
+    .reduce((sum, i) => sum + i.amount, 0);
+  
+  let message = `📊 *Statistika*\n\n`;
+  message += `📋 *Vazifalar:*\n`;
+  message += `├ Bajarilgan: ${completedTasks}\n`;
+  message += `├ Jarayonda: ${pendingTasks}\n`;
+  message += `└ Jami: ${tasks.length}\n\n`;
+  
+  message += `💰 *Xarajatlar:*\n`;
+  message += `├ Bugun: ${money.format(todayTotal)}\n`;
+  message += `└ Haftalik: ${money.format(weekTotal)}\n\n`;
+  
+  if (weekIncome > 0) {
+    message += `💵 *Pul oqimi (haftalik):*\n`;
+    message += formatCashFlowLines(summarizeCashFlow(weekIncome, weekTotal), money.format);
+    message += "\n";
+  }
+  
+  if (Object.keys(categoryTotals).length > 0) {
+    message += `📁 *Kategoriya bo'yicha (haftalik):*\n`;
+    Object.entries(categoryTotals)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([cat, amount]) => {
+        message += `• ${cat}: ${money.format(amount)}\n`;
+      });
+    message += "\n";
+  }
+  
+  if (goals.length > 0) {
+    message += `🎯 *Maqsadlar:*\n`;
+    goals.forEach(goal => {
+      const percentage = Math.round((goal.currentCount / goal.targetCount) * 100);
+      message += `• ${goal.title}: ${percentage}%\n`;
+    });
+  }
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "back_main")]]),
+  });
+});
+
+coreFeature.action("menu_settings", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const settings = await storage.getUserSettings(telegramUserId) || {
+    dailyReportEnabled: true,
+    dailyReportTime: "20:00",
+    weeklyReportEnabled: true,
+    weeklyReportDay: "sunday",
+  };
+  
+  const user = await storage.getBotUser(telegramUserId);
+  
+  let message = "⚙️ *Sozlamalar*\n\n";
+  message += `📅 *Kunlik hisobot:*\n`;
+  message += `├ Holat: ${settings.dailyReportEnabled ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `└ Vaqt: ${settings.dailyReportTime}\n\n`;
+  message += `📊 *Haftalik hisobot:*\n`;
+  message += `├ Holat: ${settings.weeklyReportEnabled ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `└ Kun: ${settings.weeklyReportDay === "sunday" ? "Yakshanba" : "Shanba"}\n`;
+  
+  const buttons = [
+    [Markup.button.callback(settings.dailyReportEnabled ? "🔕 Kunlik o'chirish" : "🔔 Kunlik yoqish", "toggle_daily")],
+    [Markup.button.callback(settings.weeklyReportEnabled ? "🔕 Haftalik o'chirish" : "🔔 Haftalik yoqish", "toggle_weekly")],
+  ];
+  
+  if (user?.isAdmin) {
+    buttons.push([Markup.button.callback("👑 Admin panel", "admin_panel")]);
+  }
+  
+  buttons.push([Markup.button.callback("🔙 Orqaga", "back_main")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+coreFeature.action("toggle_daily", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getUserSettings(telegramUserId);
+  
+  await storage.createOrUpdateUserSettings({
+    telegramUserId,
+    dailyReportEnabled: !settings?.dailyReportEnabled,
+    dailyReportTime: settings?.dailyReportTime || "20:00",
+    weeklyReportEnabled: settings?.weeklyReportEnabled ?? true,
+    weeklyReportDay: settings?.weeklyReportDay || "sunday",
+    timezone: settings?.timezone || "Asia/Tashkent",
+  });
+  
+  await ctx.answerCbQuery(settings?.dailyReportEnabled ? "Kunlik hisobot o'chirildi" : "Kunlik hisobot yoqildi");
+  
+  const newSettings = await storage.getUserSettings(telegramUserId);
+  let message = "⚙️ *Sozlamalar*\n\n";
+  message += `📅 *Kunlik hisobot:*\n`;
+  message += `├ Holat: ${newSettings?.dailyReportEnabled ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `└ Vaqt: ${newSettings?.dailyReportTime}\n\n`;
+  message += `📊 *Haftalik hisobot:*\n`;
+  message += `├ Holat: ${newSettings?.weeklyReportEnabled ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `└ Kun: ${newSettings?.weeklyReportDay === "sunday" ? "Yakshanba" : "Shanba"}\n`;
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(newSettings?.dailyReportEnabled ? "🔕 Kunlik o'chirish" : "🔔 Kunlik yoqish", "toggle_daily")],
+      [Markup.button.callback(newSettings?.weeklyReportEnabled ? "🔕 Haftalik o'chirish" : "🔔 Haftalik yoqish", "toggle_weekly")],
+      [Markup.button.callback("🔙 Orqaga", "back_main")]
+    ]),
+  });
+});
+
+coreFeature.action("toggle_weekly", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getUserSettings(telegramUserId);
+  
+  await storage.createOrUpdateUserSettings({
+    telegramUserId,
+    dailyReportEnabled: settings?.dailyReportEnabled ?? true,
+    dailyReportTime: settings?.dailyReportTime || "20:00",
+    weeklyReportEnabled: !settings?.weeklyReportEnabled,
+    weeklyReportDay: settings?.weeklyReportDay || "sunday",
+    timezone: settings?.timezone || "Asia/Tashkent",
+  });
+  
+  await ctx.answerCbQuery(settings?.weeklyReportEnabled ? "Haftalik hisobot o'chirildi" : "Haftalik hisobot yoqildi");
+  
+  const newSettings = await storage.getUserSettings(telegramUserId);
+  let message = "⚙️ *Sozlamalar*\n\n";
+  message += `📅 *Kunlik hisobot:*\n`;
+  message += `├ Holat: ${newSettings?.dailyReportEnabled ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `└ Vaqt: ${newSettings?.dailyReportTime}\n\n`;
+  message += `📊 *Haftalik hisobot:*\n`;
+  message += `├ Holat: ${newSettings?.weeklyReportEnabled ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `└ Kun: ${newSettings?.weeklyReportDay === "sunday" ? "Yakshanba" : "Shanba"}\n`;
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(newSettings?.dailyReportEnabled ? "🔕 Kunlik o'chirish" : "🔔 Kunlik yoqish", "toggle_daily")],
+      [Markup.button.callback(newSettings?.weeklyReportEnabled ? "🔕 Haftalik o'chirish" : "🔔 Haftalik yoqish", "toggle_weekly")],
+      [Markup.button.callback("🔙 Orqaga", "back_main")]
+    ]),
+  });
+});
+
+
+// Text typed outside of any conversation is either a forwarded card notification or
+// brings the menu back
+coreFeature.onUnhandledText(async (ctx) => {
+  if (await importBankSms(ctx)) return;
+  await ctx.reply("Asosiy menyu:", mainMenuKeyboard);
+});
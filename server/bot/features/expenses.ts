@@ -0,0 +1,770 @@
+import { Markup, type Context } from "telegraf";
+import { storage } from "../../storage";
+import { userStates, type ConversationData } from "../../conversation-state";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "../../recurring";
+import { convertToSom, getMoneyView, getUserCurrency, setUserCurrency, type MoneyView } from "../../currency";
+import { parseExpenseInput } from "@shared/uz-parser";
+import { CURRENCIES, formatMoney, isCurrencyCode } from "@shared/currency";
+import { formatCashFlowLines, summarizeCashFlow } from "@shared/income";
+import { defineFeature } from "../registry";
+import { formatCurrency, formatOriginalAmount, getTelegramUserId, checkSubscription, showSubscriptionRequired, defaultCategoriesWithIcons, defaultCategories, getCategoryIcon, getCategoryKeyboard, getCurrencyKeyboard, getAccountKeyboard, escapeMarkdown } from "../helpers";
+import { suggestCategory } from "../../categorize";
+import { describeRule } from "@shared/category-rules";
+import { getBudgetLabel, shouldWarnAboutPace } from "@shared/budget";
+import { formatBudgetDay, getBudgetStatuses } from "../../budget";
+import { refreshGoalProgress } from "../../goals";
+
+export const expensesFeature = defineFeature("expenses");
+
+const expensesMenuKeyboard = Markup.inlineKeyboard([
+  [Markup.button.callback("➕ Yangi xarajat", "expense_add")],
+  [
+    Markup.button.callback("💵 Daromad qo'shish", "income_add"),
+    Markup.button.callback("📥 Daromadlar", "income_list"),
+  ],
+  [Markup.button.callback("📋 Bugungi xarajatlar", "expense_list")],
+  [
+    Markup.button.callback("🏦 Hisoblar", "menu_accounts"),
+    Markup.button.callback("📩 SMS import", "menu_sms"),
+  ],
+  [Markup.button.callback("📁 Kategoriyalar", "expense_categories")],
+  [Markup.button.callback("📈 Hisobot", "expense_report")],
+  [Markup.button.callback("💱 Valyuta", "expense_currency")],
+  [Markup.button.callback("🔙 Orqaga", "back_main")],
+]);
+
+expensesFeature.action("menu_expenses", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Xarajatlar");
+    return;
+  }
+  
+  const expenses = await storage.getExpenses(telegramUserId);
+  const today = new Date();
+  const todayExpenses = expenses.filter(e => {
+    const expDate = new Date(e.createdAt);
+    return expDate.toDateString() === today.toDateString();
+  });
+  const todayTotal = todayExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const money = await getMoneyView(telegramUserId);
+  
+  await ctx.editMessageText(
+    `💰 *Xarajatlar*\n\n📅 Bugun: *${money.format(todayTotal)}*\n\nNima qilmoqchisiz?`,
+    { parse_mode: "Markdown", ...expensesMenuKeyboard }
+  );
+});
+
+expensesFeature.action("expense_add", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Xarajat qo'shish");
+    return;
+  }
+  
+  await userStates.set(numericId, { action: "add_expense", step: "input" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "💰 *Yangi xarajat*\n\nNomi va summasini yozing:\n\n_Masalan: Svetga 100000_\n_yoki: Tushlik 50000_\n_yoki: kecha taksiga 25k_\n_yoki: Netflix 9.99$_",
+    { 
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "menu_expenses")]])
+    }
+  );
+});
+
+// Expense entry starts from a typed message and continues on buttons, so replies edit the
+// button's message when there is one
+async function respond(ctx: Context, text: string, extra?: any) {
+  if (ctx.callbackQuery) {
+    await ctx.editMessageText(text, extra);
+  } else {
+    await ctx.reply(text, extra);
+  }
+}
+
+// Saves the expense collected by the add_expense flow and reports budget usage and pace for its category
+async function saveExpense(ctx: Context, numericId: number, telegramUserId: string, data: ConversationData["add_expense"], accountId: number | null) {
+  const { amount, currency, originalAmount, exchangeRate, description, category, createdAt } = data;
+  if (amount === undefined || !description || !category) return;
+  
+  try {
+    const expense = await storage.createExpense({
+      amount,
+      currency: currency || "UZS",
+      originalAmount: originalAmount ?? null,
+      exchangeRate: exchangeRate || 1,
+      description,
+      category,
+      accountId,
+      telegramUserId,
+      ...(createdAt ? { createdAt } : {}),
+    });
+    await refreshGoalProgress(telegramUserId);
+    
+    // The expense counts towards its category's limit and the overall budget, if either is set
+    const limits = (await storage.getBudgetLimits(telegramUserId)).filter(l => l.category === category || l.category === null);
+    let warningMessage = "";
+    
+    for (const { limit, status } of await getBudgetStatuses(telegramUserId, limits)) {
+      const label = getBudgetLabel(limit);
+      if (status.percent >= 100) {
+        warningMessage += `\n\n🚨 *OGOHLANTIRISH!*\n${label} byudjeti ${status.percent}% sarflandi!`;
+      } else if (status.percent >= 80) {
+        warningMessage += `\n\n⚠️ *Diqqat!*\n${label} byudjeti ${status.percent}% yetdi.`;
+      } else if (shouldWarnAboutPace(status)) {
+        warningMessage += `\n\n📈 ${label}: shu sur'atda limit ${formatBudgetDay(status.overrunDate!)} da tugaydi (davr ${formatBudgetDay(status.period.end)} gacha).`;
+      }
+    }
+    
+    const account = accountId ? await storage.getAccount(accountId, telegramUserId) : undefined;
+    
+    const buttons = [[Markup.button.callback("🔙 Orqaga", "menu_expenses")]];
+    if (data.ruleLabel) {
+      buttons.unshift([Markup.button.callback("✏️ Kategoriyani o'zgartirish", `expense_recat_${expense.id}`)]);
+    }
+    
+    await userStates.delete(numericId);
+    if (ctx.callbackQuery) await ctx.answerCbQuery("Xarajat qo'shildi!");
+    await respond(ctx,
+      `✅ Xarajat qo'shildi!\n\n💰 *${formatOriginalAmount(expense)}*${expense.originalAmount != null ? ` (≈ ${formatCurrency(expense.amount)})` : ""}\n📝 ${description}\n📁 ${category}${data.ruleLabel ? ` _(qoida: ${escapeMarkdown(data.ruleLabel)})_` : ""}${account ? `\n🏦 ${account.name}` : ""}${warningMessage}`,
+      { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) }
+    );
+  } catch (error) {
+    if (ctx.callbackQuery) await ctx.answerCbQuery("Xatolik yuz berdi");
+    else await ctx.reply("❌ Xatolik yuz berdi");
+  }
+}
+
+// A single account is used without asking; with several the user picks where the money came from
+async function finishExpense(ctx: Context, numericId: number, telegramUserId: string, data: ConversationData["add_expense"]) {
+  const accounts = await storage.getAccounts(telegramUserId);
+  if (accounts.length > 1) {
+    await userStates.set(numericId, { action: "add_expense", step: "account", data });
+    if (ctx.callbackQuery) await ctx.answerCbQuery();
+    await respond(ctx, "🏦 Qaysi hisobdan to'landi?", getAccountKeyboard(accounts, "expense_acc_", "cancel", "expense_acc_none"));
+    return;
+  }
+  await saveExpense(ctx, numericId, telegramUserId, data, accounts[0]?.id ?? null);
+}
+
+expensesFeature.action(/^cat_(.+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+  
+  if (state?.action === "add_expense" && state.step === "category") {
+    await finishExpense(ctx, numericId, telegramUserId, { ...state.data, category: ctx.match[1] });
+  }
+  
+  if (state?.action === "add_budget" && state.step === "category") {
+    const category = ctx.match[1];
+    await userStates.set(numericId, {
+      action: "add_budget",
+      step: "amount",
+      data: { category },
+    });
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(
+      `💳 *${category}* uchun limit\n\nLimit summasini kiriting:\n\n_Masalan: 500000_`,
+      { parse_mode: "Markdown" }
+    );
+  }
+});
+
+expensesFeature.action(/^expense_acc_(\d+|none)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_expense" || state.step !== "account") {
+    await ctx.answerCbQuery();
+    return;
+  }
+  
+  const accountId = ctx.match[1] === "none" ? null : parseInt(ctx.match[1]);
+  await saveExpense(ctx, numericId, getTelegramUserId(ctx), state.data || {}, accountId);
+});
+
+// Fixing a category a rule picked: choices go by index to keep the callback data short
+expensesFeature.action(/^expense_recat_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const categories = await storage.getExpenseCategories(telegramUserId);
+  const catNames = categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+  
+  const rows = [];
+  for (let i = 0; i < catNames.length; i += 2) {
+    rows.push(catNames.slice(i, i + 2).map((name, j) =>
+      Markup.button.callback(`${getCategoryIcon(name)} ${name}`, `expense_setcat_${ctx.match[1]}_${i + j}`)
+    ));
+  }
+  rows.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+  await ctx.editMessageText("📁 Yangi kategoriyani tanlang:", Markup.inlineKeyboard(rows));
+});
+
+expensesFeature.action(/^expense_setcat_(\d+)_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const categories = await storage.getExpenseCategories(telegramUserId);
+  const catNames = categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+  const category = catNames[parseInt(ctx.match[2])];
+  
+  const expense = category ? await storage.updateExpense(parseInt(ctx.match[1]), { category }, telegramUserId) : undefined;
+  if (!expense) {
+    await ctx.answerCbQuery("Xarajat topilmadi");
+    return;
+  }
+  await refreshGoalProgress(telegramUserId);
+  await ctx.answerCbQuery("Kategoriya o'zgartirildi");
+  await ctx.editMessageText(
+    `✅ *${expense.description}* endi *${category}* kategoriyasida.\n\n_Qoida tez-tez adashsa, uni 🤖 Qoidalar bo'limida o'zgartiring._`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("🤖 Qoidalar", "menu_rules")],
+        [Markup.button.callback("🔙 Orqaga", "menu_expenses")],
+      ]),
+    }
+  );
+});
+
+expensesFeature.action("expense_list", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const expenses = await storage.getExpenses(telegramUserId);
+  const today = new Date();
+  const todayExpenses = expenses.filter(e => {
+    const expDate = new Date(e.createdAt);
+    return expDate.toDateString() === today.toDateString();
+  });
+  
+  if (todayExpenses.length === 0) {
+    await ctx.editMessageText(
+      "📋 Bugun xarajat yo'q.",
+      { ...Markup.inlineKeyboard([
+        [Markup.button.callback("➕ Yangi xarajat", "expense_add")],
+        [Markup.button.callback("🔙 Orqaga", "menu_expenses")]
+      ])}
+    );
+    return;
+  }
+  
+  const total = todayExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const money = await getMoneyView(telegramUserId);
+  let message = `📋 *Bugungi xarajatlar:*\n\n`;
+  
+  const buttons: any[] = [];
+  todayExpenses.slice(0, 10).forEach((expense) => {
+    message += `• ${expense.description} - *${formatOriginalAmount(expense)}* (${expense.category})\n`;
+    buttons.push([
+      Markup.button.callback(`🗑 ${expense.description.slice(0, 25)}`, `delete_expense_${expense.id}`)
+    ]);
+  });
+  
+  message += `\n📊 *Jami: ${money.format(total)}*`;
+  
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+expensesFeature.action(/^delete_expense_(\d+)$/, async (ctx) => {
+  const expenseId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.deleteExpense(expenseId, telegramUserId);
+    await refreshGoalProgress(telegramUserId);
+    await ctx.answerCbQuery("Xarajat o'chirildi! 🗑");
+    
+    const expenses = await storage.getExpenses(telegramUserId);
+    const today = new Date();
+    const todayExpenses = expenses.filter(e => {
+      const expDate = new Date(e.createdAt);
+      return expDate.toDateString() === today.toDateString();
+    });
+    
+    if (todayExpenses.length === 0) {
+      await ctx.editMessageText(
+        "📋 Bugun xarajat yo'q.",
+        { ...Markup.inlineKeyboard([
+          [Markup.button.callback("➕ Yangi xarajat", "expense_add")],
+          [Markup.button.callback("🔙 Orqaga", "menu_expenses")]
+        ])}
+      );
+    } else {
+      const total = todayExpenses.reduce((sum, e) => sum + e.amount, 0);
+      const money = await getMoneyView(telegramUserId);
+      let message = `📋 *Bugungi xarajatlar:*\n\n`;
+      
+      const buttons: any[] = [];
+      todayExpenses.slice(0, 10).forEach((expense) => {
+        message += `• ${expense.description} - *${formatOriginalAmount(expense)}* (${expense.category})\n`;
+        buttons.push([
+          Markup.button.callback(`🗑 ${expense.description.slice(0, 25)}`, `delete_expense_${expense.id}`)
+        ]);
+      });
+      
+      message += `\n📊 *Jami: ${money.format(total)}*`;
+      buttons.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+      
+      await ctx.editMessageText(message, {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard(buttons),
+      });
+    }
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+expensesFeature.action("expense_categories", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const userCategories = await storage.getExpenseCategories(telegramUserId);
+  
+  let message = "📁 *Xarajat Kategoriyalari*\n\n";
+  message += "Kategoriyani bosib, uning xarajatlarini ko'ring yoki o'chiring:\n\n";
+  
+  const buttons: any[] = [];
+  
+  if (userCategories.length > 0) {
+    for (let i = 0; i < userCategories.length; i += 2) {
+      const cat1 = userCategories[i];
+      const icon1 = cat1.icon || getCategoryIcon(cat1.name);
+      const row = [Markup.button.callback(`${icon1} ${cat1.name}`, `view_category_${cat1.id}`)];
+      
+      if (userCategories[i + 1]) {
+        const cat2 = userCategories[i + 1];
+        const icon2 = cat2.icon || getCategoryIcon(cat2.name);
+        row.push(Markup.button.callback(`${icon2} ${cat2.name}`, `view_category_${cat2.id}`));
+      }
+      buttons.push(row);
+    }
+  } else {
+    for (let i = 0; i < defaultCategoriesWithIcons.length; i += 2) {
+      const cat1 = defaultCategoriesWithIcons[i];
+      const row = [Markup.button.callback(`${cat1.icon} ${cat1.name}`, `default_cat_${cat1.name}`)];
+      
+      if (defaultCategoriesWithIcons[i + 1]) {
+        const cat2 = defaultCategoriesWithIcons[i + 1];
+        row.push(Markup.button.callback(`${cat2.icon} ${cat2.name}`, `default_cat_${cat2.name}`));
+      }
+      buttons.push(row);
+    }
+    message += "_Standart kategoriyalar ko'rsatilmoqda._\n_O'z kategoriyangizni qo'shing!_\n\n";
+  }
+  
+  buttons.push([Markup.button.callback("➕ Yangi kategoriya", "add_category")]);
+  buttons.push([Markup.button.callback("🤖 Avto-kategoriya qoidalari", "menu_rules")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+expensesFeature.action(/^view_category_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const categoryId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const categories = await storage.getExpenseCategories(telegramUserId);
+  const category = categories.find(c => c.id === categoryId);
+  
+  if (!category) {
+    await ctx.editMessageText("Kategoriya topilmadi", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "expense_categories")]])
+    });
+    return;
+  }
+  
+  const expenses = await storage.getExpenses(telegramUserId);
+  const catExpenses = expenses.filter(e => e.category === category.name);
+  const total = catExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const money = await getMoneyView(telegramUserId);
+  
+  const icon = category.icon || getCategoryIcon(category.name);
+  let message = `${icon} *${category.name}*\n\n`;
+  message += `📊 Jami xarajatlar: *${money.format(total)}*\n`;
+  message += `📝 Xarajatlar soni: *${catExpenses.length}*\n`;
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🗑 O'chirish", `delete_category_${categoryId}`)],
+      [Markup.button.callback("🔙 Orqaga", "expense_categories")]
+    ]),
+  });
+});
+
+expensesFeature.action(/^default_cat_(.+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const categoryName = ctx.match[1];
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const icon = getCategoryIcon(categoryName);
+  const expenses = await storage.getExpenses(telegramUserId);
+  const catExpenses = expenses.filter(e => e.category === categoryName);
+  const total = catExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const money = await getMoneyView(telegramUserId);
+  
+  let message = `${icon} *${categoryName}*\n\n`;
+  message += `📊 Jami xarajatlar: *${money.format(total)}*\n`;
+  message += `📝 Xarajatlar soni: *${catExpenses.length}*\n\n`;
+  message += "_Bu standart kategoriya. O'chirish uchun o'z kategoriyangizni yarating._";
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🔙 Orqaga", "expense_categories")]
+    ]),
+  });
+});
+
+expensesFeature.action(/^delete_category_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const categoryId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.deleteExpenseCategory(categoryId, telegramUserId);
+    await ctx.editMessageText("✅ Kategoriya o'chirildi!", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "expense_categories")]])
+    });
+  } catch (error) {
+    await ctx.editMessageText("❌ Xatolik yuz berdi", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "expense_categories")]])
+    });
+  }
+});
+
+const availableIcons = ["🍽", "🚗", "🛒", "💳", "🏠", "💊", "🎮", "📦", "✈️", "👕", "📚", "💡", "🎁", "☕", "🍕", "🎬"];
+
+expensesFeature.action("add_category", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  await userStates.set(numericId, { action: "add_category", step: "name" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📁 *Yangi kategoriya*\n\nKategoriya nomini yozing (masalan: Kafe):",
+    { 
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "expense_categories")]])
+    }
+  );
+});
+
+expensesFeature.action(/^select_icon_(.+)$/, async (ctx) => {
+  const icon = ctx.match[1];
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_category") return;
+  
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.createExpenseCategory({
+      name: state.data?.name || "Kategoriya",
+      icon: icon,
+      color: "hsl(0, 0%, 50%)",
+      telegramUserId,
+    });
+    
+    await userStates.delete(numericId);
+    await ctx.editMessageText(`✅ Kategoriya yaratildi!\n\n${icon} *${state.data?.name}*`, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Kategoriyalar", "expense_categories")]])
+    });
+  } catch (error) {
+    await ctx.editMessageText("❌ Xatolik yuz berdi", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "expense_categories")]])
+    });
+  }
+});
+
+expensesFeature.action("expense_report", async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📈 *Xarajatlar Hisoboti*\n\nQaysi davr uchun hisobot olishni xohlaysiz?",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("📅 Kunlik", "report_daily")],
+        [Markup.button.callback("📆 Haftalik", "report_weekly")],
+        [Markup.button.callback("🗓 Oylik", "report_monthly")],
+        [Markup.button.callback("📄 PDF hisobot", "report_pdf")],
+        [Markup.button.callback("📥 Yuklab olish", "report_download")],
+        [Markup.button.callback("🔙 Orqaga", "menu_expenses")],
+      ]),
+    }
+  );
+});
+
+expensesFeature.action("expense_currency", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const currency = await getUserCurrency(telegramUserId);
+  
+  await ctx.editMessageText(
+    `💱 *Asosiy valyuta*\n\nHozirgi: *${CURRENCIES[currency].flag} ${currency}*\n\nValyutasiz yozilgan summalar shu valyutada hisoblanadi, hisobotlar ham shu valyutada ko'rsatiladi.\n\n_Boshqa valyutada yozish: Netflix 9.99$, taksi 500 rubl_`,
+    { parse_mode: "Markdown", ...getCurrencyKeyboard("set_currency_", "menu_expenses") }
+  );
+});
+
+expensesFeature.action(/^set_currency_([A-Z]{3})$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const currency = ctx.match[1];
+  if (!isCurrencyCode(currency)) {
+    await ctx.answerCbQuery("Noma'lum valyuta");
+    return;
+  }
+  
+  await setUserCurrency(telegramUserId, currency);
+  await ctx.answerCbQuery(`Valyuta: ${currency}`);
+  await ctx.editMessageText(
+    `✅ Asosiy valyuta: *${CURRENCIES[currency].flag} ${currency}*`,
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_expenses")]]) }
+  );
+});
+
+// Totals are kept in so'm (each expense at its own entry-day rate) and shown in the user's currency
+function generateReportText(expenses: any[], incomes: any[], period: string, startDate: Date, endDate: Date, money: MoneyView): string {
+  const categoryTotals: Record<string, number> = {};
+  let total = 0;
+  
+  for (const expense of expenses) {
+    const cat = expense.category || "Boshqa";
+    categoryTotals[cat] = (categoryTotals[cat] || 0) + expense.amount;
+    total += expense.amount;
+  }
+  
+  let report = `📈 *${period} Hisoboti*\n`;
+  report += `📅 ${startDate.toLocaleDateString("uz-UZ")} - ${endDate.toLocaleDateString("uz-UZ")}\n\n`;
+  
+  const incomeTotal = incomes.reduce((sum, i) => sum + i.amount, 0);
+  
+  if (expenses.length === 0 && incomes.length === 0) {
+    report += "Bu davr uchun xarajatlar yo'q.";
+    return report;
+  }
+  
+  if (expenses.length === 0) {
+    report += `💵 *Pul oqimi:*\n${formatCashFlowLines(summarizeCashFlow(incomeTotal, 0), money.format)}`;
+    return report;
+  }
+  
+  report += `📊 *Kategoriyalar bo'yicha:*\n`;
+  const sortedCategories = Object.entries(categoryTotals).sort((a, b) => b[1] - a[1]);
+  
+  for (const [cat, amount] of sortedCategories) {
+    const percentage = Math.round((amount / total) * 100);
+    report += `├ ${cat}: ${money.format(amount)} (${percentage}%)\n`;
+  }
+  
+  report += `\n💰 *Jami: ${money.format(total)}*\n`;
+  report += `📝 *Xarajatlar soni: ${expenses.length}*`;
+  
+  if (incomes.length > 0) {
+    report += `\n\n💵 *Pul oqimi:*\n${formatCashFlowLines(summarizeCashFlow(incomeTotal, total), money.format)}`;
+  }
+  
+  return report;
+}
+
+expensesFeature.action("report_daily", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const now = new Date();
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const endOfDay = new Date(startOfDay);
+  endOfDay.setDate(endOfDay.getDate() + 1);
+  
+  const allExpenses = await storage.getExpenses(telegramUserId);
+  const dayExpenses = allExpenses.filter(e => {
+    const d = new Date(e.createdAt);
+    return d >= startOfDay && d < endOfDay;
+  });
+  const dayIncomes = (await storage.getIncomes(telegramUserId)).filter(i => {
+    const d = new Date(i.createdAt);
+    return d >= startOfDay && d < endOfDay;
+  });
+  
+  const report = generateReportText(dayExpenses, dayIncomes, "Kunlik", startOfDay, now, await getMoneyView(telegramUserId));
+  
+  await ctx.editMessageText(report, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🔙 Orqaga", "expense_report")],
+    ]),
+  });
+});
+
+expensesFeature.action("report_weekly", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const now = new Date();
+  const startOfWeek = new Date(now);
+  startOfWeek.setDate(now.getDate() - now.getDay());
+  startOfWeek.setHours(0, 0, 0, 0);
+  
+  const allExpenses = await storage.getExpenses(telegramUserId);
+  const weekExpenses = allExpenses.filter(e => new Date(e.createdAt) >= startOfWeek);
+  const weekIncomes = (await storage.getIncomes(telegramUserId)).filter(i => new Date(i.createdAt) >= startOfWeek);
+  
+  const report = generateReportText(weekExpenses, weekIncomes, "Haftalik", startOfWeek, now, await getMoneyView(telegramUserId));
+  
+  await ctx.editMessageText(report, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🔙 Orqaga", "expense_report")],
+    ]),
+  });
+});
+
+expensesFeature.action("report_monthly", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const now = new Date();
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  
+  const allExpenses = await storage.getExpenses(telegramUserId);
+  const monthExpenses = allExpenses.filter(e => {
+    const d = new Date(e.createdAt);
+    return d.getMonth() === now.getMonth() && d.getFullYear() === now.getFullYear();
+  });
+  
+  const monthIncomes = (await storage.getIncomes(telegramUserId)).filter(i => new Date(i.createdAt) >= startOfMonth);
+  
+  const report = generateReportText(monthExpenses, monthIncomes, "Oylik", startOfMonth, now, await getMoneyView(telegramUserId));
+  
+  await ctx.editMessageText(report, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🔙 Orqaga", "expense_report")],
+    ]),
+  });
+});
+
+expensesFeature.onText("add_expense", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+  const text = ctx.message.text;
+
+  if (state.step === "input") {
+    const today = getUzbekistanDateString();
+    const parsed = parseExpenseInput(text, today);
+    const amount = parsed.amount;
+    
+    if (!amount || amount <= 0 || !parsed.description) {
+      await ctx.reply(
+        "❌ Noto'g'ri format.\n\nNomi va summasini yozing:\n_Masalan: Svetga 100000_\n_yoki: kecha taksiga 25k_",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+    
+    const description = parsed.description;
+    // Backdated entries ("kecha ...") are stored at midday of that day
+    const createdAt = parsed.date && parsed.date !== today ? uzDateTimeToUTC(parsed.date, "12:00") : null;
+    
+    const currency = parsed.currency ?? await getUserCurrency(telegramUserId);
+    const converted = await convertToSom(amount, currency, createdAt);
+    if (!converted) {
+      await ctx.reply(
+        `❌ ${currency} kursi hozircha mavjud emas.\n\nKeyinroq urinib ko'ring yoki summani so'mda yozing.`
+      );
+      return;
+    }
+    
+    const categories = await storage.getExpenseCategories(telegramUserId);
+    let catNames = categories.length > 0 
+      ? categories.map(c => c.name) 
+      : defaultCategories;
+    
+    // A rule decides on its own; otherwise the keyboard opens with the category this
+    // description usually gets (or the parser's guess) first
+    const suggestion = await suggestCategory(telegramUserId, { description, amount: converted.amount }, catNames);
+    if (suggestion?.source === "rule") {
+      await finishExpense(ctx, numericId, telegramUserId, {
+        ...converted, description, createdAt, category: suggestion.category, ruleLabel: describeRule(suggestion.rule),
+      });
+      return;
+    }
+    
+    const parserHint = parsed.categoryHint && catNames.includes(parsed.categoryHint) ? parsed.categoryHint : null;
+    const hint = suggestion?.category ?? parserHint;
+    if (hint) {
+      catNames = [hint, ...catNames.filter(c => c !== hint)];
+    }
+    
+    await userStates.set(numericId, {
+      action: "add_expense",
+      step: "category",
+      data: { ...converted, description, createdAt },
+    });
+    
+    let msg = converted.originalAmount != null
+      ? `💰 *${formatMoney(amount, currency)}* (≈ ${formatCurrency(converted.amount)}) - ${description}\n`
+      : `💰 *${formatCurrency(converted.amount)}* - ${description}\n`;
+    if (createdAt) {
+      msg += `📅 ${parsed.date}\n`;
+    }
+    msg += hint ? `\nKategoriya: *${hint}*?\nTasdiqlang yoki boshqasini tanlang:` : `\nKategoriyani tanlang:`;
+    
+    await ctx.reply(msg, { parse_mode: "Markdown", ...getCategoryKeyboard(catNames) });
+  }
+});
+
+expensesFeature.onText("add_category", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const text = ctx.message.text;
+
+  if (state.step === "name") {
+    await userStates.set(numericId, {
+      action: "add_category",
+      step: "icon",
+      data: { name: text },
+    });
+    
+    const iconRows = [];
+    for (let i = 0; i < availableIcons.length; i += 4) {
+      const row = [];
+      for (let j = i; j < i + 4 && j < availableIcons.length; j++) {
+        row.push(Markup.button.callback(availableIcons[j], `select_icon_${availableIcons[j]}`));
+      }
+      iconRows.push(row);
+    }
+    iconRows.push([Markup.button.callback("❌ Bekor", "expense_categories")]);
+    
+    await ctx.reply(
+      `📁 *${text}*\n\nKategoriya uchun icon tanlang:`,
+      { 
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard(iconRows)
+      }
+    );
+  }
+});
@@ -0,0 +1,334 @@
+import { Markup, type Context } from "telegraf";
+import { userStates } from "../../conversation-state";
+import { buildExport, getPresetRange, parseDateRange, type DateRange, type ExportDataset, type ExportFormat, type RangePreset } from "../../export";
+import { buildStatementPdf, formatMonthName, shiftMonth } from "../../statement";
+import { getUzbekistanDateString } from "../../recurring";
+import { getMoneyView } from "../../currency";
+import { previewExpenseImport, applyExpenseImport, type ImportPreview } from "../../csv-import";
+import { IMPORT_FIELDS, IMPORT_FIELD_LABELS, type ColumnMapping, type ImportField } from "@shared/csv";
+import { formatMoney } from "@shared/currency";
+import { normalizeApostrophes } from "@shared/uz-parser";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, checkSubscription, escapeMarkdown } from "../helpers";
+
+export const exportFeature = defineFeature("export");
+
+const RANGE_PRESETS: Array<{ id: RangePreset; label: string }> = [
+  { id: "month", label: "📅 Bu oy" },
+  { id: "prev_month", label: "⏮ O'tgan oy" },
+  { id: "30d", label: "🗓 So'nggi 30 kun" },
+  { id: "year", label: "📆 Bu yil" },
+];
+
+const DATASETS: Array<{ id: ExportDataset; label: string }> = [
+  { id: "expenses", label: "💰 Xarajatlar" },
+  { id: "tasks", label: "✅ Vazifalar" },
+  { id: "goals", label: "🎯 Maqsadlar" },
+];
+
+const MAX_IMPORT_BYTES = 1024 * 1024;
+
+function formatRange(range: DateRange): string {
+  const local = (date: string) => date.split("-").reverse().join(".");
+  return `${local(range.from)} – ${local(range.to)}`;
+}
+
+const exportMenuKeyboard = Markup.inlineKeyboard([
+  ...[0, 2].map(i => RANGE_PRESETS.slice(i, i + 2).map(p => Markup.button.callback(p.label, `export_range_${p.id}`))),
+  [Markup.button.callback("✏️ Boshqa davr", "export_custom")],
+  [Markup.button.callback("📤 CSV import", "import_help")],
+  [Markup.button.callback("🔙 Orqaga", "expense_report")],
+]);
+
+function formatMenu(range: DateRange) {
+  const message = `📥 *Yuklab olish*\n\n📅 ${formatRange(range)}\n\nNimani yuklab olasiz? Excel faylida kategoriyalar bo'yicha jamlanma ham bor.`;
+  const rows = DATASETS.map(d => (["xlsx", "csv"] as ExportFormat[]).map(format =>
+    Markup.button.callback(`${d.label} · ${format === "xlsx" ? "Excel" : "CSV"}`, `export_${format}_${d.id}_${range.from}_${range.to}`)
+  ));
+  rows.push([Markup.button.callback("🔙 Orqaga", "report_download")]);
+  return { message, keyboard: Markup.inlineKeyboard(rows) };
+}
+
+exportFeature.action("report_download", async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📥 *Yuklab olish*\n\nQaysi davr uchun? Xarajatlar, vazifalar va maqsadlarni Excel (XLSX) yoki CSV faylda olasiz.",
+    { parse_mode: "Markdown", ...exportMenuKeyboard }
+  );
+});
+
+exportFeature.action(/^export_range_(month|prev_month|30d|year)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const { message, keyboard } = formatMenu(getPresetRange(ctx.match[1] as RangePreset));
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+exportFeature.action("export_custom", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  await userStates.set(numericId, { action: "export_range", step: "dates" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📅 Davrni yozing:\n\n_Masalan: 01.09.2026 - 30.09.2026_",
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "report_download")]]) }
+  );
+});
+
+exportFeature.onText("export_range", async (ctx) => {
+  const range = parseDateRange(ctx.message.text);
+  if (!range) {
+    await ctx.reply("❌ Davrni tushunmadim. Masalan: 01.09.2026 - 30.09.2026");
+    return;
+  }
+
+  await userStates.delete(ctx.from.id);
+  const { message, keyboard } = formatMenu(range);
+  await ctx.reply(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+exportFeature.action(/^export_(csv|xlsx)_(expenses|tasks|goals)_(\d{4}-\d{2}-\d{2})_(\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const format = ctx.match[1] as ExportFormat;
+  const dataset = ctx.match[2] as ExportDataset;
+  const range = { from: ctx.match[3], to: ctx.match[4] };
+
+  try {
+    const file = await buildExport(telegramUserId, dataset, format, range);
+    if (file.count === 0) {
+      await ctx.answerCbQuery("Bu davrda ma'lumot yo'q");
+      return;
+    }
+
+    await ctx.answerCbQuery("Fayl tayyorlanmoqda...");
+    const label = DATASETS.find(d => d.id === dataset)!.label;
+    await ctx.replyWithDocument(
+      { source: file.buffer, filename: file.filename },
+      { caption: `📥 ${label}: ${file.count} ta\n📅 ${formatRange(range)}` }
+    );
+  } catch (error) {
+    console.error("Export error:", error);
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+exportFeature.action("report_pdf", async (ctx) => {
+  await ctx.answerCbQuery();
+  const month = getUzbekistanDateString().slice(0, 7);
+  const months = [0, -1, -2].map(delta => shiftMonth(month, delta));
+
+  await ctx.editMessageText(
+    "📄 *Oylik hisobot (PDF)*\n\nKategoriyalar, byudjet holati, o'tgan oy bilan solishtirish va grafiklar — chop etish yoki oilaga ko'rsatish uchun.\n\nQaysi oy?",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        ...months.map(m => [Markup.button.callback(`📅 ${formatMonthName(m)}`, `statement_pdf_${m}`)]),
+        [Markup.button.callback("🔙 Orqaga", "expense_report")],
+      ]),
+    }
+  );
+});
+
+exportFeature.action(/^statement_pdf_(\d{4}-\d{2})$/, async (ctx) => {
+  await ctx.answerCbQuery("Hisobot tayyorlanmoqda...");
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    const { buffer, filename, statement } = await buildStatementPdf(telegramUserId, ctx.match[1]);
+    const money = await getMoneyView(telegramUserId);
+    await ctx.replyWithDocument(
+      { source: buffer, filename },
+      { caption: `📄 ${formatMonthName(statement.month)}\n\n💰 Xarajatlar: ${money.format(statement.total)}\n💵 Daromadlar: ${money.format(statement.incomeTotal)}` }
+    );
+  } catch (error) {
+    console.error("Statement error:", error);
+    await ctx.reply("❌ Hisobotni tayyorlab bo'lmadi. Keyinroq urinib ko'ring.");
+  }
+});
+
+exportFeature.action("import_help", async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📤 *CSV import*\n\n" +
+    "Bank ko'chirmasi yoki boshqa ilovadan olingan CSV faylni shu chatga yuboring.\n\n" +
+    "Ustunlar avtomatik aniqlanadi (sana, summa, izoh, kategoriya, valyuta). Saqlashdan oldin natijani ko'rsataman, takroriy yozuvlar o'tkazib yuboriladi.",
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "report_download")]]) }
+  );
+});
+
+async function downloadCsv(ctx: Context, fileId: string): Promise<string> {
+  const link = await ctx.telegram.getFileLink(fileId);
+  const response = await fetch(link);
+  if (!response.ok) throw new Error(`File download failed: ${response.status}`);
+  return response.text();
+}
+
+function formatPreview(preview: ImportPreview): string {
+  const column = (index: number | undefined) => {
+    if (index === undefined) return "—";
+    const header = preview.headers?.[index];
+    return `${index + 1}-ustun${header ? ` (${escapeMarkdown(header)})` : ""}`;
+  };
+
+  let message = "📤 *CSV import — tekshiruv*\n\n*Ustunlar:*\n";
+  IMPORT_FIELDS.forEach(field => {
+    message += `• ${IMPORT_FIELD_LABELS[field]}: ${column(preview.mapping[field])}\n`;
+  });
+
+  message += `\n✅ Yangi: ${preview.counts.new}\n🔁 Takror: ${preview.counts.duplicate}\n💵 Kirim (saqlanmaydi): ${preview.counts.credit}\n⚠️ Xato: ${preview.counts.invalid}\n`;
+
+  const fresh = preview.rows.filter(r => r.status === "new");
+  if (fresh.length > 0) {
+    message += "\n*Namuna:*\n";
+    fresh.slice(0, 5).forEach(r => {
+      message += `• ${r.date} — ${escapeMarkdown(r.description.slice(0, 30))} — ${formatMoney(r.amount!, r.currency)} → ${r.category}\n`;
+    });
+  }
+
+  const invalid = preview.rows.filter(r => r.status === "invalid");
+  if (invalid.length > 0) {
+    message += "\n*Xatolar:*\n";
+    invalid.slice(0, 3).forEach(r => {
+      message += `• ${r.line}-qator: ${r.error}\n`;
+    });
+  }
+
+  message += "\n_Ustunlarni o'zgartirish uchun yozing, masalan:_ `sana=1 summa=3 izoh=2`";
+  return message;
+}
+
+function previewKeyboard(preview: ImportPreview) {
+  const rows = [];
+  if (preview.counts.new > 0) {
+    rows.push([Markup.button.callback(`✅ ${preview.counts.new} ta xarajatni saqlash`, "import_csv_confirm")]);
+  }
+  rows.push([Markup.button.callback("❌ Bekor", "import_csv_cancel")]);
+  return Markup.inlineKeyboard(rows);
+}
+
+const FIELD_NAMES: Record<string, ImportField> = {
+  sana: "date",
+  date: "date",
+  summa: "amount",
+  amount: "amount",
+  izoh: "description",
+  description: "description",
+  kategoriya: "category",
+  category: "category",
+  valyuta: "currency",
+  currency: "currency",
+};
+
+// "sana=1 summa=3 izoh=2 kategoriya=-": 1-based columns, "-" drops a field
+function parseMappingText(text: string, base: ColumnMapping): ColumnMapping | null {
+  const pairs = Array.from(normalizeApostrophes(text).toLowerCase().matchAll(/([a-z']+)\s*[=:]\s*(\d+|-)/g));
+  if (pairs.length === 0) return null;
+
+  const mapping = { ...base };
+  for (const [, name, value] of pairs) {
+    const field = FIELD_NAMES[name];
+    if (!field) return null;
+    if (value === "-") delete mapping[field];
+    else if (parseInt(value) >= 1) mapping[field] = parseInt(value) - 1;
+    else return null;
+  }
+  return mapping;
+}
+
+exportFeature.onDocument(async (ctx) => {
+  const document = ctx.message.document;
+  const isCsv = document.file_name?.toLowerCase().endsWith(".csv") || document.mime_type === "text/csv";
+  if (!isCsv) {
+    // Other files may belong to an ongoing conversation; only an idle chat gets the hint
+    if (!await userStates.get(ctx.from.id)) {
+      await ctx.reply("📤 Faqat CSV fayllarni import qila olaman.");
+    }
+    return;
+  }
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  if (!subStatus.isActive) {
+    await ctx.reply(
+      "🔒 CSV import uchun obuna talab qilinadi.",
+      Markup.inlineKeyboard([[Markup.button.callback("💎 Obuna rejalarini ko'rish", "menu_subscription")]])
+    );
+    return;
+  }
+
+  if ((document.file_size ?? 0) > MAX_IMPORT_BYTES) {
+    await ctx.reply("❌ Fayl juda katta (1 MB gacha).");
+    return;
+  }
+
+  try {
+    const preview = await previewExpenseImport(telegramUserId, await downloadCsv(ctx, document.file_id));
+    if (preview.rows.length === 0) {
+      await ctx.reply("❌ Faylda yozuv topilmadi.");
+      return;
+    }
+
+    await userStates.set(ctx.from.id, { action: "import_csv", step: "confirm", data: { fileId: document.file_id, mapping: preview.mapping } });
+    await ctx.reply(formatPreview(preview), { parse_mode: "Markdown", ...previewKeyboard(preview) });
+  } catch (error) {
+    console.error("CSV import error:", error);
+    await ctx.reply("❌ Faylni o'qib bo'lmadi.");
+  }
+});
+
+exportFeature.onText("import_csv", async (ctx, state) => {
+  if (!state.data) return;
+  const telegramUserId = getTelegramUserId(ctx);
+  const mapping = parseMappingText(ctx.message.text, state.data.mapping);
+  if (!mapping) {
+    await ctx.reply("❌ Tushunmadim. Masalan: `sana=1 summa=3 izoh=2 kategoriya=4`", { parse_mode: "Markdown" });
+    return;
+  }
+
+  try {
+    const preview = await previewExpenseImport(telegramUserId, await downloadCsv(ctx, state.data.fileId), mapping);
+    await userStates.set(ctx.from.id, { action: "import_csv", step: "confirm", data: { ...state.data, mapping } });
+    await ctx.reply(formatPreview(preview), { parse_mode: "Markdown", ...previewKeyboard(preview) });
+  } catch (error) {
+    console.error("CSV import error:", error);
+    await ctx.reply("❌ Faylni o'qib bo'lmadi. Qaytadan yuboring.");
+  }
+});
+
+exportFeature.action("import_csv_confirm", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (state?.action !== "import_csv" || !state.data) {
+    await ctx.answerCbQuery("Import eskirgan, faylni qayta yuboring");
+    return;
+  }
+
+  await ctx.answerCbQuery("Saqlanmoqda...");
+  const telegramUserId = getTelegramUserId(ctx);
+  try {
+    // Re-checked against the current expenses, so pressing the button twice imports once
+    const preview = await previewExpenseImport(telegramUserId, await downloadCsv(ctx, state.data.fileId), state.data.mapping);
+    const result = await applyExpenseImport(telegramUserId, preview);
+    await userStates.delete(numericId);
+
+    let message = `✅ *Import tugadi*\n\n💰 Saqlandi: ${result.imported} ta\n🔁 Takror: ${preview.counts.duplicate} ta\n💵 Kirim: ${preview.counts.credit} ta\n⚠️ Xato: ${preview.counts.invalid} ta`;
+    if (result.failed > 0) {
+      message += `\n\n❗ ${result.failed} ta yozuv valyuta kursi topilmagani uchun saqlanmadi.`;
+    }
+    await ctx.editMessageText(message, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("💰 Xarajatlar", "menu_expenses")]]),
+    });
+  } catch (error) {
+    console.error("CSV import error:", error);
+    await ctx.editMessageText("❌ Import qilib bo'lmadi. Faylni qayta yuboring.");
+  }
+});
+
+exportFeature.action("import_csv_cancel", async (ctx) => {
+  if (ctx.from) await userStates.delete(ctx.from.id);
+  await ctx.answerCbQuery("Bekor qilindi");
+  await ctx.editMessageText("🗑 Import bekor qilindi.", Markup.inlineKeyboard([[Markup.button.callback("💰 Xarajatlar", "menu_expenses")]]));
+});
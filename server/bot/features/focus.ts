@@ -0,0 +1,190 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import { startFocusSession, abandonFocusSession, formatFocusDuration, FOCUS_DEFAULT_MINUTES, BREAK_DEFAULT_MINUTES } from "../../focus";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "../../recurring";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, checkSubscription, showSubscriptionRequired, escapeMarkdown } from "../helpers";
+
+export const focusFeature = defineFeature("focus");
+
+function formatEndTime(endsAt: Date): string {
+  return new Date(endsAt).toLocaleTimeString("uz-UZ", {
+    timeZone: "Asia/Tashkent",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+async function buildFocusMenu(telegramUserId: string) {
+  const active = await storage.getActiveFocusSession(telegramUserId);
+  const todayStart = uzDateTimeToUTC(getUzbekistanDateString(), "00:00") ?? new Date();
+  const today = await storage.getFocusMinutesByDay(telegramUserId, todayStart, new Date());
+  const todayMinutes = today.reduce((sum, day) => sum + day.minutes, 0);
+
+  let message = "⏱ *Fokus (Pomodoro)*\n\n";
+  message += `📊 Bugun: *${formatFocusDuration(todayMinutes)}*\n\n`;
+
+  const buttons: any[] = [];
+  if (active) {
+    const remaining = Math.max(0, Math.ceil((new Date(active.endsAt).getTime() - Date.now()) / 60000));
+    message += active.mode === "focus" ? "🔥 Fokus davom etmoqda\n" : "☕ Tanaffus davom etmoqda\n";
+    message += `└ ${formatEndTime(active.endsAt)} gacha (${remaining} daqiqa qoldi)`;
+    buttons.push([Markup.button.callback("⏹ To'xtatish", `focus_abandon_${active.id}`)]);
+  } else {
+    message += "Vaqtni tanlang, tugaganda xabar beraman:";
+    buttons.push([
+      Markup.button.callback("🔥 25 daqiqa", "focus_start_25"),
+      Markup.button.callback("🔥 50 daqiqa", "focus_start_50"),
+    ]);
+    buttons.push([Markup.button.callback("📋 Vazifa bilan", "focus_pick_task")]);
+    buttons.push([
+      Markup.button.callback("☕ 5 daqiqa tanaffus", "focus_break_5"),
+      Markup.button.callback("☕ 15 daqiqa", "focus_break_15"),
+    ]);
+  }
+  buttons.push([Markup.button.callback("🔙 Orqaga", "back_main")]);
+
+  return { message, keyboard: Markup.inlineKeyboard(buttons) };
+}
+
+async function replyStarted(ctx: Context, telegramUserId: string, mode: "focus" | "break", durationMinutes: number, taskId?: number) {
+  const session = await startFocusSession(telegramUserId, { mode, durationMinutes, taskId });
+
+  let message = mode === "focus"
+    ? `🔥 *Fokus boshlandi!*\n\n⏱ ${durationMinutes} daqiqa — ${formatEndTime(session.endsAt)} gacha\n`
+    : `☕ *Tanaffus boshlandi!*\n\n⏱ ${durationMinutes} daqiqa — ${formatEndTime(session.endsAt)} gacha\n`;
+  if (taskId) {
+    const task = (await storage.getTasks(telegramUserId)).find(t => t.id === taskId);
+    if (task) message += `📝 ${escapeMarkdown(task.text)}\n`;
+  }
+  message += mode === "focus" ? "\nTelefonni chetga qo'ying, vaqt tugaganda xabar beraman." : "\nDam oling, vaqt tugaganda xabar beraman.";
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("⏹ To'xtatish", `focus_abandon_${session.id}`)],
+    ]),
+  });
+}
+
+focusFeature.command("focus", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "focus");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Fokus taymer");
+    return;
+  }
+
+  const { message, keyboard } = await buildFocusMenu(telegramUserId);
+  await ctx.reply(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+focusFeature.action("menu_focus", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "focus");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Fokus taymer");
+    return;
+  }
+
+  const { message, keyboard } = await buildFocusMenu(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+focusFeature.action(/^focus_start_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "focus");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Fokus taymer");
+    return;
+  }
+
+  const minutes = parseInt(ctx.match[1]) || FOCUS_DEFAULT_MINUTES;
+  await replyStarted(ctx, telegramUserId, "focus", minutes);
+});
+
+focusFeature.action(/^focus_break_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "focus");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Fokus taymer");
+    return;
+  }
+
+  const minutes = parseInt(ctx.match[1]) || BREAK_DEFAULT_MINUTES;
+  await replyStarted(ctx, telegramUserId, "break", minutes);
+});
+
+focusFeature.action("focus_pick_task", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const tasks = await storage.getTasks(telegramUserId);
+  const pending = tasks.filter(t => !t.completed).slice(0, 10);
+
+  if (pending.length === 0) {
+    await ctx.editMessageText("📋 Bajarilmagan vazifalar yo'q.\n\nFokusni vazifasiz boshlashingiz mumkin.", {
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("🔥 25 daqiqa", "focus_start_25")],
+        [Markup.button.callback("🔙 Orqaga", "menu_focus")],
+      ]),
+    });
+    return;
+  }
+
+  const buttons = pending.map(task => [
+    Markup.button.callback(`📝 ${task.text.slice(0, 30)}`, `focus_task_${task.id}`),
+  ]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_focus")]);
+
+  await ctx.editMessageText("📋 *Qaysi vazifa ustida ishlaysiz?*", {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+focusFeature.action(/^focus_task_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "focus");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Fokus taymer");
+    return;
+  }
+
+  const taskId = parseInt(ctx.match[1]);
+  const task = (await storage.getTasks(telegramUserId)).find(t => t.id === taskId);
+  if (!task) {
+    await ctx.editMessageText("❌ Vazifa topilmadi.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_focus")]]),
+    });
+    return;
+  }
+
+  await replyStarted(ctx, telegramUserId, "focus", FOCUS_DEFAULT_MINUTES, task.id);
+});
+
+focusFeature.action(/^focus_abandon_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const session = await storage.getFocusSession(parseInt(ctx.match[1]), telegramUserId);
+
+  if (session && session.status === "active") {
+    const stopped = await abandonFocusSession(session);
+    const minutes = stopped?.focusedMinutes ?? 0;
+    const message = session.mode === "focus"
+      ? `⏹ *Fokus to'xtatildi*\n\n⏱ ${formatFocusDuration(minutes)} hisoblandi.`
+      : "⏹ *Tanaffus to'xtatildi*";
+    await ctx.editMessageText(message, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("⏱ Fokus menyusi", "menu_focus")]]),
+    });
+    return;
+  }
+
+  const { message, keyboard } = await buildFocusMenu(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
@@ -0,0 +1,571 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import { userStates, type ConversationData } from "../../conversation-state";
+import { convertToSom, getMoneyViewFor, getUserCurrency } from "../../currency";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "../../recurring";
+import { formatGoalProgress, getGoalCurrency, getGoalEvents, getGoalSavingsPlan, refreshGoalProgress, refreshSavingsGoal } from "../../goals";
+import { extractAmount, extractCurrencyAmount } from "@shared/uz-parser";
+import { formatMoney, type CurrencyCode } from "@shared/currency";
+import { parseGoalDeadline, type GoalType } from "@shared/goals";
+import type { Goal } from "@shared/schema";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, checkSubscription, showSubscriptionRequired, getProgressBar, escapeMarkdown, defaultCategories, getCategoryIcon } from "../helpers";
+
+export const goalsFeature = defineFeature("goals");
+
+// "31.12.2027"
+function formatDeadline(date: Date): string {
+  return getUzbekistanDateString(date).split("-").reverse().join(".");
+}
+
+function savingsLines(goal: Goal): string {
+  const currency = getGoalCurrency(goal);
+  const plan = getGoalSavingsPlan(goal);
+  let lines = `├ ${formatGoalProgress(goal)}\n`;
+  if (!goal.endDate) return lines + `└ muddatsiz jamg'arma\n`;
+  if (plan.remaining === 0) return lines + `└ 🎉 Maqsadga yetildi!\n`;
+  if (plan.overdue) return lines + `└ ⏰ Muddat o'tdi (${formatDeadline(goal.endDate)}), ${formatMoney(plan.remaining, currency)} yetmadi\n`;
+  return lines + `└ 📅 ${formatDeadline(goal.endDate)} gacha · oyiga ${formatMoney(plan.monthlyRequired ?? 0, currency)}\n`;
+}
+
+async function showGoalsMenu(ctx: Context, telegramUserId: string) {
+  const goals = await storage.getActiveGoals(telegramUserId);
+
+  let message = "🎯 *Maqsadlar*\n\n";
+
+  if (goals.length === 0) {
+    message += "Hozircha maqsadlar yo'q.\n\nYangi maqsad qo'shing!";
+  } else {
+    for (const goal of goals) {
+      if (goal.type === "savings") {
+        message += `💰 *${goal.title}*\n`;
+        message += `├ ${getProgressBar(goal.currentCount, goal.targetCount)}\n`;
+        message += savingsLines(goal) + "\n";
+        continue;
+      }
+
+      const progressBar = getProgressBar(goal.currentCount, goal.targetCount);
+      const periodText = goal.period === "weekly" ? "haftalik" : "oylik";
+      const typeText = goal.type === "tasks" ? "vazifa" : "xarajat";
+
+      message += `📌 *${goal.title}*\n`;
+      message += `├ ${progressBar}\n`;
+      message += `├ ${goal.currentCount}/${goal.targetCount} ${typeText}\n`;
+      message += `└ ${periodText}${goal.category ? ` · ${formatGoalFilter(goal)}` : ""}\n\n`;
+    }
+  }
+
+  const buttons: any[] = [];
+  goals.forEach(goal => {
+    if (goal.type === "savings") {
+      buttons.push([
+        Markup.button.callback(`💰 ${goal.title.slice(0, 25)}`, `goal_view_${goal.id}`),
+        Markup.button.callback("➕ Qo'shish", `goal_contribute_${goal.id}`),
+      ]);
+    } else {
+      buttons.push([Markup.button.callback(`📌 ${goal.title.slice(0, 25)}`, `goal_view_${goal.id}`)]);
+    }
+  });
+  buttons.push([Markup.button.callback("➕ Yangi maqsad", "add_goal")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "back_main")]);
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+}
+
+async function showSavingsGoal(ctx: Context, goal: Goal) {
+  const currency = getGoalCurrency(goal);
+  const plan = getGoalSavingsPlan(goal);
+  const contributions = await storage.getGoalContributions(goal.id, goal.telegramUserId);
+
+  let message = `💰 *${goal.title}*\n\n`;
+  message += `${getProgressBar(goal.currentCount, goal.targetCount)}\n\n`;
+  message += `Yig'ildi: *${formatMoney(goal.currentCount, currency)}*\n`;
+  message += `Maqsad: ${formatMoney(goal.targetCount, currency)}\n`;
+  message += `Qoldi: ${formatMoney(plan.remaining, currency)}\n`;
+
+  if (goal.endDate) {
+    message += `📅 Muddat: ${formatDeadline(goal.endDate)}`;
+    message += plan.overdue ? " (o'tib ketdi)\n" : plan.monthsLeft ? ` (${plan.monthsLeft} oy)\n` : "\n";
+    if (plan.monthlyRequired) {
+      message += `💡 Har oy kamida *${formatMoney(plan.monthlyRequired, currency)}* yig'ish kerak\n`;
+    }
+  }
+
+  if (contributions.length > 0) {
+    message += `\n*Oxirgi yozuvlar:*\n`;
+    contributions.slice(0, 10).forEach(c => {
+      const sign = c.amount >= 0 ? "+" : "−";
+      message += `• ${formatDeadline(c.createdAt).slice(0, 5)} ${sign}${formatMoney(Math.abs(c.amount), currency)}${c.note ? ` — ${escapeMarkdown(c.note)}` : ""}\n`;
+    });
+  }
+
+  const buttons: any[] = [[
+    Markup.button.callback("➕ Qo'shish", `goal_contribute_${goal.id}`),
+    Markup.button.callback("➖ Yechish", `goal_withdraw_${goal.id}`),
+  ]];
+  if (contributions.length > 0) {
+    buttons.push([Markup.button.callback("↩️ Oxirgi yozuvni bekor qilish", `goal_undo_${contributions[0].id}`)]);
+  }
+  buttons.push([Markup.button.callback("🗑 Maqsadni o'chirish", `delete_goal_${goal.id}`)]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_goals")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+function formatGoalFilter(goal: Goal): string {
+  return goal.type === "tasks" ? `#${escapeMarkdown(goal.category)}` : `📁 ${escapeMarkdown(goal.category)}`;
+}
+
+// What the goal has counted so far, newest first
+async function showGoalHistory(ctx: Context, goal: Goal) {
+  const [tasks, expenses] = await Promise.all([
+    goal.type === "tasks" ? storage.getTasks(goal.telegramUserId) : Promise.resolve([]),
+    goal.type === "expenses" ? storage.getExpenses(goal.telegramUserId) : Promise.resolve([]),
+  ]);
+  const events = getGoalEvents(goal, tasks, expenses);
+
+  let message = `📌 *${goal.title}*\n\n`;
+  message += `${getProgressBar(goal.currentCount, goal.targetCount)}\n`;
+  message += `${goal.currentCount}/${goal.targetCount} ${goal.type === "tasks" ? "vazifa" : "xarajat"} · ${goal.period === "weekly" ? "haftalik" : "oylik"}\n`;
+  message += `📅 ${formatDeadline(goal.startDate).slice(0, 5)} – ${goal.endDate ? formatDeadline(goal.endDate).slice(0, 5) : "…"}\n`;
+  if (goal.category) {
+    message += `${goal.type === "tasks" ? "🏷 Teg" : "Kategoriya"}: ${formatGoalFilter(goal)}\n`;
+  }
+
+  message += `\n*Tarix:*\n`;
+  if (events.length === 0) {
+    message += goal.type === "tasks" ? "Hali bajarilgan vazifa yo'q.\n" : "Hali xarajat yozilmagan.\n";
+  }
+  events.slice(0, 15).forEach(e => {
+    message += `• ${formatDeadline(e.date).slice(0, 5)} ${escapeMarkdown(e.label)}\n`;
+  });
+  if (events.length > 15) {
+    message += `_…va yana ${events.length - 15} ta_\n`;
+  }
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("🗑 Maqsadni o'chirish", `delete_goal_${goal.id}`)],
+      [Markup.button.callback("🔙 Orqaga", "menu_goals")],
+    ]),
+  });
+}
+
+goalsFeature.action("menu_goals", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "goals");
+
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Maqsadlar");
+    return;
+  }
+
+  await refreshGoalProgress(telegramUserId);
+  await showGoalsMenu(ctx, telegramUserId);
+});
+
+goalsFeature.action("add_goal", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "goals");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Maqsad qo'shish");
+    return;
+  }
+
+  await userStates.set(numericId, { action: "add_goal", step: "title" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "🎯 *Yangi maqsad*\n\nMaqsad nomini yozing:\n\n_Masalan: Haftalik 10 vazifa bajarish yoki Haj uchun jamg'arma_",
+    { parse_mode: "Markdown" }
+  );
+});
+
+goalsFeature.action(/^goal_type_(tasks|expenses|savings)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const type = ctx.match[1] as GoalType;
+  const state = await userStates.get(numericId);
+
+  if (!state || state.action !== "add_goal" || state.step !== "type") return;
+
+  await ctx.answerCbQuery();
+
+  if (type === "savings") {
+    await userStates.set(numericId, { action: "add_goal", step: "amount", data: { ...state.data, type } });
+    await ctx.editMessageText(
+      `💰 *${state.data?.title}*\n\nQancha yig'moqchisiz?\n\n_Masalan: 30 mln yoki 1500$_`,
+      { parse_mode: "Markdown" }
+    );
+    return;
+  }
+
+  await userStates.set(numericId, {
+    action: "add_goal",
+    step: "filter",
+    data: { ...state.data, type },
+  });
+
+  if (type === "expenses") {
+    const categories = await storage.getExpenseCategories(getTelegramUserId(ctx));
+    const catNames = categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+    const rows: any[] = [[Markup.button.callback("🌐 Barcha xarajatlar", "goal_nofilter")]];
+    for (let i = 0; i < catNames.length; i += 2) {
+      rows.push(catNames.slice(i, i + 2).map(name => Markup.button.callback(`${getCategoryIcon(name)} ${name}`, `goal_cat_${name}`)));
+    }
+    rows.push([Markup.button.callback("❌ Bekor", "cancel")]);
+    await ctx.editMessageText(
+      `🎯 *${state.data?.title}*\n\nQaysi xarajatlar sanalsin?`,
+      { parse_mode: "Markdown", ...Markup.inlineKeyboard(rows) }
+    );
+    return;
+  }
+
+  await ctx.editMessageText(
+    `🎯 *${state.data?.title}*\n\nFaqat ma'lum tegdagi vazifalarni sanash uchun tegni yozing.\n\n_Masalan: #sport — vazifa matnida #sport bo'lsa sanaladi_`,
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("🌐 Barcha vazifalar", "goal_nofilter")]]) }
+  );
+});
+
+async function askGoalTarget(ctx: Context, numericId: number, data: ConversationData["add_goal"]) {
+  await userStates.set(numericId, { action: "add_goal", step: "target", data });
+  const message = `🎯 *${data.title}*\n\nMaqsad sonini kiriting:\n\n_Masalan: 10_`;
+  if (ctx.callbackQuery) await ctx.editMessageText(message, { parse_mode: "Markdown" });
+  else await ctx.reply(message, { parse_mode: "Markdown" });
+}
+
+goalsFeature.action("goal_nofilter", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_goal" || state.step !== "filter") return;
+
+  await ctx.answerCbQuery();
+  await askGoalTarget(ctx, numericId, { ...state.data, category: null });
+});
+
+goalsFeature.action(/^goal_cat_(.+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_goal" || state.step !== "filter") return;
+
+  await ctx.answerCbQuery();
+  await askGoalTarget(ctx, numericId, { ...state.data, category: ctx.match[1] });
+});
+
+goalsFeature.action(/^goal_period_(.+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const period = ctx.match[1];
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+
+  if (!state || state.action !== "add_goal" || state.step !== "period") return;
+
+  const { title, type, targetCount, category } = state.data ?? {};
+  if (!title || !type || targetCount === undefined) return;
+
+  const now = new Date();
+  let endDate = new Date(now);
+  if (period === "weekly") {
+    endDate.setDate(now.getDate() + (7 - now.getDay()));
+  } else {
+    endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+  }
+
+  try {
+    await storage.createGoal({
+      title,
+      type,
+      targetCount,
+      currentCount: 0,
+      period,
+      category: category ?? null,
+      telegramUserId,
+      startDate: now,
+      endDate,
+    });
+    // Whatever was already done today counts
+    await refreshGoalProgress(telegramUserId);
+
+    await userStates.delete(numericId);
+    await ctx.answerCbQuery("Maqsad qo'shildi!");
+    await ctx.editMessageText(
+      `✅ Maqsad qo'shildi!\n\n🎯 *${title}*\n📊 ${targetCount} ${type === "tasks" ? "vazifa" : "xarajat"}\n📅 ${period === "weekly" ? "Haftalik" : "Oylik"}`,
+      { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_goals")]]) }
+    );
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+async function createSavingsGoal(ctx: Context, numericId: number, data: ConversationData["add_goal"], deadline: string | null) {
+  const telegramUserId = getTelegramUserId(ctx);
+  const { title, targetCount, currency } = data;
+  if (!title || targetCount === undefined) return;
+
+  const goal = await storage.createGoal({
+    title,
+    type: "savings",
+    targetCount,
+    currentCount: 0,
+    currency,
+    period: "deadline",
+    telegramUserId,
+    startDate: new Date(),
+    endDate: deadline ? uzDateTimeToUTC(deadline, "23:59") : null,
+  });
+  await userStates.delete(numericId);
+
+  const plan = getGoalSavingsPlan(goal);
+  let message = `✅ Jamg'arma maqsadi qo'shildi!\n\n💰 *${title}*\n🎯 ${formatMoney(targetCount, currency)}`;
+  if (goal.endDate) {
+    message += `\n📅 ${formatDeadline(goal.endDate)} gacha\n💡 Har oy ${formatMoney(plan.monthlyRequired ?? 0, currency)} yig'ish kerak`;
+  }
+  const extra = {
+    parse_mode: "Markdown" as const,
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("➕ Birinchi hissani qo'shish", `goal_contribute_${goal.id}`)],
+      [Markup.button.callback("🔙 Orqaga", "menu_goals")],
+    ]),
+  };
+  if (ctx.callbackQuery) await ctx.editMessageText(message, extra);
+  else await ctx.reply(message, extra);
+}
+
+goalsFeature.action("goal_deadline_none", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_goal" || state.step !== "deadline") return;
+
+  try {
+    await createSavingsGoal(ctx, numericId, state.data || {}, null);
+    await ctx.answerCbQuery("Maqsad qo'shildi!");
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+goalsFeature.action(/^goal_view_(\d+)$/, async (ctx) => {
+  const goal = await storage.getGoal(parseInt(ctx.match[1]), getTelegramUserId(ctx));
+  if (!goal) {
+    await ctx.answerCbQuery("Maqsad topilmadi");
+    return;
+  }
+  await ctx.answerCbQuery();
+  if (goal.type === "savings") await showSavingsGoal(ctx, goal);
+  else await showGoalHistory(ctx, goal);
+});
+
+goalsFeature.action(/^goal_(contribute|withdraw)_(\d+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const goal = await storage.getGoal(parseInt(ctx.match[2]), getTelegramUserId(ctx));
+  if (!goal || goal.type !== "savings") {
+    await ctx.answerCbQuery("Maqsad topilmadi");
+    return;
+  }
+  const withdraw = ctx.match[1] === "withdraw";
+
+  await userStates.set(numericId, { action: "goal_contribution", step: "amount", data: { goalId: goal.id, withdraw } });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    `💰 *${goal.title}*\n\n${withdraw ? "Qancha yechib oldingiz?" : "Qancha qo'shdingiz?"}\n\n_Masalan: 500000 yoki 1 mln maoshdan_`,
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "cancel")]]) }
+  );
+});
+
+goalsFeature.action(/^goal_undo_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    const removed = await storage.deleteGoalContribution(parseInt(ctx.match[1]), telegramUserId);
+    const goal = removed && await storage.getGoal(removed.goalId, telegramUserId);
+    if (!goal) {
+      await ctx.answerCbQuery("Yozuv topilmadi");
+      return;
+    }
+    await ctx.answerCbQuery("Bekor qilindi ↩️");
+    await showSavingsGoal(ctx, await refreshSavingsGoal(goal));
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+goalsFeature.action(/^delete_goal_(\d+)$/, async (ctx) => {
+  const goalId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    await storage.deleteGoal(goalId, telegramUserId);
+    await ctx.answerCbQuery("Maqsad o'chirildi! 🗑");
+    await showGoalsMenu(ctx, telegramUserId);
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+// "1 mln", "500000 maoshdan" or "100$"; an amount without a currency is in `fallback`
+function parseMoneyInput(text: string, fallback: CurrencyCode): { amount: number; currency: CurrencyCode; note: string } | null {
+  const withCurrency = extractCurrencyAmount(text);
+  if (withCurrency) {
+    return { ...withCurrency.value, note: withCurrency.rest.trim() };
+  }
+  const plain = extractAmount(text);
+  return plain ? { amount: plain.value, currency: fallback, note: plain.rest.trim() } : null;
+}
+
+goalsFeature.onText("add_goal", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const text = ctx.message.text;
+
+  if (state.step === "title") {
+    await userStates.set(numericId, {
+      action: "add_goal",
+      step: "type",
+      data: { title: text },
+    });
+    await ctx.reply(
+      "Maqsad turini tanlang:",
+      Markup.inlineKeyboard([
+        [
+          Markup.button.callback("📋 Vazifalar", "goal_type_tasks"),
+          Markup.button.callback("💰 Xarajatlar", "goal_type_expenses"),
+        ],
+        [Markup.button.callback("🏦 Pul yig'ish (jamg'arma)", "goal_type_savings")],
+        [Markup.button.callback("❌ Bekor", "cancel")],
+      ])
+    );
+  } else if (state.step === "filter") {
+    const tag = text.trim().replace(/^#/, "");
+    if (!tag || /\s/.test(tag)) {
+      await ctx.reply("Iltimos, bitta so'zdan iborat teg yozing:\n\n_Masalan: #sport_", { parse_mode: "Markdown" });
+      return;
+    }
+    await askGoalTarget(ctx, numericId, { ...state.data, category: tag });
+  } else if (state.step === "target") {
+    const targetCount = parseInt(text);
+    if (isNaN(targetCount) || targetCount <= 0) {
+      await ctx.reply("Iltimos, to'g'ri son kiriting:");
+      return;
+    }
+
+    await userStates.set(numericId, {
+      action: "add_goal",
+      step: "period",
+      data: { ...state.data, targetCount },
+    });
+    await ctx.reply(
+      "Davr tanlang:",
+      Markup.inlineKeyboard([
+        [
+          Markup.button.callback("📅 Haftalik", "goal_period_weekly"),
+          Markup.button.callback("📆 Oylik", "goal_period_monthly"),
+        ],
+        [Markup.button.callback("❌ Bekor", "cancel")],
+      ])
+    );
+  } else if (state.step === "amount") {
+    // The goal keeps the currency of its target: "1500$" is saved in dollars
+    const money = parseMoneyInput(text, await getUserCurrency(getTelegramUserId(ctx)));
+    if (!money) {
+      await ctx.reply("Iltimos, summani kiriting:\n\n_Masalan: 30 mln yoki 1500$_", { parse_mode: "Markdown" });
+      return;
+    }
+
+    await userStates.set(numericId, {
+      action: "add_goal",
+      step: "deadline",
+      data: { ...state.data, targetCount: Math.round(money.amount), currency: money.currency },
+    });
+    await ctx.reply(
+      "📅 Qachongacha yig'moqchisiz?\n\n_Masalan: 2027, 12.2027 yoki 31.12.2027_",
+      { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("⏭ Muddatsiz", "goal_deadline_none")]]) }
+    );
+  } else if (state.step === "deadline") {
+    const deadline = parseGoalDeadline(text, getUzbekistanDateString());
+    if (!deadline) {
+      await ctx.reply("Iltimos, kelajakdagi sanani kiriting:\n\n_Masalan: 2027, 12.2027 yoki 31.12.2027_", { parse_mode: "Markdown" });
+      return;
+    }
+    try {
+      await createSavingsGoal(ctx, numericId, state.data || {}, deadline);
+    } catch (error) {
+      await ctx.reply("❌ Xatolik yuz berdi");
+    }
+  }
+});
+
+goalsFeature.onText("goal_contribution", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+  if (!state.data) return;
+  const { goalId, withdraw } = state.data;
+
+  const goal = await storage.getGoal(goalId, telegramUserId);
+  if (!goal) {
+    await userStates.delete(numericId);
+    await ctx.reply("Maqsad topilmadi");
+    return;
+  }
+
+  const currency = getGoalCurrency(goal);
+  const money = parseMoneyInput(ctx.message.text, currency);
+  if (!money) {
+    await ctx.reply("Iltimos, summani kiriting:\n\n_Masalan: 500000 yoki 1 mln_", { parse_mode: "Markdown" });
+    return;
+  }
+
+  // Money in another currency is converted at today's rate
+  let amount = money.amount;
+  if (money.currency !== currency) {
+    const converted = await convertToSom(money.amount, money.currency);
+    if (!converted) {
+      await ctx.reply(`❌ ${money.currency} kursi topilmadi. Summani ${currency} da kiriting:`);
+      return;
+    }
+    amount = (await getMoneyViewFor(currency)).fromSom(converted.amount);
+  }
+
+  try {
+    await storage.createGoalContribution({
+      goalId: goal.id,
+      amount: Math.round(withdraw ? -amount : amount),
+      note: money.note || null,
+      telegramUserId,
+    });
+    const updated = await refreshSavingsGoal(goal);
+    const plan = getGoalSavingsPlan(updated);
+    await userStates.delete(numericId);
+
+    let message = `✅ ${withdraw ? "Yechildi" : "Qo'shildi"}: ${formatMoney(Math.round(amount), currency)}\n\n💰 *${goal.title}*\n${getProgressBar(updated.currentCount, updated.targetCount)}\n${formatGoalProgress(updated)}`;
+    if (plan.monthlyRequired) {
+      message += `\n💡 Har oy ${formatMoney(plan.monthlyRequired, currency)} yig'ish kerak`;
+    }
+    await ctx.reply(message, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("📜 Tarix", `goal_view_${goal.id}`)],
+        [Markup.button.callback("🔙 Orqaga", "menu_goals")],
+      ]),
+    });
+  } catch (error) {
+    await ctx.reply("❌ Xatolik yuz berdi");
+  }
+});
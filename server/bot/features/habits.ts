@@ -0,0 +1,374 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import { userStates, type ConversationData } from "../../conversation-state";
+import { getUzbekistanDateString } from "../../recurring";
+import { checkInHabit, describeHabitReminder, formatHabitStreak, getHabitsWithStreaks, type HabitWithStreak } from "../../habits";
+import { computeHabitStreak, describeHabitFrequency, formatHabitDays, getHabitStreakUnit, isHabitSettled, MAX_HABIT_TITLE_LENGTH, type HabitFrequency } from "@shared/habits";
+import { isReminderPrayer, PRAYER_NAMES, REMINDER_PRAYERS } from "@shared/prayer-reminder";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, checkSubscription, showSubscriptionRequired, escapeMarkdown } from "../helpers";
+
+export const habitsFeature = defineFeature("habits");
+
+function habitStatusEmoji({ habit, streak }: HabitWithStreak): string {
+  if (!habit.active) return "⏸";
+  if (streak.today === "freeze") return "❄️";
+  return isHabitSettled(habit, streak) ? "✅" : "⬜️";
+}
+
+async function showHabitsMenu(ctx: Context, telegramUserId: string) {
+  const habits = await getHabitsWithStreaks(telegramUserId);
+
+  let message = "🔥 *Odatlar*\n\n";
+  if (habits.length === 0) {
+    message += "Hozircha odatlar yo'q.\n\n_Masalan: 10 bet kitob o'qish, ertalabki zikrlar, shakarsiz kun_";
+  } else {
+    for (const entry of habits) {
+      const { habit, streak } = entry;
+      message += `${habitStatusEmoji(entry)} *${escapeMarkdown(habit.title)}* — ${formatHabitStreak(habit, streak)}\n`;
+      if (habit.frequency === "weekly") {
+        message += `   bu hafta ${streak.weekDone}/${habit.weeklyTarget}\n`;
+      }
+    }
+  }
+
+  const buttons: any[] = habits.map(({ habit }) => [
+    Markup.button.callback(`${habit.active ? "🔥" : "⏸"} ${habit.title.slice(0, 30)}`, `habit_view_${habit.id}`),
+  ]);
+  buttons.push([Markup.button.callback("➕ Yangi odat", "add_habit")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "back_main")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+async function showHabit(ctx: Context, telegramUserId: string, habitId: number, notice?: string) {
+  const habit = await storage.getHabit(habitId, telegramUserId);
+  if (!habit) {
+    await ctx.editMessageText("❌ Odat topilmadi.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_habits")]]),
+    });
+    return;
+  }
+
+  const today = getUzbekistanDateString();
+  const checkins = await storage.getHabitCheckins(telegramUserId, habit.id);
+  const streak = computeHabitStreak(habit, checkins, today);
+  const unit = getHabitStreakUnit(habit);
+  const reminder = describeHabitReminder(habit);
+
+  let message = notice ? `${notice}\n\n` : "";
+  message += `🔥 *${escapeMarkdown(habit.title)}*\n\n`;
+  message += `📅 ${describeHabitFrequency(habit)}\n`;
+  message += `⏰ ${reminder ? `Eslatma: ${reminder}` : "Eslatmasiz"}\n`;
+  if (!habit.active) message += `⏸ To'xtatilgan\n`;
+  message += `\nJoriy seriya: *${streak.current} ${unit}*\n`;
+  message += `Rekord: ${streak.best} ${unit}\n`;
+  if (habit.frequency === "weekly") message += `Bu hafta: ${streak.weekDone}/${habit.weeklyTarget}\n`;
+  message += `❄️ Muzlatish: bu oy ${streak.freezesLeft}/${habit.freezesPerMonth} qoldi\n`;
+  message += `\n${formatHabitDays(checkins, today)}\n_oxirgi 14 kun_`;
+
+  const buttons: any[] = [];
+  if (streak.today) {
+    buttons.push([Markup.button.callback("↩️ Bugungi belgini bekor qilish", `habit_undo_${habit.id}`)]);
+  } else if (habit.active) {
+    buttons.push([
+      Markup.button.callback("✅ Bajardim", `habit_done_${habit.id}`),
+      Markup.button.callback("❄️ Muzlatish", `habit_freeze_${habit.id}`),
+    ]);
+  }
+  buttons.push([
+    Markup.button.callback(habit.active ? "⏸ To'xtatish" : "▶️ Davom ettirish", `habit_toggle_${habit.id}`),
+    Markup.button.callback("🗑 O'chirish", `habit_delete_${habit.id}`),
+  ]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_habits")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+async function askHabitReminder(ctx: Context, numericId: number, data: ConversationData["add_habit"]) {
+  await userStates.set(numericId, { action: "add_habit", step: "reminder", data });
+  await ctx.editMessageText(
+    `🔥 *${escapeMarkdown(data.title)}*\n\nQachon so'ray? Belgilash tugmalarini shu vaqtda yuboraman.`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [
+          Markup.button.callback("⏰ Vaqt kiriting", "habit_remind_time"),
+          Markup.button.callback("🕌 Namozdan keyin", "habit_remind_prayer"),
+        ],
+        [Markup.button.callback("⏭ Eslatmasiz", "habit_remind_none")],
+        [Markup.button.callback("❌ Bekor", "cancel")],
+      ]),
+    }
+  );
+}
+
+async function saveHabit(
+  ctx: Context,
+  numericId: number,
+  data: ConversationData["add_habit"],
+  reminder: { reminderTime?: string; reminderPrayer?: string; reminderPrayerOffset?: number }
+) {
+  if (!data.title) return;
+  const telegramUserId = getTelegramUserId(ctx);
+  await userStates.delete(numericId);
+
+  const habit = await storage.createHabit({
+    title: data.title,
+    frequency: data.frequency,
+    weeklyTarget: data.weeklyTarget ?? 1,
+    reminderTime: reminder.reminderTime ?? null,
+    reminderPrayer: reminder.reminderPrayer ?? null,
+    reminderPrayerOffset: reminder.reminderPrayerOffset ?? null,
+    telegramUserId,
+  });
+
+  const when = describeHabitReminder(habit);
+  let message = `✅ *Odat qo'shildi!*\n\n🔥 ${escapeMarkdown(habit.title)}\n📅 ${describeHabitFrequency(habit)}\n`;
+  message += when ? `⏰ Har kuni ${when} so'rayman.` : "⏰ Belgilashni odatlar menyusidan qilasiz.";
+
+  const reply = { parse_mode: "Markdown" as const, ...Markup.inlineKeyboard([[Markup.button.callback("🔥 Odatlar", "menu_habits")]]) };
+  if (ctx.callbackQuery) {
+    await ctx.editMessageText(message, reply);
+  } else {
+    await ctx.reply(message, reply);
+  }
+}
+
+habitsFeature.action("menu_habits", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "habits");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Odatlar");
+    return;
+  }
+
+  await showHabitsMenu(ctx, telegramUserId);
+});
+
+habitsFeature.action("add_habit", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "habits");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Odat qo'shish");
+    return;
+  }
+
+  await userStates.set(numericId, { action: "add_habit", step: "title" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "🔥 *Yangi odat*\n\nOdat nomini yozing:\n\n_Masalan: 10 bet kitob o'qish, ertalabki zikrlar yoki shakarsiz kun_",
+    { parse_mode: "Markdown" }
+  );
+});
+
+habitsFeature.action(/^habit_freq_(daily|weekly)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "frequency") return;
+  await ctx.answerCbQuery();
+
+  const frequency = ctx.match[1] as HabitFrequency;
+  if (frequency === "daily") {
+    await askHabitReminder(ctx, numericId, { ...state.data, frequency });
+    return;
+  }
+
+  await userStates.set(numericId, { action: "add_habit", step: "target", data: { ...state.data, frequency } });
+  const counts = [1, 2, 3, 4, 5, 6];
+  await ctx.editMessageText(`🔥 *${escapeMarkdown(state.data?.title)}*\n\nHaftasiga necha marta?`, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      counts.slice(0, 3).map(n => Markup.button.callback(`${n}`, `habit_target_${n}`)),
+      counts.slice(3).map(n => Markup.button.callback(`${n}`, `habit_target_${n}`)),
+      [Markup.button.callback("❌ Bekor", "cancel")],
+    ]),
+  });
+});
+
+habitsFeature.action(/^habit_target_([1-6])$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "target") return;
+  await ctx.answerCbQuery();
+
+  await askHabitReminder(ctx, numericId, { ...state.data, weeklyTarget: parseInt(ctx.match[1]) });
+});
+
+habitsFeature.action("habit_remind_time", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "reminder") return;
+  await ctx.answerCbQuery();
+
+  await userStates.set(numericId, { action: "add_habit", step: "time", data: state.data });
+  await ctx.editMessageText("⏰ Soatni kiriting (masalan: 07:30):");
+});
+
+habitsFeature.action("habit_remind_none", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "reminder") return;
+  await ctx.answerCbQuery();
+
+  await saveHabit(ctx, numericId, state.data || {}, {});
+});
+
+habitsFeature.action("habit_remind_prayer", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "reminder") return;
+  await ctx.answerCbQuery();
+
+  await ctx.editMessageText("🕌 Qaysi namozdan keyin so'ray?", {
+    ...Markup.inlineKeyboard([
+      ...[REMINDER_PRAYERS.slice(0, 3), REMINDER_PRAYERS.slice(3)].map(row =>
+        row.map(prayer => Markup.button.callback(`🕌 ${PRAYER_NAMES[prayer]}`, `habit_prayer_${prayer}`))
+      ),
+      [Markup.button.callback("❌ Bekor", "cancel")],
+    ]),
+  });
+});
+
+habitsFeature.action(/^habit_prayer_(fajr|dhuhr|asr|maghrib|isha)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "reminder") return;
+  await ctx.answerCbQuery();
+
+  const prayer = ctx.match[1];
+  const offsets = [10, 20, 30, 60];
+  await ctx.editMessageText(`🕌 *${PRAYER_NAMES[prayer as keyof typeof PRAYER_NAMES]}*\n\nNamozdan qancha keyin?`, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      offsets.map(offset => Markup.button.callback(offset === 60 ? "+1 soat" : `+${offset} min`, `habit_prayer_${prayer}_${offset}`)),
+      [Markup.button.callback("🔙 Orqaga", "habit_remind_prayer")],
+    ]),
+  });
+});
+
+habitsFeature.action(/^habit_prayer_(fajr|dhuhr|asr|maghrib|isha)_(\d+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_habit" || state.step !== "reminder") return;
+  await ctx.answerCbQuery();
+
+  const prayer = ctx.match[1];
+  if (!isReminderPrayer(prayer)) return;
+  await saveHabit(ctx, numericId, state.data || {}, { reminderPrayer: prayer, reminderPrayerOffset: parseInt(ctx.match[2]) });
+});
+
+habitsFeature.action(/^habit_view_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  await showHabit(ctx, getTelegramUserId(ctx), parseInt(ctx.match[1]));
+});
+
+// Sent both from the habit card and from the scheduler's check-in prompt
+habitsFeature.action(/^habit_(done|freeze)_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const status = ctx.match[1] as "done" | "freeze";
+
+  try {
+    const habit = await storage.getHabit(parseInt(ctx.match[2]), telegramUserId);
+    if (!habit) {
+      await ctx.answerCbQuery("Odat topilmadi");
+      return;
+    }
+
+    const result = await checkInHabit(habit, status);
+    if (!result.ok) {
+      await ctx.answerCbQuery("❄️ Bu oy muzlatish kunlari tugagan", { show_alert: true });
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    const unit = getHabitStreakUnit(habit);
+    const notice = status === "done"
+      ? `✅ Barakalla! Seriya: *${result.streak.current} ${unit}*`
+      : `❄️ Bugun muzlatildi — seriya saqlanadi (${result.streak.current} ${unit})`;
+    await showHabit(ctx, telegramUserId, habit.id, notice);
+  } catch (error) {
+    console.error("Habit check-in error:", error);
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+habitsFeature.action(/^habit_undo_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const habitId = parseInt(ctx.match[1]);
+
+  await storage.deleteHabitCheckin(habitId, getUzbekistanDateString(), telegramUserId);
+  await showHabit(ctx, telegramUserId, habitId, "↩️ Bugungi belgi bekor qilindi");
+});
+
+habitsFeature.action(/^habit_toggle_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const habit = await storage.getHabit(parseInt(ctx.match[1]), telegramUserId);
+  if (!habit) return;
+
+  await storage.updateHabit(habit.id, { active: !habit.active }, telegramUserId);
+  await showHabit(ctx, telegramUserId, habit.id);
+});
+
+habitsFeature.action(/^habit_delete_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery("Odat o'chirildi");
+  const telegramUserId = getTelegramUserId(ctx);
+
+  await storage.deleteHabit(parseInt(ctx.match[1]), telegramUserId);
+  await showHabitsMenu(ctx, telegramUserId);
+});
+
+habitsFeature.onText("add_habit", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const text = ctx.message.text.trim();
+
+  if (state.step === "title") {
+    if (!text || text.length > MAX_HABIT_TITLE_LENGTH) {
+      await ctx.reply(`Iltimos, ${MAX_HABIT_TITLE_LENGTH} belgidan qisqa nom yozing:`);
+      return;
+    }
+    await userStates.set(numericId, { action: "add_habit", step: "frequency", data: { title: text } });
+    await ctx.reply(
+      "Qanchalik tez-tez?",
+      Markup.inlineKeyboard([
+        [
+          Markup.button.callback("📅 Har kuni", "habit_freq_daily"),
+          Markup.button.callback("🗓 Haftasiga bir necha marta", "habit_freq_weekly"),
+        ],
+        [Markup.button.callback("❌ Bekor", "cancel")],
+      ])
+    );
+  } else if (state.step === "time") {
+    const timeMatch = text.match(/^(\d{1,2}):(\d{2})$/);
+    const hours = timeMatch ? parseInt(timeMatch[1]) : NaN;
+    const minutes = timeMatch ? parseInt(timeMatch[2]) : NaN;
+    if (!timeMatch || hours > 23 || minutes > 59) {
+      await ctx.reply("Noto'g'ri format. Iltimos, soat:minut formatida kiriting (masalan: 07:30):");
+      return;
+    }
+
+    const reminderTime = `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+    await saveHabit(ctx, numericId, state.data || {}, { reminderTime });
+  }
+});
@@ -0,0 +1,208 @@
+import { Markup, type Context } from "telegraf";
+import { storage } from "../../storage";
+import { userStates, type ConversationData } from "../../conversation-state";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "../../recurring";
+import { convertToSom, getMoneyView, getUserCurrency } from "../../currency";
+import { parseExpenseInput } from "@shared/uz-parser";
+import { formatMoney } from "@shared/currency";
+import { INCOME_SOURCES, getIncomeSourceIcon } from "@shared/income";
+import { defineFeature } from "../registry";
+import { formatCurrency, formatOriginalAmount, getTelegramUserId, checkSubscription, showSubscriptionRequired, getAccountKeyboard } from "../helpers";
+
+export const incomeFeature = defineFeature("income");
+
+function getIncomeSourceKeyboard() {
+  const rows = [];
+  for (let i = 0; i < INCOME_SOURCES.length; i += 2) {
+    const row = [Markup.button.callback(`${INCOME_SOURCES[i].icon} ${INCOME_SOURCES[i].name}`, `income_src_${INCOME_SOURCES[i].name}`)];
+    if (INCOME_SOURCES[i + 1]) {
+      row.push(Markup.button.callback(`${INCOME_SOURCES[i + 1].icon} ${INCOME_SOURCES[i + 1].name}`, `income_src_${INCOME_SOURCES[i + 1].name}`));
+    }
+    rows.push(row);
+  }
+  rows.push([Markup.button.callback("❌ Bekor", "menu_expenses")]);
+  return Markup.inlineKeyboard(rows);
+}
+
+async function buildIncomeList(telegramUserId: string) {
+  const now = new Date();
+  const monthStart = uzDateTimeToUTC(`${getUzbekistanDateString(now).slice(0, 7)}-01`, "00:00") ?? now;
+  const incomes = (await storage.getIncomes(telegramUserId)).filter(i => new Date(i.createdAt) >= monthStart);
+  const money = await getMoneyView(telegramUserId);
+
+  const buttons: any[] = [];
+  let message: string;
+  if (incomes.length === 0) {
+    message = "💵 Bu oy daromad kiritilmagan.";
+  } else {
+    message = "💵 *Shu oydagi daromadlar:*\n\n";
+    incomes.slice(0, 10).forEach(income => {
+      message += `• ${getIncomeSourceIcon(income.source)} ${income.description} - *${formatOriginalAmount(income)}*\n`;
+      buttons.push([Markup.button.callback(`🗑 ${income.description.slice(0, 25)}`, `delete_income_${income.id}`)]);
+    });
+    const total = incomes.reduce((sum, i) => sum + i.amount, 0);
+    message += `\n📊 *Jami: ${money.format(total)}*`;
+  }
+  buttons.push([Markup.button.callback("➕ Daromad qo'shish", "income_add")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+
+  return { message, keyboard: Markup.inlineKeyboard(buttons) };
+}
+
+incomeFeature.action("income_add", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Daromad qo'shish");
+    return;
+  }
+
+  await userStates.set(numericId, { action: "add_income", step: "input" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "💵 *Yangi daromad*\n\nNomi va summasini yozing:\n\n_Masalan: Oylik maosh 8 mln_\n_yoki: kecha frilans 300$_",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "menu_expenses")]])
+    }
+  );
+});
+
+async function saveIncome(ctx: Context, numericId: number, telegramUserId: string, data: ConversationData["add_income"], accountId: number | null) {
+  const { amount, currency, originalAmount, exchangeRate, description, source, createdAt } = data;
+  if (amount === undefined || !description || !source) return;
+
+  try {
+    const income = await storage.createIncome({
+      amount,
+      currency: currency || "UZS",
+      originalAmount: originalAmount ?? null,
+      exchangeRate: exchangeRate || 1,
+      description,
+      source,
+      accountId,
+      telegramUserId,
+      ...(createdAt ? { createdAt } : {}),
+    });
+    const account = accountId ? await storage.getAccount(accountId, telegramUserId) : undefined;
+
+    await userStates.delete(numericId);
+    await ctx.answerCbQuery("Daromad qo'shildi!");
+    await ctx.editMessageText(
+      `✅ Daromad qo'shildi!\n\n💵 *${formatOriginalAmount(income)}*${income.originalAmount != null ? ` (≈ ${formatCurrency(income.amount)})` : ""}\n📝 ${description}\n${getIncomeSourceIcon(source)} ${source}${account ? `\n🏦 ${account.name}` : ""}`,
+      { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_expenses")]]) }
+    );
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+}
+
+incomeFeature.action(/^income_src_(.+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_income" || state.step !== "source") {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const data = { ...state.data, source: ctx.match[1] };
+  const accounts = await storage.getAccounts(telegramUserId);
+  if (accounts.length > 1) {
+    await userStates.set(numericId, { action: "add_income", step: "account", data });
+    await ctx.answerCbQuery();
+    await ctx.editMessageText("🏦 Qaysi hisobga tushdi?", getAccountKeyboard(accounts, "income_acc_", "menu_expenses", "income_acc_none"));
+    return;
+  }
+  await saveIncome(ctx, numericId, telegramUserId, data, accounts[0]?.id ?? null);
+});
+
+incomeFeature.action(/^income_acc_(\d+|none)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_income" || state.step !== "account") {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const accountId = ctx.match[1] === "none" ? null : parseInt(ctx.match[1]);
+  await saveIncome(ctx, numericId, getTelegramUserId(ctx), state.data || {}, accountId);
+});
+
+incomeFeature.action("income_list", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+
+  const { message, keyboard } = await buildIncomeList(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+incomeFeature.action(/^delete_income_(\d+)$/, async (ctx) => {
+  const incomeId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    await storage.deleteIncome(incomeId, telegramUserId);
+    await ctx.answerCbQuery("Daromad o'chirildi! 🗑");
+
+    const { message, keyboard } = await buildIncomeList(telegramUserId);
+    await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+incomeFeature.onText("add_income", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+  const text = ctx.message.text;
+
+  if (state.step === "input") {
+    const today = getUzbekistanDateString();
+    const parsed = parseExpenseInput(text, today);
+    const amount = parsed.amount;
+
+    if (!amount || amount <= 0 || !parsed.description) {
+      await ctx.reply(
+        "❌ Noto'g'ri format.\n\nNomi va summasini yozing:\n_Masalan: Oylik maosh 8 mln_",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const description = parsed.description;
+    const createdAt = parsed.date && parsed.date !== today ? uzDateTimeToUTC(parsed.date, "12:00") : null;
+
+    const currency = parsed.currency ?? await getUserCurrency(telegramUserId);
+    const converted = await convertToSom(amount, currency, createdAt);
+    if (!converted) {
+      await ctx.reply(
+        `❌ ${currency} kursi hozircha mavjud emas.\n\nKeyinroq urinib ko'ring yoki summani so'mda yozing.`
+      );
+      return;
+    }
+
+    await userStates.set(numericId, {
+      action: "add_income",
+      step: "source",
+      data: { ...converted, description, createdAt },
+    });
+
+    let msg = converted.originalAmount != null
+      ? `💵 *${formatMoney(amount, currency)}* (≈ ${formatCurrency(converted.amount)}) - ${description}\n`
+      : `💵 *${formatCurrency(converted.amount)}* - ${description}\n`;
+    if (createdAt) {
+      msg += `📅 ${parsed.date}\n`;
+    }
+    msg += `\nManbani tanlang:`;
+
+    await ctx.reply(msg, { parse_mode: "Markdown", ...getIncomeSourceKeyboard() });
+  }
+});
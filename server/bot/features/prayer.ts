@@ -0,0 +1,904 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import {
+  UZBEKISTAN_REGIONS, getPrayerTimesForRegion, getPrayerTimesForLocation, getPrayerTimesForSettings,
+  getPrayerCalcSettings, formatPrayerTimesMessage, type RegionCode,
+} from "../../prayer";
+import { getWeekPrayerLog } from "../../prayer-log";
+import { buildImsakiyaPdf, getMonthTimetable, getRamadanTimetable } from "../../prayer-timetable";
+import { getUzbekistanDateString } from "../../recurring";
+import { formatPrayerLogDay, getQazaSummary, PRAYER_LOG_LABELS, type PrayerLogStatus } from "@shared/prayer-log";
+import { PRAYER_NAMES, REMINDER_PRAYERS, type ReminderPrayer } from "@shared/prayer-reminder";
+import {
+  ASR_SCHOOL_NAMES, clampPrayerOffset, formatPrayerOffset, isPrayerMethodId, MAX_PRAYER_OFFSET_MINUTES,
+  PRAYER_METHOD_IDS, PRAYER_METHODS, PRAYER_OFFSET_KEYS, type PrayerOffsetKey,
+} from "@shared/prayer-calc";
+import { formatTimetableDate, formatTimetableMonth, shiftTimetableMonth, type PrayerTimetable } from "@shared/prayer-timetable";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, mainMenuKeyboard, persistentKeyboard, checkSubscription, showSubscriptionRequired } from "../helpers";
+
+export const prayerFeature = defineFeature("prayer");
+
+prayerFeature.action("menu_prayer", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "prayer");
+  
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Namoz vaqtlari");
+    return;
+  }
+  
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const regionCode = settings?.regionCode || "namangan";
+  const region = UZBEKISTAN_REGIONS[regionCode as RegionCode];
+  const advanceMinutes = settings?.advanceMinutes || 10;
+  
+  const saharlikStatus = settings?.saharlikEnabled ? "✅" : "❌";
+  const iftorlikStatus = settings?.iftorlikEnabled ? "✅" : "❌";
+
+  const buttons = [
+    [Markup.button.callback("📅 Bugungi vaqtlar", "prayer_today")],
+    [
+      Markup.button.callback("🗓 Oylik jadval", "prayer_month"),
+      Markup.button.callback("🌙 Ramazon taqvimi", "prayer_imsakiya"),
+    ],
+    [Markup.button.callback("📿 Namoz daftari", "prayer_log")],
+    [Markup.button.callback("🔔 Eslatma sozlamalari", "prayer_settings")],
+    [Markup.button.callback(`🌙 Ramazon eslatmalari (${saharlikStatus}/${iftorlikStatus})`, "ramadan_settings")],
+    [Markup.button.callback("🔙 Orqaga", "back_main")],
+  ];
+
+  await ctx.editMessageText(
+    `🕌 *Ibodat*\n\n📍 Hudud: *${region?.name || "Namangan"}*\n🔔 Eslatma: *${advanceMinutes} min oldin*\n🌙 Saharlik: ${saharlikStatus} | Iftorlik: ${iftorlikStatus}\n\nQuyidagi tugmalardan birini tanlang:`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard(buttons),
+    }
+  );
+});
+
+prayerFeature.action("prayer_today", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const regionCode = settings?.regionCode || "namangan";
+  const region = UZBEKISTAN_REGIONS[regionCode as RegionCode];
+  const advanceMinutes = settings?.advanceMinutes || 10;
+  
+  const times = await getPrayerTimesForSettings(settings);
+  
+  if (!times) {
+    await ctx.editMessageText(
+      "❌ Namoz vaqtlarini olishda xatolik yuz berdi. Keyinroq urinib ko'ring.",
+      { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_prayer")]]) }
+    );
+    return;
+  }
+  
+  const regionName = settings?.useCustomLocation ? "Sizning joylashuvingiz" : (region?.name || "Namangan");
+  const message = formatPrayerTimesMessage(regionName, times, advanceMinutes);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_prayer")]]),
+  });
+});
+
+// Monospace rows: "19• 05:20 06:39 12:08 15:55 17:40 18:56", • marking today
+function formatMonthTable(timetable: PrayerTimetable, today: string): string {
+  const header = ["Bomd.", "Quyo.", "Pesh.", "Asr", "Shom", "Xuft."].map(title => title.padEnd(5)).join(" ");
+  const rows = timetable.days.map(day => {
+    const { fajr, sunrise, dhuhr, asr, maghrib, isha } = day.times;
+    return `${day.date.slice(8, 10)}${day.date === today ? "•" : " "} ${[fajr, sunrise, dhuhr, asr, maghrib, isha].join(" ")}`;
+  });
+  return "```\n" + `Kun ${header}\n` + rows.join("\n") + "\n```";
+}
+
+async function showPrayerMonth(ctx: Context, telegramUserId: string, month: string) {
+  const timetable = await getMonthTimetable(telegramUserId, month);
+  if (!timetable) {
+    await ctx.editMessageText(
+      "❌ Namoz vaqtlarini olishda xatolik yuz berdi. Keyinroq urinib ko'ring.",
+      { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_prayer")]]) }
+    );
+    return;
+  }
+
+  const today = getUzbekistanDateString();
+  let message = `🗓 *${formatTimetableMonth(month)}* — ${timetable.place}\n\n`;
+  message += formatMonthTable(timetable, today);
+  if (timetable.days.some(day => day.ramadanDay)) {
+    message += "\n_Ramazon kunlari uchun saharlik va iftorlik jadvali — 🌙 Ramazon taqvimi_";
+  }
+
+  const buttons: any[] = [[
+    Markup.button.callback(`◀️ ${formatTimetableMonth(shiftTimetableMonth(month, -1))}`, `prayer_month_${shiftTimetableMonth(month, -1)}`),
+    Markup.button.callback(`${formatTimetableMonth(shiftTimetableMonth(month, 1))} ▶️`, `prayer_month_${shiftTimetableMonth(month, 1)}`),
+  ]];
+  if (month !== today.slice(0, 7)) buttons.push([Markup.button.callback("📅 Shu oy", "prayer_month")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_prayer")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+prayerFeature.action("prayer_month", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "prayer");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Oylik namoz jadvali");
+    return;
+  }
+
+  await showPrayerMonth(ctx, telegramUserId, getUzbekistanDateString().slice(0, 7));
+});
+
+prayerFeature.action(/^prayer_month_(\d{4}-(?:0[1-9]|1[0-2]))$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  await showPrayerMonth(ctx, getTelegramUserId(ctx), ctx.match[1]);
+});
+
+prayerFeature.action("prayer_imsakiya", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "prayer");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Ramazon taqvimi");
+    return;
+  }
+
+  const result = await getRamadanTimetable(telegramUserId);
+  if (!result) {
+    await ctx.editMessageText(
+      "❌ Namoz vaqtlarini olishda xatolik yuz berdi. Keyinroq urinib ko'ring.",
+      { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_prayer")]]) }
+    );
+    return;
+  }
+
+  const { ramadan, timetable } = result;
+  const today = getUzbekistanDateString();
+  let message = `🌙 *Ramazon taqvimi ${ramadan.from.slice(0, 4)}* — ${timetable.place}\n`;
+  message += `📅 ${formatTimetableDate(ramadan.from)} – ${formatTimetableDate(ramadan.to)}\n\n`;
+  message += "```\nKun Sana  Saharlik Iftorlik\n";
+  message += timetable.days.map(day =>
+    `${String(day.ramadanDay ?? "").padStart(2)}${day.date === today ? "•" : " "} ${formatTimetableDate(day.date)} ${day.times.fajr.padEnd(8)} ${day.times.maghrib}`
+  ).join("\n");
+  message += "\n```\n_Saharlik Bomdod kirguncha, iftorlik Shom vaqtida. Ramazon boshlanishi rasmiy e'lon bilan bir kunga farq qilishi mumkin._";
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("📄 PDF yuklab olish", "imsakiya_pdf")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+});
+
+prayerFeature.action("imsakiya_pdf", async (ctx) => {
+  await ctx.answerCbQuery("Taqvim tayyorlanmoqda...");
+  const telegramUserId = getTelegramUserId(ctx);
+
+  try {
+    const file = await buildImsakiyaPdf(telegramUserId);
+    if (!file) {
+      await ctx.reply("❌ Namoz vaqtlarini olishda xatolik yuz berdi. Keyinroq urinib ko'ring.");
+      return;
+    }
+    await ctx.replyWithDocument(
+      { source: file.buffer, filename: file.filename },
+      { caption: `🌙 Ramazon taqvimi — ${file.timetable.place}\n📅 ${formatTimetableDate(file.ramadan.from)} – ${formatTimetableDate(file.ramadan.to)}` }
+    );
+  } catch (error) {
+    console.error("Imsakiya error:", error);
+    await ctx.reply("❌ Taqvimni tayyorlab bo'lmadi. Keyinroq urinib ko'ring.");
+  }
+});
+
+// Ramadan Saharlik/Iftorlik settings
+prayerFeature.action("ramadan_settings", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+
+  const saharlik = settings?.saharlikEnabled ?? false;
+  const iftorlik = settings?.iftorlikEnabled ?? false;
+  const saharlikMin = settings?.saharlikMinutes ?? 30;
+  const iftorlikMin = settings?.iftorlikMinutes ?? 10;
+
+  let message = `🌙 *Ramazon eslatmalari*\n\n`;
+  message += `🍽 Saharlik eslatmasi: ${saharlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Bomdoddan *${saharlikMin} min oldin*\n\n`;
+  message += `🌆 Iftorlik eslatmasi: ${iftorlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Shomdan *${iftorlikMin} min oldin*\n\n`;
+  message += `_Eslatmalar tanlagan hududingizga ko'ra yuboriladi_`;
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(saharlik ? "✅ Saharlik" : "❌ Saharlik", "toggle_saharlik")],
+      [Markup.button.callback(iftorlik ? "✅ Iftorlik" : "❌ Iftorlik", "toggle_iftorlik")],
+      [Markup.button.callback(`⏰ Saharlik: ${saharlikMin} min`, "saharlik_time")],
+      [Markup.button.callback(`⏰ Iftorlik: ${iftorlikMin} min`, "iftorlik_time")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+});
+
+prayerFeature.action("toggle_saharlik", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const newValue = !(settings?.saharlikEnabled ?? false);
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    saharlikEnabled: newValue,
+  });
+  // Re-render ramadan settings
+  const updated = await storage.getPrayerSettings(telegramUserId);
+  const saharlik = updated?.saharlikEnabled ?? false;
+  const iftorlik = updated?.iftorlikEnabled ?? false;
+  const saharlikMin = updated?.saharlikMinutes ?? 30;
+  const iftorlikMin = updated?.iftorlikMinutes ?? 10;
+
+  let message = `🌙 *Ramazon eslatmalari*\n\n`;
+  message += `🍽 Saharlik eslatmasi: ${saharlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Bomdoddan *${saharlikMin} min oldin*\n\n`;
+  message += `🌆 Iftorlik eslatmasi: ${iftorlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Shomdan *${iftorlikMin} min oldin*\n\n`;
+  message += `_Eslatmalar tanlagan hududingizga ko'ra yuboriladi_`;
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(saharlik ? "✅ Saharlik" : "❌ Saharlik", "toggle_saharlik")],
+      [Markup.button.callback(iftorlik ? "✅ Iftorlik" : "❌ Iftorlik", "toggle_iftorlik")],
+      [Markup.button.callback(`⏰ Saharlik: ${saharlikMin} min`, "saharlik_time")],
+      [Markup.button.callback(`⏰ Iftorlik: ${iftorlikMin} min`, "iftorlik_time")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+});
+
+prayerFeature.action("toggle_iftorlik", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const newValue = !(settings?.iftorlikEnabled ?? false);
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    iftorlikEnabled: newValue,
+  });
+  const updated = await storage.getPrayerSettings(telegramUserId);
+  const saharlik = updated?.saharlikEnabled ?? false;
+  const iftorlik = updated?.iftorlikEnabled ?? false;
+  const saharlikMin = updated?.saharlikMinutes ?? 30;
+  const iftorlikMin = updated?.iftorlikMinutes ?? 10;
+
+  let message = `🌙 *Ramazon eslatmalari*\n\n`;
+  message += `🍽 Saharlik eslatmasi: ${saharlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Bomdoddan *${saharlikMin} min oldin*\n\n`;
+  message += `🌆 Iftorlik eslatmasi: ${iftorlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Shomdan *${iftorlikMin} min oldin*\n\n`;
+  message += `_Eslatmalar tanlagan hududingizga ko'ra yuboriladi_`;
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(saharlik ? "✅ Saharlik" : "❌ Saharlik", "toggle_saharlik")],
+      [Markup.button.callback(iftorlik ? "✅ Iftorlik" : "❌ Iftorlik", "toggle_iftorlik")],
+      [Markup.button.callback(`⏰ Saharlik: ${saharlikMin} min`, "saharlik_time")],
+      [Markup.button.callback(`⏰ Iftorlik: ${iftorlikMin} min`, "iftorlik_time")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+});
+
+prayerFeature.action("saharlik_time", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const currentMin = settings?.saharlikMinutes ?? 30;
+
+  await ctx.editMessageText(
+    `⏰ *Saharlik eslatmasi*\n\nBomdoddan necha minut oldin eslatilsin?\n\nHozirgi: *${currentMin} min*`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [
+          Markup.button.callback("15 min", "set_saharlik_15"),
+          Markup.button.callback("20 min", "set_saharlik_20"),
+          Markup.button.callback("30 min", "set_saharlik_30"),
+        ],
+        [
+          Markup.button.callback("45 min", "set_saharlik_45"),
+          Markup.button.callback("60 min", "set_saharlik_60"),
+        ],
+        [Markup.button.callback("🔙 Orqaga", "ramadan_settings")],
+      ]),
+    }
+  );
+});
+
+prayerFeature.action(/^set_saharlik_(\d+)$/, async (ctx) => {
+  const minutes = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    saharlikMinutes: minutes,
+  });
+  await ctx.answerCbQuery(`✅ ${minutes} minut oldin eslatiladi`);
+  // Return to ramadan settings
+  ctx.match = ["ramadan_settings"] as any;
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const saharlik = settings?.saharlikEnabled ?? false;
+  const iftorlik = settings?.iftorlikEnabled ?? false;
+  const saharlikMin = settings?.saharlikMinutes ?? 30;
+  const iftorlikMin = settings?.iftorlikMinutes ?? 10;
+
+  let message = `🌙 *Ramazon eslatmalari*\n\n`;
+  message += `🍽 Saharlik eslatmasi: ${saharlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Bomdoddan *${saharlikMin} min oldin*\n\n`;
+  message += `🌆 Iftorlik eslatmasi: ${iftorlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Shomdan *${iftorlikMin} min oldin*\n\n`;
+  message += `_Eslatmalar tanlagan hududingizga ko'ra yuboriladi_`;
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(saharlik ? "✅ Saharlik" : "❌ Saharlik", "toggle_saharlik")],
+      [Markup.button.callback(iftorlik ? "✅ Iftorlik" : "❌ Iftorlik", "toggle_iftorlik")],
+      [Markup.button.callback(`⏰ Saharlik: ${saharlikMin} min`, "saharlik_time")],
+      [Markup.button.callback(`⏰ Iftorlik: ${iftorlikMin} min`, "iftorlik_time")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+});
+
+prayerFeature.action("iftorlik_time", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const currentMin = settings?.iftorlikMinutes ?? 10;
+
+  await ctx.editMessageText(
+    `⏰ *Iftorlik eslatmasi*\n\nShomdan necha minut oldin eslatilsin?\n\nHozirgi: *${currentMin} min*`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [
+          Markup.button.callback("5 min", "set_iftorlik_5"),
+          Markup.button.callback("10 min", "set_iftorlik_10"),
+          Markup.button.callback("15 min", "set_iftorlik_15"),
+        ],
+        [
+          Markup.button.callback("20 min", "set_iftorlik_20"),
+          Markup.button.callback("30 min", "set_iftorlik_30"),
+        ],
+        [Markup.button.callback("🔙 Orqaga", "ramadan_settings")],
+      ]),
+    }
+  );
+});
+
+prayerFeature.action(/^set_iftorlik_(\d+)$/, async (ctx) => {
+  const minutes = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    iftorlikMinutes: minutes,
+  });
+  await ctx.answerCbQuery(`✅ ${minutes} minut oldin eslatiladi`);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const saharlik = settings?.saharlikEnabled ?? false;
+  const iftorlik = settings?.iftorlikEnabled ?? false;
+  const saharlikMin = settings?.saharlikMinutes ?? 30;
+  const iftorlikMin = settings?.iftorlikMinutes ?? 10;
+
+  let message = `🌙 *Ramazon eslatmalari*\n\n`;
+  message += `🍽 Saharlik eslatmasi: ${saharlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Bomdoddan *${saharlikMin} min oldin*\n\n`;
+  message += `🌆 Iftorlik eslatmasi: ${iftorlik ? "✅ Yoqilgan" : "❌ O'chirilgan"}\n`;
+  message += `  ↳ Shomdan *${iftorlikMin} min oldin*\n\n`;
+  message += `_Eslatmalar tanlagan hududingizga ko'ra yuboriladi_`;
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback(saharlik ? "✅ Saharlik" : "❌ Saharlik", "toggle_saharlik")],
+      [Markup.button.callback(iftorlik ? "✅ Iftorlik" : "❌ Iftorlik", "toggle_iftorlik")],
+      [Markup.button.callback(`⏰ Saharlik: ${saharlikMin} min`, "saharlik_time")],
+      [Markup.button.callback(`⏰ Iftorlik: ${iftorlikMin} min`, "iftorlik_time")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+});
+
+prayerFeature.action("prayer_regions", async (ctx) => {
+  await ctx.answerCbQuery();
+  
+  const regionButtons: any[] = [];
+  const regionEntries = Object.entries(UZBEKISTAN_REGIONS);
+  
+  for (let i = 0; i < regionEntries.length; i += 2) {
+    const row = [];
+    const [code1, region1] = regionEntries[i];
+    row.push(Markup.button.callback(region1.name, `select_region_${code1}`));
+    
+    if (regionEntries[i + 1]) {
+      const [code2, region2] = regionEntries[i + 1];
+      row.push(Markup.button.callback(region2.name, `select_region_${code2}`));
+    }
+    regionButtons.push(row);
+  }
+  regionButtons.push([Markup.button.callback("🔙 Orqaga", "menu_prayer")]);
+  
+  await ctx.editMessageText(
+    "🏙 *Viloyatni tanlang:*\n\nNamoz vaqtlari tanlangan viloyatga qarab hisoblanadi.",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard(regionButtons),
+    }
+  );
+});
+
+// Region selection from /start flow - saves region and shows main menu
+prayerFeature.action(/^start_region_(.+)$/, async (ctx) => {
+  const regionCode = ctx.match[1];
+  const telegramUserId = getTelegramUserId(ctx);
+  const region = UZBEKISTAN_REGIONS[regionCode as RegionCode];
+
+  if (!region) {
+    await ctx.answerCbQuery("Viloyat topilmadi");
+    return;
+  }
+
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    regionCode,
+    useCustomLocation: false,
+  });
+
+  await ctx.answerCbQuery(`✅ ${region.name} tanlandi!`);
+
+  await ctx.editMessageText(
+    `✅ *${region.name}* hududingiz sifatida belgilandi!\n\nEndi namoz vaqtlari va eslatmalar shu hududga ko'ra ishlaydi.`,
+    {
+      parse_mode: "Markdown",
+      ...mainMenuKeyboard,
+    }
+  );
+});
+
+// Region menu from main menu button
+prayerFeature.action("menu_region", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const currentRegion = settings?.regionCode ? UZBEKISTAN_REGIONS[settings.regionCode as RegionCode] : null;
+
+  const currentName = settings?.useCustomLocation
+    ? "📍 GPS joylashuv"
+    : currentRegion?.name || "Belgilanmagan";
+
+  await ctx.editMessageText(
+    `📍 *Hudud sozlamalari*\n\nHozirgi hudud: *${currentName}*\n\nPastdagi tugmani bosib GPS joylashuvingizni yuboring.`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "back_main")]]),
+    }
+  );
+
+  await ctx.reply(
+    "📍 GPS joylashuvni yuborish:",
+    Markup.keyboard([
+      [Markup.button.locationRequest("📍 Joylashuvni yuborish")]
+    ]).resize().oneTime()
+  );
+});
+
+prayerFeature.action(/^select_region_(.+)$/, async (ctx) => {
+  const regionCode = ctx.match[1];
+  const telegramUserId = getTelegramUserId(ctx);
+  const region = UZBEKISTAN_REGIONS[regionCode as RegionCode];
+  
+  if (!region) {
+    await ctx.answerCbQuery("Viloyat topilmadi");
+    return;
+  }
+  
+  const settings = await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    regionCode,
+    useCustomLocation: false,
+  });
+  
+  await ctx.answerCbQuery(`${region.name} tanlandi!`);
+  
+  const times = await getPrayerTimesForRegion(regionCode, new Date(), getPrayerCalcSettings(settings));
+  if (!times) {
+    await ctx.editMessageText(
+      `✅ *${region.name}* tanlandi!\n\nLekin namoz vaqtlarini olishda xatolik yuz berdi.`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_prayer")]]),
+      }
+    );
+    return;
+  }
+  
+  const message = formatPrayerTimesMessage(region.name, times, 10);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+
+  await ctx.reply("👇", persistentKeyboard);
+});
+
+prayerFeature.action("prayer_location", async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📍 *Joylashuvni yuborish*\n\nPastdagi tugmani bosib joylashuvingizni yuboring.\n\n_Joylashuv faqat namoz vaqtlarini aniqlash uchun ishlatiladi._",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+      ]),
+    }
+  );
+  
+  await ctx.reply(
+    "📍 Joylashuvingizni yuboring:",
+    Markup.keyboard([
+      [Markup.button.locationRequest("📍 Joylashuvni yuborish")]
+    ]).resize().oneTime()
+  );
+});
+
+async function showPrayerSettings(ctx: Context, telegramUserId: string) {
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const calc = getPrayerCalcSettings(settings);
+  
+  const fajr = settings?.fajrEnabled ?? true;
+  const dhuhr = settings?.dhuhrEnabled ?? true;
+  const asr = settings?.asrEnabled ?? true;
+  const maghrib = settings?.maghribEnabled ?? true;
+  const isha = settings?.ishaEnabled ?? true;
+  const advanceMinutes = settings?.advanceMinutes || 10;
+  const offsets = PRAYER_OFFSET_KEYS.filter(key => calc.offsets?.[key])
+    .map(key => `${PRAYER_NAMES[key]} ${formatPrayerOffset(calc.offsets![key]!)}`);
+  
+  let message = "🔔 *Namoz eslatmalari*\n\n";
+  message += `⏰ Eslatma vaqti: *${advanceMinutes} min oldin*\n`;
+  message += `🧮 Hisoblash usuli: *${PRAYER_METHODS[calc.method].name}*\n`;
+  message += `🌤 Asr: *${ASR_SCHOOL_NAMES[calc.asrSchool]}*\n`;
+  message += `⏱ Tuzatishlar: *${offsets.length > 0 ? offsets.join(", ") : "yo'q"}*\n\n`;
+  message += "Qaysi namozlar eslatilsin?\n";
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [
+        Markup.button.callback(fajr ? "✅ Bomdod" : "❌ Bomdod", "toggle_prayer_fajr"),
+        Markup.button.callback(dhuhr ? "✅ Peshin" : "❌ Peshin", "toggle_prayer_dhuhr"),
+      ],
+      [
+        Markup.button.callback(asr ? "✅ Asr" : "❌ Asr", "toggle_prayer_asr"),
+        Markup.button.callback(maghrib ? "✅ Shom" : "❌ Shom", "toggle_prayer_maghrib"),
+      ],
+      [Markup.button.callback(isha ? "✅ Xufton" : "❌ Xufton", "toggle_prayer_isha")],
+      [
+        Markup.button.callback("5 min", "advance_5"),
+        Markup.button.callback("10 min", "advance_10"),
+        Markup.button.callback("15 min", "advance_15"),
+        Markup.button.callback("20 min", "advance_20"),
+      ],
+      [Markup.button.callback("🧮 Hisoblash usuli", "prayer_method")],
+      [Markup.button.callback(`🌤 Asr: ${ASR_SCHOOL_NAMES[calc.asrSchool]}`, "prayer_asr_school")],
+      [Markup.button.callback("⏱ Daqiqa tuzatishlari", "prayer_offsets")],
+      [Markup.button.callback("🔙 Orqaga", "menu_prayer")],
+    ]),
+  });
+}
+
+prayerFeature.action("prayer_settings", async (ctx) => {
+  await ctx.answerCbQuery();
+  await showPrayerSettings(ctx, getTelegramUserId(ctx));
+});
+
+prayerFeature.action(/^toggle_prayer_(.+)$/, async (ctx) => {
+  const prayer = ctx.match[1];
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const updates: Record<string, boolean> = {};
+  
+  switch (prayer) {
+    case "fajr": updates.fajrEnabled = !(settings?.fajrEnabled ?? true); break;
+    case "dhuhr": updates.dhuhrEnabled = !(settings?.dhuhrEnabled ?? true); break;
+    case "asr": updates.asrEnabled = !(settings?.asrEnabled ?? true); break;
+    case "maghrib": updates.maghribEnabled = !(settings?.maghribEnabled ?? true); break;
+    case "isha": updates.ishaEnabled = !(settings?.ishaEnabled ?? true); break;
+  }
+  
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    ...updates,
+  });
+  
+  await ctx.answerCbQuery("Saqlandi!");
+  await showPrayerSettings(ctx, telegramUserId);
+});
+
+prayerFeature.action(/^advance_(\d+)$/, async (ctx) => {
+  const minutes = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    advanceMinutes: minutes,
+  });
+  
+  await ctx.answerCbQuery(`${minutes} min oldin eslatiladi`);
+  await showPrayerSettings(ctx, telegramUserId);
+});
+
+prayerFeature.action("prayer_method", async (ctx) => {
+  await ctx.answerCbQuery();
+  const settings = await storage.getPrayerSettings(getTelegramUserId(ctx));
+  const { method } = getPrayerCalcSettings(settings);
+  
+  const buttons = PRAYER_METHOD_IDS.map(id => [
+    Markup.button.callback(`${id === method ? "✅ " : ""}${PRAYER_METHODS[id].name}`, `prayer_method_${id}`),
+  ]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "prayer_settings")]);
+  
+  await ctx.editMessageText(
+    "🧮 *Hisoblash usuli*\n\nBomdod va Xufton quyosh ufqdan necha daraja pastda bo'lganda kirishi usulga bog'liq. O'zbekistonda odatda *O'zbekiston musulmonlari idorasi* usuli qo'llanadi.",
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) }
+  );
+});
+
+prayerFeature.action(new RegExp(`^prayer_method_(${PRAYER_METHOD_IDS.join("|")})$`), async (ctx) => {
+  const method = ctx.match[1];
+  if (!isPrayerMethodId(method)) return;
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  await storage.createOrUpdatePrayerSettings({ telegramUserId, calcMethod: method });
+  await ctx.answerCbQuery(`✅ ${PRAYER_METHODS[method].name}`);
+  await showPrayerSettings(ctx, telegramUserId);
+});
+
+// Only two schools, so the button just switches between them
+prayerFeature.action("prayer_asr_school", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const asrSchool = getPrayerCalcSettings(settings).asrSchool === "hanafi" ? "shafii" : "hanafi";
+  
+  await storage.createOrUpdatePrayerSettings({ telegramUserId, asrSchool });
+  await ctx.answerCbQuery(`Asr: ${ASR_SCHOOL_NAMES[asrSchool]}`);
+  await showPrayerSettings(ctx, telegramUserId);
+});
+
+async function showPrayerOffsets(ctx: Context, telegramUserId: string) {
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const { offsets } = getPrayerCalcSettings(settings);
+  
+  let message = "⏱ *Daqiqa tuzatishlari*\n\n";
+  message += "Masjidingiz jadvali hisoblangan vaqtdan farq qilsa, har bir namozga bir necha daqiqa qo'shing yoki ayiring ";
+  message += `(±${MAX_PRAYER_OFFSET_MINUTES} min gacha). Eslatmalar ham shunga ko'ra yuboriladi.`;
+  
+  const buttons: any[] = PRAYER_OFFSET_KEYS.map(key => [
+    Markup.button.callback("➖", `prayer_offset_${key}_dec`),
+    Markup.button.callback(`${PRAYER_NAMES[key]}: ${formatPrayerOffset(offsets?.[key] ?? 0)} min`, "prayer_offsets"),
+    Markup.button.callback("➕", `prayer_offset_${key}_inc`),
+  ]);
+  buttons.push([Markup.button.callback("♻️ Hammasini 0 qilish", "prayer_offset_reset")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "prayer_settings")]);
+  
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+prayerFeature.action("prayer_offsets", async (ctx) => {
+  await ctx.answerCbQuery();
+  await showPrayerOffsets(ctx, getTelegramUserId(ctx));
+});
+
+prayerFeature.action(/^prayer_offset_(fajr|dhuhr|asr|maghrib|isha)_(dec|inc)$/, async (ctx) => {
+  const prayer = ctx.match[1] as PrayerOffsetKey;
+  const telegramUserId = getTelegramUserId(ctx);
+  const { offsets } = getPrayerCalcSettings(await storage.getPrayerSettings(telegramUserId));
+  
+  const current = offsets?.[prayer] ?? 0;
+  const next = clampPrayerOffset(current + (ctx.match[2] === "inc" ? 1 : -1));
+  if (next === current) {
+    await ctx.answerCbQuery(`Eng ko'pi ±${MAX_PRAYER_OFFSET_MINUTES} min`);
+    return;
+  }
+  
+  await storage.createOrUpdatePrayerSettings({ telegramUserId, [`${prayer}Offset`]: next });
+  await ctx.answerCbQuery(`${PRAYER_NAMES[prayer]}: ${formatPrayerOffset(next)} min`);
+  await showPrayerOffsets(ctx, telegramUserId);
+});
+
+prayerFeature.action("prayer_offset_reset", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    fajrOffset: 0,
+    dhuhrOffset: 0,
+    asrOffset: 0,
+    maghribOffset: 0,
+    ishaOffset: 0,
+  });
+  await ctx.answerCbQuery("Tuzatishlar o'chirildi");
+  await showPrayerOffsets(ctx, telegramUserId);
+});
+
+prayerFeature.onLocation(async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const { latitude, longitude } = ctx.message.location;
+  
+  const settings = await storage.createOrUpdatePrayerSettings({
+    telegramUserId,
+    latitude: latitude.toString(),
+    longitude: longitude.toString(),
+    useCustomLocation: true,
+  });
+  
+  const times = await getPrayerTimesForLocation(latitude, longitude, new Date(), getPrayerCalcSettings(settings));
+  if (!times) {
+    await ctx.reply(
+      "❌ Namoz vaqtlarini olishda xatolik yuz berdi.",
+      Markup.removeKeyboard()
+    );
+    return;
+  }
+  
+  const message = formatPrayerTimesMessage("Sizning joylashuvingiz", times, 10);
+  
+  await ctx.reply(message, {
+    parse_mode: "Markdown",
+  });
+  
+  await ctx.reply("👇", persistentKeyboard);
+  await ctx.reply("Asosiy menyu:", mainMenuKeyboard);
+});
+
+async function showPrayerLog(ctx: Context, telegramUserId: string) {
+  const week = await getWeekPrayerLog(telegramUserId);
+  const today = week.days[week.days.length - 1];
+
+  let message = "📿 *Namoz daftari*\n\n";
+  message += `*Bugun (${formatTimetableDate(today.date)}):*\n`;
+  for (const prayer of REMINDER_PRAYERS) {
+    const status = today.prayers[prayer];
+    message += `${status === "prayed" ? "✅" : status === "qaza" ? "⏳" : "▫️"} ${PRAYER_NAMES[prayer]}\n`;
+  }
+
+  message += `\n*Oxirgi 7 kun:*\n`;
+  for (const day of week.days) {
+    message += `\`${formatTimetableDate(day.date)}\` ${formatPrayerLogDay(day)}\n`;
+  }
+  message += `\n📈 O'z vaqtida: *${week.consistency.percent}%* (${week.consistency.prayed}/${week.consistency.total})`;
+  if (week.consistency.qaza > 0) message += `, qazo: ${week.consistency.qaza}`;
+  message += `\n⏳ Qazo qarzi: *${week.qaza.total} ta*`;
+  message += `\n\n_Bugungi namozni belgilash uchun tugmani bosing_`;
+
+  // Each tap moves a prayer through unmarked → prayed → qaza → unmarked
+  const buttons: any[] = [REMINDER_PRAYERS.slice(0, 3), REMINDER_PRAYERS.slice(3)].map(row =>
+    row.map(prayer => Markup.button.callback(PRAYER_NAMES[prayer], `prayer_log_mark_${prayer}`))
+  );
+  buttons.push([Markup.button.callback(`⏳ Qazo qarzi (${week.qaza.total})`, "prayer_qaza")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_prayer")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+async function showQaza(ctx: Context, telegramUserId: string, notice?: string) {
+  const qaza = getQazaSummary(await storage.getPrayerLog(telegramUserId));
+
+  let message = notice ? `${notice}\n\n` : "";
+  message += "⏳ *Qazo namozlar*\n\n";
+  if (qaza.total === 0) {
+    message += "Qazo qarzingiz yo'q. Alhamdulillah! 🤲\n";
+  } else {
+    for (const prayer of REMINDER_PRAYERS) {
+      if (qaza.outstanding[prayer] > 0) message += `• ${PRAYER_NAMES[prayer]}: *${qaza.outstanding[prayer]}* ta\n`;
+    }
+    message += `\nJami: *${qaza.total} ta*\n`;
+  }
+  if (qaza.madeUp > 0) message += `✅ Ado qilingan: ${qaza.madeUp} ta\n`;
+  if (qaza.total > 0) message += `\n_Qazo o'qiganingizda tugmasini bosing — eng eskisidan ayiriladi_`;
+
+  const buttons: any[] = REMINDER_PRAYERS
+    .filter(prayer => qaza.outstanding[prayer] > 0)
+    .map(prayer => [Markup.button.callback(`✅ ${PRAYER_NAMES[prayer]} qazosini o'qidim`, `qaza_makeup_${prayer}`)]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "prayer_log")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+}
+
+prayerFeature.action("prayer_log", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "prayer");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Namoz daftari");
+    return;
+  }
+
+  await showPrayerLog(ctx, telegramUserId);
+});
+
+prayerFeature.action(/^prayer_log_mark_(fajr|dhuhr|asr|maghrib|isha)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const prayer = ctx.match[1];
+  const date = getUzbekistanDateString();
+
+  const current = (await storage.getPrayerLog(telegramUserId, date, date)).find(e => e.prayer === prayer);
+  if (!current) {
+    await storage.setPrayerLogStatus({ telegramUserId, date, prayer, status: "prayed" });
+  } else if (current.status === "prayed") {
+    await storage.setPrayerLogStatus({ telegramUserId, date, prayer, status: "qaza" });
+  } else {
+    await storage.deletePrayerLogEntry(telegramUserId, date, prayer);
+  }
+
+  await showPrayerLog(ctx, telegramUserId);
+});
+
+// The buttons under each prayer reminder
+prayerFeature.action(/^plog_(\d{4}-\d{2}-\d{2})_(fajr|dhuhr|asr|maghrib|isha)_(prayed|qaza)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const [, date, prayer, status] = ctx.match;
+
+  try {
+    await storage.setPrayerLogStatus({ telegramUserId, date, prayer, status });
+    await ctx.answerCbQuery(PRAYER_LOG_LABELS[status as PrayerLogStatus]);
+
+    const name = PRAYER_NAMES[prayer as ReminderPrayer];
+    let message: string;
+    if (status === "prayed") {
+      message = `🕌 *${name}* · ${formatTimetableDate(date)}\n\n✅ O'qildi. Alloh qabul qilsin! 🤲`;
+    } else {
+      const qaza = getQazaSummary(await storage.getPrayerLog(telegramUserId));
+      message = `🕌 *${name}* · ${formatTimetableDate(date)}\n\n⏳ Qazo sifatida yozildi.\nQazo qarzi: *${qaza.total} ta*`;
+    }
+
+    const other = status === "prayed" ? "qaza" : "prayed";
+    await ctx.editMessageText(message, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback(`↔️ ${PRAYER_LOG_LABELS[other]}`, `plog_${date}_${prayer}_${other}`)],
+        [Markup.button.callback("📿 Namoz daftari", "prayer_log")],
+      ]),
+    });
+  } catch (error) {
+    console.error("Prayer log error:", error);
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+prayerFeature.action("prayer_qaza", async (ctx) => {
+  await ctx.answerCbQuery();
+  await showQaza(ctx, getTelegramUserId(ctx));
+});
+
+prayerFeature.action(/^qaza_makeup_(fajr|dhuhr|asr|maghrib|isha)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const prayer = ctx.match[1] as ReminderPrayer;
+
+  const madeUp = await storage.makeUpQaza(telegramUserId, prayer);
+  await ctx.answerCbQuery(madeUp ? "Qabul bo'lsin!" : "Bu namozdan qazo qolmagan");
+  await showQaza(ctx, telegramUserId, madeUp ? `✅ ${PRAYER_NAMES[prayer]} qazosi ado qilindi (${formatTimetableDate(madeUp.date)})` : undefined);
+});
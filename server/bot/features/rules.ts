@@ -0,0 +1,193 @@
+import { Markup } from "telegraf";
+import { storage } from "../../storage";
+import { userStates, type ConversationData } from "../../conversation-state";
+import { describeRule, learnRuleSuggestions, MAX_RULE_PATTERN_LENGTH, parseAmountRange, parseRulePattern } from "@shared/category-rules";
+import { defineFeature } from "../registry";
+import { getTelegramUserId, checkSubscription, showSubscriptionRequired, defaultCategories, getCategoryIcon, escapeMarkdown } from "../helpers";
+
+export const rulesFeature = defineFeature("rules");
+
+async function getCategoryNames(telegramUserId: string): Promise<string[]> {
+  const categories = await storage.getExpenseCategories(telegramUserId);
+  return categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+}
+
+async function buildRulesMenu(telegramUserId: string) {
+  const [rules, expenses] = await Promise.all([
+    storage.getCategoryRules(telegramUserId),
+    storage.getExpenses(telegramUserId),
+  ]);
+  const learned = learnRuleSuggestions(expenses, rules, 3);
+
+  let message = "🤖 *Avto-kategoriya qoidalari*\n\n";
+  message += "Xarajat izohi yoki do'kon nomi qoidaga mos kelsa, kategoriya so'ralmaydi.\n\n";
+
+  const buttons: any[] = [];
+  if (rules.length === 0) {
+    message += "_Hali qoida yo'q._\n";
+  } else {
+    rules.forEach((rule, i) => {
+      message += `${i + 1}. ${escapeMarkdown(describeRule(rule))}\n`;
+      buttons.push([Markup.button.callback(`🗑 ${i + 1}. ${describeRule(rule).slice(0, 30)}`, `rule_delete_${rule.id}`)]);
+    });
+  }
+
+  // Learned from the user's own history; the keyword is carried in the callback so a
+  // suggestion that disappears meanwhile can't create the wrong rule
+  if (learned.length > 0) {
+    message += "\n💡 *Tavsiyalar:*\n";
+    learned.forEach(s => {
+      message += `• "${escapeMarkdown(s.keyword)}" → ${s.category} _(${s.count} marta)_\n`;
+      const data = `rule_learn_${s.keyword}`;
+      if (Buffer.byteLength(data) <= 64) {
+        buttons.push([Markup.button.callback(`➕ "${s.keyword}" → ${s.category}`, data)]);
+      }
+    });
+  }
+
+  buttons.push([Markup.button.callback("➕ Qoida qo'shish", "rule_add")]);
+  buttons.push([Markup.button.callback("🔙 Orqaga", "expense_categories")]);
+
+  return { message, keyboard: Markup.inlineKeyboard(buttons) };
+}
+
+rulesFeature.action("menu_rules", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Avto-kategoriya");
+    return;
+  }
+
+  const { message, keyboard } = await buildRulesMenu(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+rulesFeature.action(/^rule_delete_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  try {
+    await storage.deleteCategoryRule(parseInt(ctx.match[1]), telegramUserId);
+    await ctx.answerCbQuery("Qoida o'chirildi! 🗑");
+
+    const { message, keyboard } = await buildRulesMenu(telegramUserId);
+    await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+rulesFeature.action(/^rule_learn_(.+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const keyword = ctx.match[1];
+
+  const [rules, expenses] = await Promise.all([
+    storage.getCategoryRules(telegramUserId),
+    storage.getExpenses(telegramUserId),
+  ]);
+  const suggestion = learnRuleSuggestions(expenses, rules).find(s => s.keyword === keyword);
+  if (!suggestion) {
+    await ctx.answerCbQuery("Tavsiya eskirgan");
+    return;
+  }
+
+  await storage.createCategoryRule({ pattern: keyword, matchType: "keyword", field: "any", category: suggestion.category, telegramUserId });
+  await ctx.answerCbQuery("Qoida qo'shildi!");
+  const { message, keyboard } = await buildRulesMenu(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+rulesFeature.action("rule_add", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  await userStates.set(numericId, { action: "add_rule", step: "pattern" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "🤖 *Yangi qoida*\n\nKalit so'zni yozing:\n\n_Masalan: taksi_\n_yoki shablon: yandex* (bilan boshlanadi), *pizza* (ichida bor)_\n\nFaqat summa bo'yicha qoida uchun «-» yozing.",
+    { parse_mode: "Markdown", ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "menu_rules")]]) }
+  );
+});
+
+rulesFeature.action(/^rule_cat_(\d+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_rule" || state.step !== "category") {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const category = (await getCategoryNames(telegramUserId))[parseInt(ctx.match[1])];
+  if (!category) {
+    await ctx.answerCbQuery("Kategoriya topilmadi");
+    return;
+  }
+
+  const { pattern, matchType, minAmount, maxAmount } = state.data || {};
+  await storage.createCategoryRule({
+    pattern: pattern ?? null,
+    matchType: matchType ?? "keyword",
+    field: "any",
+    minAmount: minAmount ?? null,
+    maxAmount: maxAmount ?? null,
+    category,
+    telegramUserId,
+  });
+  await userStates.delete(numericId);
+  await ctx.answerCbQuery("Qoida qo'shildi!");
+
+  const { message, keyboard } = await buildRulesMenu(telegramUserId);
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...keyboard });
+});
+
+rulesFeature.onText("add_rule", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+  const text = ctx.message.text.trim();
+
+  if (state.step === "pattern") {
+    let data: ConversationData["add_rule"] = {};
+    if (text !== "-") {
+      const parsed = parseRulePattern(text);
+      if (!parsed) {
+        await ctx.reply(`❌ /regex/ qo'llab-quvvatlanmaydi, shablon ${MAX_RULE_PATTERN_LENGTH} belgigacha bo'ladi. Kalit so'z yoki * bilan shablon yozing (masalan: yandex*):`);
+        return;
+      }
+      data = parsed;
+    }
+
+    await userStates.set(numericId, { action: "add_rule", step: "amount", data });
+    await ctx.reply(
+      "💰 Summa oralig'i (ixtiyoriy):\n\n_Masalan: 10000-50000, >1 mln, <20k_\n\nO'tkazib yuborish uchun «-» yozing.",
+      { parse_mode: "Markdown" }
+    );
+  } else if (state.step === "amount") {
+    let range: { minAmount: number | null; maxAmount: number | null } = { minAmount: null, maxAmount: null };
+    if (text !== "-") {
+      const parsed = parseAmountRange(text);
+      if (!parsed) {
+        await ctx.reply("❌ Oraliqni tushunmadim. Masalan: 10000-50000, >1 mln yoki «-»");
+        return;
+      }
+      range = parsed;
+    } else if (!state.data?.pattern) {
+      await ctx.reply("❌ Qoidada kalit so'z yoki summa bo'lishi kerak. Summa oralig'ini yozing:");
+      return;
+    }
+
+    const catNames = await getCategoryNames(telegramUserId);
+    const rows = [];
+    for (let i = 0; i < catNames.length; i += 2) {
+      rows.push(catNames.slice(i, i + 2).map((name, j) =>
+        Markup.button.callback(`${getCategoryIcon(name)} ${name}`, `rule_cat_${i + j}`)
+      ));
+    }
+    rows.push([Markup.button.callback("❌ Bekor", "menu_rules")]);
+
+    await userStates.set(numericId, { action: "add_rule", step: "category", data: { ...state.data, ...range } });
+    await ctx.reply("📁 Qaysi kategoriyaga tushsin?", Markup.inlineKeyboard(rows));
+  }
+});
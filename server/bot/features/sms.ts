@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import { Markup } from "telegraf";
+import { storage } from "../../storage";
+import { uzDateTimeToUTC } from "../../recurring";
+import { convertToSom } from "../../currency";
+import { suggestCategory } from "../../categorize";
+import { refreshGoalProgress } from "../../goals";
+import { parseBankSms, guessSmsCategory } from "@shared/bank-sms";
+import { INCOME_SOURCES } from "@shared/income";
+import { formatMoney, isCurrencyCode } from "@shared/currency";
+import type { ImportDraft } from "@shared/schema";
+import { defineFeature, type TextContext } from "../registry";
+import { formatCurrency, getTelegramUserId, checkSubscription, defaultCategories, getCategoryIcon, escapeMarkdown } from "../helpers";
+
+export const smsFeature = defineFeature("sms");
+
+async function getChoices(draft: Pick<ImportDraft, "kind">, telegramUserId: string): Promise<string[]> {
+  if (draft.kind === "income") return INCOME_SOURCES.map(s => s.name);
+  const categories = await storage.getExpenseCategories(telegramUserId);
+  return categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+}
+
+function formatDraft(draft: ImportDraft): string {
+  const amount = draft.originalAmount != null && isCurrencyCode(draft.currency)
+    ? `${formatMoney(draft.originalAmount, draft.currency)} (≈ ${formatCurrency(draft.amount)})`
+    : formatCurrency(draft.amount);
+  const when = draft.occurredAt.toLocaleString("uz-UZ", {
+    timeZone: "Asia/Tashkent", day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit",
+  });
+
+  let message = draft.kind === "income" ? "📥 *Kirim*\n\n" : "📩 *Karta xabari*\n\n";
+  message += `💰 *${amount}*\n`;
+  message += `📍 ${draft.merchant ? escapeMarkdown(draft.merchant) : "Noma'lum"}\n`;
+  message += `💳 ${draft.bank}${draft.cardLast4 ? ` ••${draft.cardLast4}` : ""}\n`;
+  message += `🕓 ${when}\n`;
+  message += draft.category
+    ? `📁 ${draft.category}\n`
+    : `📁 _${draft.kind === "income" ? "Manba" : "Kategoriya"} tanlanmagan_\n`;
+  return message;
+}
+
+function draftKeyboard(draft: ImportDraft) {
+  return Markup.inlineKeyboard([
+    [Markup.button.callback(draft.category ? "✅ Tasdiqlash" : "📁 Tanlash va saqlash", draft.category ? `sms_ok_${draft.id}` : `sms_cat_${draft.id}`)],
+    [
+      Markup.button.callback("📁 Kategoriya", `sms_cat_${draft.id}`),
+      Markup.button.callback("🗑 Bekor", `sms_no_${draft.id}`),
+    ],
+  ]);
+}
+
+// Whitespace differs between a forwarded copy and the original, the notification doesn't
+function hashBankSms(text: string): string {
+  return crypto.createHash("sha256").update(text.replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+// Turns the draft into an expense or income; a single account is attached like in the manual flow.
+// Returns false when the draft was already saved, e.g. by a double tap.
+async function confirmDraft(draft: ImportDraft, telegramUserId: string): Promise<boolean> {
+  const accounts = await storage.getAccounts(telegramUserId);
+  const entry = {
+    amount: draft.amount,
+    currency: draft.currency,
+    originalAmount: draft.originalAmount,
+    exchangeRate: draft.exchangeRate,
+    description: draft.merchant ?? `${draft.bank} kartasi`,
+    accountId: accounts.length === 1 ? accounts[0].id : null,
+    importHash: hashBankSms(draft.rawText),
+    telegramUserId,
+    createdAt: draft.occurredAt,
+  };
+
+  const saved = await storage.confirmImportDraft(draft.id, telegramUserId, draft.kind === "income"
+    ? { income: { ...entry, source: draft.category ?? "Boshqa" } }
+    : { expense: { ...entry, category: draft.category ?? "Boshqa" } });
+  if (saved && draft.kind !== "income") await refreshGoalProgress(telegramUserId);
+  return saved;
+}
+
+// Called for text typed outside any conversation. Returns false when the text isn't a card
+// notification so the caller can fall back to its usual reply.
+export async function importBankSms(ctx: TextContext): Promise<boolean> {
+  const text = ctx.message.text;
+  const parsed = parseBankSms(text);
+  if (!parsed) return false;
+
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "expenses");
+  if (!subStatus.isActive) {
+    await ctx.reply(
+      "🔒 Karta xabarlarini import qilish uchun obuna talab qilinadi.",
+      Markup.inlineKeyboard([[Markup.button.callback("💎 Obuna rejalarini ko'rish", "menu_subscription")]])
+    );
+    return true;
+  }
+
+  if (await storage.isBankSmsImported(telegramUserId, hashBankSms(text))) {
+    await ctx.reply("ℹ️ Bu xabar allaqachon saqlangan.");
+    return true;
+  }
+
+  // The same notification forwarded twice stays a single draft
+  const existing = (await storage.getImportDrafts(telegramUserId)).find(d => d.rawText === text);
+  if (existing) {
+    await ctx.reply(`ℹ️ Bu xabar allaqachon qo'shilgan.\n\n${formatDraft(existing)}`, { parse_mode: "Markdown", ...draftKeyboard(existing) });
+    return true;
+  }
+
+  const occurredAt = (parsed.date && uzDateTimeToUTC(parsed.date, parsed.time ?? "12:00")) || new Date();
+  const converted = await convertToSom(parsed.amount, parsed.currency, occurredAt);
+  if (!converted) {
+    await ctx.reply(`❌ ${parsed.currency} kursi hozircha mavjud emas. Keyinroq qayta yuboring.`);
+    return true;
+  }
+
+  // The user's own rules and history know their merchants better than the built-in hints
+  const choices = await getChoices(parsed, telegramUserId);
+  const suggestion = parsed.kind === "expense"
+    ? await suggestCategory(telegramUserId, { description: parsed.merchant ?? "", merchant: parsed.merchant, amount: converted.amount }, choices)
+    : null;
+  const draft = await storage.createImportDraft({
+    kind: parsed.kind,
+    ...converted,
+    merchant: parsed.merchant,
+    category: parsed.kind === "expense" ? suggestion?.category ?? guessSmsCategory(parsed.merchant, choices) : null,
+    bank: parsed.bank,
+    cardLast4: parsed.cardLast4,
+    rawText: text,
+    occurredAt,
+    telegramUserId,
+  });
+
+  await ctx.reply(formatDraft(draft), { parse_mode: "Markdown", ...draftKeyboard(draft) });
+  return true;
+}
+
+smsFeature.action("menu_sms", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const drafts = await storage.getImportDrafts(telegramUserId);
+
+  let message = "📩 *Karta xabarlarini import*\n\n";
+  message += "HUMO yoki Uzcard SMS/Telegram xabarini shu botga yuboring (forward qiling) — xarajat qoralamasi tayyorlanadi, bir tugma bilan tasdiqlaysiz.\n";
+
+  const buttons: any[] = [];
+  if (drafts.length > 0) {
+    message += `\n⏳ *Tasdiqlanmagan: ${drafts.length} ta*\n`;
+    drafts.slice(0, 10).forEach(d => {
+      message += `• ${d.kind === "income" ? "+" : "−"}${formatCurrency(d.amount)} ${escapeMarkdown(d.merchant ?? d.bank)}\n`;
+      buttons.push([Markup.button.callback(`${d.kind === "income" ? "📥" : "📩"} ${(d.merchant ?? d.bank).slice(0, 20)} — ${formatCurrency(d.amount)}`, `sms_view_${d.id}`)]);
+    });
+    if (drafts.some(d => d.category)) {
+      buttons.push([Markup.button.callback("✅ Kategoriyalilarni tasdiqlash", "sms_ok_all")]);
+    }
+  }
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_expenses")]);
+
+  await ctx.editMessageText(message, { parse_mode: "Markdown", ...Markup.inlineKeyboard(buttons) });
+});
+
+smsFeature.action(/^sms_view_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const draft = await storage.getImportDraft(parseInt(ctx.match[1]), getTelegramUserId(ctx));
+  if (!draft) {
+    await ctx.editMessageText("Qoralama topilmadi.", Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_sms")]]));
+    return;
+  }
+  await ctx.editMessageText(formatDraft(draft), { parse_mode: "Markdown", ...draftKeyboard(draft) });
+});
+
+smsFeature.action(/^sms_ok_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const draft = await storage.getImportDraft(parseInt(ctx.match[1]), telegramUserId);
+  if (!draft) {
+    await ctx.answerCbQuery("Qoralama topilmadi");
+    return;
+  }
+
+  try {
+    if (!(await confirmDraft(draft, telegramUserId))) {
+      await ctx.answerCbQuery("Allaqachon saqlangan");
+      return;
+    }
+    await ctx.answerCbQuery(draft.kind === "income" ? "Daromad qo'shildi!" : "Xarajat qo'shildi!");
+    await ctx.editMessageText(`✅ Saqlandi!\n\n${formatDraft(draft)}`, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("💰 Xarajatlar", "menu_expenses")]]),
+    });
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+smsFeature.action("sms_ok_all", async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const drafts = (await storage.getImportDrafts(telegramUserId)).filter(d => d.category);
+
+  try {
+    let saved = 0;
+    for (const draft of drafts) {
+      if (await confirmDraft(draft, telegramUserId)) saved++;
+    }
+    await ctx.answerCbQuery(`${saved} ta saqlandi!`);
+    await ctx.editMessageText(`✅ ${saved} ta yozuv saqlandi.`, Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_sms")]]));
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+smsFeature.action(/^sms_cat_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const draft = await storage.getImportDraft(parseInt(ctx.match[1]), telegramUserId);
+  if (!draft) return;
+
+  // Choices are referenced by index so long category names fit in the callback data
+  const choices = await getChoices(draft, telegramUserId);
+  const rows = [];
+  for (let i = 0; i < choices.length; i += 2) {
+    rows.push(choices.slice(i, i + 2).map((name, j) =>
+      Markup.button.callback(`${getCategoryIcon(name)} ${name}`, `sms_set_${draft.id}_${i + j}`)
+    ));
+  }
+  rows.push([Markup.button.callback("🔙 Orqaga", `sms_view_${draft.id}`)]);
+
+  await ctx.editMessageText(`${formatDraft(draft)}\n${draft.kind === "income" ? "Manbani" : "Kategoriyani"} tanlang — darhol saqlanadi:`, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(rows),
+  });
+});
+
+smsFeature.action(/^sms_set_(\d+)_(\d+)$/, async (ctx) => {
+  const telegramUserId = getTelegramUserId(ctx);
+  const draft = await storage.getImportDraft(parseInt(ctx.match[1]), telegramUserId);
+  const category = draft ? (await getChoices(draft, telegramUserId))[parseInt(ctx.match[2])] : undefined;
+  if (!draft || !category) {
+    await ctx.answerCbQuery("Qoralama topilmadi");
+    return;
+  }
+
+  try {
+    const updated = { ...draft, category };
+    if (!(await confirmDraft(updated, telegramUserId))) {
+      await ctx.answerCbQuery("Allaqachon saqlangan");
+      return;
+    }
+    await ctx.answerCbQuery(draft.kind === "income" ? "Daromad qo'shildi!" : "Xarajat qo'shildi!");
+    await ctx.editMessageText(`✅ Saqlandi!\n\n${formatDraft(updated)}`, {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("💰 Xarajatlar", "menu_expenses")]]),
+    });
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+smsFeature.action(/^sms_no_(\d+)$/, async (ctx) => {
+  await storage.deleteImportDraft(parseInt(ctx.match[1]), getTelegramUserId(ctx));
+  await ctx.answerCbQuery("Bekor qilindi");
+  await ctx.editMessageText("🗑 Qoralama o'chirildi.", Markup.inlineKeyboard([[Markup.button.callback("📩 Import", "menu_sms")]]));
+});
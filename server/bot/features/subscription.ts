@@ -0,0 +1,480 @@
+import { Markup } from "telegraf";
+import { storage } from "../../storage";
+import { generatePaymeLinkUrl } from "../../payme";
+import { userStates } from "../../conversation-state";
+import { defineFeature } from "../registry";
+import { findPromoBanner } from "../../campaigns";
+import { SUBSCRIPTION_PLANS, formatCurrency, getTelegramUserId, checkSubscription, createTrialSubscription, formatPromoBanner } from "../helpers";
+import { notifyAdminsAboutPayment } from "./admin";
+
+export const subscriptionFeature = defineFeature("subscription");
+
+subscriptionFeature.action("start_trial", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const success = await createTrialSubscription(telegramUserId);
+  
+  if (success) {
+    await ctx.editMessageText(
+      `🎉 *Tabriklaymiz!*\n\n` +
+      `Sizga 3 kunlik bepul sinov muddati berildi!\n\n` +
+      `✅ Barcha premium imkoniyatlar faollashtirildi.\n` +
+      `⏰ Sinov muddati: 3 kun\n\n` +
+      `Endi barcha funksiyalardan foydalanishingiz mumkin!`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+        ]),
+      }
+    );
+  } else {
+    await ctx.editMessageText(
+      `⚠️ Siz allaqachon sinov muddatidan foydalangansiz.\n\n` +
+      `Davom etish uchun obuna rejalaridan birini tanlang:`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("💎 Obuna rejalarini ko'rish", "menu_subscription")],
+          [Markup.button.callback("🔙 Orqaga", "back_main")],
+        ]),
+      }
+    );
+  }
+});
+
+// Subscription Menu
+subscriptionFeature.action("menu_subscription", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId);
+  
+  let message = `💎 *Obuna*\n\n`;
+  
+  if (subStatus.campaign) {
+    message += `${formatPromoBanner(subStatus.campaign)}\n\n`;
+    message += `_Aksiya tugagandan keyin obuna talab qilinadi:_\n\n`;
+  } else if (subStatus.isActive) {
+    const statusText = subStatus.status === "trial" ? "🎁 Sinov" : "✨ Premium";
+    message += `Joriy obuna: *${statusText}*\n`;
+    message += `Qolgan muddat: *${subStatus.daysLeft} kun*\n\n`;
+  } else if (subStatus.status === "expired") {
+    message += `⚠️ Obuna muddati tugagan\n\n`;
+  } else {
+    message += `📌 Hozirda faol obuna yo'q\n\n`;
+  }
+
+  // A campaign that unlocks only some features does not make the subscription active
+  const promo = subStatus.campaign ? null : await findPromoBanner(telegramUserId, subStatus.status);
+  if (promo) message += `${formatPromoBanner(promo)}\n\n`;
+  
+  message += `📋 *Tariflar:*\n\n`;
+  message += `1️⃣ *1 oylik* - ${formatCurrency(SUBSCRIPTION_PLANS.monthly_1.price)}\n`;
+  message += `2️⃣ *2 oylik* - ${formatCurrency(SUBSCRIPTION_PLANS.monthly_2.price)} _(Tejamkor!)_\n`;
+  message += `3️⃣ *3 oylik* - ${formatCurrency(SUBSCRIPTION_PLANS.monthly_3.price)} _(Eng foydali!)_\n\n`;
+  message += `💳 To'lov: O'zbek milliy kartalari (Uzcard, Humo)`;
+  
+  const buttons = [];
+  
+  if (!subStatus.isActive && subStatus.status === "none") {
+    const subscription = await storage.getSubscription(telegramUserId);
+    if (!subscription?.trialUsed) {
+      buttons.push([Markup.button.callback("🎁 3 kunlik bepul sinov", "start_trial")]);
+    }
+  }
+  
+  buttons.push(
+    [Markup.button.callback(`1 oylik - ${formatCurrency(SUBSCRIPTION_PLANS.monthly_1.price)}`, "subscribe_1")],
+    [Markup.button.callback(`2 oylik - ${formatCurrency(SUBSCRIPTION_PLANS.monthly_2.price)}`, "subscribe_2")],
+    [Markup.button.callback(`3 oylik - ${formatCurrency(SUBSCRIPTION_PLANS.monthly_3.price)}`, "subscribe_3")],
+    [Markup.button.callback("🔙 Orqaga", "back_main")]
+  );
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+// Plan selection handlers
+subscriptionFeature.action(/^subscribe_(\d)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const planNum = ctx.match[1];
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const planKey = `monthly_${planNum}` as keyof typeof SUBSCRIPTION_PLANS;
+  const plan = SUBSCRIPTION_PLANS[planKey];
+  
+  if (!plan) {
+    await ctx.editMessageText("Xato yuz berdi. Qaytadan urinib ko'ring.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_subscription")]]),
+    });
+    return;
+  }
+  
+  await userStates.set(ctx.from!.id, {
+    action: "payment",
+    step: "plan_selected",
+    data: { planKey, planName: plan.name, planPrice: plan.price, planDays: plan.days },
+  });
+  
+  // Create a pending payment request for Payme
+  const paymentRequest = await storage.createPaymentRequest({
+    telegramUserId,
+    fullName: ctx.from?.first_name || "Foydalanuvchi",
+    phoneNumber: "",
+    planType: planKey,
+    amount: plan.price,
+    receiptPhotoId: "payme_pending",
+    status: "pending",
+  });
+  
+  // Generate Payme link
+  const paymeUrl = generatePaymeLinkUrl(paymentRequest.id.toString(), plan.price);
+  
+  const cardNumber = await storage.getAdminSetting("payment_card") || "6262 5700 1554 8698";
+  const cardHolder = await storage.getAdminSetting("payment_card_holder") || "Yunusova D.";
+  
+  const message = `💳 *To'lov usulini tanlang*\n\n` +
+    `📦 Tanlangan tarif: *${plan.name}*\n` +
+    `💵 Narxi: *${formatCurrency(plan.price)}*\n` +
+    `📄 Buyurtma raqami: *#${paymentRequest.id}*\n\n` +
+    `*1️⃣ Payme orqali to'lash*\n` +
+    `Tugmani bosib Payme saytida to'lang, keyin chekni yuboring\n\n` +
+    `*2️⃣ Karta orqali o'tkazma*\n` +
+    `📇 Karta: \`${cardNumber}\`\n` +
+    `👤 Egasi: ${cardHolder}\n` +
+    `_To'lov chekini yuboring_`;
+  
+  // Store payment request ID in state for later confirmation
+  const paymentState = await userStates.get(ctx.from!.id);
+  if (paymentState?.action === "payment" && paymentState.data) {
+    await userStates.set(ctx.from!.id, {
+      ...paymentState,
+      data: { ...paymentState.data, paymentRequestId: paymentRequest.id },
+    });
+  }
+
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([
+      [Markup.button.url("💳 Payme orqali to'lash", paymeUrl)],
+      [Markup.button.callback("📸 Chek yuborish", `send_receipt_${paymentRequest.id}`)],
+      [Markup.button.callback("📝 Karta orqali (qo'lda)", "payment_start_form")],
+      [Markup.button.callback("❌ Bekor qilish", "menu_subscription")],
+    ]),
+  });
+});
+
+// Handler for sending Payme receipt
+subscriptionFeature.action(/^send_receipt_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const paymentId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const payment = await storage.getPaymentRequest(paymentId);
+  if (!payment || payment.telegramUserId !== telegramUserId) {
+    await ctx.editMessageText("Xato yuz berdi.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_subscription")]]),
+    });
+    return;
+  }
+  
+  if (payment.status === "approved") {
+    await ctx.editMessageText("✅ Bu to'lov allaqachon tasdiqlangan!", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Asosiy menyu", "back_main")]]),
+    });
+    return;
+  }
+  
+  // Set state to await receipt photo
+  await userStates.set(ctx.from!.id, {
+    action: "payme_receipt",
+    step: "awaiting_receipt",
+    data: { paymentRequestId: paymentId },
+  });
+  
+  await ctx.editMessageText(
+    `📸 *Payme chekini yuboring*\n\n` +
+    `Buyurtma raqami: *#${paymentId}*\n\n` +
+    `Payme ilovasidan yoki saytidan olingan chek rasmini yuboring.\n\n` +
+    `_Chek yuborilgandan so'ng admin tekshiradi va obunangiz faollashadi._`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("❌ Bekor qilish", "menu_subscription")],
+      ]),
+    }
+  );
+});
+
+// Payme payment confirmation - AUTO APPROVE (no admin needed)
+subscriptionFeature.action(/^confirm_payme_(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const paymentId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  const payment = await storage.getPaymentRequest(paymentId);
+  if (!payment || payment.telegramUserId !== telegramUserId) {
+    await ctx.editMessageText("Xato yuz berdi.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_subscription")]]),
+    });
+    return;
+  }
+  
+  if (payment.status === "approved") {
+    await ctx.editMessageText("✅ Bu to'lov allaqachon tasdiqlangan!", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Asosiy menyu", "back_main")]]),
+    });
+    return;
+  }
+  
+  // AUTO-APPROVE: Activate subscription immediately
+  const planDays: Record<string, number> = {
+    "monthly_1": 30,
+    "monthly_2": 60,
+    "monthly_3": 90,
+  };
+  const days = planDays[payment.planType] || 30;
+  const planNames: Record<string, string> = {
+    "monthly_1": "1 oylik",
+    "monthly_2": "2 oylik",
+    "monthly_3": "3 oylik",
+  };
+  const planName = planNames[payment.planType] || payment.planType;
+  
+  // Update payment status to approved
+  await storage.updatePaymentRequest(payment.id, { status: "approved" });
+  
+  // Create or update subscription
+  const endDate = new Date();
+  endDate.setDate(endDate.getDate() + days);
+  
+  await storage.createOrUpdateSubscription({
+    telegramUserId: payment.telegramUserId,
+    status: "active",
+    planType: payment.planType,
+    startDate: new Date(),
+    endDate,
+  });
+  
+  // Notify admins (just FYI, no action needed)
+  const admins = await storage.getAdminUsers();
+  for (const admin of admins) {
+    try {
+      await ctx.telegram.sendMessage(
+        admin.telegramUserId,
+        `💳 *Payme orqali yangi to'lov (avtomatik)*\n\n` +
+        `👤 Foydalanuvchi: ${payment.fullName}\n` +
+        `🆔 Telegram ID: ${payment.telegramUserId}\n` +
+        `📦 Tarif: ${planName}\n` +
+        `💵 Summa: ${formatCurrency(payment.amount)}\n` +
+        `✅ Holat: Avtomatik tasdiqlandi`,
+        { parse_mode: "Markdown" }
+      );
+    } catch (e) {
+      console.error(`Failed to notify admin ${admin.telegramUserId}:`, e);
+    }
+  }
+  
+  await ctx.editMessageText(
+    `✅ *To'lov tasdiqlandi!*\n\n` +
+    `📦 Tarif: ${planName}\n` +
+    `⏰ Amal qilish muddati: ${days} kun\n` +
+    `📅 Tugash sanasi: ${endDate.toLocaleDateString("uz-UZ")}\n\n` +
+    `🎉 Endi barcha imkoniyatlardan foydalanishingiz mumkin!`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Asosiy menyu", "back_main")]]),
+    }
+  );
+});
+
+// Payment form flow
+subscriptionFeature.action("payment_start_form", async (ctx) => {
+  await ctx.answerCbQuery();
+  const state = await userStates.get(ctx.from!.id);
+  
+  if (!state || state.action !== "payment") {
+    await ctx.editMessageText("Xato yuz berdi. Qaytadan urinib ko'ring.", {
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_subscription")]]),
+    });
+    return;
+  }
+  
+  await userStates.set(ctx.from!.id, { ...state, step: "awaiting_name" });
+  
+  await ctx.editMessageText(
+    `📝 *To'lov formasi (1/3)*\n\n` +
+    `To'liq ismingizni kiriting:`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("❌ Bekor qilish", "cancel_payment")],
+      ]),
+    }
+  );
+});
+
+subscriptionFeature.action("cancel_payment", async (ctx) => {
+  await ctx.answerCbQuery();
+  await userStates.delete(ctx.from!.id);
+  await ctx.editMessageText("To'lov bekor qilindi.", {
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_subscription")]]),
+  });
+});
+
+// Handle text messages for payment form
+subscriptionFeature.onText("payment", async (ctx, state) => {
+  if (!state.data) return;
+  const text = ctx.message.text.trim();
+  
+  if (state.step === "awaiting_name") {
+    if (text.length < 3) {
+      await ctx.reply("Iltimos, to'liq ismingizni kiriting (kamida 3 ta harf).");
+      return;
+    }
+    
+    await userStates.set(ctx.from!.id, {
+      ...state,
+      step: "awaiting_phone",
+      data: { ...state.data, fullName: text },
+    });
+    
+    await ctx.reply(
+      `📝 *To'lov formasi (2/3)*\n\n` +
+      `✅ Ism: ${text}\n\n` +
+      `Telefon raqamingizni kiriting:\n` +
+      `_(Masalan: +998901234567)_`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("❌ Bekor qilish", "cancel_payment")],
+        ]),
+      }
+    );
+    return;
+  }
+  
+  if (state.step === "awaiting_phone") {
+    const phoneRegex = /^\+?998\d{9}$/;
+    const cleanPhone = text.replace(/[\s\-()]/g, "");
+    
+    if (!phoneRegex.test(cleanPhone)) {
+      await ctx.reply("Iltimos, to'g'ri O'zbekiston telefon raqamini kiriting.\n_(Masalan: +998901234567)_", {
+        parse_mode: "Markdown",
+      });
+      return;
+    }
+    
+    await userStates.set(ctx.from!.id, {
+      ...state,
+      step: "awaiting_receipt",
+      data: { ...state.data, phone: cleanPhone },
+    });
+    
+    await ctx.reply(
+      `📝 *To'lov formasi (3/3)*\n\n` +
+      `✅ Ism: ${state.data?.fullName}\n` +
+      `✅ Telefon: ${cleanPhone}\n\n` +
+      `📸 Endi to'lov cheki rasmini yuboring:`,
+      {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback("❌ Bekor qilish", "cancel_payment")],
+        ]),
+      }
+    );
+    return;
+  }
+});
+
+// Handle Payme receipt photo
+subscriptionFeature.onPhoto("payme_receipt", async (ctx, state) => {
+  if (!state.data) return;
+  const telegramUserId = getTelegramUserId(ctx);
+  const photo = ctx.message.photo[ctx.message.photo.length - 1];
+  const fileId = photo.file_id;
+  const paymentId = state.data.paymentRequestId;
+  
+  // Update existing payment request with receipt
+  const payment = await storage.getPaymentRequest(paymentId);
+  if (!payment || payment.telegramUserId !== telegramUserId) {
+    await ctx.reply("Xato yuz berdi. Iltimos qaytadan urinib ko'ring.");
+    await userStates.delete(ctx.from!.id);
+    return;
+  }
+  
+  // Update payment request with receipt photo
+  await storage.updatePaymentRequest(paymentId, { 
+    receiptPhotoId: fileId,
+  });
+  
+  await userStates.delete(ctx.from!.id);
+  
+  const planNames: Record<string, string> = {
+    monthly_1: "1 oylik",
+    monthly_2: "2 oylik",
+    monthly_3: "3 oylik",
+  };
+  
+  await ctx.reply(
+    `✅ *Payme cheki qabul qilindi!*\n\n` +
+    `📄 So'rov raqami: #${paymentId}\n` +
+    `📦 Tarif: ${planNames[payment.planType] || payment.planType}\n` +
+    `💵 Summa: ${formatCurrency(payment.amount)}\n\n` +
+    `⏳ Admin tekshirmoqda.\n` +
+    `Tasdiqlangandan so'ng sizga xabar yuboriladi.`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+      ]),
+    }
+  );
+  
+  // Notify admins about Payme payment
+  await notifyAdminsAboutPayment(ctx, { ...payment, receiptPhotoId: fileId }, fileId);
+});
+
+// Handle card payment receipt photo
+subscriptionFeature.onPhoto("payment", async (ctx, state) => {
+  if (state.step !== "awaiting_receipt" || !state.data) return;
+  
+  const telegramUserId = getTelegramUserId(ctx);
+  const photo = ctx.message.photo[ctx.message.photo.length - 1];
+  const fileId = photo.file_id;
+  
+  const paymentRequest = await storage.createPaymentRequest({
+    telegramUserId,
+    planType: state.data.planKey,
+    amount: state.data.planPrice,
+    fullName: state.data.fullName || "",
+    phoneNumber: state.data.phone || "",
+    receiptPhotoId: fileId,
+    status: "pending",
+  });
+  
+  await userStates.delete(ctx.from!.id);
+  
+  await ctx.reply(
+    `✅ *To'lov so'rovi yuborildi!*\n\n` +
+    `📦 Tarif: ${state.data.planName}\n` +
+    `💵 Summa: ${formatCurrency(state.data.planPrice)}\n` +
+    `👤 Ism: ${state.data.fullName}\n` +
+    `📞 Telefon: ${state.data.phone}\n\n` +
+    `⏳ So'rovingiz tekshirilmoqda.\n` +
+    `Tasdiqlangandan so'ng sizga xabar yuboriladi.\n\n` +
+    `So'rov raqami: #${paymentRequest.id}`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("📋 Asosiy menyu", "back_main")],
+      ]),
+    }
+  );
+  
+  // Notify admins
+  await notifyAdminsAboutPayment(ctx, paymentRequest, fileId);
+});
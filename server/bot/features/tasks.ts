@@ -0,0 +1,900 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../../storage";
+import { resolveNextPrayerReminderTime } from "../../prayer";
+import { userStates } from "../../conversation-state";
+import { createRecurringTaskWithInstance, getUzbekistanDateString, uzDateTimeToUTC } from "../../recurring";
+import { refreshGoalProgress } from "../../goals";
+import { describeRecurrence, formatDaysOfWeek, WEEKDAY_SHORT_NAMES, type RecurrenceFrequency } from "@shared/recurrence";
+import { parseTaskInput } from "@shared/uz-parser";
+import { describePrayerReminder, isReminderPrayer, PRAYER_NAMES, REMINDER_PRAYERS, type PrayerReminder } from "@shared/prayer-reminder";
+import { defineFeature } from "../registry";
+import { getUzbekistanTime, uzTimeToUTC, createUzbekistanDateTime, safeAnswerCallback, safeEditMessage, safeSendMessage, escapeMarkdown, getTelegramUserId, checkSubscription, showSubscriptionRequired, getPriorityEmoji, formatReminderTime } from "../helpers";
+
+export const tasksFeature = defineFeature("tasks");
+
+const tasksMenuKeyboard = Markup.inlineKeyboard([
+  [Markup.button.callback("➕ Yangi vazifa", "task_add")],
+  [
+    Markup.button.callback("📋 Barchasi", "task_list_all"),
+    Markup.button.callback("✅ Bajarilgan", "task_list_done"),
+  ],
+  [
+    Markup.button.callback("⏳ Jarayonda", "task_list_pending"),
+    Markup.button.callback("🔔 Eslatmali", "task_list_reminders"),
+  ],
+  [Markup.button.callback("🔁 Takroriy vazifalar", "task_list_recurring")],
+  [Markup.button.callback("🔙 Orqaga", "back_main")],
+]);
+
+const priorityKeyboard = Markup.inlineKeyboard([
+  [
+    Markup.button.callback("🔴 Yuqori", "priority_high"),
+    Markup.button.callback("🟡 O'rta", "priority_medium"),
+    Markup.button.callback("🟢 Past", "priority_low"),
+  ],
+  [Markup.button.callback("❌ Bekor", "cancel")],
+]);
+
+const recurrenceKeyboard = Markup.inlineKeyboard([
+  [Markup.button.callback("1️⃣ Bir martalik", "recur_none")],
+  [
+    Markup.button.callback("🔁 Har kuni", "recur_daily"),
+    Markup.button.callback("💼 Ish kunlari", "recur_weekdays"),
+  ],
+  [
+    Markup.button.callback("📅 Har hafta", "recur_weekly"),
+    Markup.button.callback("🗓 Har oy", "recur_monthly"),
+  ],
+  [Markup.button.callback("🔢 Har N kunda", "recur_interval")],
+  [Markup.button.callback("❌ Bekor", "cancel")],
+]);
+
+function getWeekdayPickerKeyboard(selected: number[]) {
+  // Monday-first order, matching how the week is usually written in Uzbek calendars
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  const buttons = order.map(day =>
+    Markup.button.callback(`${selected.includes(day) ? "✅" : "▫️"} ${WEEKDAY_SHORT_NAMES[day]}`, `recur_day_${day}`)
+  );
+  return Markup.inlineKeyboard([
+    buttons.slice(0, 4),
+    buttons.slice(4),
+    [Markup.button.callback("💾 Saqlash", "recur_days_done")],
+    [Markup.button.callback("❌ Bekor", "cancel")],
+  ]);
+}
+
+const reminderKeyboard = Markup.inlineKeyboard([
+  [
+    Markup.button.callback("⏰ 1 soat", "reminder_1h"),
+    Markup.button.callback("⏰ 3 soat", "reminder_3h"),
+  ],
+  [
+    Markup.button.callback("⏰ Bugun kechqurun", "reminder_evening"),
+    Markup.button.callback("⏰ Ertaga ertalab", "reminder_tomorrow"),
+  ],
+  [
+    Markup.button.callback("⏰ Vaqt kiriting", "reminder_custom"),
+    Markup.button.callback("🕌 Namozga nisbatan", "reminder_prayer"),
+  ],
+  [Markup.button.callback("⏭ O'tkazib yuborish", "reminder_skip")],
+  [Markup.button.callback("❌ Bekor", "cancel")],
+]);
+
+const prayerReminderKeyboard = Markup.inlineKeyboard([
+  ...[REMINDER_PRAYERS.slice(0, 3), REMINDER_PRAYERS.slice(3)].map(row =>
+    row.map(prayer => Markup.button.callback(`🕌 ${PRAYER_NAMES[prayer]}`, `rprayer_${prayer}`))
+  ),
+  [Markup.button.callback("❌ Bekor", "cancel")],
+]);
+
+function getPrayerOffsetKeyboard(prayer: string) {
+  const offsets = [-15, 0, 10, 20, 30];
+  const buttons = offsets.map(offset => {
+    const label = offset === 0 ? "Vaqtida" : offset > 0 ? `+${offset} min` : `${offset} min`;
+    return Markup.button.callback(label, `rprayer_${prayer}_${offset}`);
+  });
+  return Markup.inlineKeyboard([
+    buttons.slice(0, 2),
+    buttons.slice(2),
+    [Markup.button.callback("🔙 Orqaga", "reminder_prayer")],
+  ]);
+}
+
+tasksFeature.action("menu_tasks", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "tasks");
+  
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Rejalar");
+    return;
+  }
+  
+  await ctx.editMessageText("📋 *Rejalar va Vazifalar*\n\nNima qilmoqchisiz?", {
+    parse_mode: "Markdown",
+    ...tasksMenuKeyboard,
+  });
+});
+
+tasksFeature.action("task_add", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const telegramUserId = getTelegramUserId(ctx);
+  const subStatus = await checkSubscription(telegramUserId, "tasks");
+  if (!subStatus.isActive) {
+    await showSubscriptionRequired(ctx, "Vazifa qo'shish");
+    return;
+  }
+  
+  await userStates.set(numericId, { action: "add_task", step: "title" });
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "📝 *Yangi vazifa*\n\nVazifa nomini yozing:\n\n_Eslatma uchun vaqt qo'shing:_\n_Masalan: Tushlikka chiqish 14:30_\n_Yoki: Kitob o'qish asrdan 20 min keyin_",
+    { 
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "menu_tasks")]])
+    }
+  );
+});
+
+tasksFeature.action(/^priority_(.+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "priority") return;
+  
+  const priority = ctx.match[1];
+  
+  await ctx.answerCbQuery();
+  
+  await userStates.set(numericId, {
+    action: "add_task",
+    step: "recurrence",
+    data: { ...state.data, priority },
+  });
+  
+  await ctx.editMessageText(
+    `📝 *${state.data?.title}*\nMuhimlik: ${getPriorityEmoji(priority)}\n\nVazifa takrorlansinmi?`,
+    { parse_mode: "Markdown", ...recurrenceKeyboard }
+  );
+});
+
+tasksFeature.action("recur_none", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "recurrence") return;
+  
+  await ctx.answerCbQuery();
+  
+  if (state.data?.reminderTime) {
+    await userStates.set(numericId, { ...state, step: "saving" });
+    await saveTaskWithReminder(ctx, numericId, state.data.reminderTime, state.data.prayerReminder || null);
+    return;
+  }
+  
+  await userStates.set(numericId, { ...state, step: "reminder" });
+  await ctx.editMessageText(
+    `📝 *${state.data?.title}*\nMuhimlik: ${getPriorityEmoji(state.data?.priority ?? null)}\n\n🔔 Qachon eslatilsin?`,
+    { parse_mode: "Markdown", ...reminderKeyboard }
+  );
+});
+
+tasksFeature.action(/^recur_(daily|weekdays|monthly)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "recurrence") return;
+  
+  const frequency = ctx.match[1] as RecurrenceFrequency;
+  const today = getUzbekistanDateString();
+  
+  await ctx.answerCbQuery();
+  await saveRecurringTask(ctx, numericId, {
+    frequency,
+    dayOfMonth: frequency === "monthly" ? parseInt(today.split("-")[2]) : null,
+  });
+});
+
+tasksFeature.action("recur_weekly", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "recurrence") return;
+  
+  const todayWeekday = getUzbekistanTime().getUTCDay();
+  await userStates.set(numericId, {
+    ...state,
+    step: "recurrence_days",
+    data: { ...state.data, daysOfWeek: [todayWeekday] },
+  });
+  
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    `📅 *Haftaning qaysi kunlarida?*\n\nKunlarni belgilab, "Saqlash" tugmasini bosing:`,
+    { parse_mode: "Markdown", ...getWeekdayPickerKeyboard([todayWeekday]) }
+  );
+});
+
+tasksFeature.action(/^recur_day_(\d)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "recurrence_days") return;
+  
+  const day = parseInt(ctx.match[1]);
+  const current: number[] = state.data?.daysOfWeek || [];
+  const daysOfWeek = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+  
+  await userStates.set(numericId, { ...state, data: { ...state.data, daysOfWeek } });
+  
+  await ctx.answerCbQuery();
+  await safeEditMessage(
+    ctx,
+    `📅 *Haftaning qaysi kunlarida?*\n\nKunlarni belgilab, "Saqlash" tugmasini bosing:`,
+    { parse_mode: "Markdown", ...getWeekdayPickerKeyboard(daysOfWeek) }
+  );
+});
+
+tasksFeature.action("recur_days_done", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "recurrence_days") return;
+  
+  const daysOfWeek: number[] = state.data?.daysOfWeek || [];
+  if (daysOfWeek.length === 0) {
+    await ctx.answerCbQuery("Kamida bitta kunni tanlang", { show_alert: true });
+    return;
+  }
+  
+  await ctx.answerCbQuery();
+  await saveRecurringTask(ctx, numericId, {
+    frequency: "weekly",
+    daysOfWeek: formatDaysOfWeek(daysOfWeek),
+  });
+});
+
+tasksFeature.action("recur_interval", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task" || state.step !== "recurrence") return;
+  
+  await userStates.set(numericId, { ...state, step: "recurrence_interval" });
+  
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "🔢 *Necha kunda bir marta takrorlansin?*\n\n_Masalan: 3_",
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([[Markup.button.callback("❌ Bekor", "cancel")]]),
+    }
+  );
+});
+
+async function saveRecurringTask(
+  ctx: Context,
+  numericId: number,
+  rule: { frequency: RecurrenceFrequency; interval?: number; daysOfWeek?: string | null; dayOfMonth?: number | null },
+  edit: boolean = true
+) {
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_task" || !state.data) return;
+  
+  const { title, priority, reminderClock } = state.data;
+  if (!title) return;
+  const prayerReminder: PrayerReminder | null = state.data.prayerReminder || null;
+  
+  try {
+    const { recurringTask, task } = await createRecurringTaskWithInstance({
+      text: title,
+      priority,
+      frequency: rule.frequency,
+      interval: rule.interval ?? 1,
+      daysOfWeek: rule.daysOfWeek ?? null,
+      dayOfMonth: rule.dayOfMonth ?? null,
+      time: reminderClock || null,
+      reminderPrayer: prayerReminder?.prayer || null,
+      reminderPrayerOffset: prayerReminder?.offsetMinutes ?? null,
+      telegramUserId,
+      startDate: getUzbekistanDateString(),
+      active: true,
+    });
+    
+    await userStates.delete(numericId);
+    
+    let message = `✅ Takroriy vazifa qo'shildi!\n\n*${escapeMarkdown(title)}*\nMuhimlik: ${getPriorityEmoji(priority ?? null)}`;
+    message += `\n🔁 ${describeRecurrence(recurringTask)}`;
+    if (prayerReminder) {
+      message += `\n🕌 Eslatma: har safar ${describePrayerReminder(prayerReminder)}`;
+    } else if (recurringTask.time) {
+      message += `\n🔔 Eslatma: har safar ${recurringTask.time} da`;
+    }
+    message += task ? `\n\n📋 Bugungi vazifa ro'yxatga qo'shildi.` : `\n\n📋 Keyingi sanada ro'yxatga qo'shiladi.`;
+    
+    const extra = {
+      parse_mode: "Markdown" as const,
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]),
+    };
+    if (edit) {
+      await ctx.editMessageText(message, extra);
+    } else {
+      await ctx.reply(message, extra);
+    }
+  } catch (error) {
+    console.error("Failed to save recurring task:", error);
+    if (edit) {
+      await safeAnswerCallback(ctx);
+    }
+    await safeSendMessage(ctx, "❌ Xatolik yuz berdi");
+  }
+}
+
+async function saveTaskWithReminder(
+  ctx: Context,
+  numericId: number,
+  reminderTime: Date | null,
+  prayerReminder: PrayerReminder | null = null
+) {
+  const telegramUserId = getTelegramUserId(ctx);
+  const state = await userStates.get(numericId);
+  if (state?.action !== "add_task" || !state.data) return;
+  
+  const { title, priority } = state.data;
+  if (!title) return;
+  
+  try {
+    await storage.createTask({
+      text: title,
+      completed: false,
+      priority,
+      telegramUserId,
+      reminderTime,
+      reminderSent: false,
+      reminderPrayer: prayerReminder?.prayer || null,
+      reminderPrayerOffset: prayerReminder?.offsetMinutes ?? null,
+    });
+    
+    await userStates.delete(numericId);
+    
+    let message = `✅ Vazifa muvaffaqiyatli qo'shildi!\n\n*${title}*\nMuhimlik: ${getPriorityEmoji(priority ?? null)}`;
+    if (reminderTime) {
+      message += `\n🔔 Eslatma: ${formatReminderTime(reminderTime)}`;
+      if (prayerReminder) {
+        message += ` (${describePrayerReminder(prayerReminder)})`;
+      }
+    }
+    
+    await ctx.editMessageText(message, { 
+      parse_mode: "Markdown", 
+      ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]) 
+    });
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+}
+
+tasksFeature.action("reminder_1h", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  await ctx.answerCbQuery();
+  const reminderTime = new Date(Date.now() + 60 * 60 * 1000);
+  await saveTaskWithReminder(ctx, numericId, reminderTime);
+});
+
+tasksFeature.action("reminder_3h", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  await ctx.answerCbQuery();
+  const reminderTime = new Date(Date.now() + 3 * 60 * 60 * 1000);
+  await saveTaskWithReminder(ctx, numericId, reminderTime);
+});
+
+tasksFeature.action("reminder_evening", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  await ctx.answerCbQuery();
+  const reminderTime = createUzbekistanDateTime(20, 0);
+  await saveTaskWithReminder(ctx, numericId, reminderTime);
+});
+
+tasksFeature.action("reminder_tomorrow", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  await ctx.answerCbQuery();
+  const uzNow = getUzbekistanTime();
+  const uzTomorrow = new Date(uzNow);
+  uzTomorrow.setDate(uzTomorrow.getDate() + 1);
+  uzTomorrow.setHours(9, 0, 0, 0);
+  const reminderTime = uzTimeToUTC(uzTomorrow);
+  await saveTaskWithReminder(ctx, numericId, reminderTime);
+});
+
+tasksFeature.action("reminder_custom", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task") return;
+  
+  await userStates.set(numericId, {
+    ...state,
+    step: "reminder_custom",
+  });
+  
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    "🕐 *Eslatma vaqtini kiriting*\n\nFormat: soat:minut\n\n_Masalan: 14:30_",
+    { parse_mode: "Markdown" }
+  );
+});
+
+tasksFeature.action("reminder_prayer", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task") return;
+  
+  await ctx.answerCbQuery();
+  await safeEditMessage(
+    ctx,
+    "🕌 *Qaysi namozga nisbatan eslatilsin?*\n\n_Vaqt har kuni mintaqangizdagi namoz vaqtidan hisoblanadi_",
+    { parse_mode: "Markdown", ...prayerReminderKeyboard }
+  );
+});
+
+tasksFeature.action(/^rprayer_(fajr|dhuhr|asr|maghrib|isha)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task") return;
+  
+  const prayer = ctx.match[1];
+  await ctx.answerCbQuery();
+  await ctx.editMessageText(
+    `🕌 *${PRAYER_NAMES[prayer as keyof typeof PRAYER_NAMES]}*\n\nNamozdan qancha oldin yoki keyin eslatilsin?`,
+    { parse_mode: "Markdown", ...getPrayerOffsetKeyboard(prayer) }
+  );
+});
+
+tasksFeature.action(/^rprayer_(fajr|dhuhr|asr|maghrib|isha)_(-?\d+)$/, async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  
+  const state = await userStates.get(numericId);
+  if (!state || state.action !== "add_task") return;
+  
+  const prayer = ctx.match[1];
+  if (!isReminderPrayer(prayer)) return;
+  
+  const prayerReminder: PrayerReminder = { prayer, offsetMinutes: parseInt(ctx.match[2]) };
+  const reminderTime = await resolveNextPrayerReminderTime(getTelegramUserId(ctx), prayerReminder);
+  if (!reminderTime) {
+    await ctx.answerCbQuery("Namoz vaqtlarini olishda xatolik yuz berdi", { show_alert: true });
+    return;
+  }
+  
+  await ctx.answerCbQuery();
+  await saveTaskWithReminder(ctx, numericId, reminderTime, prayerReminder);
+});
+
+tasksFeature.action("reminder_skip", async (ctx) => {
+  const numericId = ctx.from?.id;
+  if (!numericId) return;
+  await ctx.answerCbQuery();
+  await saveTaskWithReminder(ctx, numericId, null);
+});
+
+tasksFeature.action(/^reminder_done_(\d+)$/, async (ctx) => {
+  const taskId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.updateTask(taskId, { completed: true }, telegramUserId);
+    await refreshGoalProgress(telegramUserId);
+    await ctx.answerCbQuery("Vazifa bajarildi!");
+    await ctx.editMessageText(
+      "✅ *Bajarildi!*\n\nVazifa muvaffaqiyatli yakunlandi.",
+      { parse_mode: "Markdown" }
+    );
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+tasksFeature.action(/^reminder_snooze_(\d+)$/, async (ctx) => {
+  const taskId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    const snoozeTime = new Date(Date.now() + 60 * 60 * 1000);
+    await storage.updateTask(taskId, { 
+      reminderTime: snoozeTime,
+      reminderSent: false 
+    }, telegramUserId);
+    
+    await ctx.answerCbQuery("1 soatdan keyin eslatiladi");
+    await ctx.editMessageText(
+      `⏰ *Keyinga qoldirildi*\n\n1 soatdan keyin yana eslatiladi.\n🕐 ${snoozeTime.toLocaleTimeString("uz-UZ", { hour: "2-digit", minute: "2-digit" })}`,
+      { parse_mode: "Markdown" }
+    );
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+tasksFeature.action("task_list_reminders", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const tasks = await storage.getTasks(telegramUserId);
+  const reminderTasks = tasks.filter(t => t.reminderTime && !t.completed);
+  
+  if (reminderTasks.length === 0) {
+    await ctx.editMessageText(
+      "🔔 Eslatmali vazifalar yo'q.",
+      { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]) }
+    );
+    return;
+  }
+  
+  let message = "🔔 *Eslatmali vazifalar:*\n\n";
+  reminderTasks.slice(0, 10).forEach((task) => {
+    const priority = getPriorityEmoji(task.priority);
+    const time = task.reminderTime ? formatReminderTime(new Date(task.reminderTime)) : "";
+    const anchor = task.reminderPrayer && isReminderPrayer(task.reminderPrayer)
+      ? ` (🕌 ${describePrayerReminder({ prayer: task.reminderPrayer, offsetMinutes: task.reminderPrayerOffset || 0 })})`
+      : "";
+    message += `${priority} ${task.text}\n   ⏰ ${time}${anchor}\n\n`;
+  });
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]),
+  });
+});
+
+async function showRecurringTasks(ctx: Context) {
+  const telegramUserId = getTelegramUserId(ctx);
+  const recurring = await storage.getRecurringTasks(telegramUserId);
+  
+  if (recurring.length === 0) {
+    await ctx.editMessageText(
+      "🔁 Takroriy vazifalar yo'q.\n\nYangi vazifa qo'shayotganda takrorlanishni tanlashingiz mumkin.",
+      { ...Markup.inlineKeyboard([
+        [Markup.button.callback("➕ Yangi vazifa", "task_add")],
+        [Markup.button.callback("🔙 Orqaga", "menu_tasks")]
+      ])}
+    );
+    return;
+  }
+  
+  let message = "🔁 *Takroriy vazifalar:*\n\n";
+  const buttons: any[] = [];
+  
+  recurring.slice(0, 10).forEach((rule) => {
+    const priority = getPriorityEmoji(rule.priority);
+    message += `${priority} ${escapeMarkdown(rule.text)}\n   🔁 ${describeRecurrence(rule)}`;
+    if (rule.time) message += ` · ⏰ ${rule.time}`;
+    message += `\n\n`;
+    buttons.push([
+      Markup.button.callback(`🗑 ${rule.text.slice(0, 25)}`, `delete_recurring_${rule.id}`),
+    ]);
+  });
+  
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_tasks")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+}
+
+tasksFeature.action("task_list_recurring", async (ctx) => {
+  await ctx.answerCbQuery();
+  await showRecurringTasks(ctx);
+});
+
+tasksFeature.action(/^delete_recurring_(\d+)$/, async (ctx) => {
+  const recurringId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.deleteRecurringTask(recurringId, telegramUserId);
+    await ctx.answerCbQuery("Takrorlanish to'xtatildi! 🗑");
+    await showRecurringTasks(ctx);
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+tasksFeature.action("task_list_all", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const tasks = await storage.getTasks(telegramUserId);
+  
+  if (tasks.length === 0) {
+    await ctx.editMessageText(
+      "📋 Hozircha vazifalar yo'q.\n\nYangi vazifa qo'shish uchun tugmani bosing.",
+      { ...Markup.inlineKeyboard([
+        [Markup.button.callback("➕ Yangi vazifa", "task_add")],
+        [Markup.button.callback("🔙 Orqaga", "menu_tasks")]
+      ])}
+    );
+    return;
+  }
+  
+  let message = "📋 *Barcha vazifalar:*\n\n";
+  const buttons: any[] = [];
+  
+  tasks.slice(0, 10).forEach((task, index) => {
+    const status = task.completed ? "✅" : "⏳";
+    const priority = getPriorityEmoji(task.priority);
+    const reminder = task.reminderTime ? " 🔔" : "";
+    const recurring = task.recurringTaskId ? " 🔁" : "";
+    message += `${status} ${priority} ${task.text}${reminder}${recurring}\n`;
+    
+    if (!task.completed) {
+      buttons.push([
+        Markup.button.callback(`✅ ${task.text.slice(0, 20)}`, `complete_${task.id}`),
+        Markup.button.callback(`🗑`, `delete_task_${task.id}`),
+      ]);
+    }
+  });
+  
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_tasks")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+tasksFeature.action("task_list_done", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const tasks = await storage.getTasks(telegramUserId);
+  const doneTasks = tasks.filter(t => t.completed);
+  
+  if (doneTasks.length === 0) {
+    await ctx.editMessageText(
+      "✅ Bajarilgan vazifalar yo'q.",
+      { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]) }
+    );
+    return;
+  }
+  
+  let message = "✅ *Bajarilgan vazifalar:*\n\n";
+  doneTasks.slice(0, 10).forEach((task) => {
+    message += `✅ ${task.text}\n`;
+  });
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]),
+  });
+});
+
+tasksFeature.action("task_list_pending", async (ctx) => {
+  await ctx.answerCbQuery();
+  const telegramUserId = getTelegramUserId(ctx);
+  const tasks = await storage.getTasks(telegramUserId);
+  const pendingTasks = tasks.filter(t => !t.completed);
+  
+  if (pendingTasks.length === 0) {
+    await ctx.editMessageText(
+      "⏳ Jarayondagi vazifalar yo'q. Hammasi bajarilgan!",
+      { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]) }
+    );
+    return;
+  }
+  
+  let message = "⏳ *Jarayondagi vazifalar:*\n\n";
+  const buttons: any[] = [];
+  
+  pendingTasks.slice(0, 10).forEach((task) => {
+    const priority = getPriorityEmoji(task.priority);
+    const reminder = task.reminderTime ? " 🔔" : "";
+    const recurring = task.recurringTaskId ? " 🔁" : "";
+    message += `${priority} ${task.text}${reminder}${recurring}\n`;
+    buttons.push([
+      Markup.button.callback(`✅ ${task.text.slice(0, 20)}`, `complete_${task.id}`),
+      Markup.button.callback(`🗑`, `delete_task_${task.id}`),
+    ]);
+  });
+  
+  buttons.push([Markup.button.callback("🔙 Orqaga", "menu_tasks")]);
+  
+  await ctx.editMessageText(message, {
+    parse_mode: "Markdown",
+    ...Markup.inlineKeyboard(buttons),
+  });
+});
+
+tasksFeature.action(/^complete_(\d+)$/, async (ctx) => {
+  const taskId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.updateTask(taskId, { completed: true }, telegramUserId);
+    await refreshGoalProgress(telegramUserId);
+    await ctx.answerCbQuery("Vazifa bajarildi! ✅");
+    
+    const tasks = await storage.getTasks(telegramUserId);
+    const pendingTasks = tasks.filter(t => !t.completed);
+    
+    if (pendingTasks.length === 0) {
+      await ctx.editMessageText(
+        "🎉 Barcha vazifalar bajarildi!",
+        { ...Markup.inlineKeyboard([[Markup.button.callback("🔙 Orqaga", "menu_tasks")]]) }
+      );
+    } else {
+      let message = "⏳ *Jarayondagi vazifalar:*\n\n";
+      const buttons: any[] = [];
+      
+      pendingTasks.slice(0, 10).forEach((task) => {
+        const priority = getPriorityEmoji(task.priority);
+        message += `${priority} ${task.text}\n`;
+        buttons.push([
+          Markup.button.callback(`✅ ${task.text.slice(0, 20)}`, `complete_${task.id}`),
+          Markup.button.callback(`🗑`, `delete_task_${task.id}`),
+        ]);
+      });
+      
+      buttons.push([Markup.button.callback("🔙 Orqaga", "menu_tasks")]);
+      
+      await ctx.editMessageText(message, {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard(buttons),
+      });
+    }
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+tasksFeature.action(/^delete_task_(\d+)$/, async (ctx) => {
+  const taskId = parseInt(ctx.match[1]);
+  const telegramUserId = getTelegramUserId(ctx);
+  
+  try {
+    await storage.deleteTask(taskId, telegramUserId);
+    await refreshGoalProgress(telegramUserId);
+    await ctx.answerCbQuery("Vazifa o'chirildi! 🗑");
+    
+    const tasks = await storage.getTasks(telegramUserId);
+    
+    if (tasks.length === 0) {
+      await ctx.editMessageText(
+        "📋 Hozircha vazifalar yo'q.",
+        { ...Markup.inlineKeyboard([
+          [Markup.button.callback("➕ Yangi vazifa", "task_add")],
+          [Markup.button.callback("🔙 Orqaga", "menu_tasks")]
+        ])}
+      );
+    } else {
+      let message = "📋 *Barcha vazifalar:*\n\n";
+      const buttons: any[] = [];
+      
+      tasks.slice(0, 10).forEach((task) => {
+        const status = task.completed ? "✅" : "⏳";
+        const priority = getPriorityEmoji(task.priority);
+        message += `${status} ${priority} ${task.text}\n`;
+        
+        if (!task.completed) {
+          buttons.push([
+            Markup.button.callback(`✅ ${task.text.slice(0, 20)}`, `complete_${task.id}`),
+            Markup.button.callback(`🗑`, `delete_task_${task.id}`),
+          ]);
+        }
+      });
+      
+      buttons.push([Markup.button.callback("🔙 Orqaga", "menu_tasks")]);
+      
+      await ctx.editMessageText(message, {
+        parse_mode: "Markdown",
+        ...Markup.inlineKeyboard(buttons),
+      });
+    }
+  } catch (error) {
+    await ctx.answerCbQuery("Xatolik yuz berdi");
+  }
+});
+
+
+tasksFeature.onText("add_task", async (ctx, state) => {
+  const numericId = ctx.from.id;
+  const telegramUserId = getTelegramUserId(ctx);
+  const text = ctx.message.text;
+
+  if (state.step === "title") {
+    const today = getUzbekistanDateString();
+    const parsed = parseTaskInput(text, today);
+    const title = parsed.title;
+    let reminderTime: Date | null = null;
+    let reminderClock: string | null = null;
+    let prayerReminder: PrayerReminder | null = null;
+    
+    if (parsed.prayerReminder) {
+      // "Kitob o'qish asrdan 20 min keyin"
+      reminderTime = await resolveNextPrayerReminderTime(telegramUserId, parsed.prayerReminder);
+      if (reminderTime) prayerReminder = parsed.prayerReminder;
+    } else if (parsed.time) {
+      // "ertaga soat 9da shifokorga", "Tushlikka chiqish 14:30"
+      const [hours, minutes] = parsed.time.split(":").map(Number);
+      reminderTime = parsed.date
+        ? uzDateTimeToUTC(parsed.date, parsed.time)
+        : createUzbekistanDateTime(hours, minutes);
+      reminderClock = parsed.time;
+    } else if (parsed.date && parsed.date > today) {
+      // A future day without a time gets the same 09:00 reminder as "Ertaga ertalab"
+      reminderTime = uzDateTimeToUTC(parsed.date, "09:00");
+    }
+    
+    let msg = `📝 *${title}*\n`;
+    if (reminderTime) {
+      msg += `🔔 Eslatma: ${formatReminderTime(reminderTime)}`;
+      msg += prayerReminder ? ` (🕌 ${describePrayerReminder(prayerReminder)})\n` : `\n`;
+    }
+    
+    if (parsed.priority) {
+      // Priority was given in the text ("muhim", "shoshilinch"), so skip straight to recurrence
+      await userStates.set(numericId, {
+        action: "add_task",
+        step: "recurrence",
+        data: { title, reminderTime, reminderClock, prayerReminder, priority: parsed.priority },
+      });
+      msg += `Muhimlik: ${getPriorityEmoji(parsed.priority)}\n\nVazifa takrorlansinmi?`;
+      await ctx.reply(msg, { parse_mode: "Markdown", ...recurrenceKeyboard });
+      return;
+    }
+    
+    await userStates.set(numericId, {
+      action: "add_task",
+      step: "priority",
+      data: { title, reminderTime, reminderClock, prayerReminder },
+    });
+    
+    msg += `\nMuhimlik darajasini tanlang:`;
+    
+    await ctx.reply(msg, { parse_mode: "Markdown", ...priorityKeyboard });
+  } else if (state.step === "reminder_custom") {
+    const timeMatch = text.match(/^(\d{1,2}):(\d{2})$/);
+    if (!timeMatch) {
+      await ctx.reply("Noto'g'ri format. Iltimos, soat:minut formatida kiriting (masalan: 14:30):");
+      return;
+    }
+    
+    const hours = parseInt(timeMatch[1]);
+    const minutes = parseInt(timeMatch[2]);
+    
+    if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
+      await ctx.reply("Noto'g'ri vaqt. Soat 0-23, minut 0-59 oralig'ida bo'lishi kerak:");
+      return;
+    }
+    
+    const reminderTime = createUzbekistanDateTime(hours, minutes);
+    
+    await saveTaskWithReminder(ctx, numericId, reminderTime);
+  } else if (state.step === "recurrence_interval") {
+    const interval = parseInt(text.trim());
+    if (isNaN(interval) || interval < 1 || interval > 365) {
+      await ctx.reply("Iltimos, 1 dan 365 gacha son kiriting:");
+      return;
+    }
+    
+    await saveRecurringTask(ctx, numericId, { frequency: "interval", interval }, false);
+  }
+});
@@ -0,0 +1,361 @@
+import { Markup } from "telegraf";
+import type { Context } from "telegraf";
+import { storage } from "../storage";
+import { CURRENCIES, formatMoney, isCurrencyCode } from "@shared/currency";
+import { getAccountIcon } from "@shared/accounts";
+import { describeCampaignFeatures, type PromoFeature } from "@shared/campaigns";
+import type { Account, Expense, PromoCampaign } from "@shared/schema";
+import { findPromoCampaign, getCampaignDaysLeft } from "../campaigns";
+import { getUzbekistanDateString } from "../recurring";
+
+export const ADMIN_GROUP_ID = process.env.ADMIN_GROUP_ID?.trim();
+const WEBAPP_URL = process.env.WEBAPP_URL?.trim();
+const UZ_TIMEZONE_OFFSET = 5 * 60 * 60 * 1000;
+
+// Subscription plans configuration
+export const SUBSCRIPTION_PLANS = {
+  trial: { name: "Sinov", days: 3, price: 0 },
+  monthly_1: { name: "1 oylik", days: 30, price: 20000 },
+  monthly_2: { name: "2 oylik", days: 60, price: 35000 },
+  monthly_3: { name: "3 oylik", days: 90, price: 50000 },
+};
+
+export function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("uz-UZ").format(amount) + " so'm";
+}
+
+// "25 $" for amounts entered in a foreign currency, plain so'm otherwise
+export function formatOriginalAmount(entry: Pick<Expense, "amount" | "currency" | "originalAmount">): string {
+  if (entry.originalAmount == null || !isCurrencyCode(entry.currency)) {
+    return formatCurrency(entry.amount);
+  }
+  return formatMoney(entry.originalAmount, entry.currency);
+}
+
+export function getCurrencyKeyboard(prefix: string, backAction: string) {
+  const rows = Object.entries(CURRENCIES).map(([code, info]) => [
+    Markup.button.callback(`${info.flag} ${code} — ${info.name}`, `${prefix}${code}`),
+  ]);
+  rows.push([Markup.button.callback("🔙 Orqaga", backAction)]);
+  return Markup.inlineKeyboard(rows);
+}
+
+export function getUzbekistanTime(): Date {
+  return new Date(Date.now() + UZ_TIMEZONE_OFFSET);
+}
+
+export function uzTimeToUTC(uzDate: Date): Date {
+  return new Date(uzDate.getTime() - UZ_TIMEZONE_OFFSET);
+}
+
+export function createUzbekistanDateTime(hours: number, minutes: number): Date {
+  const uzNow = getUzbekistanTime();
+  const uzDate = new Date(uzNow);
+  uzDate.setHours(hours, minutes, 0, 0);
+  if (uzDate <= uzNow) {
+    uzDate.setDate(uzDate.getDate() + 1);
+  }
+  return uzTimeToUTC(uzDate);
+}
+
+// Safe wrapper to handle Telegram API errors gracefully
+function isTelegramError(error: any, codes: number[]): boolean {
+  return codes.includes(error?.response?.error_code);
+}
+
+export function isIgnorableError(error: any): boolean {
+  const description = error?.response?.description || "";
+  const ignorablePatterns = [
+    "message is not modified",
+    "message content and reply markup are exactly the same",
+    "query is too old",
+    "bot was blocked by the user",
+    "user is deactivated",
+    "chat not found",
+    "bot was kicked",
+    "have no rights to send",
+    "message to edit not found",
+    "BUTTON_DATA_INVALID"
+  ];
+  return ignorablePatterns.some(p => description.includes(p)) || 
+         isTelegramError(error, [400, 403]);
+}
+
+export async function safeAnswerCallback(ctx: Context): Promise<void> {
+  try {
+    await ctx.answerCbQuery().catch(() => {});
+  } catch {}
+}
+
+export async function safeEditMessage(ctx: Context, text: string, extra?: any): Promise<boolean> {
+  try {
+    await ctx.editMessageText(text, extra);
+    return true;
+  } catch (error: any) {
+    if (isIgnorableError(error)) {
+      return true;
+    }
+    console.error("Edit message error:", error?.response?.description || error.message);
+    return false;
+  }
+}
+
+export async function safeSendMessage(ctx: Context, text: string, extra?: any): Promise<boolean> {
+  try {
+    await ctx.reply(text, extra);
+    return true;
+  } catch (error: any) {
+    if (isIgnorableError(error)) {
+      return true;
+    }
+    console.error("Send message error:", error?.response?.description || error.message);
+    return false;
+  }
+}
+
+// Escape special Markdown characters to prevent parsing errors
+export function escapeMarkdown(text: string | null | undefined): string {
+  if (!text) return "";
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/_/g, "\\_")
+    .replace(/\*/g, "\\*")
+    .replace(/\[/g, "\\[")
+    .replace(/\]/g, "\\]")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)")
+    .replace(/~/g, "\\~")
+    .replace(/`/g, "\\`")
+    .replace(/>/g, "\\>")
+    .replace(/\|/g, "\\|");
+}
+
+export function getTelegramUserId(ctx: Context): string {
+  return ctx.from?.id?.toString() || "0";
+}
+
+export const mainMenuKeyboard = Markup.inlineKeyboard([
+  [
+    Markup.button.callback("📋 Rejalar", "menu_tasks"),
+    Markup.button.callback("💰 Xarajatlar", "menu_expenses"),
+  ],
+  [
+    Markup.button.callback("🎯 Maqsadlar", "menu_goals"),
+    Markup.button.callback("💳 Byudjet", "menu_budget"),
+  ],
+  [
+    Markup.button.callback("🕌 Ibodat", "menu_prayer"),
+    Markup.button.callback("📊 Statistika", "menu_stats"),
+  ],
+  [
+    Markup.button.callback("📍 Hudud", "menu_region"),
+    Markup.button.callback("💎 Obuna", "menu_subscription"),
+  ],
+  [
+    Markup.button.callback("⏱ Fokus", "menu_focus"),
+    Markup.button.callback("🔥 Odatlar", "menu_habits"),
+  ],
+  [Markup.button.callback("⚙️ Sozlamalar", "menu_settings")],
+  // Opens the React dashboard as a Mini App; needs the public https URL of the site
+  ...(WEBAPP_URL ? [[Markup.button.webApp("📱 Ilovani ochish", WEBAPP_URL)]] : []),
+]);
+
+// Persistent reply keyboard - always visible at bottom
+export const persistentKeyboard = Markup.keyboard([
+  ["📋 Asosiy menu"]
+]).resize().persistent();
+
+// In-memory cache for subscription checks (5 minute TTL)
+export const subscriptionCache = new Map<string, { data: any; expiry: number }>();
+const SUB_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+export function invalidateSubscriptionCache(telegramUserId: string) {
+  subscriptionCache.delete(telegramUserId);
+}
+
+export interface SubscriptionStatus {
+  isActive: boolean;
+  daysLeft: number;
+  status: string; // none, trial, active, expired, promo
+  planType: string;
+  campaign?: PromoCampaign; // set when the access comes from a promo campaign
+}
+
+// The user's own subscription first; without one, a running promo campaign that reaches
+// them and unlocks `feature` (or everything, when no feature is given)
+export async function checkSubscription(telegramUserId: string, feature?: PromoFeature): Promise<SubscriptionStatus> {
+  const own = await checkOwnSubscription(telegramUserId);
+  if (own.isActive) return own;
+
+  const campaign = await findPromoCampaign(telegramUserId, own.status, feature);
+  if (campaign) {
+    return { isActive: true, daysLeft: getCampaignDaysLeft(campaign), status: "promo", planType: "promo", campaign };
+  }
+  return own;
+}
+
+// Campaign name, banner and what is free until when, for welcome and subscription texts
+export function formatPromoBanner(campaign: PromoCampaign): string {
+  const endDate = getUzbekistanDateString(campaign.endsAt).split("-").reverse().join(".");
+  let text = `🎁 *${escapeMarkdown(campaign.name)}*\n`;
+  if (campaign.bannerText) text += `${escapeMarkdown(campaign.bannerText)}\n`;
+  text += `🔓 ${describeCampaignFeatures(campaign.features)} — *${endDate}* gacha bepul (${getCampaignDaysLeft(campaign)} kun qoldi)`;
+  return text;
+}
+
+async function checkOwnSubscription(telegramUserId: string): Promise<SubscriptionStatus> {
+  // Check cache first
+  const cached = subscriptionCache.get(telegramUserId);
+  if (cached && cached.expiry > Date.now()) {
+    return cached.data;
+  }
+  
+  const subscription = await storage.getSubscription(telegramUserId);
+  
+  if (!subscription) {
+    const result = { isActive: false, daysLeft: 0, status: "none", planType: "none" };
+    subscriptionCache.set(telegramUserId, { data: result, expiry: Date.now() + SUB_CACHE_TTL });
+    return result;
+  }
+  
+  const now = new Date();
+  const endDate = new Date(subscription.endDate);
+  const daysLeft = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  
+  let result;
+  if (subscription.status === "trial" || subscription.status === "active") {
+    if (daysLeft > 0) {
+      result = { isActive: true, daysLeft, status: subscription.status, planType: subscription.planType };
+    } else {
+      result = { isActive: false, daysLeft: 0, status: "expired", planType: subscription.planType };
+    }
+  } else {
+    result = { isActive: false, daysLeft: 0, status: "expired", planType: subscription.planType };
+  }
+  
+  subscriptionCache.set(telegramUserId, { data: result, expiry: Date.now() + SUB_CACHE_TTL });
+  return result;
+}
+
+export async function createTrialSubscription(telegramUserId: string): Promise<boolean> {
+  const existingSub = await storage.getSubscription(telegramUserId);
+  if (existingSub?.trialUsed) {
+    return false;
+  }
+  
+  const startDate = new Date();
+  const endDate = new Date(startDate.getTime() + SUBSCRIPTION_PLANS.trial.days * 24 * 60 * 60 * 1000);
+  
+  if (existingSub) {
+    await storage.updateSubscription(telegramUserId, {
+      status: "trial",
+      planType: "trial",
+      startDate,
+      endDate,
+      trialUsed: true,
+    });
+  } else {
+    await storage.createSubscription({
+      telegramUserId,
+      status: "trial",
+      planType: "trial",
+      startDate,
+      endDate,
+      trialUsed: true,
+    });
+  }
+  
+  // Invalidate subscription cache
+  invalidateSubscriptionCache(telegramUserId);
+  
+  return true;
+}
+
+export async function showSubscriptionRequired(ctx: Context, featureName: string) {
+  await ctx.answerCbQuery("Obuna talab qilinadi");
+  await ctx.editMessageText(
+    `🔒 *${featureName}* funksiyasidan foydalanish uchun obuna talab qilinadi.\n\n` +
+    `Obuna rejalarini ko'rish uchun quyidagi tugmani bosing:`,
+    {
+      parse_mode: "Markdown",
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback("💎 Obuna rejalarini ko'rish", "menu_subscription")],
+        [Markup.button.callback("🔙 Orqaga", "back_main")],
+      ]),
+    }
+  );
+}
+
+export const defaultCategoriesWithIcons = [
+  { name: "Ovqat", icon: "🍽" },
+  { name: "Yo'l", icon: "🚗" },
+  { name: "Xarid", icon: "🛒" },
+  { name: "To'lov", icon: "💳" },
+  { name: "Uy-joy", icon: "🏠" },
+  { name: "Sog'liq", icon: "💊" },
+  { name: "O'yin-kulgi", icon: "🎮" },
+  { name: "Boshqa", icon: "📦" },
+];
+
+export const defaultCategories = defaultCategoriesWithIcons.map(c => c.name);
+
+export function getCategoryIcon(name: string): string {
+  const found = defaultCategoriesWithIcons.find(c => c.name === name);
+  return found ? found.icon : "📁";
+}
+
+export function getCategoryKeyboard(categories: string[]) {
+  const rows = [];
+  for (let i = 0; i < categories.length; i += 2) {
+    const icon1 = getCategoryIcon(categories[i]);
+    const row = [Markup.button.callback(`${icon1} ${categories[i]}`, `cat_${categories[i]}`)];
+    if (categories[i + 1]) {
+      const icon2 = getCategoryIcon(categories[i + 1]);
+      row.push(Markup.button.callback(`${icon2} ${categories[i + 1]}`, `cat_${categories[i + 1]}`));
+    }
+    rows.push(row);
+  }
+  rows.push([Markup.button.callback("❌ Bekor", "cancel")]);
+  return Markup.inlineKeyboard(rows);
+}
+
+// One button per account; `skipAction` adds a "no account" choice for entries that don't need one
+export function getAccountKeyboard(accounts: Pick<Account, "id" | "name" | "type">[], prefix: string, backAction: string, skipAction?: string) {
+  const rows = [];
+  for (let i = 0; i < accounts.length; i += 2) {
+    const row = accounts.slice(i, i + 2).map(a =>
+      Markup.button.callback(`${getAccountIcon(a.type)} ${a.name}`, `${prefix}${a.id}`)
+    );
+    rows.push(row);
+  }
+  if (skipAction) {
+    rows.push([Markup.button.callback("➖ Hisobsiz", skipAction)]);
+  }
+  rows.push([Markup.button.callback("❌ Bekor", backAction)]);
+  return Markup.inlineKeyboard(rows);
+}
+
+export function getPriorityEmoji(priority: string | null): string {
+  switch (priority) {
+    case "high": return "🔴";
+    case "medium": return "🟡";
+    case "low": return "🟢";
+    default: return "⚪";
+  }
+}
+
+export function getProgressBar(current: number, target: number): string {
+  const percentage = Math.min(100, Math.round((current / target) * 100));
+  const filled = Math.round(percentage / 10);
+  const empty = 10 - filled;
+  return "█".repeat(filled) + "░".repeat(empty) + ` ${percentage}%`;
+}
+
+export function formatReminderTime(date: Date): string {
+  return date.toLocaleString("uz-UZ", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
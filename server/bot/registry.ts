@@ -0,0 +1,226 @@
+import type { Telegraf, Context, NarrowedContext } from "telegraf";
+import type { Message, Update } from "telegraf/types";
+import { userStates, type ConversationAction, type UserState } from "../conversation-state";
+
+export type TextContext = NarrowedContext<Context, Update.MessageUpdate<Message.TextMessage>>;
+export type PhotoContext = NarrowedContext<Context, Update.MessageUpdate<Message.PhotoMessage>>;
+export type LocationContext = NarrowedContext<Context, Update.MessageUpdate<Message.LocationMessage>>;
+export type DocumentContext = NarrowedContext<Context, Update.MessageUpdate<Message.DocumentMessage>>;
+
+type CommandHandler = Parameters<Telegraf<Context>["command"]>[1];
+type HearsHandler = Parameters<Telegraf<Context>["hears"]>[1];
+type ActionHandler = Parameters<Telegraf<Context>["action"]>[1];
+
+type StateOf<A extends ConversationAction> = Extract<UserState, { action: A }>;
+type StateHandler<C> = (ctx: C, state: UserState) => Promise<unknown>;
+
+// A feature module declares everything it reacts to up front: commands, reply-keyboard
+// texts, callback-data patterns and the conversation actions whose text/photo input it
+// owns. Nothing touches the Telegraf instance until the registry applies it.
+export class BotFeature {
+  readonly commands: Array<{ name: string; handler: CommandHandler }> = [];
+  readonly hears: Array<{ text: string; handler: HearsHandler }> = [];
+  readonly actions: Array<{ pattern: string | RegExp; handler: ActionHandler }> = [];
+  readonly textHandlers = new Map<ConversationAction, StateHandler<TextContext>>();
+  readonly photoHandlers = new Map<ConversationAction, StateHandler<PhotoContext>>();
+  locationHandler?: (ctx: LocationContext) => Promise<unknown>;
+  documentHandler?: (ctx: DocumentContext) => Promise<unknown>;
+  fallbackTextHandler?: (ctx: TextContext) => Promise<unknown>;
+
+  constructor(readonly name: string) {}
+
+  command(name: string, handler: CommandHandler) {
+    this.commands.push({ name, handler });
+  }
+
+  hear(text: string, handler: HearsHandler) {
+    this.hears.push({ text, handler });
+  }
+
+  action(pattern: string | RegExp, handler: ActionHandler) {
+    this.actions.push({ pattern, handler });
+  }
+
+  onText<A extends ConversationAction>(action: A, handler: (ctx: TextContext, state: StateOf<A>) => Promise<unknown>) {
+    this.textHandlers.set(action, handler as StateHandler<TextContext>);
+  }
+
+  onPhoto<A extends ConversationAction>(action: A, handler: (ctx: PhotoContext, state: StateOf<A>) => Promise<unknown>) {
+    this.photoHandlers.set(action, handler as StateHandler<PhotoContext>);
+  }
+
+  onLocation(handler: (ctx: LocationContext) => Promise<unknown>) {
+    this.locationHandler = handler;
+  }
+
+  onDocument(handler: (ctx: DocumentContext) => Promise<unknown>) {
+    this.documentHandler = handler;
+  }
+
+  // Text typed while no conversation is active
+  onUnhandledText(handler: (ctx: TextContext) => Promise<unknown>) {
+    this.fallbackTextHandler = handler;
+  }
+}
+
+export function defineFeature(name: string): BotFeature {
+  return new BotFeature(name);
+}
+
+// The text every match of an anchored pattern starts with: "budget_period_" for
+// /^budget_period_(weekly|monthly)$/. Empty for unanchored patterns.
+function literalPrefix(pattern: RegExp): string {
+  const match = pattern.source.match(/^\^([\w-]*)([?*+{]?)/);
+  if (!match) return "";
+  // A quantifier makes the character before it optional
+  return match[2] ? match[1].slice(0, -1) : match[1];
+}
+
+// Callback data the longer-prefixed pattern might send: ids, words, id pairs
+const SAMPLE_TAILS = ["1", "a", "1_1", "a_1"];
+
+// Whether two callback patterns can accept the same data. Only patterns whose literal
+// prefixes nest can: then either the shorter one is already satisfied by the longer
+// prefix (/^budget_/ against /^budget_period_(weekly|monthly)$/), or both accept a
+// sample built on it (/^goal_(.+)_(\d+)$/ and /^goal_cat_(.+)$/ both take "goal_cat_1").
+// Overlaps only in enumerated words (/^x_(a|b)$/, /^x_(b|c)$/) still go unnoticed.
+function patternsOverlap(a: RegExp, b: RegExp): boolean {
+  if (a.source === b.source) return true;
+  const [shorter, longer] = literalPrefix(a).length <= literalPrefix(b).length ? [a, b] : [b, a];
+  const prefix = literalPrefix(longer);
+  if (!prefix.startsWith(literalPrefix(shorter))) return false;
+
+  const openEnded = new RegExp(shorter.source.replace(/\$$/, ""), shorter.flags);
+  if (openEnded.test(prefix)) return true;
+  return SAMPLE_TAILS.some(tail => shorter.test(prefix + tail) && longer.test(prefix + tail));
+}
+
+export class BotRegistry {
+  private features: BotFeature[] = [];
+  private commandOwners = new Map<string, string>();
+  private hearsOwners = new Map<string, string>();
+  private actionOwners = new Map<string, string>();
+  private patternOwners: Array<{ pattern: RegExp; owner: string }> = [];
+  private textOwners = new Map<ConversationAction, string>();
+  private photoOwners = new Map<ConversationAction, string>();
+  private locationOwner?: string;
+  private documentOwner?: string;
+  private fallbackOwner?: string;
+
+  constructor(private bot: Telegraf<Context>) {}
+
+  // Throws on the first overlap so a duplicated handler fails at startup instead of
+  // silently shadowing another one
+  use(feature: BotFeature): this {
+    const claim = (owners: Map<string, string>, key: string, kind: string) => {
+      const owner = owners.get(key);
+      if (owner) {
+        throw new Error(`Bot handler collision: ${kind} "${key}" is declared by "${owner}" and "${feature.name}"`);
+      }
+      owners.set(key, feature.name);
+    };
+
+    for (const { name } of feature.commands) claim(this.commandOwners, name, "command");
+    for (const { text } of feature.hears) claim(this.hearsOwners, text, "hears");
+
+    for (const { pattern } of feature.actions) {
+      if (typeof pattern === "string") {
+        claim(this.actionOwners, pattern, "callback");
+        const shadowing = this.patternOwners.find(p => p.pattern.test(pattern));
+        if (shadowing) {
+          throw new Error(`Bot handler collision: callback "${pattern}" from "${feature.name}" also matches ${shadowing.pattern} from "${shadowing.owner}"`);
+        }
+      } else {
+        const overlapping = this.patternOwners.find(p => patternsOverlap(p.pattern, pattern));
+        if (overlapping) {
+          throw new Error(`Bot handler collision: callback pattern ${pattern} from "${feature.name}" overlaps ${overlapping.pattern} from "${overlapping.owner}"`);
+        }
+        const shadowed = Array.from(this.actionOwners.keys()).find(key => pattern.test(key));
+        if (shadowed) {
+          throw new Error(`Bot handler collision: callback pattern ${pattern} from "${feature.name}" also matches "${shadowed}" from "${this.actionOwners.get(shadowed)}"`);
+        }
+        this.patternOwners.push({ pattern, owner: feature.name });
+      }
+    }
+
+    for (const action of Array.from(feature.textHandlers.keys())) claim(this.textOwners, action, "text state");
+    for (const action of Array.from(feature.photoHandlers.keys())) claim(this.photoOwners, action, "photo state");
+
+    if (feature.locationHandler) {
+      if (this.locationOwner) {
+        throw new Error(`Bot handler collision: location is handled by "${this.locationOwner}" and "${feature.name}"`);
+      }
+      this.locationOwner = feature.name;
+    }
+    if (feature.documentHandler) {
+      if (this.documentOwner) {
+        throw new Error(`Bot handler collision: documents are handled by "${this.documentOwner}" and "${feature.name}"`);
+      }
+      this.documentOwner = feature.name;
+    }
+    if (feature.fallbackTextHandler) {
+      if (this.fallbackOwner) {
+        throw new Error(`Bot handler collision: unhandled text is handled by "${this.fallbackOwner}" and "${feature.name}"`);
+      }
+      this.fallbackOwner = feature.name;
+    }
+
+    this.features.push(feature);
+    return this;
+  }
+
+  // Applies every declaration to the bot. Commands, keyboard texts and callbacks go
+  // first; free text and photos are then routed by the sender's active conversation.
+  apply() {
+    const textHandlers = new Map<ConversationAction, StateHandler<TextContext>>();
+    const photoHandlers = new Map<ConversationAction, StateHandler<PhotoContext>>();
+    let locationHandler: BotFeature["locationHandler"];
+    let documentHandler: BotFeature["documentHandler"];
+    let fallbackTextHandler: BotFeature["fallbackTextHandler"];
+
+    for (const feature of this.features) {
+      for (const { name, handler } of feature.commands) this.bot.command(name, handler);
+      for (const { text, handler } of feature.hears) this.bot.hears(text, handler);
+      for (const { pattern, handler } of feature.actions) this.bot.action(pattern, handler);
+      feature.textHandlers.forEach((handler, action) => textHandlers.set(action, handler));
+      feature.photoHandlers.forEach((handler, action) => photoHandlers.set(action, handler));
+      locationHandler = feature.locationHandler || locationHandler;
+      documentHandler = feature.documentHandler || documentHandler;
+      fallbackTextHandler = feature.fallbackTextHandler || fallbackTextHandler;
+    }
+
+    if (locationHandler) {
+      const handler = locationHandler;
+      this.bot.on("location", async (ctx) => {
+        await handler(ctx);
+      });
+    }
+
+    if (documentHandler) {
+      const handler = documentHandler;
+      this.bot.on("document", async (ctx) => {
+        await handler(ctx);
+      });
+    }
+
+    this.bot.on("text", async (ctx) => {
+      const state = await userStates.get(ctx.from.id);
+      const handler = state ? textHandlers.get(state.action) : undefined;
+      if (state && handler) {
+        await handler(ctx, state);
+        return;
+      }
+      if (!state && fallbackTextHandler) {
+        await fallbackTextHandler(ctx);
+      }
+    });
+
+    this.bot.on("photo", async (ctx) => {
+      const state = await userStates.get(ctx.from.id);
+      const handler = state ? photoHandlers.get(state.action) : undefined;
+      if (state && handler) {
+        await handler(ctx, state);
+      }
+    });
+  }
+}
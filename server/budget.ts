@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { getMoneyViewFor, type MoneyView } from "./currency";
+import { getUzbekistanDateString } from "./recurring";
+import { computeBudgetStatus, formatBudgetPeriod, getBudgetLabel, type BudgetStatus } from "@shared/budget";
+import { formatMoney, isCurrencyCode } from "@shared/currency";
+import type { BudgetLimit, Expense } from "@shared/schema";
+
+export interface BudgetLimitStatus {
+  limit: BudgetLimit;
+  money: MoneyView; // in the limit's currency
+  status: BudgetStatus;
+}
+
+// Spending is stored in so'm; each limit is compared in the currency it was set in at today's rate.
+// `expenses` can be passed in when the caller already has them.
+export async function getBudgetStatuses(telegramUserId: string, limits?: BudgetLimit[], expenses?: Expense[]): Promise<BudgetLimitStatus[]> {
+  const [userLimits, userExpenses] = await Promise.all([
+    limits ?? storage.getBudgetLimits(telegramUserId),
+    expenses ?? storage.getExpenses(telegramUserId),
+  ]);
+  const today = getUzbekistanDateString();
+
+  const statuses: BudgetLimitStatus[] = [];
+  for (const limit of userLimits) {
+    const money = await getMoneyViewFor(isCurrencyCode(limit.currency) ? limit.currency : "UZS");
+    const spending = userExpenses.map(e => ({
+      date: getUzbekistanDateString(e.createdAt),
+      category: e.category,
+      amount: money.fromSom(e.amount),
+    }));
+    const status = computeBudgetStatus(limit, spending, today, getUzbekistanDateString(limit.createdAt));
+    statuses.push({ limit, money, status });
+  }
+  return statuses;
+}
+
+export function getBudgetStatusEmoji(status: BudgetStatus): string {
+  if (status.percent >= 100) return "🔴";
+  if (status.percent >= 80 || status.overrunDate) return "🟡";
+  return "🟢";
+}
+
+// "25.10"
+export function formatBudgetDay(date: string): string {
+  return `${date.slice(8, 10)}.${date.slice(5, 7)}`;
+}
+
+export function formatBudgetForecast({ limit, money, status }: BudgetLimitStatus): string {
+  return `📈 *${getBudgetLabel(limit)}*: shu sur'atda davr oxirigacha ${formatMoney(status.projected, money.currency)} sarflanadi ` +
+    `(limit ${formatMoney(status.limit, money.currency)}). Limit taxminan *${formatBudgetDay(status.overrunDate!)}* da tugaydi ` +
+    `(davr: ${formatBudgetPeriod(status.period)}).`;
+}
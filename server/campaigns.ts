@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import { campaignUnlocks, type PromoFeature } from "@shared/campaigns";
+import type { PromoCampaign } from "@shared/schema";
+
+// Every subscription check looks at the running campaigns, so they are cached briefly;
+// admin edits clear the cache straight away
+let runningCache: { campaigns: PromoCampaign[]; expiry: number } | null = null;
+const CAMPAIGN_CACHE_TTL = 60 * 1000;
+
+export function invalidatePromoCampaignCache() {
+  runningCache = null;
+}
+
+export async function getRunningPromoCampaigns(): Promise<PromoCampaign[]> {
+  if (runningCache && runningCache.expiry > Date.now()) {
+    // A campaign can end between refreshes
+    const now = new Date();
+    return runningCache.campaigns.filter(c => c.startsAt <= now && c.endsAt >= now);
+  }
+  const campaigns = await storage.getRunningPromoCampaigns(new Date());
+  runningCache = { campaigns, expiry: Date.now() + CAMPAIGN_CACHE_TTL };
+  return campaigns;
+}
+
+// `subscriptionStatus` is the user's own one: "none", "expired", "trial" or "active"
+async function isInAudience(campaign: PromoCampaign, telegramUserId: string, subscriptionStatus: string): Promise<boolean> {
+  switch (campaign.audience) {
+    case "new": {
+      const user = await storage.getBotUser(telegramUserId);
+      return !!user && user.createdAt >= campaign.startsAt;
+    }
+    case "expired":
+      return subscriptionStatus === "expired";
+    default:
+      return true;
+  }
+}
+
+// The running campaign that reaches this user, ending last; with a feature, only campaigns
+// that unlock it, without one only campaigns that unlock everything
+export async function findPromoCampaign(
+  telegramUserId: string,
+  subscriptionStatus: string,
+  feature?: PromoFeature
+): Promise<PromoCampaign | null> {
+  const campaigns = (await getRunningPromoCampaigns()).filter(c => campaignUnlocks(c.features, feature));
+  let found: PromoCampaign | null = null;
+  for (const campaign of campaigns) {
+    if (found && found.endsAt >= campaign.endsAt) continue;
+    if (await isInAudience(campaign, telegramUserId, subscriptionStatus)) found = campaign;
+  }
+  return found;
+}
+
+// For welcome and subscription texts: any running campaign that reaches the user, whatever it unlocks
+export async function findPromoBanner(telegramUserId: string, subscriptionStatus: string): Promise<PromoCampaign | null> {
+  for (const campaign of await getRunningPromoCampaigns()) {
+    if (await isInAudience(campaign, telegramUserId, subscriptionStatus)) return campaign;
+  }
+  return null;
+}
+
+export function getCampaignDaysLeft(campaign: PromoCampaign): number {
+  return Math.max(0, Math.ceil((campaign.endsAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24)));
+}
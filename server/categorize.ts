@@ -0,0 +1,19 @@
+import { storage } from "./storage";
+import { findMatchingRule, suggestFromHistory, type CategorizationInput } from "@shared/category-rules";
+import type { CategoryRule } from "@shared/schema";
+
+export type CategorySuggestion =
+  | { category: string; source: "rule"; rule: CategoryRule }
+  | { category: string; source: "history" };
+
+// A matching rule assigns the category outright; history only suggests one of `categories`
+export async function suggestCategory(telegramUserId: string, input: CategorizationInput, categories: string[]): Promise<CategorySuggestion | null> {
+  const rule = findMatchingRule(await storage.getCategoryRules(telegramUserId), input);
+  if (rule) {
+    return { category: rule.category, source: "rule", rule };
+  }
+
+  const history = await storage.getExpenses(telegramUserId);
+  const learned = suggestFromHistory(history, input.merchant ?? input.description);
+  return learned && categories.includes(learned) ? { category: learned, source: "history" } : null;
+}
@@ -0,0 +1,45 @@
+import { storage } from "./storage";
+import { ConversationStateMachine, MemoryStateStore, restoreState, type StateStore, type UserState } from "@shared/conversation-state";
+
+export * from "@shared/conversation-state";
+
+export class PostgresStateStore implements StateStore {
+  async get(userId: number): Promise<UserState | undefined> {
+    const row = await storage.getConversationState(userId.toString());
+    if (!row) return undefined;
+    const state = restoreState(row);
+    if (!state) {
+      console.warn(`Dropping stale conversation state ${row.action}/${row.step} for ${userId}`);
+      await storage.deleteConversationState(userId.toString());
+    }
+    return state;
+  }
+
+  async set(userId: number, state: UserState, expiresAt: Date): Promise<void> {
+    await storage.createOrUpdateConversationState({
+      telegramUserId: userId.toString(),
+      action: state.action,
+      step: state.step,
+      data: state.data ?? null,
+      expiresAt,
+    });
+  }
+
+  async delete(userId: number): Promise<void> {
+    await storage.deleteConversationState(userId.toString());
+  }
+
+  async purgeExpired(): Promise<number> {
+    return await storage.deleteExpiredConversationStates();
+  }
+}
+
+function createStateStore(): StateStore {
+  // CONVERSATION_STORE=memory keeps states in-process (local runs without a database)
+  if (process.env.CONVERSATION_STORE === "memory") {
+    return new MemoryStateStore();
+  }
+  return new PostgresStateStore();
+}
+
+export const userStates = new ConversationStateMachine(createStateStore());
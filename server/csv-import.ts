@@ -0,0 +1,128 @@
+import { storage } from "./storage";
+import { convertToSom, getUserCurrency } from "./currency";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "./recurring";
+import { guessColumnMapping, importDuplicateKey, mapImportRows, parseCsvRecords, type ColumnMapping, type ImportRow } from "@shared/csv";
+import { findMatchingRule, suggestFromHistory } from "@shared/category-rules";
+import { detectCategory, normalizeApostrophes } from "@shared/uz-parser";
+import { refreshGoalProgress } from "./goals";
+import { defaultCategories } from "./bot/helpers";
+
+// "credit" rows are money coming in; they are shown in the preview but never imported
+export type ImportRowStatus = "new" | "duplicate" | "credit" | "invalid";
+
+export type ImportPreviewRow = ImportRow & { status: ImportRowStatus };
+
+export interface ImportPreview {
+  headers: string[] | null; // null when the file has no header row
+  columnCount: number;
+  mapping: ColumnMapping;
+  rows: ImportPreviewRow[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+export interface ImportResult {
+  imported: number;
+  failed: number; // rows whose currency had no exchange rate for their date
+}
+
+// Reads the file and marks every row without writing anything. `mapping` overrides the
+// guessed one; rows already in the user's expenses, or repeated in the file, are duplicates.
+export async function previewExpenseImport(telegramUserId: string, csv: string, mapping?: ColumnMapping): Promise<ImportPreview> {
+  const records = parseCsvRecords(csv);
+  const table = records.map(r => r.cells);
+  const guessed = guessColumnMapping(table);
+  // A header row is only kept when the guess found one; a user mapping doesn't change that
+  const hasHeader = guessed.hasHeader;
+  const finalMapping = mapping ?? guessed.mapping;
+
+  const [defaultCurrency, expenses, rules, categories] = await Promise.all([
+    getUserCurrency(telegramUserId),
+    storage.getExpenses(telegramUserId),
+    storage.getCategoryRules(telegramUserId),
+    storage.getExpenseCategories(telegramUserId),
+  ]);
+
+  // A category column is only trusted when it names one of the user's categories
+  const categoryNames = categories.length > 0 ? categories.map(c => c.name) : defaultCategories;
+  const categoryKey = (name: string) => normalizeApostrophes(name).toLowerCase().trim();
+  const knownCategory = (name: string | null) =>
+    name ? categoryNames.find(c => categoryKey(c) === categoryKey(name)) ?? null : null;
+
+  const seen = new Set(expenses.map(e => importDuplicateKey({
+    date: getUzbekistanDateString(e.createdAt),
+    amount: e.originalAmount ?? e.amount,
+    currency: e.currency,
+    description: e.description,
+  })));
+
+  const rows: ImportPreviewRow[] = [];
+  for (const row of mapImportRows(records, finalMapping, hasHeader, defaultCurrency)) {
+    if (row.error || !row.date || !row.amount) {
+      rows.push({ ...row, status: "invalid" });
+      continue;
+    }
+    if (row.credit) {
+      rows.push({ ...row, status: "credit" });
+      continue;
+    }
+
+    const key = importDuplicateKey({ date: row.date, amount: row.amount, currency: row.currency, description: row.description });
+    if (seen.has(key)) {
+      rows.push({ ...row, status: "duplicate" });
+      continue;
+    }
+    seen.add(key);
+
+    // Rule amount ranges are in so'm; without a rate for the day only amount-free rules can match
+    const createdAt = uzDateTimeToUTC(row.date, row.time ?? "12:00") ?? new Date();
+    const converted = await convertToSom(row.amount, row.currency, createdAt);
+    const ruleMatch = converted
+      ? findMatchingRule(rules, { description: row.description, amount: converted.amount })
+      : findMatchingRule(rules.filter(r => r.minAmount == null && r.maxAmount == null), { description: row.description, amount: row.amount });
+
+    // Same order as typing it in the bot: the user's rules, their history, then keywords
+    const category = knownCategory(row.category)
+      ?? ruleMatch?.category
+      ?? suggestFromHistory(expenses, row.description)
+      ?? detectCategory(row.description)
+      ?? "Boshqa";
+    rows.push({ ...row, category, status: "new" });
+  }
+
+  const counts = { new: 0, duplicate: 0, credit: 0, invalid: 0 };
+  rows.forEach(r => counts[r.status]++);
+
+  return {
+    headers: hasHeader ? table[0] : null,
+    columnCount: Math.max(0, ...table.map(r => r.length)),
+    mapping: finalMapping,
+    rows,
+    counts,
+  };
+}
+
+export async function applyExpenseImport(telegramUserId: string, preview: ImportPreview): Promise<ImportResult> {
+  let imported = 0;
+  let failed = 0;
+
+  for (const row of preview.rows) {
+    if (row.status !== "new" || !row.date || !row.amount) continue;
+    const createdAt = uzDateTimeToUTC(row.date, row.time ?? "12:00") ?? new Date();
+    const converted = await convertToSom(row.amount, row.currency, createdAt);
+    if (!converted) {
+      failed++;
+      continue;
+    }
+    await storage.createExpense({
+      ...converted,
+      description: row.description,
+      category: row.category ?? "Boshqa",
+      telegramUserId,
+      createdAt,
+    });
+    imported++;
+  }
+  if (imported > 0) await refreshGoalProgress(telegramUserId);
+
+  return { imported, failed };
+}
@@ -0,0 +1,174 @@
+import { readFile } from "fs/promises";
+import { storage } from "./storage";
+import { getUzbekistanDateString } from "./recurring";
+import { BASE_CURRENCY, formatMoney, isCurrencyCode, type ConvertedAmount, type CurrencyCode } from "@shared/currency";
+
+export interface ExchangeRateQuote {
+  currency: CurrencyCode;
+  rate: number; // so'm for one unit
+}
+
+// Where daily rates come from. Chosen once at startup from the environment.
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(date: string): Promise<ExchangeRateQuote[]>;
+}
+
+function toQuotes(rates: Record<string, unknown>): ExchangeRateQuote[] {
+  const quotes: ExchangeRateQuote[] = [];
+  for (const [code, value] of Object.entries(rates)) {
+    const rate = Number(value);
+    if (isCurrencyCode(code) && code !== BASE_CURRENCY && rate > 0) {
+      quotes.push({ currency: code, rate });
+    }
+  }
+  return quotes;
+}
+
+// A JSON file with either flat rates ({"USD": 12650, ...}) or rates per date
+// ({"2026-10-19": {"USD": 12650, ...}}); for dates not in the file the latest earlier one is used
+export function fileRateProvider(path: string): ExchangeRateProvider {
+  return {
+    name: "file",
+    async fetchRates(date) {
+      const content = JSON.parse(await readFile(path, "utf-8")) as Record<string, any>;
+      const dated = Object.keys(content).filter(key => /^\d{4}-\d{2}-\d{2}$/.test(key));
+      if (dated.length === 0) return toQuotes(content);
+
+      const day = dated.filter(key => key <= date).sort().pop();
+      return day ? toQuotes(content[day]) : [];
+    },
+  };
+}
+
+interface CbuRate {
+  Ccy: string;
+  Rate: string;
+  Nominal: string;
+}
+
+// Central Bank of Uzbekistan JSON archive; CBU_RATES_URL can point at a mirror or stand-in
+// that serves the same format
+export function cbuRateProvider(baseUrl = process.env.CBU_RATES_URL || "https://cbu.uz/uz/arkhiv-kursov-valyut/json/all/"): ExchangeRateProvider {
+  return {
+    name: "cbu",
+    async fetchRates(date) {
+      const response = await fetch(`${baseUrl.replace(/\/?$/, "/")}${date}/`);
+      if (!response.ok) {
+        throw new Error(`CBU rates request failed: ${response.status}`);
+      }
+      const rows: CbuRate[] = await response.json();
+      const rates: Record<string, number> = {};
+      for (const row of rows) {
+        rates[row.Ccy] = parseFloat(row.Rate) / (parseInt(row.Nominal) || 1);
+      }
+      return toQuotes(rates);
+    },
+  };
+}
+
+const provider: ExchangeRateProvider = process.env.EXCHANGE_RATES_FILE
+  ? fileRateProvider(process.env.EXCHANGE_RATES_FILE)
+  : cbuRateProvider();
+
+const rateCache = new Map<string, { rate: number; expiry: number }>();
+const RATE_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+// Failed provider calls are not retried for every expense
+const lastRefreshAttempt = new Map<string, number>();
+const REFRESH_RETRY_INTERVAL = 30 * 60 * 1000;
+
+// Fetches and stores the provider's rates for a day. Returns how many were saved.
+export async function refreshExchangeRates(date: string = getUzbekistanDateString()): Promise<number> {
+  lastRefreshAttempt.set(date, Date.now());
+  try {
+    const quotes = await provider.fetchRates(date);
+    for (const quote of quotes) {
+      await storage.saveExchangeRate({ currency: quote.currency, date, rate: quote.rate, source: provider.name });
+      rateCache.set(`${quote.currency}_${date}`, { rate: quote.rate, expiry: Date.now() + RATE_CACHE_TTL });
+    }
+    return quotes.length;
+  } catch (error) {
+    console.error(`Error fetching exchange rates (${provider.name}, ${date}):`, error);
+    return 0;
+  }
+}
+
+// So'm for one unit of the currency on the given day, or the closest earlier rate we have
+export async function getExchangeRate(currency: CurrencyCode, date: string = getUzbekistanDateString()): Promise<number | null> {
+  if (currency === BASE_CURRENCY) return 1;
+
+  const cacheKey = `${currency}_${date}`;
+  const cached = rateCache.get(cacheKey);
+  if (cached && cached.expiry > Date.now()) {
+    return cached.rate;
+  }
+
+  let stored = await storage.getExchangeRate(currency, date);
+  const lastAttempt = lastRefreshAttempt.get(date) ?? 0;
+  if (stored?.date !== date && Date.now() - lastAttempt > REFRESH_RETRY_INTERVAL) {
+    await refreshExchangeRates(date);
+    stored = await storage.getExchangeRate(currency, date);
+  }
+  if (!stored) return null;
+
+  rateCache.set(cacheKey, { rate: stored.rate, expiry: Date.now() + RATE_CACHE_TTL });
+  return stored.rate;
+}
+
+export async function getUserCurrency(telegramUserId: string): Promise<CurrencyCode> {
+  const settings = await storage.getUserSettings(telegramUserId);
+  return isCurrencyCode(settings?.currency) ? settings.currency : BASE_CURRENCY;
+}
+
+export async function setUserCurrency(telegramUserId: string, currency: CurrencyCode): Promise<void> {
+  await storage.createOrUpdateUserSettings({ telegramUserId, currency });
+}
+
+// Snapshots the rate of the expense's day so later rate changes don't rewrite history.
+// Returns null when no rate is known for the currency.
+export async function convertToSom(amount: number, currency: CurrencyCode, date?: Date | null): Promise<ConvertedAmount | null> {
+  if (currency === BASE_CURRENCY) {
+    return { amount: Math.round(amount), currency, originalAmount: null, exchangeRate: 1 };
+  }
+
+  const rate = await getExchangeRate(currency, getUzbekistanDateString(date ?? new Date()));
+  if (!rate) return null;
+
+  return { amount: Math.round(amount * rate), currency, originalAmount: amount, exchangeRate: rate };
+}
+
+// Shows so'm totals in the user's base currency at today's rate. Falls back to so'm
+// when that rate is unknown, so reports never fail on a missing rate.
+export interface MoneyView {
+  currency: CurrencyCode;
+  fromSom(amount: number): number;
+  format(amount: number): string;
+}
+
+export async function getMoneyView(telegramUserId: string): Promise<MoneyView> {
+  return getMoneyViewFor(await getUserCurrency(telegramUserId));
+}
+
+export async function getMoneyViewFor(currency: CurrencyCode): Promise<MoneyView> {
+  const rate = await getExchangeRate(currency);
+  const target = rate ? currency : BASE_CURRENCY;
+  const divisor = rate ?? 1;
+  return {
+    currency: target,
+    fromSom: amount => amount / divisor,
+    format: amount => formatMoney(amount / divisor, target),
+  };
+}
+
+// Keeps today's rates in the table so the first foreign expense of the day doesn't wait on the provider
+export async function ensureTodayExchangeRates(): Promise<void> {
+  const today = getUzbekistanDateString();
+  const stored = await storage.getExchangeRate("USD", today);
+  if (stored?.date === today) return;
+
+  const saved = await refreshExchangeRates(today);
+  if (saved > 0) {
+    console.log(`Loaded ${saved} exchange rate(s) for ${today} from ${provider.name}`);
+  }
+}
@@ -39,7 +39,7 @@ if (isNeonDatabase) {
   db = drizzlePg(pool, { schema });
 }
 
-// Auto-migrate: Add missing columns to payment_requests table
+// Auto-migrate: Add missing columns to existing tables
 async function autoMigrate() {
   try {
     // Use direct query for Railway PostgreSQL
@@ -49,6 +49,38 @@ async function autoMigrate() {
       `ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS payme_perform_time TEXT;`,
       `ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS payme_cancel_time TEXT;`,
       `ALTER TABLE payment_requests ADD COLUMN IF NOT EXISTS payme_cancel_reason INTEGER;`,
+      `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurring_task_id INTEGER;`,
+      `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reminder_prayer TEXT;`,
+      `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reminder_prayer_offset INTEGER;`,
+      `ALTER TABLE recurring_tasks ADD COLUMN IF NOT EXISTS reminder_prayer TEXT;`,
+      `ALTER TABLE recurring_tasks ADD COLUMN IF NOT EXISTS reminder_prayer_offset INTEGER;`,
+      `ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'UZS';`,
+      `ALTER TABLE expenses ADD COLUMN IF NOT EXISTS original_amount DOUBLE PRECISION;`,
+      `ALTER TABLE expenses ADD COLUMN IF NOT EXISTS exchange_rate DOUBLE PRECISION NOT NULL DEFAULT 1;`,
+      `ALTER TABLE budget_limits ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'UZS';`,
+      `ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS currency TEXT DEFAULT 'UZS';`,
+      `ALTER TABLE expenses ADD COLUMN IF NOT EXISTS account_id INTEGER;`,
+      `ALTER TABLE incomes ADD COLUMN IF NOT EXISTS account_id INTEGER;`,
+      `ALTER TABLE budget_limits ALTER COLUMN category DROP NOT NULL;`,
+      `ALTER TABLE budget_limits ADD COLUMN IF NOT EXISTS start_day INTEGER NOT NULL DEFAULT 1;`,
+      `ALTER TABLE budget_limits ADD COLUMN IF NOT EXISTS period_days INTEGER;`,
+      `ALTER TABLE budget_limits ADD COLUMN IF NOT EXISTS anchor_date TEXT;`,
+      `ALTER TABLE budget_limits ADD COLUMN IF NOT EXISTS rollover BOOLEAN NOT NULL DEFAULT false;`,
+      `ALTER TABLE budget_limits ADD COLUMN IF NOT EXISTS forecast_alert_period TEXT;`,
+      `ALTER TABLE goals ALTER COLUMN end_date DROP NOT NULL;`,
+      `ALTER TABLE goals ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'UZS';`,
+      `ALTER TABLE goals ADD COLUMN IF NOT EXISTS last_milestone INTEGER NOT NULL DEFAULT 0;`,
+      `ALTER TABLE goals ADD COLUMN IF NOT EXISTS category TEXT;`,
+      `ALTER TABLE tasks ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS calc_method TEXT DEFAULT 'uzbekistan';`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS asr_school TEXT DEFAULT 'hanafi';`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS fajr_offset INTEGER DEFAULT 0;`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS dhuhr_offset INTEGER DEFAULT 0;`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS asr_offset INTEGER DEFAULT 0;`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS maghrib_offset INTEGER DEFAULT 0;`,
+      `ALTER TABLE prayer_settings ADD COLUMN IF NOT EXISTS isha_offset INTEGER DEFAULT 0;`,
+      `ALTER TABLE prayer_times ADD COLUMN IF NOT EXISTS method TEXT NOT NULL DEFAULT 'uzbekistan';`,
+      `ALTER TABLE prayer_times ADD COLUMN IF NOT EXISTS asr_school TEXT NOT NULL DEFAULT 'hanafi';`,
     ];
     
     if (isRailwayDatabase || !isNeonDatabase) {
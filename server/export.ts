@@ -0,0 +1,197 @@
+import * as XLSX from "xlsx";
+import { storage } from "./storage";
+import { getMoneyView } from "./currency";
+import { getUzbekistanDateString } from "./recurring";
+import { parseImportDate, toCsv } from "@shared/csv";
+import { addDays } from "@shared/dates";
+import { GOAL_TYPE_LABELS, type GoalType } from "@shared/goals";
+import type { Expense, Task, Goal } from "@shared/schema";
+
+export const EXPORT_DATASETS = ["expenses", "tasks", "goals"] as const;
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Inclusive Uzbekistan dates, YYYY-MM-DD
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface ExportFile {
+  buffer: Buffer;
+  filename: string;
+  mimeType: string;
+  count: number;
+}
+
+const DATASET_NAMES: Record<ExportDataset, string> = {
+  expenses: "xarajatlar",
+  tasks: "vazifalar",
+  goals: "maqsadlar",
+};
+
+type Sheet = { name: string; rows: (string | number | null)[][] };
+
+function inRange(date: Date, range: DateRange): boolean {
+  const day = getUzbekistanDateString(date);
+  return day >= range.from && day <= range.to;
+}
+
+// "YYYY-MM-DD HH:MM" in Uzbekistan time; the import reads it back as date and time
+function formatDateTime(date: Date): string {
+  return new Date(date.getTime() + 5 * 60 * 60 * 1000).toISOString().slice(0, 16).replace("T", " ");
+}
+
+// Two dates in any format the import understands, e.g. "01.09.2026 - 30.09.2026"
+export function parseDateRange(text: string): DateRange | null {
+  const parts = text.match(/\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./]\d{1,2}[./]\d{2,4}/g);
+  if (!parts || parts.length !== 2) return null;
+  const from = parseImportDate(parts[0])?.date;
+  const to = parseImportDate(parts[1])?.date;
+  return from && to && from <= to ? { from, to } : null;
+}
+
+export type RangePreset = "month" | "prev_month" | "30d" | "year";
+
+export function getPresetRange(preset: RangePreset, today: string = getUzbekistanDateString()): DateRange {
+  const monthStart = `${today.slice(0, 7)}-01`;
+  switch (preset) {
+    case "month":
+      return { from: monthStart, to: today };
+    case "prev_month": {
+      const prevEnd = addDays(monthStart, -1);
+      return { from: `${prevEnd.slice(0, 7)}-01`, to: prevEnd };
+    }
+    case "30d":
+      return { from: addDays(today, -29), to: today };
+    case "year":
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+  }
+}
+
+async function expenseSheets(telegramUserId: string, expenses: Expense[]): Promise<Sheet[]> {
+  const [accounts, money] = await Promise.all([storage.getAccounts(telegramUserId), getMoneyView(telegramUserId)]);
+  const accountName = (id: number | null) => accounts.find(a => a.id === id)?.name ?? null;
+
+  const rows: Sheet["rows"] = [["Sana", "Kategoriya", "Izoh", "Summa", "Valyuta", "Summa (so'm)", "Kurs", "Hisob"]];
+  expenses.forEach(e => {
+    rows.push([
+      formatDateTime(e.createdAt),
+      e.category,
+      e.description,
+      e.originalAmount ?? e.amount,
+      e.currency,
+      e.amount,
+      e.exchangeRate,
+      accountName(e.accountId),
+    ]);
+  });
+
+  const totals = new Map<string, { amount: number; count: number }>();
+  expenses.forEach(e => {
+    const entry = totals.get(e.category) ?? { amount: 0, count: 0 };
+    totals.set(e.category, { amount: entry.amount + e.amount, count: entry.count + 1 });
+  });
+  const total = expenses.reduce((sum, e) => sum + e.amount, 0);
+
+  // Totals are also given in the user's base currency when it isn't so'm
+  const inBase = money.currency !== "UZS";
+  const summary: Sheet["rows"] = [["Kategoriya", "Summa (so'm)", ...(inBase ? [`Summa (${money.currency})`] : []), "Ulush, %", "Soni"]];
+  Array.from(totals)
+    .sort((a, b) => b[1].amount - a[1].amount)
+    .forEach(([category, { amount, count }]) => {
+      summary.push([
+        category,
+        amount,
+        ...(inBase ? [Math.round(money.fromSom(amount) * 100) / 100] : []),
+        total > 0 ? Math.round((amount / total) * 1000) / 10 : 0,
+        count,
+      ]);
+    });
+  summary.push(["Jami", total, ...(inBase ? [Math.round(money.fromSom(total) * 100) / 100] : []), 100, expenses.length]);
+
+  return [
+    { name: "Xarajatlar", rows },
+    { name: "Kategoriyalar", rows: summary },
+  ];
+}
+
+function taskSheets(tasks: Task[]): Sheet[] {
+  const priorities: Record<string, string> = { high: "Yuqori", medium: "O'rta", low: "Past" };
+  const rows: Sheet["rows"] = [["Sana", "Vazifa", "Muhimlik", "Vaqt", "Kategoriya", "Bajarildi"]];
+  tasks.forEach(t => {
+    rows.push([formatDateTime(t.createdAt), t.text, priorities[t.priority] ?? t.priority, t.time, t.category, t.completed ? "Ha" : "Yo'q"]);
+  });
+  return [{ name: "Vazifalar", rows }];
+}
+
+function goalSheets(goals: Goal[]): Sheet[] {
+  const periods: Record<string, string> = { weekly: "Haftalik", monthly: "Oylik", deadline: "Muddatgacha" };
+  const rows: Sheet["rows"] = [["Maqsad", "Turi", "Davr", "Bajarildi", "Reja", "Valyuta", "Foiz", "Boshlanish", "Tugash"]];
+  goals.forEach(g => {
+    rows.push([
+      g.title,
+      GOAL_TYPE_LABELS[g.type as GoalType] ?? g.type,
+      periods[g.period] ?? g.period,
+      g.currentCount,
+      g.targetCount,
+      g.type === "savings" ? g.currency : null,
+      g.targetCount > 0 ? Math.round((g.currentCount / g.targetCount) * 100) : 0,
+      getUzbekistanDateString(g.startDate),
+      g.endDate ? getUzbekistanDateString(g.endDate) : null,
+    ]);
+  });
+  return [{ name: "Maqsadlar", rows }];
+}
+
+function toWorkbook(sheets: Sheet[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(sheet => {
+    const worksheet = XLSX.utils.aoa_to_sheet(sheet.rows);
+    worksheet["!cols"] = sheet.rows[0].map((_, i) => ({
+      wch: Math.min(40, Math.max(8, ...sheet.rows.map(r => String(r[i] ?? "").length + 2))),
+    }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  });
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+// CSV holds only the first sheet, the entries themselves; the summary is XLSX-only
+export async function buildExport(telegramUserId: string, dataset: ExportDataset, format: ExportFormat, range: DateRange): Promise<ExportFile> {
+  let sheets: Sheet[];
+  let count: number;
+
+  if (dataset === "expenses") {
+    const expenses = (await storage.getExpenses(telegramUserId))
+      .filter(e => inRange(e.createdAt, range))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    sheets = await expenseSheets(telegramUserId, expenses);
+    count = expenses.length;
+  } else if (dataset === "tasks") {
+    const tasks = (await storage.getTasks(telegramUserId))
+      .filter(t => inRange(t.createdAt, range))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    sheets = taskSheets(tasks);
+    count = tasks.length;
+  } else {
+    // Goals that were running at any point in the range
+    const goals = (await storage.getGoals(telegramUserId)).filter(g =>
+      getUzbekistanDateString(g.startDate) <= range.to && (!g.endDate || getUzbekistanDateString(g.endDate) >= range.from)
+    );
+    sheets = goalSheets(goals);
+    count = goals.length;
+  }
+
+  const filename = `${DATASET_NAMES[dataset]}_${range.from}_${range.to}.${format}`;
+  if (format === "csv") {
+    return { buffer: Buffer.from(toCsv(sheets[0].rows), "utf-8"), filename, mimeType: "text/csv; charset=utf-8", count };
+  }
+  return {
+    buffer: toWorkbook(sheets),
+    filename,
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    count,
+  };
+}
@@ -0,0 +1,83 @@
+import { storage } from "./storage";
+import type { FocusSession } from "@shared/schema";
+
+export type FocusMode = "focus" | "break";
+
+export const FOCUS_DEFAULT_MINUTES = 25;
+export const BREAK_DEFAULT_MINUTES = 5;
+export const FOCUS_MAX_MINUTES = 180;
+
+function elapsedMinutes(session: FocusSession, until: Date): number {
+  const elapsed = Math.floor((until.getTime() - new Date(session.startedAt).getTime()) / 60000);
+  return Math.max(0, Math.min(session.durationMinutes, elapsed));
+}
+
+// A user runs one timer at a time; starting a new one abandons whatever was running
+export async function startFocusSession(
+  telegramUserId: string,
+  options: { mode?: FocusMode; durationMinutes?: number; taskId?: number | null } = {}
+): Promise<FocusSession> {
+  const current = await storage.getActiveFocusSession(telegramUserId);
+  if (current) {
+    await abandonFocusSession(current);
+  }
+
+  const mode = options.mode ?? "focus";
+  const durationMinutes = options.durationMinutes ?? (mode === "focus" ? FOCUS_DEFAULT_MINUTES : BREAK_DEFAULT_MINUTES);
+  const startedAt = new Date();
+
+  return await storage.createFocusSession({
+    telegramUserId,
+    taskId: options.taskId ?? null,
+    mode,
+    durationMinutes,
+    status: "active",
+    endsAt: new Date(startedAt.getTime() + durationMinutes * 60000),
+  });
+}
+
+export async function completeFocusSession(session: FocusSession): Promise<FocusSession | undefined> {
+  if (session.status !== "active") return session;
+  return await storage.updateFocusSession(session.id, {
+    status: "completed",
+    focusedMinutes: session.mode === "focus" ? session.durationMinutes : 0,
+    endedAt: new Date(),
+  }, session.telegramUserId);
+}
+
+export async function abandonFocusSession(session: FocusSession): Promise<FocusSession | undefined> {
+  if (session.status !== "active") return session;
+  const endedAt = new Date();
+  return await storage.updateFocusSession(session.id, {
+    status: "abandoned",
+    focusedMinutes: session.mode === "focus" ? elapsedMinutes(session, endedAt) : 0,
+    endedAt,
+  }, session.telegramUserId);
+}
+
+// Completes sessions whose time ran out without the client reporting back (closed tab,
+// bot timers). Returns them so the caller can notify the users.
+export async function completeDueFocusSessions(): Promise<FocusSession[]> {
+  const due = await storage.getDueFocusSessions();
+  const completed: FocusSession[] = [];
+
+  for (const session of due) {
+    try {
+      const updated = await completeFocusSession(session);
+      if (updated) completed.push(updated);
+    } catch (error) {
+      console.error(`Failed to complete focus session ${session.id}:`, error);
+    }
+  }
+
+  return completed;
+}
+
+// 135 -> "2 soat 15 daqiqa"
+export function formatFocusDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} daqiqa`;
+  if (rest === 0) return `${hours} soat`;
+  return `${hours} soat ${rest} daqiqa`;
+}
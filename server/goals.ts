@@ -0,0 +1,96 @@
+import { storage } from "./storage";
+import { getUzbekistanDateString } from "./recurring";
+import { getReachedMilestone, getSavingsPlan, type SavingsPlan } from "@shared/goals";
+import { formatMoney, isCurrencyCode } from "@shared/currency";
+import { normalizeApostrophes } from "@shared/uz-parser";
+import type { Expense, Goal, Task } from "@shared/schema";
+
+export function getGoalCurrency(goal: Pick<Goal, "currency">) {
+  return isCurrencyCode(goal.currency) ? goal.currency : "UZS";
+}
+
+export function getGoalSavingsPlan(goal: Goal, today: string = getUzbekistanDateString()): SavingsPlan {
+  return getSavingsPlan({
+    target: goal.targetCount,
+    saved: goal.currentCount,
+    deadline: goal.endDate ? getUzbekistanDateString(goal.endDate) : null,
+  }, today);
+}
+
+// "3/10" for counted goals, "12 000 000 so'm / 30 000 000 so'm" for savings
+export function formatGoalProgress(goal: Goal): string {
+  if (goal.type !== "savings") return `${goal.currentCount}/${goal.targetCount}`;
+  const currency = getGoalCurrency(goal);
+  return `${formatMoney(goal.currentCount, currency)} / ${formatMoney(goal.targetCount, currency)}`;
+}
+
+// The saved amount is always the sum of contributions, so adding or undoing one can't drift it.
+// A milestone lost to a withdrawal is forgotten so it is announced again when regained.
+export async function refreshSavingsGoal(goal: Goal): Promise<Goal> {
+  const contributions = await storage.getGoalContributions(goal.id, goal.telegramUserId);
+  const saved = contributions.reduce((sum, c) => sum + c.amount, 0);
+  const percent = goal.targetCount > 0 ? (saved / goal.targetCount) * 100 : 0;
+  return await storage.updateGoal(goal.id, {
+    currentCount: saved,
+    lastMilestone: Math.min(goal.lastMilestone, getReachedMilestone(percent)),
+  }, goal.telegramUserId);
+}
+
+// A completed task or a logged expense that counts towards a goal
+export interface GoalEvent {
+  id: number;
+  date: Date;
+  label: string;
+}
+
+function normalizeTag(tag: string): string {
+  return normalizeApostrophes(tag).toLowerCase().replace(/^#/, "").trim();
+}
+
+// Whole Uzbekistan days from the goal's start to its end, so a monthly goal ending on
+// the 31st still counts what was done late on the 31st
+function inGoalWindow(goal: Goal, date: Date): boolean {
+  const day = getUzbekistanDateString(date);
+  return day >= getUzbekistanDateString(goal.startDate) && (!goal.endDate || day <= getUzbekistanDateString(goal.endDate));
+}
+
+function taskHasTag(task: Task, tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  if (task.category && normalizeTag(task.category) === wanted) return true;
+  return normalizeApostrophes(task.text).toLowerCase().split(/\s+/).some(word => word.startsWith("#") && normalizeTag(word) === wanted);
+}
+
+// Tasks completed before completion times were kept fall back to their creation time
+export function getGoalEvents(goal: Goal, tasks: Task[], expenses: Expense[]): GoalEvent[] {
+  let events: GoalEvent[] = [];
+  if (goal.type === "tasks") {
+    events = tasks
+      .filter(t => t.completed && (!goal.category || taskHasTag(t, goal.category)))
+      .map(t => ({ id: t.id, date: t.completedAt ?? t.createdAt, label: t.text }));
+  } else if (goal.type === "expenses") {
+    events = expenses
+      .filter(e => !goal.category || e.category === goal.category)
+      .map(e => ({ id: e.id, date: e.createdAt, label: `${e.description} · ${formatMoney(e.originalAmount ?? e.amount, isCurrencyCode(e.currency) ? e.currency : "UZS")}` }));
+  }
+  return events
+    .filter(e => inGoalWindow(goal, e.date))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// Recounts every task and expense goal of the user from their tasks and expenses.
+// Called after anything that adds, completes, edits or removes one.
+export async function refreshGoalProgress(telegramUserId: string): Promise<void> {
+  const goals = (await storage.getGoals(telegramUserId)).filter(g => g.type !== "savings");
+  if (goals.length === 0) return;
+
+  const [tasks, expenses] = await Promise.all([
+    storage.getTasks(telegramUserId),
+    storage.getExpenses(telegramUserId),
+  ]);
+  for (const goal of goals) {
+    const count = getGoalEvents(goal, tasks, expenses).length;
+    if (count !== goal.currentCount) {
+      await storage.updateGoal(goal.id, { currentCount: count }, telegramUserId);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "./recurring";
+import { resolvePrayerReminderTime } from "./prayer";
+import { computeHabitStreak, getHabitStreakUnit, type HabitCheckinStatus, type HabitStreak } from "@shared/habits";
+import { describePrayerReminder, isReminderPrayer } from "@shared/prayer-reminder";
+import type { Habit, HabitCheckin } from "@shared/schema";
+
+export interface HabitWithStreak {
+  habit: Habit;
+  checkins: HabitCheckin[];
+  streak: HabitStreak;
+}
+
+export async function getHabitsWithStreaks(
+  telegramUserId: string,
+  today: string = getUzbekistanDateString()
+): Promise<HabitWithStreak[]> {
+  const [habits, checkins] = await Promise.all([
+    storage.getHabits(telegramUserId),
+    storage.getHabitCheckins(telegramUserId),
+  ]);
+  return habits.map(habit => {
+    const own = checkins.filter(c => c.habitId === habit.id);
+    return { habit, checkins: own, streak: computeHabitStreak(habit, own, today) };
+  });
+}
+
+export function describeHabitReminder(habit: Habit): string | null {
+  if (habit.reminderPrayer && isReminderPrayer(habit.reminderPrayer)) {
+    return describePrayerReminder({ prayer: habit.reminderPrayer, offsetMinutes: habit.reminderPrayerOffset || 0 });
+  }
+  return habit.reminderTime ? `soat ${habit.reminderTime} da` : null;
+}
+
+// When the check-in prompt is due on the given Uzbekistan date, or null without a reminder
+export async function resolveHabitPromptTime(habit: Habit, dateStr: string): Promise<Date | null> {
+  if (habit.reminderPrayer && isReminderPrayer(habit.reminderPrayer)) {
+    return resolvePrayerReminderTime(habit.telegramUserId, {
+      prayer: habit.reminderPrayer,
+      offsetMinutes: habit.reminderPrayerOffset || 0,
+    }, dateStr);
+  }
+  return habit.reminderTime ? uzDateTimeToUTC(dateStr, habit.reminderTime) : null;
+}
+
+// "🔥 12 kun" or "🔥 3 hafta"
+export function formatHabitStreak(habit: Habit, streak: HabitStreak): string {
+  return `🔥 ${streak.current} ${getHabitStreakUnit(habit)}`;
+}
+
+export type HabitCheckinResult =
+  | { ok: true; streak: HabitStreak }
+  | { ok: false; reason: "no_freezes" };
+
+// Checks a habit in for today. A freeze is refused once the month's allowance is used up,
+// unless today was already frozen.
+export async function checkInHabit(habit: Habit, status: HabitCheckinStatus): Promise<HabitCheckinResult> {
+  const today = getUzbekistanDateString();
+  const checkins = await storage.getHabitCheckins(habit.telegramUserId, habit.id);
+  const before = computeHabitStreak(habit, checkins, today);
+  if (status === "freeze" && before.today !== "freeze" && before.freezesLeft === 0) {
+    return { ok: false, reason: "no_freezes" };
+  }
+
+  await storage.setHabitCheckin({ habitId: habit.id, date: today, status, telegramUserId: habit.telegramUserId });
+  const updated = [...checkins.filter(c => c.date !== today), { date: today, status }];
+  return { ok: true, streak: computeHabitStreak(habit, updated, today) };
+}
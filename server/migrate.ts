@@ -17,6 +17,38 @@ export async function runMigrations() {
         telegram_user_id TEXT,
         reminder_time TIMESTAMP,
         reminder_sent BOOLEAN DEFAULT false,
+        reminder_prayer TEXT,
+        reminder_prayer_offset INTEGER,
+        recurring_task_id INTEGER,
+        recurrence_date TEXT,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    // Awaited here rather than left to autoMigrate: materializing recurring tasks inserts
+    // with ON CONFLICT on this index and fails outright without it
+    await db.execute(sql`ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_date TEXT`);
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS tasks_recurrence_date_idx ON tasks (recurring_task_id, recurrence_date)`);
+
+    // Create recurring_tasks table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS recurring_tasks (
+        id SERIAL PRIMARY KEY,
+        text TEXT NOT NULL,
+        priority TEXT NOT NULL DEFAULT 'medium',
+        category TEXT,
+        frequency TEXT NOT NULL DEFAULT 'daily',
+        interval INTEGER DEFAULT 1,
+        days_of_week TEXT,
+        day_of_month INTEGER,
+        time TEXT,
+        reminder_prayer TEXT,
+        reminder_prayer_offset INTEGER,
+        telegram_user_id TEXT,
+        start_date TEXT NOT NULL,
+        end_date TEXT,
+        last_generated_date TEXT,
+        active BOOLEAN NOT NULL DEFAULT true,
         created_at TIMESTAMP DEFAULT NOW()
       )
     `);
@@ -32,6 +64,87 @@ export async function runMigrations() {
         created_at TIMESTAMP DEFAULT NOW()
       )
     `);
+    // Confirming an imported bank SMS relies on this index to insert it only once
+    await db.execute(sql`ALTER TABLE expenses ADD COLUMN IF NOT EXISTS import_hash TEXT`);
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS expenses_import_hash_idx ON expenses (telegram_user_id, import_hash)`);
+
+    // Create incomes table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS incomes (
+        id SERIAL PRIMARY KEY,
+        amount INTEGER NOT NULL,
+        description TEXT NOT NULL,
+        source TEXT NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'UZS',
+        original_amount DOUBLE PRECISION,
+        exchange_rate DOUBLE PRECISION NOT NULL DEFAULT 1,
+        account_id INTEGER,
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`ALTER TABLE incomes ADD COLUMN IF NOT EXISTS import_hash TEXT`);
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS incomes_import_hash_idx ON incomes (telegram_user_id, import_hash)`);
+
+    // Create accounts table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'cash',
+        opening_balance INTEGER NOT NULL DEFAULT 0,
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Create transfers table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS transfers (
+        id SERIAL PRIMARY KEY,
+        from_account_id INTEGER NOT NULL,
+        to_account_id INTEGER NOT NULL,
+        amount INTEGER NOT NULL,
+        note TEXT,
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Create category_rules table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS category_rules (
+        id SERIAL PRIMARY KEY,
+        pattern TEXT,
+        match_type TEXT NOT NULL DEFAULT 'keyword',
+        field TEXT NOT NULL DEFAULT 'any',
+        min_amount INTEGER,
+        max_amount INTEGER,
+        category TEXT NOT NULL,
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Create import_drafts table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS import_drafts (
+        id SERIAL PRIMARY KEY,
+        kind TEXT NOT NULL DEFAULT 'expense',
+        amount INTEGER NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'UZS',
+        original_amount DOUBLE PRECISION,
+        exchange_rate DOUBLE PRECISION NOT NULL DEFAULT 1,
+        merchant TEXT,
+        category TEXT,
+        bank TEXT NOT NULL,
+        card_last4 TEXT,
+        raw_text TEXT NOT NULL,
+        occurred_at TIMESTAMP NOT NULL,
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
 
     // Create expense_categories table
     await db.execute(sql`
@@ -48,9 +161,15 @@ export async function runMigrations() {
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS budget_limits (
         id SERIAL PRIMARY KEY,
-        category TEXT NOT NULL,
+        category TEXT,
         limit_amount INTEGER NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'UZS',
         period TEXT NOT NULL,
+        start_day INTEGER NOT NULL DEFAULT 1,
+        period_days INTEGER,
+        anchor_date TEXT,
+        rollover BOOLEAN NOT NULL DEFAULT false,
+        forecast_alert_period TEXT,
         telegram_user_id TEXT NOT NULL,
         created_at TIMESTAMP DEFAULT NOW()
       )
@@ -65,13 +184,89 @@ export async function runMigrations() {
         current_count INTEGER DEFAULT 0,
         type TEXT NOT NULL,
         period TEXT NOT NULL,
+        category TEXT,
+        currency TEXT NOT NULL DEFAULT 'UZS',
+        last_milestone INTEGER NOT NULL DEFAULT 0,
         telegram_user_id TEXT NOT NULL,
         start_date TIMESTAMP NOT NULL,
-        end_date TIMESTAMP NOT NULL,
+        end_date TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    // Create goal_contributions table (money added to savings goals)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS goal_contributions (
+        id SERIAL PRIMARY KEY,
+        goal_id INTEGER NOT NULL,
+        amount INTEGER NOT NULL,
+        note TEXT,
+        telegram_user_id TEXT NOT NULL,
         created_at TIMESTAMP DEFAULT NOW()
       )
     `);
 
+    // Create habits table (daily/weekly habits with check-in prompts)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS habits (
+        id SERIAL PRIMARY KEY,
+        title TEXT NOT NULL,
+        frequency TEXT NOT NULL DEFAULT 'daily',
+        weekly_target INTEGER NOT NULL DEFAULT 1,
+        reminder_time TEXT,
+        reminder_prayer TEXT,
+        reminder_prayer_offset INTEGER,
+        freezes_per_month INTEGER NOT NULL DEFAULT 2,
+        last_prompt_date TEXT,
+        active BOOLEAN NOT NULL DEFAULT true,
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Create habit_checkins table (one row per habit and day)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS habit_checkins (
+        id SERIAL PRIMARY KEY,
+        habit_id INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'done',
+        telegram_user_id TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (habit_id, date)
+      )
+    `);
+
+    // Create prayer_log table (prayed/qaza per prayer and day)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS prayer_log (
+        id SERIAL PRIMARY KEY,
+        telegram_user_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        prayer TEXT NOT NULL,
+        status TEXT NOT NULL,
+        made_up_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (telegram_user_id, date, prayer)
+      )
+    `);
+
+    // Create promo_campaigns table (admin-managed free access periods)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS promo_campaigns (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        starts_at TIMESTAMP NOT NULL,
+        ends_at TIMESTAMP NOT NULL,
+        features TEXT,
+        audience TEXT NOT NULL DEFAULT 'all',
+        banner_text TEXT,
+        active BOOLEAN NOT NULL DEFAULT true,
+        created_by TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
     // Create user_settings table
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS user_settings (
@@ -95,6 +290,58 @@ export async function runMigrations() {
       )
     `);
 
+    // Create conversation_states table (bot multi-step flows)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS conversation_states (
+        id SERIAL PRIMARY KEY,
+        telegram_user_id TEXT UNIQUE NOT NULL,
+        action TEXT NOT NULL,
+        step TEXT NOT NULL,
+        data JSONB,
+        expires_at TIMESTAMP NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    // Create focus_sessions table (Pomodoro timer)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS focus_sessions (
+        id SERIAL PRIMARY KEY,
+        telegram_user_id TEXT NOT NULL,
+        task_id INTEGER,
+        mode TEXT NOT NULL DEFAULT 'focus',
+        duration_minutes INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        focused_minutes INTEGER,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        ends_at TIMESTAMP NOT NULL,
+        ended_at TIMESTAMP
+      )
+    `);
+
+    // Create exchange_rates table (daily so'm rates for multi-currency expenses)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        id SERIAL PRIMARY KEY,
+        currency TEXT NOT NULL,
+        date TEXT NOT NULL,
+        rate DOUBLE PRECISION NOT NULL,
+        source TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (currency, date)
+      )
+    `);
+
+    // Create session table (web dashboard logins, managed by connect-pg-simple)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS session (
+        sid VARCHAR NOT NULL PRIMARY KEY,
+        sess JSON NOT NULL,
+        expire TIMESTAMP(6) NOT NULL
+      )
+    `);
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_session_expire ON session (expire)`);
+
     console.log("Database migrations completed successfully!");
   } catch (error) {
     console.error("Migration error:", error);
@@ -0,0 +1,25 @@
+import { storage } from "./storage";
+import { getUzbekistanDateString } from "./recurring";
+import { addDays } from "@shared/dates";
+import { getPrayerConsistency, getPrayerLogDays, getQazaSummary, type PrayerLogOverview } from "@shared/prayer-log";
+import type { StatsRange } from "@shared/stats";
+
+// Qaza is counted over the whole log, whatever the range
+export async function getPrayerLogOverview(telegramUserId: string, range: StatsRange): Promise<PrayerLogOverview> {
+  const entries = await storage.getPrayerLog(telegramUserId);
+  const inRange = entries.filter(e => e.date >= range.from && e.date <= range.to);
+  const days = getPrayerLogDays(inRange, range.from, range.to);
+
+  return {
+    range,
+    days,
+    consistency: getPrayerConsistency(days),
+    qaza: getQazaSummary(entries),
+  };
+}
+
+// The last 7 days including today
+export async function getWeekPrayerLog(telegramUserId: string): Promise<PrayerLogOverview> {
+  const today = getUzbekistanDateString();
+  return getPrayerLogOverview(telegramUserId, { from: addDays(today, -6), to: today });
+}
@@ -0,0 +1,132 @@
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { getPrayerTimesRange, getPrayerCalcSettings, UZBEKISTAN_REGIONS, type RegionCode } from "./prayer";
+import { registerFonts } from "./statement";
+import { getUzbekistanDateString } from "./recurring";
+import { PRAYER_METHODS, ASR_SCHOOL_NAMES } from "@shared/prayer-calc";
+import {
+  getHijriDate, getMonthRange, getRamadanRange, getWeekdayShortName, formatTimetableDate,
+  type PrayerTimetable, type RamadanRange,
+} from "@shared/prayer-timetable";
+import type { PrayerSettings } from "@shared/schema";
+
+export function getPrayerPlaceName(settings: PrayerSettings | null | undefined): string {
+  if (settings?.useCustomLocation && settings.latitude && settings.longitude) return "Sizning joylashuvingiz";
+  return UZBEKISTAN_REGIONS[(settings?.regionCode || "namangan") as RegionCode]?.name ?? "Namangan";
+}
+
+export async function getPrayerTimetable(telegramUserId: string, from: string, to: string): Promise<PrayerTimetable | null> {
+  const settings = await storage.getPrayerSettings(telegramUserId);
+  const days = await getPrayerTimesRange(settings, from, to);
+  if (!days) return null;
+
+  return {
+    place: getPrayerPlaceName(settings),
+    from,
+    to,
+    days: days.map(day => {
+      const hijri = getHijriDate(day.date);
+      return hijri.month === 9 ? { ...day, ramadanDay: hijri.day } : day;
+    }),
+  };
+}
+
+// month is YYYY-MM
+export async function getMonthTimetable(telegramUserId: string, month: string): Promise<PrayerTimetable | null> {
+  const { from, to } = getMonthRange(month);
+  return getPrayerTimetable(telegramUserId, from, to);
+}
+
+// The current Ramadan, or the next one once it is over
+export async function getRamadanTimetable(telegramUserId: string): Promise<{ ramadan: RamadanRange; timetable: PrayerTimetable } | null> {
+  const ramadan = getRamadanRange(getUzbekistanDateString());
+  const timetable = await getPrayerTimetable(telegramUserId, ramadan.from, ramadan.to);
+  return timetable ? { ramadan, timetable } : null;
+}
+
+const SAHARLIK_DUA = "Navaytu an asuvma sovma shahri ramazona minal fajri ilal mag'ribi, xolisan lillahi ta'aalaa. Allohu akbar.";
+const IFTORLIK_DUA = "Allohumma laka sumtu va bika aamantu va a'layka tavakkaltu va a'laa rizqika aftartu, fag'firliy yaa G'offaru maa qoddamtu va maa axxortu.";
+
+export function renderImsakiyaPdf(timetable: PrayerTimetable, ramadan: RamadanRange, calcNote: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 36, info: { Title: `Ramazon taqvimi ${ramadan.hijriYear} — ${timetable.place}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const fonts = registerFonts(doc);
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const year = ramadan.from.slice(0, 4);
+
+    doc.fillColor("#111827").font(fonts.bold).fontSize(20).text(`Ramazon taqvimi — ${year}`, left, doc.y, { width, align: "center" });
+    doc.font(fonts.regular).fontSize(12).fillColor("#4b5563")
+      .text(`${timetable.place} · ${ramadan.hijriYear} hijriy yil`, left, doc.y, { width, align: "center" });
+    doc.moveDown(1);
+
+    // Saharlik and iftorlik are the point of an imsakiya, so they get the highlighted columns
+    const columns: Array<{ title: string; width: number; value: (i: number) => string; highlight?: boolean }> = [
+      { title: "Kun", width: 0.07, value: i => String(timetable.days[i].ramadanDay ?? i + 1) },
+      { title: "Sana", width: 0.10, value: i => formatTimetableDate(timetable.days[i].date) },
+      { title: "Hafta", width: 0.09, value: i => getWeekdayShortName(timetable.days[i].date) },
+      { title: "Saharlik", width: 0.13, value: i => timetable.days[i].times.fajr, highlight: true },
+      { title: "Quyosh", width: 0.11, value: i => timetable.days[i].times.sunrise },
+      { title: "Peshin", width: 0.11, value: i => timetable.days[i].times.dhuhr },
+      { title: "Asr", width: 0.11, value: i => timetable.days[i].times.asr },
+      { title: "Iftorlik", width: 0.15, value: i => timetable.days[i].times.maghrib, highlight: true },
+      { title: "Xufton", width: 0.13, value: i => timetable.days[i].times.isha },
+    ];
+    const rowHeight = 19;
+
+    const drawRow = (y: number, cells: string[], options: { header?: boolean; shade?: boolean }) => {
+      if (options.header) doc.rect(left, y, width, rowHeight).fill("#0f766e");
+      else if (options.shade) doc.rect(left, y, width, rowHeight).fill("#f3f4f6");
+      let x = left;
+      columns.forEach((column, c) => {
+        const w = column.width * width;
+        if (column.highlight && !options.header) doc.rect(x, y, w, rowHeight).fill(options.shade ? "#fde68a" : "#fef3c7");
+        doc.font(options.header || column.highlight ? fonts.bold : fonts.regular).fontSize(options.header ? 9 : 10)
+          .fillColor(options.header ? "#ffffff" : "#111827")
+          .text(cells[c], x, y + 5, { width: w, align: "center", lineBreak: false });
+        x += w;
+      });
+    };
+
+    let y = doc.y;
+    drawRow(y, columns.map(c => c.title), { header: true });
+    timetable.days.forEach((day, i) => {
+      y += rowHeight;
+      if (y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        y = doc.page.margins.top;
+        drawRow(y, columns.map(c => c.title), { header: true });
+        y += rowHeight;
+      }
+      drawRow(y, columns.map(c => c.value(i)), { shade: i % 2 === 1 });
+    });
+    doc.y = y + rowHeight + 12;
+
+    if (doc.y + 120 > doc.page.height - doc.page.margins.bottom) doc.addPage();
+    doc.font(fonts.bold).fontSize(11).fillColor("#111827").text("Saharlik (og'iz yopish) duosi", left);
+    doc.font(fonts.regular).fontSize(10).fillColor("#374151").text(SAHARLIK_DUA, left, doc.y, { width });
+    doc.moveDown(0.6);
+    doc.font(fonts.bold).fontSize(11).fillColor("#111827").text("Iftorlik (og'iz ochish) duosi", left);
+    doc.font(fonts.regular).fontSize(10).fillColor("#374151").text(IFTORLIK_DUA, left, doc.y, { width });
+
+    doc.moveDown(1.5).font(fonts.regular).fontSize(8).fillColor("#9ca3af")
+      .text(`${calcNote} · Tayyorlandi: ${getUzbekistanDateString()} · Barakali Vaqt`, left, doc.y, { width, align: "center" });
+
+    doc.end();
+  });
+}
+
+export async function buildImsakiyaPdf(telegramUserId: string): Promise<{ buffer: Buffer; filename: string; ramadan: RamadanRange; timetable: PrayerTimetable } | null> {
+  const result = await getRamadanTimetable(telegramUserId);
+  if (!result) return null;
+
+  const calc = getPrayerCalcSettings(await storage.getPrayerSettings(telegramUserId));
+  const calcNote = `${PRAYER_METHODS[calc.method].name}, Asr: ${ASR_SCHOOL_NAMES[calc.asrSchool]}`;
+  const buffer = await renderImsakiyaPdf(result.timetable, result.ramadan, calcNote);
+  return { buffer, filename: `ramazon_${result.ramadan.from.slice(0, 4)}.pdf`, ...result };
+}
@@ -1,35 +1,58 @@
 import { storage } from "./storage";
+import type { PrayerReminder } from "@shared/prayer-reminder";
+import type { PrayerSettings, PrayerTimes } from "@shared/schema";
+import { addDays } from "@shared/dates";
+import { getUzbekistanDateString } from "./recurring";
+import {
+  applyPrayerOffsets, calculatePrayerTimes, clampPrayerOffset, isAsrSchool, isPrayerMethodId,
+  PRAYER_METHODS, PRAYER_OFFSET_KEYS, UZBEKISTAN_REGIONS, UZBEKISTAN_UTC_OFFSET,
+  type AsrSchool, type RegionCode, type PrayerMethodId, type PrayerOffsets, type PrayerTimesOfDay,
+} from "@shared/prayer-calc";
 
 // In-memory cache for prayer times to reduce database queries
 const prayerTimesCache = new Map<string, {
-  data: any;
+  data: PrayerTimesOfDay;
   expiry: number;
 }>();
 
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
-function getCacheKey(regionCode: string, date: string): string {
-  return `${regionCode}_${date}`;
-}
-
-export const UZBEKISTAN_REGIONS = {
-  toshkent_shahar: { name: "Toshkent shahri", lat: 41.2995, lon: 69.2401 },
-  toshkent_viloyat: { name: "Toshkent viloyati", lat: 41.3167, lon: 69.2500 },
-  namangan: { name: "Namangan", lat: 41.0011, lon: 71.6725 },
-  andijon: { name: "Andijon", lat: 40.7833, lon: 72.3500 },
-  fargona: { name: "Farg'ona", lat: 40.3733, lon: 71.7978 },
-  samarqand: { name: "Samarqand", lat: 39.6542, lon: 66.9597 },
-  buxoro: { name: "Buxoro", lat: 39.7681, lon: 64.4556 },
-  navoiy: { name: "Navoiy", lat: 40.0844, lon: 65.3792 },
-  qashqadaryo: { name: "Qashqadaryo", lat: 38.8500, lon: 65.8000 },
-  surxondaryo: { name: "Surxondaryo", lat: 37.2167, lon: 67.2833 },
-  jizzax: { name: "Jizzax", lat: 40.1167, lon: 67.8333 },
-  sirdaryo: { name: "Sirdaryo", lat: 40.8500, lon: 68.6667 },
-  xorazm: { name: "Xorazm", lat: 41.5500, lon: 60.6333 },
-  qoraqalpogiston: { name: "Qoraqalpog'iston", lat: 42.4611, lon: 59.6033 },
-} as const;
-
-export type RegionCode = keyof typeof UZBEKISTAN_REGIONS;
+// Cached times already have the user's offsets applied, so every setting is part of the key
+function getCacheKey(regionCode: string, date: string, calc: PrayerCalcSettings): string {
+  const offsets = PRAYER_OFFSET_KEYS.map(key => calc.offsets?.[key] ?? 0).join(",");
+  return `${regionCode}_${date}_${calc.method}_${calc.asrSchool}_${offsets}`;
+}
+
+export { UZBEKISTAN_REGIONS, type RegionCode };
+
+export interface PrayerCalcSettings {
+  method: PrayerMethodId;
+  asrSchool: AsrSchool;
+  offsets?: PrayerOffsets; // minutes, applied after calculation
+}
+
+// Muslims of Uzbekistan Board angles with Hanafi Asr, as on namoz-vaqti.uz
+export const DEFAULT_PRAYER_CALC: PrayerCalcSettings = { method: "uzbekistan", asrSchool: "hanafi" };
+
+export function getPrayerCalcSettings(settings?: PrayerSettings | null): PrayerCalcSettings {
+  if (!settings) return DEFAULT_PRAYER_CALC;
+  return {
+    method: isPrayerMethodId(settings.calcMethod) ? settings.calcMethod : DEFAULT_PRAYER_CALC.method,
+    asrSchool: isAsrSchool(settings.asrSchool) ? settings.asrSchool : DEFAULT_PRAYER_CALC.asrSchool,
+    offsets: {
+      fajr: clampPrayerOffset(settings.fajrOffset ?? 0),
+      dhuhr: clampPrayerOffset(settings.dhuhrOffset ?? 0),
+      asr: clampPrayerOffset(settings.asrOffset ?? 0),
+      maghrib: clampPrayerOffset(settings.maghribOffset ?? 0),
+      isha: clampPrayerOffset(settings.ishaOffset ?? 0),
+    },
+  };
+}
+
+// Set PRAYER_TIMES_CROSSCHECK=aladhan to compare each newly calculated day against the
+// Aladhan API and log the prayers that differ by more than a couple of minutes
+const ALADHAN_CROSSCHECK = process.env.PRAYER_TIMES_CROSSCHECK === "aladhan";
+const CROSSCHECK_TOLERANCE_MINUTES = 2;
 
 interface AladhanTimings {
   Fajr: string;
@@ -49,26 +72,33 @@ interface AladhanResponse {
   };
 }
 
+// Aladhan's own method ids; the Uzbekistan angles go through its custom method
+const ALADHAN_METHODS: Record<PrayerMethodId, string> = {
+  uzbekistan: "method=99&methodSettings=15,null,15",
+  mwl: "method=3",
+  egypt: "method=5",
+  isna: "method=2",
+  karachi: "method=1",
+};
+
+const ALADHAN_TUNE_ORDER = ["imsak", "fajr", "sunrise", "dhuhr", "asr", "maghrib", "sunset", "isha", "midnight"] as const;
+
 export async function fetchPrayerTimes(
   lat: number,
   lon: number,
-  date: Date = new Date()
-): Promise<AladhanTimings | null> {
+  dateStr: string,
+  calc: PrayerCalcSettings = DEFAULT_PRAYER_CALC
+): Promise<PrayerTimesOfDay | null> {
   try {
-    const day = date.getDate();
-    const month = date.getMonth() + 1;
-    const year = date.getFullYear();
-    
-    // Use method=99 (Custom) with Fajr 15°, Isha 15° to match O'zbekiston Musulmonlar Idorasi
-    // school=1 = Hanafi Asr calculation (shadow length 2x)
-    // tune adjustments to match namoz-vaqti.uz official times:
-    //   Imsak=0, Fajr=-3, Sunrise=0, Dhuhr=0, Asr=+1, Maghrib=+3, Sunset=0, Isha=+3, Midnight=0
+    const [year, month, day] = dateStr.split("-");
+    const adjustments = PRAYER_METHODS[calc.method].adjustments as Record<string, number | undefined>;
+    const tune = ALADHAN_TUNE_ORDER.map(key => adjustments[key] ?? 0).join(",");
     const url = `https://api.aladhan.com/v1/timings/${day}-${month}-${year}?` +
       `latitude=${lat}&longitude=${lon}` +
-      `&method=99` +
-      `&methodSettings=15,null,15` +
-      `&school=1` +
-      `&tune=0,-3,0,0,1,3,0,3,0`;
+      `&${ALADHAN_METHODS[calc.method]}` +
+      `&school=${calc.asrSchool === "hanafi" ? 1 : 0}` +
+      `&latitudeAdjustmentMethod=3` +
+      `&tune=${tune}`;
     
     const response = await fetch(url);
     if (!response.ok) {
@@ -76,25 +106,75 @@ export async function fetchPrayerTimes(
       return null;
     }
     
-    const data: AladhanResponse = await response.json();
-    return data.data.timings;
+    const { data }: AladhanResponse = await response.json();
+    return {
+      fajr: data.timings.Fajr,
+      sunrise: data.timings.Sunrise,
+      dhuhr: data.timings.Dhuhr,
+      asr: data.timings.Asr,
+      sunset: data.timings.Sunset,
+      maghrib: data.timings.Maghrib,
+      isha: data.timings.Isha,
+    };
   } catch (error) {
     console.error("Error fetching prayer times:", error);
     return null;
   }
 }
 
-export async function getPrayerTimesForRegion(regionCode: string, date: Date = new Date()): Promise<{
-  fajr: string;
-  sunrise: string;
-  dhuhr: string;
-  asr: string;
-  sunset: string;
-  maghrib: string;
-  isha: string;
-} | null> {
-  const dateStr = date.toISOString().split("T")[0];
-  const cacheKey = getCacheKey(regionCode, dateStr);
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(" ")[0].split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+async function crossCheckWithAladhan(lat: number, lon: number, dateStr: string, calc: PrayerCalcSettings, times: PrayerTimesOfDay) {
+  const reference = await fetchPrayerTimes(lat, lon, dateStr, calc);
+  if (!reference) return;
+
+  const differences = (Object.keys(times) as (keyof PrayerTimesOfDay)[])
+    .filter(key => Math.abs(toMinutes(times[key]) - toMinutes(reference[key])) > CROSSCHECK_TOLERANCE_MINUTES)
+    .map(key => `${key} ${times[key]} vs ${reference[key].split(" ")[0]}`);
+  if (differences.length > 0) {
+    console.warn(`Prayer times differ from Aladhan at ${lat},${lon} on ${dateStr}: ${differences.join(", ")}`);
+  }
+}
+
+// Calculated locally, so prayer times don't depend on any outside service. Offsets are
+// left to the caller, so the result can be cached and cross-checked as is
+export function calculateTimesFor(lat: number, lon: number, dateStr: string, calc: PrayerCalcSettings = DEFAULT_PRAYER_CALC): PrayerTimesOfDay {
+  const times = calculatePrayerTimes({
+    latitude: lat,
+    longitude: lon,
+    date: dateStr,
+    utcOffset: UZBEKISTAN_UTC_OFFSET,
+    method: calc.method,
+    asrSchool: calc.asrSchool,
+  });
+  if (ALADHAN_CROSSCHECK) {
+    crossCheckWithAladhan(lat, lon, dateStr, calc, times).catch(error => console.error("Aladhan cross-check failed:", error));
+  }
+  return times;
+}
+
+function toTimesOfDay(row: PrayerTimes): PrayerTimesOfDay {
+  return {
+    fajr: row.fajr,
+    sunrise: row.sunrise,
+    dhuhr: row.dhuhr,
+    asr: row.asr,
+    sunset: row.sunset,
+    maghrib: row.maghrib,
+    isha: row.isha,
+  };
+}
+
+export async function getPrayerTimesForRegion(
+  regionCode: string,
+  date: Date = new Date(),
+  calc: PrayerCalcSettings = DEFAULT_PRAYER_CALC
+): Promise<PrayerTimesOfDay | null> {
+  const dateStr = getUzbekistanDateString(date);
+  const cacheKey = getCacheKey(regionCode, dateStr, calc);
   
   // Check in-memory cache first
   const memCached = prayerTimesCache.get(cacheKey);
@@ -102,17 +182,9 @@ export async function getPrayerTimesForRegion(regionCode: string, date: Date = n
     return memCached.data;
   }
   
-  const cached = await storage.getPrayerTimes(regionCode, dateStr);
+  const cached = await storage.getPrayerTimes(regionCode, dateStr, calc.method, calc.asrSchool);
   if (cached) {
-    const result = {
-      fajr: cached.fajr,
-      sunrise: cached.sunrise,
-      dhuhr: cached.dhuhr,
-      asr: cached.asr,
-      sunset: cached.sunset,
-      maghrib: cached.maghrib,
-      isha: cached.isha,
-    };
+    const result = applyPrayerOffsets(toTimesOfDay(cached), calc.offsets ?? {});
     // Store in memory cache
     prayerTimesCache.set(cacheKey, { data: result, expiry: Date.now() + CACHE_TTL });
     return result;
@@ -121,66 +193,111 @@ export async function getPrayerTimesForRegion(regionCode: string, date: Date = n
   const region = UZBEKISTAN_REGIONS[regionCode as RegionCode];
   if (!region) return null;
   
-  const timings = await fetchPrayerTimes(region.lat, region.lon, date);
-  if (!timings) return null;
-  
-  await storage.savePrayerTimes({
-    regionCode,
-    date: dateStr,
-    fajr: timings.Fajr,
-    sunrise: timings.Sunrise,
-    dhuhr: timings.Dhuhr,
-    asr: timings.Asr,
-    sunset: timings.Sunset,
-    maghrib: timings.Maghrib,
-    isha: timings.Isha,
-  });
+  const calculated = calculateTimesFor(region.lat, region.lon, dateStr, calc);
+  await storage.savePrayerTimes({ regionCode, date: dateStr, method: calc.method, asrSchool: calc.asrSchool, ...calculated });
+  const times = applyPrayerOffsets(calculated, calc.offsets ?? {});
+  prayerTimesCache.set(cacheKey, { data: times, expiry: Date.now() + CACHE_TTL });
   
-  return {
-    fajr: timings.Fajr,
-    sunrise: timings.Sunrise,
-    dhuhr: timings.Dhuhr,
-    asr: timings.Asr,
-    sunset: timings.Sunset,
-    maghrib: timings.Maghrib,
-    isha: timings.Isha,
-  };
+  return times;
 }
 
-export async function getPrayerTimesForLocation(lat: number, lon: number, date: Date = new Date()): Promise<{
-  fajr: string;
-  sunrise: string;
-  dhuhr: string;
-  asr: string;
-  sunset: string;
-  maghrib: string;
-  isha: string;
-} | null> {
-  const timings = await fetchPrayerTimes(lat, lon, date);
-  if (!timings) return null;
-  
-  return {
-    fajr: timings.Fajr,
-    sunrise: timings.Sunrise,
-    dhuhr: timings.Dhuhr,
-    asr: timings.Asr,
-    sunset: timings.Sunset,
-    maghrib: timings.Maghrib,
-    isha: timings.Isha,
-  };
+export async function getPrayerTimesForLocation(
+  lat: number,
+  lon: number,
+  date: Date = new Date(),
+  calc: PrayerCalcSettings = DEFAULT_PRAYER_CALC
+): Promise<PrayerTimesOfDay | null> {
+  const times = calculateTimesFor(lat, lon, getUzbekistanDateString(date), calc);
+  return applyPrayerOffsets(times, calc.offsets ?? {});
+}
+
+// The user's own location when they shared one, otherwise their region, with their method, school and offsets
+export async function getPrayerTimesForSettings(settings: PrayerSettings | null | undefined, date: Date = new Date()) {
+  const calc = getPrayerCalcSettings(settings);
+  if (settings?.useCustomLocation && settings.latitude && settings.longitude) {
+    return getPrayerTimesForLocation(parseFloat(settings.latitude), parseFloat(settings.longitude), date, calc);
+  }
+  return getPrayerTimesForRegion(settings?.regionCode || "namangan", date, calc);
+}
+
+// A shared location is cached like a region, under its coordinates rounded to about a kilometre
+function getLocationCacheCode(lat: number, lon: number): string {
+  return `location_${lat.toFixed(2)}_${lon.toFixed(2)}`;
+}
+
+// Every day from `from` to `to` (inclusive) out of the prayer_times table; days not there
+// yet are calculated and saved, so a month or Ramadan is calculated once per place
+export async function getPrayerTimesRange(
+  settings: PrayerSettings | null | undefined,
+  from: string,
+  to: string
+): Promise<Array<{ date: string; times: PrayerTimesOfDay }> | null> {
+  const calc = getPrayerCalcSettings(settings);
+  let place: { code: string; lat: number; lon: number };
+  if (settings?.useCustomLocation && settings.latitude && settings.longitude) {
+    const lat = parseFloat(settings.latitude);
+    const lon = parseFloat(settings.longitude);
+    place = { code: getLocationCacheCode(lat, lon), lat, lon };
+  } else {
+    const code = settings?.regionCode || "namangan";
+    const region = UZBEKISTAN_REGIONS[code as RegionCode];
+    if (!region) return null;
+    place = { code, lat: region.lat, lon: region.lon };
+  }
+
+  const rows = await storage.getPrayerTimesRange(place.code, from, to, calc.method, calc.asrSchool);
+  const cached = new Map(rows.map(row => [row.date, toTimesOfDay(row)]));
+
+  const days: Array<{ date: string; times: PrayerTimesOfDay }> = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    let times = cached.get(date);
+    if (!times) {
+      times = calculateTimesFor(place.lat, place.lon, date, calc);
+      await storage.savePrayerTimes({ regionCode: place.code, date, method: calc.method, asrSchool: calc.asrSchool, ...times });
+    }
+    days.push({ date, times: applyPrayerOffsets(times, calc.offsets ?? {}) });
+  }
+  return days;
+}
+
+export async function getPrayerTimesForUser(telegramUserId: string, date: Date = new Date()) {
+  return getPrayerTimesForSettings(await storage.getPrayerSettings(telegramUserId), date);
+}
+
+const UZ_TIMEZONE_OFFSET = 5 * 60 * 60 * 1000;
+
+// Resolves a prayer-anchored reminder to a UTC instant on the given Uzbekistan date (YYYY-MM-DD)
+export async function resolvePrayerReminderTime(
+  telegramUserId: string,
+  reminder: PrayerReminder,
+  dateStr: string
+): Promise<Date | null> {
+  // Midday UTC keeps the calendar date the same whatever the server timezone is
+  const times = await getPrayerTimesForUser(telegramUserId, new Date(`${dateStr}T12:00:00Z`));
+  if (!times) return null;
+
+  const [hours, minutes] = times[reminder.prayer].split(" ")[0].split(":").map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return null;
+
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const prayerUtc = Date.UTC(year, month - 1, day, hours, minutes) - UZ_TIMEZONE_OFFSET;
+  return new Date(prayerUtc + reminder.offsetMinutes * 60 * 1000);
+}
+
+// Picks today's occurrence, or tomorrow's if today's has already passed
+export async function resolveNextPrayerReminderTime(telegramUserId: string, reminder: PrayerReminder): Promise<Date | null> {
+  const now = new Date();
+  const today = new Date(now.getTime() + UZ_TIMEZONE_OFFSET).toISOString().split("T")[0];
+  const todayTime = await resolvePrayerReminderTime(telegramUserId, reminder, today);
+  if (todayTime && todayTime > now) return todayTime;
+
+  const tomorrow = new Date(now.getTime() + UZ_TIMEZONE_OFFSET + 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  return resolvePrayerReminderTime(telegramUserId, reminder, tomorrow);
 }
 
 export function formatPrayerTimesMessage(
   regionName: string,
-  times: {
-    fajr: string;
-    sunrise: string;
-    dhuhr: string;
-    asr: string;
-    sunset: string;
-    maghrib: string;
-    isha: string;
-  },
+  times: PrayerTimesOfDay,
   advanceMinutes: number = 10
 ): string {
   const formatTime = (time: string) => time.split(" ")[0];
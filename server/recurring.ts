@@ -0,0 +1,73 @@
+import { storage } from "./storage";
+import { resolvePrayerReminderTime } from "./prayer";
+import { getUzbekistanDateString, occursOn, uzDateTimeToUTC } from "@shared/recurrence";
+import { isReminderPrayer } from "@shared/prayer-reminder";
+import type { RecurringTask, InsertRecurringTask, Task } from "@shared/schema";
+
+export { getUzbekistanDateString, uzDateTimeToUTC };
+
+async function createInstance(rule: RecurringTask, dateStr: string): Promise<Task | null> {
+  let candidate: Date | null = null;
+  if (rule.reminderPrayer && isReminderPrayer(rule.reminderPrayer) && rule.telegramUserId) {
+    // Prayer times shift every day, so the anchor is resolved against this date's timetable
+    candidate = await resolvePrayerReminderTime(
+      rule.telegramUserId,
+      { prayer: rule.reminderPrayer, offsetMinutes: rule.reminderPrayerOffset || 0 },
+      dateStr
+    );
+  } else if (rule.time) {
+    candidate = uzDateTimeToUTC(dateStr, rule.time);
+  }
+
+  // Don't fire a reminder for a time that already passed when the instance is created
+  const reminderTime = candidate && candidate > new Date() ? candidate : null;
+
+  const task = await storage.createRecurringTaskInstance({
+    text: rule.text,
+    completed: false,
+    priority: rule.priority,
+    category: rule.category,
+    time: rule.time,
+    telegramUserId: rule.telegramUserId,
+    reminderTime,
+    reminderSent: false,
+    reminderPrayer: rule.reminderPrayer,
+    reminderPrayerOffset: rule.reminderPrayerOffset,
+    recurringTaskId: rule.id,
+    recurrenceDate: dateStr,
+  });
+
+  await storage.updateRecurringTask(rule.id, { lastGeneratedDate: dateStr }, rule.telegramUserId || undefined);
+  return task ?? null;
+}
+
+export async function materializeRecurringTask(rule: RecurringTask, dateStr: string = getUzbekistanDateString()): Promise<Task | null> {
+  if (!rule.active) return null;
+  if (rule.lastGeneratedDate && rule.lastGeneratedDate >= dateStr) return null;
+  if (!occursOn(rule, dateStr)) return null;
+  return await createInstance(rule, dateStr);
+}
+
+export async function materializeRecurringTasks(): Promise<number> {
+  const today = getUzbekistanDateString();
+  const rules = await storage.getAllActiveRecurringTasks();
+  let created = 0;
+
+  for (const rule of rules) {
+    try {
+      const task = await materializeRecurringTask(rule, today);
+      if (task) created++;
+    } catch (error) {
+      console.error(`Failed to materialize recurring task ${rule.id}:`, error);
+    }
+  }
+
+  return created;
+}
+
+// Saves a new recurring definition and immediately creates today's instance if it applies
+export async function createRecurringTaskWithInstance(data: InsertRecurringTask): Promise<{ recurringTask: RecurringTask; task: Task | null }> {
+  const recurringTask = await storage.createRecurringTask(data);
+  const task = await materializeRecurringTask(recurringTask);
+  return { recurringTask, task };
+}
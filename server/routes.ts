@@ -1,9 +1,115 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertTaskSchema, insertExpenseSchema, insertExpenseCategorySchema } from "@shared/schema";
+import { insertTaskSchema, insertRecurringTaskSchema, insertExpenseSchema, insertExpenseCategorySchema, insertIncomeSchema, insertAccountSchema, insertCategoryRuleSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
+import { z } from "zod";
 import { handlePaymeRequest } from "./payme";
+import { createRecurringTaskWithInstance } from "./recurring";
+import { setupAuth, requireAuth, getSessionUserId } from "./auth";
+import { resolveStatsRange, getStatsOverview, getTaskStats, getExpenseStats, getGoalStats, getFocusStats, getHabitStats } from "./stats";
+import { convertToSom, getExchangeRate, getUserCurrency, setUserCurrency } from "./currency";
+import { CURRENCY_CODES, isCurrencyCode } from "@shared/currency";
+import { ACCOUNT_TYPE_IDS } from "@shared/accounts";
+import { MAX_RULE_PATTERN_LENGTH, RULE_FIELDS, RULE_MATCH_TYPES, learnRuleSuggestions } from "@shared/category-rules";
+import { suggestCategory } from "./categorize";
+import { getAccountsWithBalances, transferBetweenAccounts } from "./accounts";
+import { startFocusSession, completeFocusSession, abandonFocusSession, FOCUS_MAX_MINUTES } from "./focus";
+import { buildExport, EXPORT_DATASETS, EXPORT_FORMATS } from "./export";
+import { previewExpenseImport, applyExpenseImport } from "./csv-import";
+import { buildStatementPdf } from "./statement";
+import { refreshGoalProgress } from "./goals";
+import { getPrayerLogOverview } from "./prayer-log";
+import { buildImsakiyaPdf, getMonthTimetable, getRamadanTimetable } from "./prayer-timetable";
+import { PRAYER_LOG_STATUSES } from "@shared/prayer-log";
+import { REMINDER_PRAYERS } from "@shared/prayer-reminder";
+import { isStatsDate } from "@shared/stats";
+
+// The web form sends the amount in the chosen currency; the server snapshots the rate
+const createExpenseSchema = insertExpenseSchema.omit({
+  telegramUserId: true,
+  originalAmount: true,
+  exchangeRate: true,
+}).extend({
+  amount: z.number().positive(),
+  currency: z.enum(CURRENCY_CODES).optional(),
+});
+
+const createIncomeSchema = insertIncomeSchema.omit({
+  telegramUserId: true,
+  originalAmount: true,
+  exchangeRate: true,
+}).extend({
+  amount: z.number().positive(),
+  currency: z.enum(CURRENCY_CODES).optional(),
+});
+
+// Opening balances may be typed in another currency like expenses; stored in so'm
+const createAccountSchema = insertAccountSchema.omit({
+  telegramUserId: true,
+}).extend({
+  name: z.string().trim().min(1).max(40),
+  type: z.enum(ACCOUNT_TYPE_IDS),
+  openingBalance: z.number().min(0).optional(),
+  currency: z.enum(CURRENCY_CODES).optional(),
+});
+
+const createTransferSchema = z.object({
+  fromAccountId: z.number().int(),
+  toAccountId: z.number().int(),
+  amount: z.number().positive(),
+  currency: z.enum(CURRENCY_CODES).optional(),
+  note: z.string().max(200).nullable().optional(),
+});
+
+const createCategoryRuleSchema = insertCategoryRuleSchema.omit({
+  telegramUserId: true,
+}).extend({
+  pattern: z.string().trim().min(1).max(MAX_RULE_PATTERN_LENGTH).nullable().optional(),
+  matchType: z.enum(RULE_MATCH_TYPES),
+  field: z.enum(RULE_FIELDS).optional(),
+  minAmount: z.number().int().min(0).nullable().optional(),
+  maxAmount: z.number().int().min(0).nullable().optional(),
+  category: z.string().trim().min(1),
+}).refine(rule => rule.pattern || rule.minAmount != null || rule.maxAmount != null, {
+  message: "A rule needs a pattern or an amount range",
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const exportQuerySchema = z.object({
+  dataset: z.enum(EXPORT_DATASETS),
+  format: z.enum(EXPORT_FORMATS),
+  from: isoDate,
+  to: isoDate,
+}).refine(query => query.from <= query.to, { message: "from must not be after to" });
+
+// Column indexes per field, sent as JSON in the query string next to the raw CSV body
+const columnIndex = z.number().int().min(0).optional();
+const columnMappingSchema = z.object({
+  date: columnIndex,
+  amount: columnIndex,
+  description: columnIndex,
+  category: columnIndex,
+  currency: columnIndex,
+});
+
+const startFocusSessionSchema = z.object({
+  mode: z.enum(["focus", "break"]).optional(),
+  durationMinutes: z.number().int().min(1).max(FOCUS_MAX_MINUTES).optional(),
+  taskId: z.number().int().nullable().optional(),
+});
+
+// A null status clears the mark
+const setPrayerLogSchema = z.object({
+  date: z.string().refine(isStatsDate, "Invalid date"),
+  prayer: z.enum(REMINDER_PRAYERS),
+  status: z.enum(PRAYER_LOG_STATUSES).nullable(),
+});
+
+const makeUpQazaSchema = z.object({
+  prayer: z.enum(REMINDER_PRAYERS),
+});
 
 export async function registerRoutes(
   httpServer: Server,
@@ -73,10 +179,16 @@ export async function registerRoutes(
     }
   });
 
+  // Dashboard login; every /api route below belongs to the signed-in Telegram user
+  setupAuth(app);
+  for (const path of ["/api/tasks", "/api/recurring-tasks", "/api/expenses", "/api/expense-categories", "/api/stats", "/api/focus-sessions", "/api/prayer-log", "/api/prayer-times", "/api/currency", "/api/incomes", "/api/accounts", "/api/transfers", "/api/category-rules", "/api/export", "/api/import", "/api/statement"]) {
+    app.use(path, requireAuth);
+  }
+
   // Task routes
   app.get("/api/tasks", async (req, res) => {
     try {
-      const tasks = await storage.getTasks();
+      const tasks = await storage.getTasks(getSessionUserId(req));
       res.json(tasks);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch tasks" });
@@ -89,7 +201,8 @@ export async function registerRoutes(
       if (!result.success) {
         return res.status(400).json({ error: fromZodError(result.error).message });
       }
-      const task = await storage.createTask(result.data);
+      const task = await storage.createTask({ ...result.data, telegramUserId: getSessionUserId(req) });
+      await refreshGoalProgress(getSessionUserId(req));
       res.json(task);
     } catch (error) {
       res.status(500).json({ error: "Failed to create task" });
@@ -103,7 +216,12 @@ export async function registerRoutes(
       if (!result.success) {
         return res.status(400).json({ error: fromZodError(result.error).message });
       }
-      const task = await storage.updateTask(id, result.data);
+      const { telegramUserId: _owner, ...updates } = result.data;
+      const task = await storage.updateTask(id, updates, getSessionUserId(req));
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      await refreshGoalProgress(getSessionUserId(req));
       res.json(task);
     } catch (error) {
       res.status(500).json({ error: "Failed to update task" });
@@ -113,17 +231,51 @@ export async function registerRoutes(
   app.delete("/api/tasks/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteTask(id);
+      await storage.deleteTask(id, getSessionUserId(req));
+      await refreshGoalProgress(getSessionUserId(req));
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete task" });
     }
   });
 
+  // Recurring task routes
+  app.get("/api/recurring-tasks", async (req, res) => {
+    try {
+      const recurringTasks = await storage.getRecurringTasks(getSessionUserId(req));
+      res.json(recurringTasks);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recurring tasks" });
+    }
+  });
+
+  app.post("/api/recurring-tasks", async (req, res) => {
+    try {
+      const result = insertRecurringTaskSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const created = await createRecurringTaskWithInstance({ ...result.data, telegramUserId: getSessionUserId(req) });
+      res.json(created);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create recurring task" });
+    }
+  });
+
+  app.delete("/api/recurring-tasks/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteRecurringTask(id, getSessionUserId(req));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete recurring task" });
+    }
+  });
+
   // Expense routes
   app.get("/api/expenses", async (req, res) => {
     try {
-      const expenses = await storage.getExpenses();
+      const expenses = await storage.getExpenses(getSessionUserId(req));
       res.json(expenses);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch expenses" });
@@ -132,31 +284,335 @@ export async function registerRoutes(
 
   app.post("/api/expenses", async (req, res) => {
     try {
-      const result = insertExpenseSchema.safeParse(req.body);
+      const result = createExpenseSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: fromZodError(result.error).message });
       }
-      const expense = await storage.createExpense(result.data);
+      const telegramUserId = getSessionUserId(req);
+      if (result.data.accountId && !await storage.getAccount(result.data.accountId, telegramUserId)) {
+        return res.status(400).json({ error: "Account not found" });
+      }
+      const currency = result.data.currency ?? await getUserCurrency(telegramUserId);
+      const converted = await convertToSom(result.data.amount, currency, result.data.createdAt);
+      if (!converted) {
+        return res.status(400).json({ error: `Exchange rate for ${currency} is not available` });
+      }
+      const expense = await storage.createExpense({ ...result.data, ...converted, telegramUserId });
+      await refreshGoalProgress(telegramUserId);
       res.json(expense);
     } catch (error) {
       res.status(500).json({ error: "Failed to create expense" });
     }
   });
 
+  // Base currency and today's rates (so'm per unit), for totals shown in the dashboard
+  app.get("/api/currency", async (req, res) => {
+    try {
+      const currency = await getUserCurrency(getSessionUserId(req));
+      const rates: Record<string, number | null> = {};
+      for (const code of CURRENCY_CODES) {
+        rates[code] = await getExchangeRate(code);
+      }
+      res.json({ currency, rates });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch currency settings" });
+    }
+  });
+
+  app.patch("/api/currency", async (req, res) => {
+    try {
+      const result = z.object({ currency: z.enum(CURRENCY_CODES) }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      await setUserCurrency(getSessionUserId(req), result.data.currency);
+      res.json({ currency: result.data.currency });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update currency" });
+    }
+  });
+
   app.delete("/api/expenses/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteExpense(id);
+      await storage.deleteExpense(id, getSessionUserId(req));
+      await refreshGoalProgress(getSessionUserId(req));
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete expense" });
     }
   });
 
+  // Income routes
+  app.get("/api/incomes", async (req, res) => {
+    try {
+      const incomes = await storage.getIncomes(getSessionUserId(req));
+      res.json(incomes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch incomes" });
+    }
+  });
+
+  app.post("/api/incomes", async (req, res) => {
+    try {
+      const result = createIncomeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const telegramUserId = getSessionUserId(req);
+      if (result.data.accountId && !await storage.getAccount(result.data.accountId, telegramUserId)) {
+        return res.status(400).json({ error: "Account not found" });
+      }
+      const currency = result.data.currency ?? await getUserCurrency(telegramUserId);
+      const converted = await convertToSom(result.data.amount, currency, result.data.createdAt);
+      if (!converted) {
+        return res.status(400).json({ error: `Exchange rate for ${currency} is not available` });
+      }
+      const income = await storage.createIncome({ ...result.data, ...converted, telegramUserId });
+      res.json(income);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create income" });
+    }
+  });
+
+  app.delete("/api/incomes/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteIncome(id, getSessionUserId(req));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete income" });
+    }
+  });
+
+  // Account routes; balances are derived from the entries and transfers on each account
+  app.get("/api/accounts", async (req, res) => {
+    try {
+      const accounts = await getAccountsWithBalances(getSessionUserId(req));
+      res.json(accounts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", async (req, res) => {
+    try {
+      const result = createAccountSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const telegramUserId = getSessionUserId(req);
+      const { currency: inputCurrency, openingBalance = 0, ...account } = result.data;
+      const currency = inputCurrency ?? await getUserCurrency(telegramUserId);
+      const converted = await convertToSom(openingBalance, currency);
+      if (!converted) {
+        return res.status(400).json({ error: `Exchange rate for ${currency} is not available` });
+      }
+      const created = await storage.createAccount({ ...account, openingBalance: converted.amount, telegramUserId });
+      res.json({ ...created, balance: created.openingBalance });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.patch("/api/accounts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const result = insertAccountSchema.pick({ name: true, openingBalance: true }).partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const updated = await storage.updateAccount(id, result.data, getSessionUserId(req));
+      if (!updated) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update account" });
+    }
+  });
+
+  app.delete("/api/accounts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteAccount(id, getSessionUserId(req));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete account" });
+    }
+  });
+
+  app.get("/api/transfers", async (req, res) => {
+    try {
+      const transfers = await storage.getTransfers(getSessionUserId(req));
+      res.json(transfers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch transfers" });
+    }
+  });
+
+  app.post("/api/transfers", async (req, res) => {
+    try {
+      const result = createTransferSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const telegramUserId = getSessionUserId(req);
+      const { fromAccountId, toAccountId, amount, note } = result.data;
+      const currency = result.data.currency ?? await getUserCurrency(telegramUserId);
+      const converted = await convertToSom(amount, currency);
+      if (!converted) {
+        return res.status(400).json({ error: `Exchange rate for ${currency} is not available` });
+      }
+      const transfer = await transferBetweenAccounts(telegramUserId, fromAccountId, toAccountId, converted.amount, note);
+      if (!transfer) {
+        return res.status(400).json({ error: "Transfer needs two different accounts of yours" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create transfer" });
+    }
+  });
+
+  app.delete("/api/transfers/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteTransfer(id, getSessionUserId(req));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete transfer" });
+    }
+  });
+
+  // Categorisation rules
+  app.get("/api/category-rules", async (req, res) => {
+    try {
+      const rules = await storage.getCategoryRules(getSessionUserId(req));
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch category rules" });
+    }
+  });
+
+  // Rules the user's history suggests (the same word always filed under one category)
+  app.get("/api/category-rules/suggestions", async (req, res) => {
+    try {
+      const telegramUserId = getSessionUserId(req);
+      const [rules, expenses] = await Promise.all([
+        storage.getCategoryRules(telegramUserId),
+        storage.getExpenses(telegramUserId),
+      ]);
+      res.json(learnRuleSuggestions(expenses, rules));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch rule suggestions" });
+    }
+  });
+
+  // The category a new expense would get: from a rule, or learned from history
+  app.get("/api/category-rules/match", async (req, res) => {
+    try {
+      const telegramUserId = getSessionUserId(req);
+      const description = String(req.query.description ?? "");
+      const currency = isCurrencyCode(req.query.currency) ? req.query.currency : await getUserCurrency(telegramUserId);
+      const converted = await convertToSom(Number(req.query.amount) || 0, currency);
+      const categories = (await storage.getExpenseCategories(telegramUserId)).map(c => c.name);
+      const suggestion = await suggestCategory(telegramUserId, { description, amount: converted?.amount ?? 0 }, categories);
+      res.json(suggestion ? { category: suggestion.category, source: suggestion.source } : null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to match category" });
+    }
+  });
+
+  app.post("/api/category-rules", async (req, res) => {
+    try {
+      const result = createCategoryRuleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const rule = await storage.createCategoryRule({ ...result.data, telegramUserId: getSessionUserId(req) });
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create category rule" });
+    }
+  });
+
+  app.delete("/api/category-rules/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteCategoryRule(id, getSessionUserId(req));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete category rule" });
+    }
+  });
+
+  // Spreadsheet exports for any date range
+  app.get("/api/export", async (req, res) => {
+    try {
+      const result = exportQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const { dataset, format, from, to } = result.data;
+      const file = await buildExport(getSessionUserId(req), dataset, format, { from, to });
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.buffer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to build export" });
+    }
+  });
+
+  // Monthly PDF statement, e.g. /api/statement?month=2026-09
+  app.get("/api/statement", async (req, res) => {
+    try {
+      const month = String(req.query.month ?? "");
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return res.status(400).json({ error: "month must be YYYY-MM" });
+      }
+      const { buffer, filename } = await buildStatementPdf(getSessionUserId(req), month);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to build statement" });
+    }
+  });
+
+  // CSV import; with dryRun=true nothing is written and the marked rows come back for review
+  app.post("/api/import/expenses", express.text({ type: ["text/csv", "text/plain"], limit: "2mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ error: "CSV body is required" });
+      }
+      let mapping: z.infer<typeof columnMappingSchema> | undefined;
+      if (typeof req.query.mapping === "string") {
+        const result = columnMappingSchema.safeParse(JSON.parse(req.query.mapping));
+        if (!result.success) {
+          return res.status(400).json({ error: fromZodError(result.error).message });
+        }
+        mapping = result.data;
+      }
+
+      const telegramUserId = getSessionUserId(req);
+      const preview = await previewExpenseImport(telegramUserId, req.body, mapping);
+      if (req.query.dryRun === "true") {
+        return res.json(preview);
+      }
+      const imported = await applyExpenseImport(telegramUserId, preview);
+      res.json({ ...preview.counts, ...imported });
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ error: "Invalid column mapping" });
+      }
+      res.status(500).json({ error: "Failed to import expenses" });
+    }
+  });
+
   // Expense Category routes
   app.get("/api/expense-categories", async (req, res) => {
     try {
-      const categories = await storage.getExpenseCategories();
+      const categories = await storage.getExpenseCategories(getSessionUserId(req));
       res.json(categories);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch expense categories" });
@@ -169,7 +625,7 @@ export async function registerRoutes(
       if (!result.success) {
         return res.status(400).json({ error: fromZodError(result.error).message });
       }
-      const category = await storage.createExpenseCategory(result.data);
+      const category = await storage.createExpenseCategory({ ...result.data, telegramUserId: getSessionUserId(req) });
       res.json(category);
     } catch (error) {
       res.status(500).json({ error: "Failed to create expense category" });
@@ -183,7 +639,11 @@ export async function registerRoutes(
       if (!result.success) {
         return res.status(400).json({ error: fromZodError(result.error).message });
       }
-      const category = await storage.updateExpenseCategory(id, result.data);
+      const { telegramUserId: _owner, ...updates } = result.data;
+      const category = await storage.updateExpenseCategory(id, updates, getSessionUserId(req));
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
       res.json(category);
     } catch (error) {
       res.status(500).json({ error: "Failed to update expense category" });
@@ -193,12 +653,241 @@ export async function registerRoutes(
   app.delete("/api/expense-categories/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteExpenseCategory(id);
+      await storage.deleteExpenseCategory(id, getSessionUserId(req));
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete expense category" });
     }
   });
 
+  // Statistics routes (?from=YYYY-MM-DD&to=YYYY-MM-DD, last 7 days by default)
+  app.get("/api/stats/overview", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      const stats = await getStatsOverview(getSessionUserId(req), range);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch statistics" });
+    }
+  });
+
+  app.get("/api/stats/tasks", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      const stats = await getTaskStats(getSessionUserId(req), range);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch task statistics" });
+    }
+  });
+
+  app.get("/api/stats/expenses", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      const stats = await getExpenseStats(getSessionUserId(req), range);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch expense statistics" });
+    }
+  });
+
+  app.get("/api/stats/goals", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      const stats = await getGoalStats(getSessionUserId(req), range);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch goal statistics" });
+    }
+  });
+
+  app.get("/api/stats/focus", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      const stats = await getFocusStats(getSessionUserId(req), range);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch focus statistics" });
+    }
+  });
+
+  app.get("/api/stats/habits", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      const stats = await getHabitStats(getSessionUserId(req), range);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch habit statistics" });
+    }
+  });
+
+  // Focus session routes
+  app.get("/api/focus-sessions/active", async (req, res) => {
+    try {
+      const session = await storage.getActiveFocusSession(getSessionUserId(req));
+      res.json(session ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch focus session" });
+    }
+  });
+
+  app.post("/api/focus-sessions", async (req, res) => {
+    try {
+      const result = startFocusSessionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const telegramUserId = getSessionUserId(req);
+      if (result.data.taskId) {
+        const ownTasks = await storage.getTasks(telegramUserId);
+        if (!ownTasks.some(task => task.id === result.data.taskId)) {
+          return res.status(404).json({ error: "Task not found" });
+        }
+      }
+      const session = await startFocusSession(telegramUserId, result.data);
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start focus session" });
+    }
+  });
+
+  app.post("/api/focus-sessions/:id/complete", async (req, res) => {
+    try {
+      const session = await storage.getFocusSession(parseInt(req.params.id), getSessionUserId(req));
+      if (!session) {
+        return res.status(404).json({ error: "Focus session not found" });
+      }
+      // The timer may report back a little early; don't credit more than actually passed
+      if (new Date(session.endsAt).getTime() - Date.now() > 60 * 1000) {
+        return res.status(400).json({ error: "Focus session has not finished yet" });
+      }
+      res.json(await completeFocusSession(session));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to complete focus session" });
+    }
+  });
+
+  app.post("/api/focus-sessions/:id/abandon", async (req, res) => {
+    try {
+      const session = await storage.getFocusSession(parseInt(req.params.id), getSessionUserId(req));
+      if (!session) {
+        return res.status(404).json({ error: "Focus session not found" });
+      }
+      res.json(await abandonFocusSession(session));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to abandon focus session" });
+    }
+  });
+
+  // Prayer log routes
+  app.get("/api/prayer-log", async (req, res) => {
+    try {
+      const range = resolveStatsRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      res.json(await getPrayerLogOverview(getSessionUserId(req), range));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch prayer log" });
+    }
+  });
+
+  app.put("/api/prayer-log", async (req, res) => {
+    try {
+      const result = setPrayerLogSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const telegramUserId = getSessionUserId(req);
+      const { date, prayer, status } = result.data;
+      if (status) {
+        res.json(await storage.setPrayerLogStatus({ telegramUserId, date, prayer, status }));
+      } else {
+        await storage.deletePrayerLogEntry(telegramUserId, date, prayer);
+        res.json(null);
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update prayer log" });
+    }
+  });
+
+  app.post("/api/prayer-log/make-up", async (req, res) => {
+    try {
+      const result = makeUpQazaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error).message });
+      }
+      const entry = await storage.makeUpQaza(getSessionUserId(req), result.data.prayer);
+      if (!entry) {
+        return res.status(404).json({ error: "No qaza left for this prayer" });
+      }
+      res.json(entry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to record make-up prayer" });
+    }
+  });
+
+  // Monthly prayer timetable for the user's region or location, e.g. /api/prayer-times/month?month=2026-10
+  app.get("/api/prayer-times/month", async (req, res) => {
+    try {
+      const month = String(req.query.month ?? "");
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return res.status(400).json({ error: "month must be YYYY-MM" });
+      }
+      const timetable = await getMonthTimetable(getSessionUserId(req), month);
+      if (!timetable) {
+        return res.status(404).json({ error: "Unknown region" });
+      }
+      res.json(timetable);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch prayer timetable" });
+    }
+  });
+
+  // Saharlik and iftorlik for every day of the current or next Ramadan
+  app.get("/api/prayer-times/ramadan", async (req, res) => {
+    try {
+      const result = await getRamadanTimetable(getSessionUserId(req));
+      if (!result) {
+        return res.status(404).json({ error: "Unknown region" });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch Ramadan timetable" });
+    }
+  });
+
+  app.get("/api/prayer-times/imsakiya", async (req, res) => {
+    try {
+      const file = await buildImsakiyaPdf(getSessionUserId(req));
+      if (!file) {
+        return res.status(404).json({ error: "Unknown region" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.buffer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to build imsakiya" });
+    }
+  });
+
   return httpServer;
 }
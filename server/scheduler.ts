@@ -1,11 +1,28 @@
 import { storage } from "./storage";
 import { bot } from "./bot";
 import { Markup } from "telegraf";
-import { getPrayerTimesForRegion, getPrayerTimesForLocation, UZBEKISTAN_REGIONS, type RegionCode } from "./prayer";
+import { getPrayerTimesForSettings, UZBEKISTAN_REGIONS, type RegionCode } from "./prayer";
+import { materializeRecurringTasks, getUzbekistanDateString, uzDateTimeToUTC } from "./recurring";
+import { completeDueFocusSessions, formatFocusDuration } from "./focus";
+import { ensureTodayExchangeRates, getMoneyView } from "./currency";
+import { formatCashFlowLines, summarizeCashFlow } from "@shared/income";
+import { userStates } from "./conversation-state";
+import { formatBudgetForecast, getBudgetStatuses, getBudgetStatusEmoji } from "./budget";
+import { formatBudgetPeriod, getBudgetLabel, isForecastAlertDue } from "@shared/budget";
+import { formatGoalProgress, getGoalCurrency, getGoalSavingsPlan } from "./goals";
+import { getNewMilestone } from "@shared/goals";
+import { formatHabitStreak, getHabitsWithStreaks, resolveHabitPromptTime } from "./habits";
+import { computeHabitStreak, isHabitSettled } from "@shared/habits";
+import { getWeekPrayerLog } from "./prayer-log";
+import { findPromoCampaign } from "./campaigns";
+import type { PromoFeature } from "@shared/campaigns";
+import { formatMoney } from "@shared/currency";
+import type { BudgetLimit } from "@shared/schema";
 
 const REMINDER_CHECK_INTERVAL = 60 * 1000;
 const REPORT_CHECK_INTERVAL = 60 * 1000;
 const PRAYER_CHECK_INTERVAL = 60 * 1000;
+const FOCUS_CHECK_INTERVAL = 60 * 1000;
 
 const sentPrayerReminders = new Map<string, boolean>();
 const sentSubscriptionReminders = new Map<string, boolean>();
@@ -14,10 +31,11 @@ const sentDailyReports = new Map<string, string>();
 const sentWeeklyReports = new Map<string, string>();
 
 const SUBSCRIPTION_CHECK_INTERVAL = 60 * 60 * 1000; // Every hour
-
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("uz-UZ").format(amount) + " so'm";
-}
+const STATE_PURGE_INTERVAL = 60 * 60 * 1000; // Every hour
+const EXCHANGE_RATE_CHECK_INTERVAL = 60 * 60 * 1000; // Every hour, until today's rates are in
+const BUDGET_FORECAST_CHECK_INTERVAL = 60 * 60 * 1000; // Every hour, during the day
+const GOAL_MILESTONE_CHECK_INTERVAL = 10 * 60 * 1000;
+const HABIT_CHECK_INTERVAL = 60 * 1000;
 
 function getProgressBar(current: number, target: number): string {
   const percentage = Math.min(100, Math.round((current / target) * 100));
@@ -28,13 +46,19 @@ function getProgressBar(current: number, target: number): string {
 
 async function checkAndSendReminders() {
   try {
+    // Create today's instances of recurring tasks before looking for due reminders
+    const created = await materializeRecurringTasks();
+    if (created > 0) {
+      console.log(`Materialized ${created} recurring task instance(s)`);
+    }
+    
     const tasks = await storage.getTasksWithPendingReminders();
     
     for (const task of tasks) {
       if (!task.telegramUserId) continue;
       
       // Only send reminders to users with active subscriptions
-      const hasActiveSub = await checkSubscriptionActive(task.telegramUserId);
+      const hasActiveSub = await checkSubscriptionActive(task.telegramUserId, "tasks");
       if (!hasActiveSub) continue;
       
       try {
@@ -66,23 +90,16 @@ async function checkAndSendReminders() {
   }
 }
 
-const RAMADAN_FREE_END = new Date("2026-03-20T23:59:59+05:00");
-
-async function checkSubscriptionActive(telegramUserId: string): Promise<boolean> {
-  if (new Date() < RAMADAN_FREE_END) {
-    return true;
-  }
-
+// Scheduled messages go out on the user's own subscription, or on a promo campaign that unlocks the feature
+async function checkSubscriptionActive(telegramUserId: string, feature: PromoFeature): Promise<boolean> {
   const subscription = await storage.getSubscription(telegramUserId);
-  if (!subscription) return false;
-  
   const now = new Date();
-  const endDate = new Date(subscription.endDate);
   
-  if ((subscription.status === "trial" || subscription.status === "active") && endDate > now) {
+  if (subscription && (subscription.status === "trial" || subscription.status === "active") && new Date(subscription.endDate) > now) {
     return true;
   }
-  return false;
+  const status = subscription ? "expired" : "none";
+  return !!(await findPromoCampaign(telegramUserId, status, feature));
 }
 
 async function generateDailyReport(telegramUserId: string): Promise<string> {
@@ -91,6 +108,11 @@ async function generateDailyReport(telegramUserId: string): Promise<string> {
   const goals = await storage.getActiveGoals(telegramUserId);
   
   const today = new Date();
+  const todayStart = uzDateTimeToUTC(getUzbekistanDateString(today), "00:00") ?? today;
+  const focusDays = await storage.getFocusMinutesByDay(telegramUserId, todayStart, today);
+  const focusMinutes = focusDays.reduce((sum, day) => sum + day.minutes, 0);
+  const focusSessions = focusDays.reduce((sum, day) => sum + day.sessions, 0);
+  const money = await getMoneyView(telegramUserId);
   
   const todayTasks = tasks.filter(t => {
     const d = new Date(t.createdAt);
@@ -105,6 +127,9 @@ async function generateDailyReport(telegramUserId: string): Promise<string> {
     return d.toDateString() === today.toDateString();
   });
   const todayTotal = todayExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const todayIncome = (await storage.getIncomes(telegramUserId))
+    .filter(i => new Date(i.createdAt).toDateString() === today.toDateString())
+    .reduce((sum, i) => sum + i.amount, 0);
   
   const categoryTotals: Record<string, number> = {};
   todayExpenses.forEach(e => {
@@ -119,15 +144,23 @@ async function generateDailyReport(telegramUserId: string): Promise<string> {
   message += `├ Bajarildi: ${completedToday}\n`;
   message += `└ Jarayonda: ${pendingToday}\n\n`;
   
+  if (focusSessions > 0) {
+    message += `⏱ *Fokus:* ${formatFocusDuration(focusMinutes)} (${focusSessions} ta sessiya)\n\n`;
+  }
+  
   message += `💰 *Xarajatlar:*\n`;
-  message += `└ Jami: ${formatCurrency(todayTotal)}\n`;
+  message += `└ Jami: ${money.format(todayTotal)}\n`;
+  
+  if (todayIncome > 0) {
+    message += `\n💵 *Pul oqimi:*\n${formatCashFlowLines(summarizeCashFlow(todayIncome, todayTotal), money.format)}`;
+  }
   
   if (Object.keys(categoryTotals).length > 0) {
     message += `\n📁 *Kategoriyalar:*\n`;
     Object.entries(categoryTotals)
       .sort((a, b) => b[1] - a[1])
       .forEach(([cat, amount]) => {
-        message += `• ${cat}: ${formatCurrency(amount)}\n`;
+        message += `• ${cat}: ${money.format(amount)}\n`;
       });
   }
   
@@ -153,6 +186,9 @@ async function generateWeeklyReport(telegramUserId: string): Promise<string> {
   const today = new Date();
   const weekStart = new Date(today);
   weekStart.setDate(today.getDate() - 7);
+  const focusDays = await storage.getFocusMinutesByDay(telegramUserId, weekStart, today);
+  const focusMinutes = focusDays.reduce((sum, day) => sum + day.minutes, 0);
+  const money = await getMoneyView(telegramUserId);
   
   const weekTasks = tasks.filter(t => new Date(t.createdAt) >= weekStart);
   const completedWeek = weekTasks.filter(t => t.completed).length;
@@ -160,6 +196,9 @@ async function generateWeeklyReport(telegramUserId: string): Promise<string> {
   
   const weekExpenses = expenses.filter(e => new Date(e.createdAt) >= weekStart);
   const weekTotal = weekExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const weekIncome = (await storage.getIncomes(telegramUserId))
+    .filter(i => new Date(i.createdAt) >= weekStart)
+    .reduce((sum, i) => sum + i.amount, 0);
   
   const categoryTotals: Record<string, number> = {};
   weekExpenses.forEach(e => {
@@ -179,8 +218,19 @@ async function generateWeeklyReport(telegramUserId: string): Promise<string> {
     message += `\n📈 Bajarilish darajasi: ${completionRate}%\n`;
   }
   
+  if (focusMinutes > 0) {
+    const bestDay = focusDays.reduce((best, day) => (day.minutes > best.minutes ? day : best));
+    message += `\n⏱ *Fokus:*\n`;
+    message += `├ Jami: ${formatFocusDuration(focusMinutes)}\n`;
+    message += `└ Eng samarali kun: ${bestDay.date} (${formatFocusDuration(bestDay.minutes)})\n`;
+  }
+  
   message += `\n💰 *Xarajatlar:*\n`;
-  message += `└ Haftalik jami: ${formatCurrency(weekTotal)}\n`;
+  message += `└ Haftalik jami: ${money.format(weekTotal)}\n`;
+  
+  if (weekIncome > 0) {
+    message += `\n💵 *Pul oqimi:*\n${formatCashFlowLines(summarizeCashFlow(weekIncome, weekTotal), money.format)}`;
+  }
   
   if (Object.keys(categoryTotals).length > 0) {
     message += `\n📁 *Kategoriyalar:*\n`;
@@ -189,23 +239,38 @@ async function generateWeeklyReport(telegramUserId: string): Promise<string> {
       .slice(0, 5)
       .forEach(([cat, amount]) => {
         const percentage = Math.round((amount / weekTotal) * 100);
-        message += `• ${cat}: ${formatCurrency(amount)} (${percentage}%)\n`;
+        message += `• ${cat}: ${money.format(amount)} (${percentage}%)\n`;
       });
   }
   
   if (budgetLimits.length > 0) {
     message += `\n💳 *Byudjet holati:*\n`;
-    for (const limit of budgetLimits) {
-      const catExpenses = weekExpenses.filter(e => e.category === limit.category);
-      const spent = catExpenses.reduce((sum, e) => sum + e.amount, 0);
-      const percentage = Math.round((spent / limit.limitAmount) * 100);
-      let emoji = "🟢";
-      if (percentage >= 100) emoji = "🔴";
-      else if (percentage >= 80) emoji = "🟡";
-      message += `${emoji} ${limit.category}: ${percentage}% sarflandi\n`;
+    for (const { limit, status } of await getBudgetStatuses(telegramUserId, budgetLimits, expenses)) {
+      message += `${getBudgetStatusEmoji(status)} ${getBudgetLabel(limit)}: ${status.percent}% sarflandi (${formatBudgetPeriod(status.period)})\n`;
     }
   }
   
+  const prayerWeek = await getWeekPrayerLog(telegramUserId);
+  const { consistency, qaza } = prayerWeek;
+  if (consistency.prayed + consistency.qaza > 0 || qaza.total > 0) {
+    message += `\n🕌 *Namozlar:*\n`;
+    message += `├ O'z vaqtida: ${consistency.prayed}/${consistency.total} (${consistency.percent}%)\n`;
+    if (consistency.unmarked > 0) message += `├ Belgilanmagan: ${consistency.unmarked}\n`;
+    message += `├ Qazo bo'ldi: ${consistency.qaza}\n`;
+    message += `└ Qazo qarzi: ${qaza.total} ta${qaza.madeUp > 0 ? ` (ado qilingan: ${qaza.madeUp})` : ""}\n`;
+  }
+  
+  const habits = (await getHabitsWithStreaks(telegramUserId)).filter(({ habit }) => habit.active);
+  if (habits.length > 0) {
+    message += `\n🔥 *Odatlar:*\n`;
+    habits.forEach(({ habit, checkins, streak }) => {
+      // The last 7 days, like the rest of the report
+      const weekDone = checkins.filter(c => c.status === "done" && c.date > getUzbekistanDateString(weekStart)).length;
+      const target = habit.frequency === "weekly" ? habit.weeklyTarget : 7;
+      message += `${weekDone >= target ? "🟢" : weekDone > 0 ? "🟡" : "🔴"} ${habit.title}: ${weekDone}/${target} · ${formatHabitStreak(habit, streak)} (rekord ${streak.best})\n`;
+    });
+  }
+  
   if (goals.length > 0) {
     message += `\n🎯 *Maqsadlar:*\n`;
     goals.forEach(goal => {
@@ -213,7 +278,7 @@ async function generateWeeklyReport(telegramUserId: string): Promise<string> {
       let emoji = "🟢";
       if (percentage < 50) emoji = "🔴";
       else if (percentage < 80) emoji = "🟡";
-      message += `${emoji} ${goal.title}: ${goal.currentCount}/${goal.targetCount} (${percentage}%)\n`;
+      message += `${emoji} ${goal.title}: ${formatGoalProgress(goal)} (${percentage}%)\n`;
     });
   }
   
@@ -237,7 +302,7 @@ async function checkAndSendDailyReports() {
       if (!user.dailyReportEnabled || !user.dailyReportTime) continue;
       
       // Only send reports to users with active subscriptions
-      const hasActiveSub = await checkSubscriptionActive(user.telegramUserId);
+      const hasActiveSub = await checkSubscriptionActive(user.telegramUserId, "reports");
       if (!hasActiveSub) continue;
       
       const [reportHour, reportMinute] = user.dailyReportTime.split(":").map(Number);
@@ -291,7 +356,7 @@ async function checkAndSendWeeklyReports() {
       if (user.weeklyReportDay !== currentDay) continue;
       
       // Only send reports to users with active subscriptions
-      const hasActiveSub = await checkSubscriptionActive(user.telegramUserId);
+      const hasActiveSub = await checkSubscriptionActive(user.telegramUserId, "reports");
       if (!hasActiveSub) continue;
       
       const reportKey = `${user.telegramUserId}_${weekKey}`;
@@ -351,21 +416,12 @@ async function checkAndSendPrayerReminders() {
       if (!settings.telegramUserId) continue;
       
       // Only send prayer reminders to users with active subscriptions
-      const hasActiveSub = await checkSubscriptionActive(settings.telegramUserId);
+      const hasActiveSub = await checkSubscriptionActive(settings.telegramUserId, "prayer");
       if (!hasActiveSub) continue;
       
       const advanceMinutes = settings.advanceMinutes || 10;
       
-      let times;
-      if (settings.useCustomLocation && settings.latitude && settings.longitude) {
-        times = await getPrayerTimesForLocation(
-          parseFloat(settings.latitude),
-          parseFloat(settings.longitude)
-        );
-      } else {
-        const regionCode = settings.regionCode || "namangan";
-        times = await getPrayerTimesForRegion(regionCode);
-      }
+      const times = await getPrayerTimesForSettings(settings);
       
       if (!times) continue;
       
@@ -392,10 +448,19 @@ async function checkAndSendPrayerReminders() {
             const chatId = parseInt(settings.telegramUserId);
             const prayerName = prayerNames[prayer.key] || prayer.key;
             
+            // The buttons fill the prayer log once the prayer is done or missed
             await bot.telegram.sendMessage(
               chatId,
               `🕌 *${prayerName} namoziga ${advanceMinutes} minut qoldi!*\n\n⏰ Vaqti: ${prayer.time.split(" ")[0]}`,
-              { parse_mode: "Markdown" }
+              {
+                parse_mode: "Markdown",
+                ...Markup.inlineKeyboard([
+                  [
+                    Markup.button.callback("✅ O'qidim", `plog_${today}_${prayer.key}_prayed`),
+                    Markup.button.callback("⏳ Qazo bo'ldi", `plog_${today}_${prayer.key}_qaza`),
+                  ],
+                ]),
+              }
             );
             
             sentPrayerReminders.set(reminderKey, true);
@@ -603,6 +668,171 @@ async function checkAndSendSubscriptionReminders() {
   }
 }
 
+// Timers run on the server, so a session finishes even if the user closed the app
+async function checkAndSendFocusCompletions() {
+  try {
+    const completed = await completeDueFocusSessions();
+    
+    for (const session of completed) {
+      try {
+        const message = session.mode === "focus"
+          ? `⏱ *Fokus tugadi!*\n\n✅ ${formatFocusDuration(session.durationMinutes)} samarali ishladingiz. Endi biroz dam oling.`
+          : `⏰ *Tanaffus tugadi!*\n\nYana ishga qaytamizmi?`;
+        
+        await bot.telegram.sendMessage(parseInt(session.telegramUserId), message, {
+          parse_mode: "Markdown",
+          ...Markup.inlineKeyboard([
+            [
+              Markup.button.callback("☕ 5 daqiqa tanaffus", "focus_break_5"),
+              Markup.button.callback("🔁 Yana 25 daqiqa", "focus_start_25"),
+            ],
+          ]),
+        });
+      } catch (error) {
+        console.error(`Failed to send focus completion to ${session.telegramUserId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error checking focus sessions:", error);
+  }
+}
+
+// Warns once per period when the spending pace would use up a limit before the period ends
+async function checkAndSendBudgetForecasts() {
+  try {
+    const uzHour = new Date(Date.now() + 5 * 60 * 60 * 1000).getUTCHours();
+    if (uzHour < 9 || uzHour >= 21) return;
+    
+    const limitsByUser = new Map<string, BudgetLimit[]>();
+    for (const limit of await storage.getAllBudgetLimits()) {
+      limitsByUser.set(limit.telegramUserId, [...(limitsByUser.get(limit.telegramUserId) ?? []), limit]);
+    }
+    
+    for (const [telegramUserId, limits] of Array.from(limitsByUser)) {
+      const hasActiveSub = await checkSubscriptionActive(telegramUserId, "budget");
+      if (!hasActiveSub) continue;
+      
+      const due = (await getBudgetStatuses(telegramUserId, limits))
+        .filter(({ limit, status }) => isForecastAlertDue(limit, status));
+      if (due.length === 0) continue;
+      
+      try {
+        const message = `⚠️ *Byudjet prognozi*\n\n${due.map(formatBudgetForecast).join("\n\n")}`;
+        await bot.telegram.sendMessage(parseInt(telegramUserId), message, {
+          parse_mode: "Markdown",
+          ...Markup.inlineKeyboard([[Markup.button.callback("💳 Byudjet", "menu_budget")]]),
+        });
+        for (const { limit, status } of due) {
+          await storage.updateBudgetLimit(limit.id, { forecastAlertPeriod: status.period.start }, telegramUserId);
+        }
+      } catch (error) {
+        console.error(`Failed to send budget forecast to ${telegramUserId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error checking budget forecasts:", error);
+  }
+}
+
+// Celebrates 25/50/75/100% of a savings goal, each once
+async function checkAndSendGoalMilestones() {
+  try {
+    const goals = await storage.getAllSavingsGoals();
+    
+    for (const goal of goals) {
+      const plan = getGoalSavingsPlan(goal);
+      const milestone = getNewMilestone(plan.percent, goal.lastMilestone);
+      if (milestone === null) continue;
+      
+      const hasActiveSub = await checkSubscriptionActive(goal.telegramUserId, "goals");
+      if (!hasActiveSub) continue;
+      
+      try {
+        const currency = getGoalCurrency(goal);
+        let message = milestone === 100
+          ? `🎉 *Tabriklaymiz!*\n\n💰 *${goal.title}* maqsadiga yetdingiz: ${formatMoney(goal.currentCount, currency)} yig'ildi!`
+          : `🎯 *${goal.title}*: ${milestone}% yig'ildi!\n\n${formatGoalProgress(goal)}`;
+        if (plan.monthlyRequired) {
+          message += `\n💡 Muddatga ulgurish uchun har oy ${formatMoney(plan.monthlyRequired, currency)} yig'ing`;
+        }
+        
+        await bot.telegram.sendMessage(parseInt(goal.telegramUserId), message, {
+          parse_mode: "Markdown",
+          ...Markup.inlineKeyboard([[Markup.button.callback("💰 Maqsadni ochish", `goal_view_${goal.id}`)]]),
+        });
+        await storage.updateGoal(goal.id, { lastMilestone: milestone }, goal.telegramUserId);
+      } catch (error) {
+        console.error(`Failed to send goal milestone to ${goal.telegramUserId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error checking goal milestones:", error);
+  }
+}
+
+// Sends a habit's check-in buttons once a day at its clock or prayer time,
+// unless it's already checked in (or a weekly habit already met its target)
+async function checkAndSendHabitCheckins() {
+  try {
+    const now = new Date();
+    const today = getUzbekistanDateString(now);
+    const habits = (await storage.getAllActiveHabits())
+      .filter(h => (h.reminderTime || h.reminderPrayer) && h.lastPromptDate !== today);
+    
+    for (const habit of habits) {
+      const due = await resolveHabitPromptTime(habit, today);
+      if (!due || due > now) continue;
+      
+      const hasActiveSub = await checkSubscriptionActive(habit.telegramUserId, "habits");
+      if (!hasActiveSub) continue;
+      
+      try {
+        const checkins = await storage.getHabitCheckins(habit.telegramUserId, habit.id);
+        const streak = computeHabitStreak(habit, checkins, today);
+        if (!isHabitSettled(habit, streak)) {
+          let message = `🔥 *${habit.title}*\n\nBugun bajardingizmi?`;
+          if (streak.current > 0) message += `\n\nJoriy seriya: ${formatHabitStreak(habit, streak)}`;
+          if (habit.frequency === "weekly") message += `\nBu hafta: ${streak.weekDone}/${habit.weeklyTarget}`;
+          
+          await bot.telegram.sendMessage(parseInt(habit.telegramUserId), message, {
+            parse_mode: "Markdown",
+            ...Markup.inlineKeyboard([
+              [
+                Markup.button.callback("✅ Bajardim", `habit_done_${habit.id}`),
+                Markup.button.callback("❄️ Muzlatish", `habit_freeze_${habit.id}`),
+              ],
+            ]),
+          });
+        }
+        await storage.updateHabit(habit.id, { lastPromptDate: today }, habit.telegramUserId);
+      } catch (error) {
+        console.error(`Failed to send habit check-in to ${habit.telegramUserId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error checking habit check-ins:", error);
+  }
+}
+
+async function refreshExchangeRates() {
+  try {
+    await ensureTodayExchangeRates();
+  } catch (error) {
+    console.error("Error refreshing exchange rates:", error);
+  }
+}
+
+async function purgeExpiredConversationStates() {
+  try {
+    const purged = await userStates.purgeExpired();
+    if (purged > 0) {
+      console.log(`Purged ${purged} expired conversation state(s)`);
+    }
+  } catch (error) {
+    console.error("Error purging conversation states:", error);
+  }
+}
+
 export function startScheduler() {
   console.log("📅 Scheduler ishga tushdi!");
   
@@ -616,7 +846,20 @@ export function startScheduler() {
   
   setInterval(checkAndSendSubscriptionReminders, SUBSCRIPTION_CHECK_INTERVAL);
   
+  setInterval(checkAndSendFocusCompletions, FOCUS_CHECK_INTERVAL);
+  
+  setInterval(purgeExpiredConversationStates, STATE_PURGE_INTERVAL);
+  
+  setInterval(refreshExchangeRates, EXCHANGE_RATE_CHECK_INTERVAL);
+  
+  setInterval(checkAndSendBudgetForecasts, BUDGET_FORECAST_CHECK_INTERVAL);
+  
+  setInterval(checkAndSendGoalMilestones, GOAL_MILESTONE_CHECK_INTERVAL);
+  
+  setInterval(checkAndSendHabitCheckins, HABIT_CHECK_INTERVAL);
+  
   setTimeout(checkAndSendReminders, 5000);
   setTimeout(checkAndSendPrayerReminders, 10000);
   setTimeout(checkAndSendSubscriptionReminders, 15000);
+  setTimeout(refreshExchangeRates, 20000);
 }
@@ -0,0 +1,319 @@
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { getMoneyView, getMoneyViewFor, type MoneyView } from "./currency";
+import { getUzbekistanDateString } from "./recurring";
+import { addDays } from "@shared/dates";
+import { getBudgetLabel } from "@shared/budget";
+import { formatMoney, isCurrencyCode, type CurrencyCode } from "@shared/currency";
+import type { Expense } from "@shared/schema";
+
+export interface StatementCategory {
+  category: string;
+  amount: number; // so'm
+  count: number;
+  previousAmount: number;
+}
+
+export interface StatementBudget {
+  category: string;
+  period: string;
+  limit: number; // for the whole month, in `currency`
+  spent: number; // in `currency`
+  currency: CurrencyCode;
+  percent: number;
+}
+
+export interface MonthlyStatement {
+  month: string; // YYYY-MM
+  previousMonth: string;
+  total: number; // so'm
+  previousTotal: number;
+  incomeTotal: number;
+  categories: StatementCategory[];
+  budgets: StatementBudget[];
+  topExpenses: Expense[];
+  daily: Array<{ date: string; amount: number }>;
+}
+
+const MONTH_NAMES = ["Yanvar", "Fevral", "Mart", "Aprel", "May", "Iyun", "Iyul", "Avgust", "Sentabr", "Oktabr", "Noyabr", "Dekabr"];
+
+const CHART_COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#dc2626", "#9333ea", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#64748b"];
+
+export function formatMonthName(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return `${MONTH_NAMES[m - 1]} ${year}`;
+}
+
+export function shiftMonth(month: string, delta: number): string {
+  const [year, m] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, m - 1 + delta, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function daysInMonth(month: string): string[] {
+  const days: string[] = [];
+  for (let day = `${month}-01`; day.startsWith(month); day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+export async function buildMonthlyStatement(telegramUserId: string, month: string): Promise<MonthlyStatement> {
+  const previousMonth = shiftMonth(month, -1);
+  const [expenses, incomes, limits] = await Promise.all([
+    storage.getExpenses(telegramUserId),
+    storage.getIncomes(telegramUserId),
+    storage.getBudgetLimits(telegramUserId),
+  ]);
+  const monthOf = (date: Date) => getUzbekistanDateString(date).slice(0, 7);
+  const current = expenses.filter(e => monthOf(e.createdAt) === month);
+  const previous = expenses.filter(e => monthOf(e.createdAt) === previousMonth);
+
+  const byCategory = new Map<string, StatementCategory>();
+  const entry = (category: string) => {
+    const existing = byCategory.get(category) ?? { category, amount: 0, count: 0, previousAmount: 0 };
+    byCategory.set(category, existing);
+    return existing;
+  };
+  current.forEach(e => {
+    const c = entry(e.category);
+    c.amount += e.amount;
+    c.count++;
+  });
+  previous.forEach(e => {
+    entry(e.category).previousAmount += e.amount;
+  });
+
+  const days = daysInMonth(month);
+  // Weekly and custom-cycle limits are scaled to the month so they compare with the month's
+  // spending; the overall budget is compared with the month's total
+  const total = current.reduce((sum, e) => sum + e.amount, 0);
+  const budgets: StatementBudget[] = [];
+  for (const limit of limits) {
+    const currency: CurrencyCode = isCurrencyCode(limit.currency) ? limit.currency : "UZS";
+    const money = await getMoneyViewFor(currency);
+    const periodDays = limit.period === "weekly" ? 7 : limit.period === "custom" ? limit.periodDays : null;
+    const monthlyLimit = periodDays ? limit.limitAmount * days.length / periodDays : limit.limitAmount;
+    const spent = money.fromSom(limit.category === null ? total : byCategory.get(limit.category)?.amount ?? 0);
+    budgets.push({
+      category: getBudgetLabel(limit),
+      period: limit.period,
+      limit: monthlyLimit,
+      spent,
+      currency: money.currency,
+      percent: monthlyLimit > 0 ? Math.round((spent / monthlyLimit) * 100) : 0,
+    });
+  }
+
+  const daily = days.map(date => ({
+    date,
+    amount: current.filter(e => getUzbekistanDateString(e.createdAt) === date).reduce((sum, e) => sum + e.amount, 0),
+  }));
+
+  return {
+    month,
+    previousMonth,
+    total,
+    previousTotal: previous.reduce((sum, e) => sum + e.amount, 0),
+    incomeTotal: incomes.filter(i => monthOf(i.createdAt) === month).reduce((sum, i) => sum + i.amount, 0),
+    categories: Array.from(byCategory.values()).sort((a, b) => b.amount - a.amount || b.previousAmount - a.previousAmount),
+    budgets,
+    topExpenses: [...current].sort((a, b) => b.amount - a.amount).slice(0, 10),
+    daily,
+  };
+}
+
+// DejaVu covers Cyrillic and the Uzbek apostrophes that the built-in PDF fonts can't draw
+const FONT_DIR = path.resolve(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf");
+
+export function registerFonts(doc: PDFKit.PDFDocument): { regular: string; bold: string } {
+  const regular = path.join(FONT_DIR, "DejaVuSans.ttf");
+  const bold = path.join(FONT_DIR, "DejaVuSans-Bold.ttf");
+  if (fs.existsSync(regular) && fs.existsSync(bold)) {
+    doc.registerFont("regular", regular);
+    doc.registerFont("bold", bold);
+    return { regular: "regular", bold: "bold" };
+  }
+  return { regular: "Helvetica", bold: "Helvetica-Bold" };
+}
+
+function percentChange(current: number, previous: number): string {
+  if (previous === 0) return current > 0 ? "yangi" : "—";
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+function drawPieChart(doc: PDFKit.PDFDocument, categories: StatementCategory[], x: number, y: number, radius: number, font: string) {
+  const total = categories.reduce((sum, c) => sum + c.amount, 0);
+  if (total === 0) return;
+
+  // The nine largest categories get their own slice, the rest share one
+  const slices = categories.filter(c => c.amount > 0).slice(0, 9).map(c => ({ label: c.category, amount: c.amount }));
+  const rest = total - slices.reduce((sum, s) => sum + s.amount, 0);
+  if (rest > 0) slices.push({ label: "Boshqalar", amount: rest });
+
+  const cx = x + radius;
+  const cy = y + radius;
+  let angle = -Math.PI / 2;
+  slices.forEach((slice, i) => {
+    const sweep = (slice.amount / total) * Math.PI * 2;
+    const color = CHART_COLORS[i % CHART_COLORS.length];
+    if (sweep >= Math.PI * 2 - 0.0001) {
+      doc.circle(cx, cy, radius).fill(color);
+    } else {
+      const end = angle + sweep;
+      const x1 = cx + radius * Math.cos(angle);
+      const y1 = cy + radius * Math.sin(angle);
+      const x2 = cx + radius * Math.cos(end);
+      const y2 = cy + radius * Math.sin(end);
+      doc.path(`M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2} ${y2} Z`).fill(color);
+    }
+    angle += sweep;
+
+    const legendY = y + i * 16;
+    doc.rect(x + radius * 2 + 20, legendY + 2, 10, 10).fill(color);
+    doc.fillColor("#111827").font(font).fontSize(9)
+      .text(`${slice.label} — ${Math.round((slice.amount / total) * 100)}%`, x + radius * 2 + 36, legendY + 2, { width: 200 });
+  });
+}
+
+function drawComparisonChart(doc: PDFKit.PDFDocument, categories: StatementCategory[], money: MoneyView, x: number, y: number, width: number, font: string): number {
+  const rows = categories.slice(0, 8);
+  const max = Math.max(1, ...rows.map(c => Math.max(c.amount, c.previousAmount)));
+  const labelWidth = 110;
+  const barWidth = width - labelWidth - 90;
+
+  rows.forEach((c, i) => {
+    const rowY = y + i * 26;
+    doc.fillColor("#111827").font(font).fontSize(9).text(c.category, x, rowY + 3, { width: labelWidth - 6, ellipsis: true });
+    doc.rect(x + labelWidth, rowY, Math.max(1, (c.amount / max) * barWidth), 9).fill("#2563eb");
+    doc.rect(x + labelWidth, rowY + 11, Math.max(1, (c.previousAmount / max) * barWidth), 9).fill("#cbd5e1");
+    doc.fillColor("#374151").fontSize(8).text(money.format(c.amount), x + labelWidth + barWidth + 6, rowY, { width: 84 });
+    doc.fillColor("#6b7280").text(percentChange(c.amount, c.previousAmount), x + labelWidth + barWidth + 6, rowY + 11, { width: 84 });
+  });
+
+  const legendY = y + rows.length * 26 + 4;
+  doc.rect(x + labelWidth, legendY, 10, 8).fill("#2563eb");
+  doc.fillColor("#374151").fontSize(8).text("Shu oy", x + labelWidth + 14, legendY);
+  doc.rect(x + labelWidth + 70, legendY, 10, 8).fill("#cbd5e1");
+  doc.fillColor("#374151").text("O'tgan oy", x + labelWidth + 84, legendY);
+  return legendY + 16;
+}
+
+function drawDailyChart(doc: PDFKit.PDFDocument, daily: MonthlyStatement["daily"], x: number, y: number, width: number, height: number, font: string) {
+  const max = Math.max(1, ...daily.map(d => d.amount));
+  const step = width / daily.length;
+
+  doc.moveTo(x, y + height).lineTo(x + width, y + height).lineWidth(0.5).strokeColor("#9ca3af").stroke();
+  daily.forEach((d, i) => {
+    const barHeight = (d.amount / max) * height;
+    if (barHeight > 0) {
+      doc.rect(x + i * step + 1, y + height - barHeight, Math.max(1, step - 2), barHeight).fill("#16a34a");
+    }
+    // Every fifth day is labelled so the axis stays readable
+    if (i === 0 || (i + 1) % 5 === 0) {
+      doc.fillColor("#6b7280").font(font).fontSize(7).text(String(i + 1), x + i * step, y + height + 3, { width: step, align: "center" });
+    }
+  });
+}
+
+export function renderStatementPdf(statement: MonthlyStatement, money: MoneyView): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 40, info: { Title: `Moliyaviy hisobot — ${formatMonthName(statement.month)}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const fonts = registerFonts(doc);
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    // Starts a new page when the section's first `space` points wouldn't fit
+    const heading = (text: string, space = 80) => {
+      if (doc.y + space > doc.page.height - doc.page.margins.bottom) doc.addPage();
+      doc.moveDown(1).fillColor("#111827").font(fonts.bold).fontSize(13).text(text, left);
+      doc.moveDown(0.4);
+    };
+
+    doc.fillColor("#111827").font(fonts.bold).fontSize(20).text("Barakali Vaqt — moliyaviy hisobot", left);
+    doc.font(fonts.regular).fontSize(12).fillColor("#4b5563").text(formatMonthName(statement.month));
+
+    heading("Umumiy ko'rsatkichlar");
+    const net = statement.incomeTotal - statement.total;
+    const summary: Array<[string, string]> = [
+      ["Xarajatlar", money.format(statement.total)],
+      [`${formatMonthName(statement.previousMonth)} bilan solishtirganda`, percentChange(statement.total, statement.previousTotal)],
+      ["Daromadlar", money.format(statement.incomeTotal)],
+      ["Sof natija", `${net >= 0 ? "+" : "−"}${money.format(Math.abs(net))}`],
+      ["Xarajatlar soni", String(statement.categories.reduce((sum, c) => sum + c.count, 0))],
+    ];
+    summary.forEach(([label, value]) => {
+      const rowY = doc.y;
+      doc.font(fonts.regular).fontSize(10).fillColor("#374151").text(label, left, rowY, { width: width / 2 });
+      doc.font(fonts.bold).fillColor("#111827").text(value, left + width / 2, rowY, { width: width / 2, align: "right" });
+      doc.moveDown(0.3);
+    });
+
+    if (statement.total > 0) {
+      heading("Kategoriyalar bo'yicha", 190);
+      const chartY = doc.y;
+      drawPieChart(doc, statement.categories, left, chartY, 70, fonts.regular);
+      doc.y = chartY + 150;
+
+      heading("O'tgan oy bilan solishtirish", Math.min(statement.categories.length, 8) * 26 + 50);
+      doc.y = drawComparisonChart(doc, statement.categories, money, left, doc.y, width, fonts.regular);
+
+      heading("Kunlik xarajatlar", 140);
+      const dailyY = doc.y;
+      drawDailyChart(doc, statement.daily, left, dailyY, width, 90, fonts.regular);
+      doc.y = dailyY + 110;
+    }
+
+    if (statement.budgets.length > 0) {
+      heading("Byudjet holati");
+      statement.budgets.forEach(b => {
+        if (doc.y > doc.page.height - 80) doc.addPage();
+        const rowY = doc.y;
+        const color = b.percent >= 100 ? "#dc2626" : b.percent >= 80 ? "#f59e0b" : "#16a34a";
+        const limitText = `${formatMoney(b.spent, b.currency)} / ${formatMoney(b.limit, b.currency)}`;
+        doc.font(fonts.regular).fontSize(10).fillColor("#111827")
+          .text(`${b.category}${b.period !== "monthly" ? ` (${b.period === "weekly" ? "haftalik" : "davriy"} limit, oyga hisoblangan)` : ""}`, left, rowY, { width: width * 0.6 });
+        doc.font(fonts.bold).fillColor(color).text(`${limitText} · ${b.percent}%`, left + width * 0.5, rowY, { width: width * 0.5, align: "right" });
+        const barY = doc.y + 2;
+        doc.rect(left, barY, width, 5).fill("#e5e7eb");
+        doc.rect(left, barY, width * Math.min(1, b.percent / 100), 5).fill(color);
+        doc.y = barY + 12;
+      });
+    }
+
+    if (statement.topExpenses.length > 0) {
+      heading("Eng katta xarajatlar");
+      statement.topExpenses.forEach((e, i) => {
+        if (doc.y > doc.page.height - 60) doc.addPage();
+        const rowY = doc.y;
+        const date = getUzbekistanDateString(e.createdAt).split("-").reverse().slice(0, 2).join(".");
+        doc.font(fonts.regular).fontSize(10).fillColor("#111827")
+          .text(`${i + 1}. ${date}  ${e.description}`, left, rowY, { width: width * 0.55, ellipsis: true, lineBreak: false });
+        doc.fillColor("#6b7280").text(e.category, left + width * 0.55, rowY, { width: width * 0.2, lineBreak: false });
+        doc.font(fonts.bold).fillColor("#111827").text(money.format(e.amount), left + width * 0.75, rowY, { width: width * 0.25, align: "right" });
+        doc.moveDown(0.3);
+      });
+    }
+
+    doc.moveDown(2).font(fonts.regular).fontSize(8).fillColor("#9ca3af")
+      .text(`Tayyorlandi: ${getUzbekistanDateString()} · Summalar ${money.currency} da`, left, doc.y, { width, align: "center" });
+
+    doc.end();
+  });
+}
+
+export async function buildStatementPdf(telegramUserId: string, month: string): Promise<{ buffer: Buffer; filename: string; statement: MonthlyStatement }> {
+  const [statement, money] = await Promise.all([
+    buildMonthlyStatement(telegramUserId, month),
+    getMoneyView(telegramUserId),
+  ]);
+  const buffer = await renderStatementPdf(statement, money);
+  return { buffer, filename: `hisobot_${month}.pdf`, statement };
+}
@@ -0,0 +1,127 @@
+import { storage } from "./storage";
+import { getUzbekistanDateString, uzDateTimeToUTC } from "./recurring";
+import { addDays } from "@shared/dates";
+import { getHabitsWithStreaks } from "./habits";
+import { isStatsDate, type FocusDayStat, type HabitDayStat, type HabitStreakStat, type StatsOverview, type StatsRange, type TaskDayStat } from "@shared/stats";
+
+const DEFAULT_RANGE_DAYS = 7;
+// Keeps a custom range from turning into a full-table scan
+const MAX_RANGE_DAYS = 366;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD, defaulting to the last 7 days. Returns null for
+// malformed or oversized ranges.
+export function resolveStatsRange(query: Record<string, unknown>): StatsRange | null {
+  const today = getUzbekistanDateString();
+  const to = query.to === undefined ? today : query.to;
+  if (!isStatsDate(to)) return null;
+  const from = query.from === undefined ? addDays(to, -(DEFAULT_RANGE_DAYS - 1)) : query.from;
+  if (!isStatsDate(from)) return null;
+
+  const span = daysBetween(from, to);
+  if (span < 0 || span >= MAX_RANGE_DAYS) return null;
+  return { from, to };
+}
+
+// The UTC instants bounding a range: local midnight of `from` up to local midnight after `to`
+function toInstants(range: StatsRange): { start: Date; end: Date } {
+  return {
+    start: uzDateTimeToUTC(range.from, "00:00")!,
+    end: uzDateTimeToUTC(addDays(range.to, 1), "00:00")!,
+  };
+}
+
+export async function getTaskStats(telegramUserId: string, range: StatsRange): Promise<TaskDayStat[]> {
+  const { start, end } = toInstants(range);
+  const rows = await storage.getTaskCompletionByDay(telegramUserId, start, end);
+
+  // Days without tasks still get a bar so the chart's x-axis is continuous
+  const byDate = new Map(rows.map(row => [row.date, row]));
+  const days: TaskDayStat[] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    days.push(byDate.get(date) ?? { date, total: 0, completed: 0 });
+  }
+  return days;
+}
+
+export async function getExpenseStats(telegramUserId: string, range: StatsRange) {
+  const { start, end } = toInstants(range);
+  return await storage.getExpenseTotalsByCategory(telegramUserId, start, end);
+}
+
+export async function getGoalStats(telegramUserId: string, range: StatsRange) {
+  const { start, end } = toInstants(range);
+  return await storage.getGoalProgress(telegramUserId, start, end);
+}
+
+export async function getFocusStats(telegramUserId: string, range: StatsRange): Promise<FocusDayStat[]> {
+  const { start, end } = toInstants(range);
+  const rows = await storage.getFocusMinutesByDay(telegramUserId, start, end);
+
+  const byDate = new Map(rows.map(row => [row.date, row]));
+  const days: FocusDayStat[] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    days.push(byDate.get(date) ?? { date, minutes: 0, sessions: 0 });
+  }
+  return days;
+}
+
+export async function getHabitStats(telegramUserId: string, range: StatsRange): Promise<{ habitsByDay: HabitDayStat[]; habits: HabitStreakStat[] }> {
+  const [rows, habits] = await Promise.all([
+    storage.getHabitCheckinsByDay(telegramUserId, range.from, range.to),
+    getHabitsWithStreaks(telegramUserId),
+  ]);
+
+  // Every day of the range gets a heatmap cell
+  const byDate = new Map(rows.map(row => [row.date, row]));
+  const habitsByDay: HabitDayStat[] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    habitsByDay.push(byDate.get(date) ?? { date, done: 0, frozen: 0 });
+  }
+
+  return {
+    habitsByDay,
+    habits: habits
+      .filter(({ habit }) => habit.active)
+      .map(({ habit, streak }) => ({
+        id: habit.id,
+        title: habit.title,
+        frequency: habit.frequency,
+        current: streak.current,
+        best: streak.best,
+      })),
+  };
+}
+
+export async function getStatsOverview(telegramUserId: string, range: StatsRange): Promise<StatsOverview> {
+  const [tasksByDay, expensesByCategory, goals, focusByDay, { habitsByDay, habits }] = await Promise.all([
+    getTaskStats(telegramUserId, range),
+    getExpenseStats(telegramUserId, range),
+    getGoalStats(telegramUserId, range),
+    getFocusStats(telegramUserId, range),
+    getHabitStats(telegramUserId, range),
+  ]);
+
+  const tasksTotal = tasksByDay.reduce((sum, day) => sum + day.total, 0);
+  const tasksCompleted = tasksByDay.reduce((sum, day) => sum + day.completed, 0);
+
+  return {
+    range,
+    summary: {
+      tasksTotal,
+      tasksCompleted,
+      completionRate: tasksTotal > 0 ? Math.round((tasksCompleted / tasksTotal) * 100) : 0,
+      expensesTotal: expensesByCategory.reduce((sum, row) => sum + row.total, 0),
+      focusMinutes: focusByDay.reduce((sum, day) => sum + day.minutes, 0),
+    },
+    tasksByDay,
+    expensesByCategory,
+    goals,
+    focusByDay,
+    habitsByDay,
+    habits,
+  };
+}
@@ -1,22 +1,38 @@
 import { 
   type User, type InsertUser, 
   type Task, type InsertTask, 
+  type RecurringTask, type InsertRecurringTask,
   type Expense, type InsertExpense, 
+  type Income, type InsertIncome,
+  type Account, type InsertAccount,
+  type Transfer, type InsertTransfer,
+  type ImportDraft, type InsertImportDraft,
+  type CategoryRule, type InsertCategoryRule,
   type ExpenseCategory, type InsertExpenseCategory,
   type BudgetLimit, type InsertBudgetLimit,
   type Goal, type InsertGoal,
+  type GoalContribution, type InsertGoalContribution,
+  type Habit, type InsertHabit,
+  type HabitCheckin, type InsertHabitCheckin,
   type UserSettings, type InsertUserSettings,
   type PrayerSettings, type InsertPrayerSettings,
   type PrayerTimes, type InsertPrayerTimes,
+  type PrayerLogEntry, type InsertPrayerLog,
   type BotUser, type InsertBotUser,
   type Subscription, type InsertSubscription,
   type PaymentRequest, type InsertPaymentRequest,
   type AdminSettings, type InsertAdminSettings,
-  users, tasks, expenses, expenseCategories, budgetLimits, goals, userSettings,
-  prayerSettings, prayerTimes, botUsers, subscriptions, paymentRequests, adminSettings
+  type PromoCampaign, type InsertPromoCampaign,
+  type ConversationState, type InsertConversationState,
+  type FocusSession, type InsertFocusSession,
+  type ExchangeRate, type InsertExchangeRate,
+  users, tasks, recurringTasks, expenses, incomes, accounts, transfers, importDrafts, categoryRules, expenseCategories, budgetLimits, goals, goalContributions, habits, habitCheckins, userSettings,
+  prayerSettings, prayerTimes, prayerLog, botUsers, subscriptions, paymentRequests, adminSettings, promoCampaigns,
+  conversationStates, focusSessions, exchangeRates
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, isNull, lte, gte, lt } from "drizzle-orm";
+import { eq, desc, and, or, isNull, lte, gte, lt, sql } from "drizzle-orm";
+import type { TaskDayStat, CategoryExpenseStat, GoalProgressStat, FocusDayStat, HabitDayStat } from "@shared/stats";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -26,12 +42,45 @@ export interface IStorage {
   getTasks(telegramUserId?: string): Promise<Task[]>;
   getTasksWithPendingReminders(): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
+  createRecurringTaskInstance(task: InsertTask): Promise<Task | undefined>;
   updateTask(id: number, updates: Partial<InsertTask>, telegramUserId?: string): Promise<Task>;
   deleteTask(id: number, telegramUserId?: string): Promise<void>;
+
+  getRecurringTasks(telegramUserId?: string): Promise<RecurringTask[]>;
+  getAllActiveRecurringTasks(): Promise<RecurringTask[]>;
+  createRecurringTask(recurringTask: InsertRecurringTask): Promise<RecurringTask>;
+  updateRecurringTask(id: number, updates: Partial<InsertRecurringTask>, telegramUserId?: string): Promise<RecurringTask>;
+  deleteRecurringTask(id: number, telegramUserId?: string): Promise<void>;
   
   getExpenses(telegramUserId?: string): Promise<Expense[]>;
   createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: number, updates: Partial<InsertExpense>, telegramUserId: string): Promise<Expense | undefined>;
   deleteExpense(id: number, telegramUserId?: string): Promise<void>;
+  
+  getIncomes(telegramUserId: string): Promise<Income[]>;
+  createIncome(income: InsertIncome): Promise<Income>;
+  deleteIncome(id: number, telegramUserId: string): Promise<void>;
+
+  getAccounts(telegramUserId: string): Promise<Account[]>;
+  getAccount(id: number, telegramUserId: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(id: number, updates: Partial<InsertAccount>, telegramUserId: string): Promise<Account | undefined>;
+  deleteAccount(id: number, telegramUserId: string): Promise<void>;
+  getTransfers(telegramUserId: string): Promise<Transfer[]>;
+  createTransfer(transfer: InsertTransfer): Promise<Transfer>;
+  deleteTransfer(id: number, telegramUserId: string): Promise<void>;
+
+  getCategoryRules(telegramUserId: string): Promise<CategoryRule[]>;
+  createCategoryRule(rule: InsertCategoryRule): Promise<CategoryRule>;
+  deleteCategoryRule(id: number, telegramUserId: string): Promise<void>;
+
+  getImportDrafts(telegramUserId: string): Promise<ImportDraft[]>;
+  getImportDraft(id: number, telegramUserId: string): Promise<ImportDraft | undefined>;
+  createImportDraft(draft: InsertImportDraft): Promise<ImportDraft>;
+  updateImportDraft(id: number, updates: Partial<InsertImportDraft>, telegramUserId: string): Promise<ImportDraft | undefined>;
+  deleteImportDraft(id: number, telegramUserId: string): Promise<void>;
+  confirmImportDraft(id: number, telegramUserId: string, entry: { expense: InsertExpense } | { income: InsertIncome }): Promise<boolean>;
+  isBankSmsImported(telegramUserId: string, importHash: string): Promise<boolean>;
 
   getExpenseCategories(telegramUserId?: string): Promise<ExpenseCategory[]>;
   createExpenseCategory(category: InsertExpenseCategory): Promise<ExpenseCategory>;
@@ -39,6 +88,7 @@ export interface IStorage {
   deleteExpenseCategory(id: number, telegramUserId?: string): Promise<void>;
 
   getBudgetLimits(telegramUserId: string): Promise<BudgetLimit[]>;
+  getAllBudgetLimits(): Promise<BudgetLimit[]>;
   getBudgetLimitByCategory(telegramUserId: string, category: string): Promise<BudgetLimit | undefined>;
   createBudgetLimit(limit: InsertBudgetLimit): Promise<BudgetLimit>;
   updateBudgetLimit(id: number, updates: Partial<InsertBudgetLimit>, telegramUserId: string): Promise<BudgetLimit>;
@@ -46,10 +96,27 @@ export interface IStorage {
 
   getGoals(telegramUserId: string): Promise<Goal[]>;
   getActiveGoals(telegramUserId: string): Promise<Goal[]>;
+  getGoal(id: number, telegramUserId: string): Promise<Goal | undefined>;
+  getAllSavingsGoals(): Promise<Goal[]>;
   createGoal(goal: InsertGoal): Promise<Goal>;
   updateGoal(id: number, updates: Partial<InsertGoal>, telegramUserId: string): Promise<Goal>;
   deleteGoal(id: number, telegramUserId: string): Promise<void>;
 
+  getGoalContributions(goalId: number, telegramUserId: string): Promise<GoalContribution[]>;
+  createGoalContribution(contribution: InsertGoalContribution): Promise<GoalContribution>;
+  deleteGoalContribution(id: number, telegramUserId: string): Promise<GoalContribution | undefined>;
+
+  getHabits(telegramUserId: string): Promise<Habit[]>;
+  getHabit(id: number, telegramUserId: string): Promise<Habit | undefined>;
+  getAllActiveHabits(): Promise<Habit[]>;
+  createHabit(habit: InsertHabit): Promise<Habit>;
+  updateHabit(id: number, updates: Partial<InsertHabit>, telegramUserId: string): Promise<Habit>;
+  deleteHabit(id: number, telegramUserId: string): Promise<void>;
+
+  getHabitCheckins(telegramUserId: string, habitId?: number): Promise<HabitCheckin[]>;
+  setHabitCheckin(checkin: InsertHabitCheckin): Promise<HabitCheckin>;
+  deleteHabitCheckin(habitId: number, date: string, telegramUserId: string): Promise<void>;
+
   getUserSettings(telegramUserId: string): Promise<UserSettings | undefined>;
   createOrUpdateUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
   getAllUsersWithDailyReport(): Promise<UserSettings[]>;
@@ -58,9 +125,20 @@ export interface IStorage {
   createOrUpdatePrayerSettings(settings: InsertPrayerSettings): Promise<PrayerSettings>;
   getAllPrayerSettings(): Promise<PrayerSettings[]>;
   
-  getPrayerTimes(regionCode: string, date: string): Promise<PrayerTimes | undefined>;
+  getPrayerTimes(regionCode: string, date: string, method?: string, asrSchool?: string): Promise<PrayerTimes | undefined>;
+  getPrayerTimesRange(regionCode: string, from: string, to: string, method: string, asrSchool: string): Promise<PrayerTimes[]>;
   savePrayerTimes(times: InsertPrayerTimes): Promise<PrayerTimes>;
 
+  // Prayer log; dates are Uzbekistan YYYY-MM-DD
+  getPrayerLog(telegramUserId: string, from?: string, to?: string): Promise<PrayerLogEntry[]>;
+  setPrayerLogStatus(entry: InsertPrayerLog): Promise<PrayerLogEntry>;
+  deletePrayerLogEntry(telegramUserId: string, date: string, prayer: string): Promise<void>;
+  makeUpQaza(telegramUserId: string, prayer: string): Promise<PrayerLogEntry | undefined>;
+  
+  // Exchange rates; the lookup returns the latest rate on or before the date
+  getExchangeRate(currency: string, date: string): Promise<ExchangeRate | undefined>;
+  saveExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>;
+
   // Bot Users
   getBotUser(telegramUserId: string): Promise<BotUser | undefined>;
   createOrUpdateBotUser(user: InsertBotUser): Promise<BotUser>;
@@ -90,6 +168,34 @@ export interface IStorage {
   // Admin Settings
   getAdminSetting(key: string): Promise<string | undefined>;
   setAdminSetting(key: string, value: string): Promise<AdminSettings>;
+
+  // Promo campaigns
+  getPromoCampaigns(): Promise<PromoCampaign[]>;
+  getPromoCampaign(id: number): Promise<PromoCampaign | undefined>;
+  getRunningPromoCampaigns(now: Date): Promise<PromoCampaign[]>;
+  createPromoCampaign(campaign: InsertPromoCampaign): Promise<PromoCampaign>;
+  updatePromoCampaign(id: number, campaign: Partial<InsertPromoCampaign>): Promise<PromoCampaign | undefined>;
+  deletePromoCampaign(id: number): Promise<void>;
+
+  // Statistics (aggregated in SQL over [from, to) instants)
+  getTaskCompletionByDay(telegramUserId: string, from: Date, to: Date): Promise<TaskDayStat[]>;
+  getExpenseTotalsByCategory(telegramUserId: string, from: Date, to: Date): Promise<CategoryExpenseStat[]>;
+  getGoalProgress(telegramUserId: string, from: Date, to: Date): Promise<GoalProgressStat[]>;
+  getFocusMinutesByDay(telegramUserId: string, from: Date, to: Date): Promise<FocusDayStat[]>;
+  getHabitCheckinsByDay(telegramUserId: string, from: string, to: string): Promise<HabitDayStat[]>;
+
+  // Focus sessions
+  createFocusSession(session: InsertFocusSession): Promise<FocusSession>;
+  getFocusSession(id: number, telegramUserId: string): Promise<FocusSession | undefined>;
+  getActiveFocusSession(telegramUserId: string): Promise<FocusSession | undefined>;
+  getDueFocusSessions(): Promise<FocusSession[]>;
+  updateFocusSession(id: number, updates: Partial<InsertFocusSession>, telegramUserId: string): Promise<FocusSession | undefined>;
+
+  // Conversation state
+  getConversationState(telegramUserId: string): Promise<ConversationState | undefined>;
+  createOrUpdateConversationState(state: InsertConversationState): Promise<ConversationState>;
+  deleteConversationState(telegramUserId: string): Promise<void>;
+  deleteExpiredConversationStates(): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -130,11 +236,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createTask(task: InsertTask): Promise<Task> {
-    const [newTask] = await db.insert(tasks).values(task).returning();
+    const values = task.completed && !task.completedAt ? { ...task, completedAt: new Date() } : task;
+    const [newTask] = await db.insert(tasks).values(values).returning();
+    return newTask;
+  }
+
+  // Undefined when another run already created this occurrence of the recurring task
+  async createRecurringTaskInstance(task: InsertTask): Promise<Task | undefined> {
+    const [newTask] = await db.insert(tasks).values(task)
+      .onConflictDoNothing({ target: [tasks.recurringTaskId, tasks.recurrenceDate] })
+      .returning();
     return newTask;
   }
 
-  async updateTask(id: number, updates: Partial<InsertTask>, telegramUserId?: string): Promise<Task> {
+  async updateTask(id: number, taskUpdates: Partial<InsertTask>, telegramUserId?: string): Promise<Task> {
+    // Goal progress counts tasks by when they were completed
+    const updates = taskUpdates.completed !== undefined && taskUpdates.completedAt === undefined
+      ? { ...taskUpdates, completedAt: taskUpdates.completed ? new Date() : null }
+      : taskUpdates;
     if (telegramUserId) {
       const [updated] = await db.update(tasks).set(updates)
         .where(and(eq(tasks.id, id), eq(tasks.telegramUserId, telegramUserId)))
@@ -155,6 +274,45 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getRecurringTasks(telegramUserId?: string): Promise<RecurringTask[]> {
+    if (telegramUserId) {
+      return await db.select().from(recurringTasks)
+        .where(and(eq(recurringTasks.telegramUserId, telegramUserId), eq(recurringTasks.active, true)))
+        .orderBy(desc(recurringTasks.createdAt));
+    }
+    return await db.select().from(recurringTasks)
+      .where(and(isNull(recurringTasks.telegramUserId), eq(recurringTasks.active, true)))
+      .orderBy(desc(recurringTasks.createdAt));
+  }
+
+  async getAllActiveRecurringTasks(): Promise<RecurringTask[]> {
+    return await db.select().from(recurringTasks)
+      .where(eq(recurringTasks.active, true));
+  }
+
+  async createRecurringTask(recurringTask: InsertRecurringTask): Promise<RecurringTask> {
+    const [created] = await db.insert(recurringTasks).values(recurringTask).returning();
+    return created;
+  }
+
+  async updateRecurringTask(id: number, updates: Partial<InsertRecurringTask>, telegramUserId?: string): Promise<RecurringTask> {
+    if (telegramUserId) {
+      const [updated] = await db.update(recurringTasks).set(updates)
+        .where(and(eq(recurringTasks.id, id), eq(recurringTasks.telegramUserId, telegramUserId)))
+        .returning();
+      return updated;
+    }
+    const [updated] = await db.update(recurringTasks).set(updates)
+      .where(and(eq(recurringTasks.id, id), isNull(recurringTasks.telegramUserId)))
+      .returning();
+    return updated;
+  }
+
+  // Recurring definitions are deactivated rather than deleted so past instances keep their link
+  async deleteRecurringTask(id: number, telegramUserId?: string): Promise<void> {
+    await this.updateRecurringTask(id, { active: false }, telegramUserId);
+  }
+
   async getExpenses(telegramUserId?: string): Promise<Expense[]> {
     if (telegramUserId) {
       return await db.select().from(expenses)
@@ -171,6 +329,13 @@ export class DatabaseStorage implements IStorage {
     return newExpense;
   }
 
+  async updateExpense(id: number, updates: Partial<InsertExpense>, telegramUserId: string): Promise<Expense | undefined> {
+    const [updated] = await db.update(expenses).set(updates)
+      .where(and(eq(expenses.id, id), eq(expenses.telegramUserId, telegramUserId)))
+      .returning();
+    return updated;
+  }
+
   async deleteExpense(id: number, telegramUserId?: string): Promise<void> {
     if (telegramUserId) {
       await db.delete(expenses).where(and(eq(expenses.id, id), eq(expenses.telegramUserId, telegramUserId)));
@@ -179,6 +344,147 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getIncomes(telegramUserId: string): Promise<Income[]> {
+    return await db.select().from(incomes)
+      .where(eq(incomes.telegramUserId, telegramUserId))
+      .orderBy(desc(incomes.createdAt));
+  }
+
+  async createIncome(income: InsertIncome): Promise<Income> {
+    const [newIncome] = await db.insert(incomes).values(income).returning();
+    return newIncome;
+  }
+
+  async deleteIncome(id: number, telegramUserId: string): Promise<void> {
+    await db.delete(incomes).where(and(eq(incomes.id, id), eq(incomes.telegramUserId, telegramUserId)));
+  }
+
+  async getAccounts(telegramUserId: string): Promise<Account[]> {
+    return await db.select().from(accounts)
+      .where(eq(accounts.telegramUserId, telegramUserId))
+      .orderBy(accounts.createdAt);
+  }
+
+  async getAccount(id: number, telegramUserId: string): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.telegramUserId, telegramUserId)));
+    return account;
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    const [newAccount] = await db.insert(accounts).values(account).returning();
+    return newAccount;
+  }
+
+  async updateAccount(id: number, updates: Partial<InsertAccount>, telegramUserId: string): Promise<Account | undefined> {
+    const [updated] = await db.update(accounts).set(updates)
+      .where(and(eq(accounts.id, id), eq(accounts.telegramUserId, telegramUserId)))
+      .returning();
+    return updated;
+  }
+
+  // Entries keep their history but stop pointing at the account; its transfers go with it
+  async deleteAccount(id: number, telegramUserId: string): Promise<void> {
+    const account = await this.getAccount(id, telegramUserId);
+    if (!account) return;
+
+    // Transfers stay: the other account's balance still counts them, and balances skip the
+    // side that no longer exists
+    await db.transaction(async (tx) => {
+      await tx.update(expenses).set({ accountId: null })
+        .where(and(eq(expenses.accountId, id), eq(expenses.telegramUserId, telegramUserId)));
+      await tx.update(incomes).set({ accountId: null })
+        .where(and(eq(incomes.accountId, id), eq(incomes.telegramUserId, telegramUserId)));
+      await tx.delete(accounts).where(eq(accounts.id, id));
+    });
+  }
+
+  async getTransfers(telegramUserId: string): Promise<Transfer[]> {
+    return await db.select().from(transfers)
+      .where(eq(transfers.telegramUserId, telegramUserId))
+      .orderBy(desc(transfers.createdAt));
+  }
+
+  async createTransfer(transfer: InsertTransfer): Promise<Transfer> {
+    const [newTransfer] = await db.insert(transfers).values(transfer).returning();
+    return newTransfer;
+  }
+
+  async deleteTransfer(id: number, telegramUserId: string): Promise<void> {
+    await db.delete(transfers).where(and(eq(transfers.id, id), eq(transfers.telegramUserId, telegramUserId)));
+  }
+
+  // Oldest first: when several rules match, the first one the user made wins
+  async getCategoryRules(telegramUserId: string): Promise<CategoryRule[]> {
+    return await db.select().from(categoryRules)
+      .where(eq(categoryRules.telegramUserId, telegramUserId))
+      .orderBy(categoryRules.id);
+  }
+
+  async createCategoryRule(rule: InsertCategoryRule): Promise<CategoryRule> {
+    const [newRule] = await db.insert(categoryRules).values(rule).returning();
+    return newRule;
+  }
+
+  async deleteCategoryRule(id: number, telegramUserId: string): Promise<void> {
+    await db.delete(categoryRules).where(and(eq(categoryRules.id, id), eq(categoryRules.telegramUserId, telegramUserId)));
+  }
+
+  async getImportDrafts(telegramUserId: string): Promise<ImportDraft[]> {
+    return await db.select().from(importDrafts)
+      .where(eq(importDrafts.telegramUserId, telegramUserId))
+      .orderBy(desc(importDrafts.occurredAt));
+  }
+
+  async getImportDraft(id: number, telegramUserId: string): Promise<ImportDraft | undefined> {
+    const [draft] = await db.select().from(importDrafts)
+      .where(and(eq(importDrafts.id, id), eq(importDrafts.telegramUserId, telegramUserId)));
+    return draft;
+  }
+
+  async createImportDraft(draft: InsertImportDraft): Promise<ImportDraft> {
+    const [newDraft] = await db.insert(importDrafts).values(draft).returning();
+    return newDraft;
+  }
+
+  async updateImportDraft(id: number, updates: Partial<InsertImportDraft>, telegramUserId: string): Promise<ImportDraft | undefined> {
+    const [updated] = await db.update(importDrafts).set(updates)
+      .where(and(eq(importDrafts.id, id), eq(importDrafts.telegramUserId, telegramUserId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteImportDraft(id: number, telegramUserId: string): Promise<void> {
+    await db.delete(importDrafts).where(and(eq(importDrafts.id, id), eq(importDrafts.telegramUserId, telegramUserId)));
+  }
+
+  // Removing the draft decides who saves it: a second tap finds nothing to delete and saves nothing
+  async confirmImportDraft(id: number, telegramUserId: string, entry: { expense: InsertExpense } | { income: InsertIncome }): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [draft] = await tx.delete(importDrafts)
+        .where(and(eq(importDrafts.id, id), eq(importDrafts.telegramUserId, telegramUserId)))
+        .returning();
+      if (!draft) return false;
+      if ("expense" in entry) {
+        await tx.insert(expenses).values(entry.expense).onConflictDoNothing({ target: [expenses.telegramUserId, expenses.importHash] });
+      } else {
+        await tx.insert(incomes).values(entry.income).onConflictDoNothing({ target: [incomes.telegramUserId, incomes.importHash] });
+      }
+      return true;
+    });
+  }
+
+  async isBankSmsImported(telegramUserId: string, importHash: string): Promise<boolean> {
+    const [expense] = await db.select({ id: expenses.id }).from(expenses)
+      .where(and(eq(expenses.telegramUserId, telegramUserId), eq(expenses.importHash, importHash)))
+      .limit(1);
+    if (expense) return true;
+    const [income] = await db.select({ id: incomes.id }).from(incomes)
+      .where(and(eq(incomes.telegramUserId, telegramUserId), eq(incomes.importHash, importHash)))
+      .limit(1);
+    return !!income;
+  }
+
   async getExpenseCategories(telegramUserId?: string): Promise<ExpenseCategory[]> {
     if (telegramUserId) {
       return await db.select().from(expenseCategories)
@@ -219,6 +525,10 @@ export class DatabaseStorage implements IStorage {
       .where(eq(budgetLimits.telegramUserId, telegramUserId));
   }
 
+  async getAllBudgetLimits(): Promise<BudgetLimit[]> {
+    return await db.select().from(budgetLimits);
+  }
+
   async getBudgetLimitByCategory(telegramUserId: string, category: string): Promise<BudgetLimit | undefined> {
     const [limit] = await db.select().from(budgetLimits)
       .where(and(eq(budgetLimits.telegramUserId, telegramUserId), eq(budgetLimits.category, category)));
@@ -257,6 +567,16 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(goals.createdAt));
   }
 
+  async getGoal(id: number, telegramUserId: string): Promise<Goal | undefined> {
+    const [goal] = await db.select().from(goals)
+      .where(and(eq(goals.id, id), eq(goals.telegramUserId, telegramUserId)));
+    return goal;
+  }
+
+  async getAllSavingsGoals(): Promise<Goal[]> {
+    return await db.select().from(goals).where(eq(goals.type, "savings"));
+  }
+
   async createGoal(goal: InsertGoal): Promise<Goal> {
     const [newGoal] = await db.insert(goals).values(goal).returning();
     return newGoal;
@@ -270,9 +590,93 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteGoal(id: number, telegramUserId: string): Promise<void> {
+    await db.delete(goalContributions).where(and(eq(goalContributions.goalId, id), eq(goalContributions.telegramUserId, telegramUserId)));
     await db.delete(goals).where(and(eq(goals.id, id), eq(goals.telegramUserId, telegramUserId)));
   }
 
+  async getGoalContributions(goalId: number, telegramUserId: string): Promise<GoalContribution[]> {
+    return await db.select().from(goalContributions)
+      .where(and(eq(goalContributions.goalId, goalId), eq(goalContributions.telegramUserId, telegramUserId)))
+      .orderBy(desc(goalContributions.createdAt));
+  }
+
+  async createGoalContribution(contribution: InsertGoalContribution): Promise<GoalContribution> {
+    const [newContribution] = await db.insert(goalContributions).values(contribution).returning();
+    return newContribution;
+  }
+
+  async deleteGoalContribution(id: number, telegramUserId: string): Promise<GoalContribution | undefined> {
+    const [deleted] = await db.delete(goalContributions)
+      .where(and(eq(goalContributions.id, id), eq(goalContributions.telegramUserId, telegramUserId)))
+      .returning();
+    return deleted;
+  }
+
+  async getHabits(telegramUserId: string): Promise<Habit[]> {
+    return await db.select().from(habits)
+      .where(eq(habits.telegramUserId, telegramUserId))
+      .orderBy(habits.createdAt);
+  }
+
+  async getHabit(id: number, telegramUserId: string): Promise<Habit | undefined> {
+    const [habit] = await db.select().from(habits)
+      .where(and(eq(habits.id, id), eq(habits.telegramUserId, telegramUserId)));
+    return habit;
+  }
+
+  async getAllActiveHabits(): Promise<Habit[]> {
+    return await db.select().from(habits).where(eq(habits.active, true));
+  }
+
+  async createHabit(habit: InsertHabit): Promise<Habit> {
+    const [newHabit] = await db.insert(habits).values(habit).returning();
+    return newHabit;
+  }
+
+  async updateHabit(id: number, updates: Partial<InsertHabit>, telegramUserId: string): Promise<Habit> {
+    const [updated] = await db.update(habits).set(updates)
+      .where(and(eq(habits.id, id), eq(habits.telegramUserId, telegramUserId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteHabit(id: number, telegramUserId: string): Promise<void> {
+    await db.delete(habitCheckins).where(and(eq(habitCheckins.habitId, id), eq(habitCheckins.telegramUserId, telegramUserId)));
+    await db.delete(habits).where(and(eq(habits.id, id), eq(habits.telegramUserId, telegramUserId)));
+  }
+
+  async getHabitCheckins(telegramUserId: string, habitId?: number): Promise<HabitCheckin[]> {
+    const conditions = [eq(habitCheckins.telegramUserId, telegramUserId)];
+    if (habitId !== undefined) conditions.push(eq(habitCheckins.habitId, habitId));
+    return await db.select().from(habitCheckins)
+      .where(and(...conditions))
+      .orderBy(habitCheckins.date);
+  }
+
+  // A day has one check-in per habit; checking in again replaces its status
+  async setHabitCheckin(checkin: InsertHabitCheckin): Promise<HabitCheckin> {
+    const match = and(
+      eq(habitCheckins.habitId, checkin.habitId),
+      eq(habitCheckins.date, checkin.date),
+      eq(habitCheckins.telegramUserId, checkin.telegramUserId)
+    );
+    const [existing] = await db.select().from(habitCheckins).where(match);
+    if (existing) {
+      const [updated] = await db.update(habitCheckins).set({ status: checkin.status }).where(match).returning();
+      return updated;
+    }
+    const [created] = await db.insert(habitCheckins).values(checkin).returning();
+    return created;
+  }
+
+  async deleteHabitCheckin(habitId: number, date: string, telegramUserId: string): Promise<void> {
+    await db.delete(habitCheckins).where(and(
+      eq(habitCheckins.habitId, habitId),
+      eq(habitCheckins.date, date),
+      eq(habitCheckins.telegramUserId, telegramUserId)
+    ));
+  }
+
   async getUserSettings(telegramUserId: string): Promise<UserSettings | undefined> {
     const [settings] = await db.select().from(userSettings)
       .where(eq(userSettings.telegramUserId, telegramUserId));
@@ -320,18 +724,36 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(prayerSettings);
   }
 
-  async getPrayerTimes(regionCode: string, date: string): Promise<PrayerTimes | undefined> {
+  // One row per region, day, calculation method and Asr school
+  async getPrayerTimes(regionCode: string, date: string, method = "uzbekistan", asrSchool = "hanafi"): Promise<PrayerTimes | undefined> {
     const [times] = await db.select().from(prayerTimes)
-      .where(and(eq(prayerTimes.regionCode, regionCode), eq(prayerTimes.date, date)));
+      .where(and(
+        eq(prayerTimes.regionCode, regionCode),
+        eq(prayerTimes.date, date),
+        eq(prayerTimes.method, method),
+        eq(prayerTimes.asrSchool, asrSchool),
+      ));
     return times;
   }
 
+  async getPrayerTimesRange(regionCode: string, from: string, to: string, method: string, asrSchool: string): Promise<PrayerTimes[]> {
+    return await db.select().from(prayerTimes)
+      .where(and(
+        eq(prayerTimes.regionCode, regionCode),
+        gte(prayerTimes.date, from),
+        lte(prayerTimes.date, to),
+        eq(prayerTimes.method, method),
+        eq(prayerTimes.asrSchool, asrSchool),
+      ))
+      .orderBy(prayerTimes.date);
+  }
+
   async savePrayerTimes(times: InsertPrayerTimes): Promise<PrayerTimes> {
-    const existing = await this.getPrayerTimes(times.regionCode, times.date);
+    const existing = await this.getPrayerTimes(times.regionCode, times.date, times.method, times.asrSchool);
     if (existing) {
       const [updated] = await db.update(prayerTimes)
         .set(times)
-        .where(and(eq(prayerTimes.regionCode, times.regionCode), eq(prayerTimes.date, times.date)))
+        .where(eq(prayerTimes.id, existing.id))
         .returning();
       return updated;
     }
@@ -339,6 +761,81 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getPrayerLog(telegramUserId: string, from?: string, to?: string): Promise<PrayerLogEntry[]> {
+    const conditions = [eq(prayerLog.telegramUserId, telegramUserId)];
+    if (from) conditions.push(gte(prayerLog.date, from));
+    if (to) conditions.push(lte(prayerLog.date, to));
+    return await db.select().from(prayerLog)
+      .where(and(...conditions))
+      .orderBy(prayerLog.date);
+  }
+
+  // One entry per prayer and day; changing the status also clears a make-up
+  async setPrayerLogStatus(entry: InsertPrayerLog): Promise<PrayerLogEntry> {
+    const match = and(
+      eq(prayerLog.telegramUserId, entry.telegramUserId),
+      eq(prayerLog.date, entry.date),
+      eq(prayerLog.prayer, entry.prayer)
+    );
+    const [existing] = await db.select().from(prayerLog).where(match);
+    if (existing) {
+      if (existing.status === entry.status) return existing;
+      const [updated] = await db.update(prayerLog).set({ status: entry.status, madeUpAt: null }).where(match).returning();
+      return updated;
+    }
+    const [created] = await db.insert(prayerLog).values(entry).returning();
+    return created;
+  }
+
+  async deletePrayerLogEntry(telegramUserId: string, date: string, prayer: string): Promise<void> {
+    await db.delete(prayerLog).where(and(
+      eq(prayerLog.telegramUserId, telegramUserId),
+      eq(prayerLog.date, date),
+      eq(prayerLog.prayer, prayer)
+    ));
+  }
+
+  // Qaza is made up oldest first
+  async makeUpQaza(telegramUserId: string, prayer: string): Promise<PrayerLogEntry | undefined> {
+    const [oldest] = await db.select().from(prayerLog)
+      .where(and(
+        eq(prayerLog.telegramUserId, telegramUserId),
+        eq(prayerLog.prayer, prayer),
+        eq(prayerLog.status, "qaza"),
+        isNull(prayerLog.madeUpAt)
+      ))
+      .orderBy(prayerLog.date)
+      .limit(1);
+    if (!oldest) return undefined;
+
+    const [updated] = await db.update(prayerLog).set({ madeUpAt: new Date() })
+      .where(eq(prayerLog.id, oldest.id))
+      .returning();
+    return updated;
+  }
+
+  async getExchangeRate(currency: string, date: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await db.select().from(exchangeRates)
+      .where(and(eq(exchangeRates.currency, currency), lte(exchangeRates.date, date)))
+      .orderBy(desc(exchangeRates.date))
+      .limit(1);
+    return rate;
+  }
+
+  async saveExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const match = and(eq(exchangeRates.currency, rate.currency), eq(exchangeRates.date, rate.date));
+    const [existing] = await db.select().from(exchangeRates).where(match);
+    if (existing) {
+      const [updated] = await db.update(exchangeRates)
+        .set(rate)
+        .where(match)
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(exchangeRates).values(rate).returning();
+    return created;
+  }
+
   // Bot Users
   async getBotUser(telegramUserId: string): Promise<BotUser | undefined> {
     const [user] = await db.select().from(botUsers)
@@ -509,6 +1006,180 @@ export class DatabaseStorage implements IStorage {
     const [created] = await db.insert(adminSettings).values({ key, value }).returning();
     return created;
   }
+
+  // Promo campaigns
+  async getPromoCampaigns(): Promise<PromoCampaign[]> {
+    return await db.select().from(promoCampaigns).orderBy(desc(promoCampaigns.startsAt));
+  }
+
+  async getPromoCampaign(id: number): Promise<PromoCampaign | undefined> {
+    const [campaign] = await db.select().from(promoCampaigns).where(eq(promoCampaigns.id, id));
+    return campaign;
+  }
+
+  async getRunningPromoCampaigns(now: Date): Promise<PromoCampaign[]> {
+    return await db.select().from(promoCampaigns)
+      .where(and(eq(promoCampaigns.active, true), lte(promoCampaigns.startsAt, now), gte(promoCampaigns.endsAt, now)))
+      .orderBy(promoCampaigns.endsAt);
+  }
+
+  async createPromoCampaign(campaign: InsertPromoCampaign): Promise<PromoCampaign> {
+    const [created] = await db.insert(promoCampaigns).values(campaign).returning();
+    return created;
+  }
+
+  async updatePromoCampaign(id: number, campaign: Partial<InsertPromoCampaign>): Promise<PromoCampaign | undefined> {
+    const [updated] = await db.update(promoCampaigns).set(campaign).where(eq(promoCampaigns.id, id)).returning();
+    return updated;
+  }
+
+  async deletePromoCampaign(id: number): Promise<void> {
+    await db.delete(promoCampaigns).where(eq(promoCampaigns.id, id));
+  }
+
+  // Statistics
+  async getTaskCompletionByDay(telegramUserId: string, from: Date, to: Date): Promise<TaskDayStat[]> {
+    // A completed task counts on the day it was done, an open one on the day it was added,
+    // bucketed by the Uzbekistan calendar day rather than the UTC one
+    const at = sql<Date>`coalesce(${tasks.completedAt}, ${tasks.createdAt})`;
+    const day = sql<string>`to_char(${at} + interval '5 hours', 'YYYY-MM-DD')`;
+    return await db.select({
+      date: day,
+      total: sql<number>`count(*)::int`,
+      completed: sql<number>`(count(*) filter (where ${tasks.completed}))::int`,
+    }).from(tasks)
+      .where(and(eq(tasks.telegramUserId, telegramUserId), gte(at, from), lt(at, to)))
+      .groupBy(day)
+      .orderBy(day);
+  }
+
+  async getExpenseTotalsByCategory(telegramUserId: string, from: Date, to: Date): Promise<CategoryExpenseStat[]> {
+    const total = sql<number>`coalesce(sum(${expenses.amount}), 0)::int`;
+    return await db.select({
+      category: expenses.category,
+      total,
+      count: sql<number>`count(*)::int`,
+    }).from(expenses)
+      .where(and(eq(expenses.telegramUserId, telegramUserId), gte(expenses.createdAt, from), lt(expenses.createdAt, to)))
+      .groupBy(expenses.category)
+      .orderBy(desc(total));
+  }
+
+  async getGoalProgress(telegramUserId: string, from: Date, to: Date): Promise<GoalProgressStat[]> {
+    // Goals whose period overlaps the range
+    return await db.select({
+      id: goals.id,
+      title: goals.title,
+      type: goals.type,
+      period: goals.period,
+      targetCount: goals.targetCount,
+      currentCount: goals.currentCount,
+      currency: goals.currency,
+      percent: sql<number>`coalesce(least(100, round(${goals.currentCount} * 100.0 / nullif(${goals.targetCount}, 0))), 0)::int`,
+    }).from(goals)
+      .where(and(
+        eq(goals.telegramUserId, telegramUserId),
+        lt(goals.startDate, to),
+        or(isNull(goals.endDate), gte(goals.endDate, from))
+      ))
+      .orderBy(desc(goals.createdAt));
+  }
+
+  async getFocusMinutesByDay(telegramUserId: string, from: Date, to: Date): Promise<FocusDayStat[]> {
+    // Breaks don't count; abandoned sessions count for the minutes actually focused
+    const day = sql<string>`to_char(${focusSessions.startedAt} + interval '5 hours', 'YYYY-MM-DD')`;
+    return await db.select({
+      date: day,
+      minutes: sql<number>`coalesce(sum(${focusSessions.focusedMinutes}), 0)::int`,
+      sessions: sql<number>`(count(*) filter (where ${focusSessions.status} = 'completed'))::int`,
+    }).from(focusSessions)
+      .where(and(
+        eq(focusSessions.telegramUserId, telegramUserId),
+        eq(focusSessions.mode, "focus"),
+        gte(focusSessions.startedAt, from),
+        lt(focusSessions.startedAt, to)
+      ))
+      .groupBy(day)
+      .orderBy(day);
+  }
+
+  // Check-in dates are already Uzbekistan days, so the range is compared as text
+  async getHabitCheckinsByDay(telegramUserId: string, from: string, to: string): Promise<HabitDayStat[]> {
+    return await db.select({
+      date: habitCheckins.date,
+      done: sql<number>`(count(*) filter (where ${habitCheckins.status} = 'done'))::int`,
+      frozen: sql<number>`(count(*) filter (where ${habitCheckins.status} = 'freeze'))::int`,
+    }).from(habitCheckins)
+      .where(and(
+        eq(habitCheckins.telegramUserId, telegramUserId),
+        gte(habitCheckins.date, from),
+        lte(habitCheckins.date, to)
+      ))
+      .groupBy(habitCheckins.date)
+      .orderBy(habitCheckins.date);
+  }
+
+  // Focus sessions
+  async createFocusSession(session: InsertFocusSession): Promise<FocusSession> {
+    const [created] = await db.insert(focusSessions).values(session).returning();
+    return created;
+  }
+
+  async getFocusSession(id: number, telegramUserId: string): Promise<FocusSession | undefined> {
+    const [session] = await db.select().from(focusSessions)
+      .where(and(eq(focusSessions.id, id), eq(focusSessions.telegramUserId, telegramUserId)));
+    return session;
+  }
+
+  async getActiveFocusSession(telegramUserId: string): Promise<FocusSession | undefined> {
+    const [session] = await db.select().from(focusSessions)
+      .where(and(eq(focusSessions.telegramUserId, telegramUserId), eq(focusSessions.status, "active")))
+      .orderBy(desc(focusSessions.startedAt));
+    return session;
+  }
+
+  async getDueFocusSessions(): Promise<FocusSession[]> {
+    return await db.select().from(focusSessions)
+      .where(and(eq(focusSessions.status, "active"), lte(focusSessions.endsAt, new Date())));
+  }
+
+  async updateFocusSession(id: number, updates: Partial<InsertFocusSession>, telegramUserId: string): Promise<FocusSession | undefined> {
+    const [updated] = await db.update(focusSessions).set(updates)
+      .where(and(eq(focusSessions.id, id), eq(focusSessions.telegramUserId, telegramUserId)))
+      .returning();
+    return updated;
+  }
+
+  // Conversation state
+  async getConversationState(telegramUserId: string): Promise<ConversationState | undefined> {
+    const [state] = await db.select().from(conversationStates)
+      .where(and(
+        eq(conversationStates.telegramUserId, telegramUserId),
+        gte(conversationStates.expiresAt, new Date())
+      ));
+    return state;
+  }
+
+  async createOrUpdateConversationState(state: InsertConversationState): Promise<ConversationState> {
+    const [saved] = await db.insert(conversationStates).values(state)
+      .onConflictDoUpdate({
+        target: conversationStates.telegramUserId,
+        set: { ...state, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteConversationState(telegramUserId: string): Promise<void> {
+    await db.delete(conversationStates).where(eq(conversationStates.telegramUserId, telegramUserId));
+  }
+
+  async deleteExpiredConversationStates(): Promise<number> {
+    const deleted = await db.delete(conversationStates)
+      .where(lt(conversationStates.expiresAt, new Date()))
+      .returning({ id: conversationStates.id });
+    return deleted.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,53 @@
+// Account kinds and the balance arithmetic shared by the bot and the dashboard
+
+export const ACCOUNT_TYPES = [
+  { id: "cash", name: "Naqd", icon: "💵" },
+  { id: "uzcard", name: "Uzcard", icon: "💳" },
+  { id: "humo", name: "Humo", icon: "💳" },
+  { id: "savings", name: "Jamg'arma", icon: "🏦" },
+] as const;
+
+export type AccountType = typeof ACCOUNT_TYPES[number]["id"];
+
+export const ACCOUNT_TYPE_IDS = ACCOUNT_TYPES.map(t => t.id) as [AccountType, ...AccountType[]];
+
+export function isAccountType(value: unknown): value is AccountType {
+  return ACCOUNT_TYPES.some(t => t.id === value);
+}
+
+export function getAccountIcon(type: string): string {
+  return ACCOUNT_TYPES.find(t => t.id === type)?.icon ?? "👛";
+}
+
+export interface AccountBalance {
+  accountId: number;
+  balance: number; // so'm
+}
+
+type Entry = { amount: number; accountId: number | null };
+type Movement = { amount: number; fromAccountId: number; toAccountId: number };
+
+// Opening balance + incomes − expenses ± transfers. Transfers only move money between
+// accounts, so the total across all accounts doesn't change with them.
+export function computeAccountBalances(
+  accounts: { id: number; openingBalance: number }[],
+  expenses: Entry[],
+  incomes: Entry[],
+  transfers: Movement[],
+): AccountBalance[] {
+  const balances = new Map(accounts.map(a => [a.id, a.openingBalance]));
+  const add = (accountId: number | null, amount: number) => {
+    if (accountId !== null && balances.has(accountId)) {
+      balances.set(accountId, balances.get(accountId)! + amount);
+    }
+  };
+
+  incomes.forEach(i => add(i.accountId, i.amount));
+  expenses.forEach(e => add(e.accountId, -e.amount));
+  transfers.forEach(t => {
+    add(t.fromAccountId, -t.amount);
+    add(t.toAccountId, t.amount);
+  });
+
+  return Array.from(balances, ([accountId, balance]) => ({ accountId, balance }));
+}
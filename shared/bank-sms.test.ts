@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseBankSms, guessSmsCategory } from "./bank-sms";
+
+// Notification texts as users forward them, with what the parser has to read out of each
+const FIXTURES: Array<{
+  name: string;
+  text: string;
+  expected: { bank: string; kind: "expense" | "income"; amount: number; merchant: string | null; cardLast4: string | null; date: string | null; time?: string | null; balance?: number | null };
+}> = [
+  {
+    name: "HUMO purchase without a date",
+    text: "HUMO: Pokupka 45 000.00 UZS KORZINKA",
+    expected: { bank: "HUMO", kind: "expense", amount: 45000, merchant: "KORZINKA", cardLast4: null, date: null },
+  },
+  {
+    name: "HUMO purchase with card, date and time",
+    text: "HUMOCARD *1234: Pokupka 45 000.00 UZS KORZINKA TASHKENT 12.10.26 14:32",
+    expected: { bank: "HUMO", kind: "expense", amount: 45000, merchant: "KORZINKA TASHKENT", cardLast4: "1234", date: "2026-10-12", time: "14:32" },
+  },
+  {
+    name: "HUMO purchase over several lines",
+    text: "HUMOCARD *5678\nOplata 120 500.00 UZS\nEVOS CHILONZOR\n05.09.2026 19:07\nDostupno: 1 250 000.00 UZS",
+    expected: { bank: "HUMO", kind: "expense", amount: 120500, merchant: "EVOS CHILONZOR", cardLast4: "5678", date: "2026-09-05", time: "19:07", balance: 1250000 },
+  },
+  {
+    name: "HUMO Telegram bot with a merchant pin",
+    text: "🔴 Покупка\n➖ 32 000,00 UZS\n📍 YANDEX GO\n💳 HUMOCARD *9012\n🕓 14:05 03.10.2026\n💰 540 000,00 UZS",
+    expected: { bank: "HUMO", kind: "expense", amount: 32000, merchant: "YANDEX GO", cardLast4: "9012", date: "2026-10-03", time: "14:05", balance: 540000 },
+  },
+  {
+    name: "HUMO top-up",
+    text: "HUMOCARD *1234: Popolnenie 2 000 000.00 UZS 01.10.26 09:15",
+    expected: { bank: "HUMO", kind: "income", amount: 2000000, merchant: null, cardLast4: "1234", date: "2026-10-01", time: "09:15" },
+  },
+  {
+    name: "Uzcard payment",
+    text: "UZCARD: Oplata 45000.00 UZS; KORZINKA; karta ***1234; 12.10.2026 14:32; Dostupno: 300000.00 UZS",
+    expected: { bank: "Uzcard", kind: "expense", amount: 45000, merchant: "KORZINKA", cardLast4: "1234", date: "2026-10-12", time: "14:32", balance: 300000 },
+  },
+  {
+    name: "Uzcard CardXabar write-off",
+    text: "CardXabar: Spisanie 18,500.00 UZS, BELLISSIMO PIZZA, ***4321, 07.10.26 21:40",
+    expected: { bank: "Uzcard", kind: "expense", amount: 18500, merchant: "BELLISSIMO PIZZA", cardLast4: "4321", date: "2026-10-07", time: "21:40" },
+  },
+  {
+    name: "Uzcard incoming transfer",
+    text: "UZCARD: Perevod na kartu 500 000.00 UZS; ***1234; 15.10.2026 10:00",
+    expected: { bank: "Uzcard", kind: "income", amount: 500000, merchant: null, cardLast4: "1234", date: "2026-10-15", time: "10:00" },
+  },
+  {
+    name: "Other bank, dollars",
+    text: "Kapitalbank Visa **7788 Pokupka 12.99 USD 16.10.2026",
+    expected: { bank: "Karta", kind: "expense", amount: 12.99, merchant: null, cardLast4: "7788", date: "2026-10-16" },
+  },
+];
+
+for (const fixture of FIXTURES) {
+  test(`parseBankSms: ${fixture.name}`, () => {
+    const parsed = parseBankSms(fixture.text);
+    assert.ok(parsed, "message was not recognised");
+    const { expected } = fixture;
+    assert.equal(parsed.bank, expected.bank);
+    assert.equal(parsed.kind, expected.kind);
+    assert.equal(parsed.amount, expected.amount);
+    assert.equal(parsed.merchant, expected.merchant);
+    assert.equal(parsed.cardLast4, expected.cardLast4);
+    assert.equal(parsed.date, expected.date);
+    if (expected.time !== undefined) assert.equal(parsed.time, expected.time);
+    if (expected.balance !== undefined) assert.equal(parsed.balance, expected.balance);
+  });
+}
+
+test("parseBankSms: ignores messages that are not card operations", () => {
+  assert.equal(parseBankSms("Salom, ertaga uchrashamizmi?"), null);
+  assert.equal(parseBankSms("HUMO: Parolingizni hech kimga aytmang"), null);
+});
+
+test("guessSmsCategory: known chains map to the user's categories", () => {
+  const categories = ["Xarid", "Ovqat", "Yo'l", "To'lov"];
+  assert.equal(guessSmsCategory("KORZINKA TASHKENT", categories), "Xarid");
+  assert.equal(guessSmsCategory("EVOS CHILONZOR", categories), "Ovqat");
+  assert.equal(guessSmsCategory("YANDEX GO", categories), "Yo'l");
+  assert.equal(guessSmsCategory("YANDEX GO", ["Ovqat"]), null);
+  assert.equal(guessSmsCategory(null, categories), null);
+});
@@ -0,0 +1,167 @@
+// Parses card notifications from Uzbek processors (HUMO, Uzcard) as they arrive by SMS or from
+// the banks' Telegram bots, e.g. "HUMOCARD *1234: Pokupka 45 000.00 UZS KORZINKA 12.10.26 14:32".
+// Each bank is a template; the shared engine below reads the operation, amount, card, time and
+// balance, and a template only has to say how to recognise its messages and find the merchant.
+
+import { normalizeApostrophes, detectCategory } from "./uz-parser";
+import type { CurrencyCode } from "./currency";
+
+export interface BankSmsTemplate {
+  bank: string;
+  detect: RegExp;
+  // Group 1 is the merchant; tried when the message has no "📍 merchant" line
+  merchant?: RegExp;
+}
+
+export interface ParsedBankSms {
+  bank: string;
+  kind: "expense" | "income";
+  amount: number; // in `currency`
+  currency: CurrencyCode;
+  merchant: string | null;
+  cardLast4: string | null;
+  date: string | null; // YYYY-MM-DD, Uzbekistan time
+  time: string | null; // HH:MM
+  balance: number | null;
+}
+
+const CURRENCY_WORDS = "UZS|USD|EUR|RUB|so'm|sum|сум";
+const NUMBER = "\\d{1,3}(?:[ \\u00a0.,]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?";
+const DATE = "(\\d{2})[./-](\\d{2})[./-](\\d{4}|\\d{2})";
+const TIME = "(\\d{1,2}):(\\d{2})";
+
+export const BANK_SMS_TEMPLATES: BankSmsTemplate[] = [
+  {
+    bank: "HUMO",
+    detect: /\bHUMO/i,
+    // "... 45 000.00 UZS KORZINKA TASHKENT 12.10.26 14:32"; the date may be missing or on the next line
+    merchant: new RegExp(`(?:${CURRENCY_WORDS})\\s+([^\\n]+?)(?:\\s+${DATE}|\\s*(?:\\n|$))`, "i"),
+  },
+  {
+    bank: "Uzcard",
+    detect: /\bUZCARD|CardXabar/i,
+    // "UZCARD: Oplata 45000.00 UZS; KORZINKA; karta ***1234; ..."
+    merchant: new RegExp(`(?:${CURRENCY_WORDS})\\s*[;,]\\s*([^;,\\n]+)`, "i"),
+  },
+  {
+    // Other banks' card notifications: anything with a masked card number
+    bank: "Karta",
+    detect: /\*{1,4}\s?\d{4}\b/,
+  },
+];
+
+const EXPENSE_WORDS = ["pokupka", "oplata", "spisanie", "snyatie", "покупка", "оплата", "списание", "снятие", "xarid", "to'lov", "tolov", "yechib olish", "perevod s karty"];
+const INCOME_WORDS = ["popolnenie", "zachislenie", "пополнение", "зачисление", "to'ldirish", "tushum", "kirim", "perevod na kartu"];
+
+// Chains people forward most often, mapped to the default categories
+const MERCHANT_CATEGORY_HINTS: Record<string, string> = {
+  korzinka: "Xarid",
+  makro: "Xarid",
+  havas: "Xarid",
+  "baraka market": "Xarid",
+  carrefour: "Xarid",
+  evos: "Ovqat",
+  kfc: "Ovqat",
+  oqtepa: "Ovqat",
+  bellissimo: "Ovqat",
+  "les ailes": "Ovqat",
+  "yandex go": "Yo'l",
+  "yandex.taxi": "Yo'l",
+  mytaxi: "Yo'l",
+  uzbekistan_airways: "Yo'l",
+  "uzbekistan airways": "Yo'l",
+  beeline: "To'lov",
+  ucell: "To'lov",
+  mobiuz: "To'lov",
+  uzmobile: "To'lov",
+  uztelecom: "To'lov",
+  hududgaz: "To'lov",
+  "hududiy elektr": "To'lov",
+  apteka: "Sog'liq",
+  dorixona: "Sog'liq",
+};
+
+function currencyOf(word: string): CurrencyCode {
+  const upper = word.toUpperCase();
+  if (upper === "USD" || upper === "EUR" || upper === "RUB") return upper;
+  return "UZS";
+}
+
+// "45 000.00", "45.000,00", "45,000.00" and "45000" are all 45000; a separator followed
+// by one or two digits at the end is the decimal point
+export function parseSmsNumber(raw: string): number | null {
+  const compact = raw.replace(/[\s ]/g, "");
+  const decimal = compact.match(/^(.*?)[.,](\d{1,2})$/);
+  const whole = (decimal ? decimal[1] : compact).replace(/[.,]/g, "");
+  const value = parseFloat(decimal ? `${whole}.${decimal[2]}` : whole);
+  return isNaN(value) ? null : value;
+}
+
+function findKind(text: string): ParsedBankSms["kind"] | null {
+  const lower = text.toLowerCase();
+  if (EXPENSE_WORDS.some(word => lower.includes(word)) || /(^|\n)\s*➖/.test(text)) return "expense";
+  if (INCOME_WORDS.some(word => lower.includes(word)) || /(^|\n)\s*➕/.test(text)) return "income";
+  return null;
+}
+
+function findBalance(text: string): number | null {
+  const match = text.match(new RegExp(`(?:dostupno|ostatok|balans|qoldiq|доступно|остаток|баланс|💰|💵)\\s*:?\\s*(${NUMBER})\\s*(?:${CURRENCY_WORDS})`, "i"));
+  return match ? parseSmsNumber(match[1]) : null;
+}
+
+function findDateTime(text: string): { date: string | null; time: string | null } {
+  const date = text.match(new RegExp(DATE));
+  const time = text.match(new RegExp(`(?:^|[^\\d])${TIME}(?!\\d)`));
+
+  let isoDate: string | null = null;
+  if (date && parseInt(date[2]) >= 1 && parseInt(date[2]) <= 12) {
+    const year = date[3].length === 2 ? `20${date[3]}` : date[3];
+    isoDate = `${year}-${date[2]}-${date[1]}`;
+  }
+  const hhmm = time && parseInt(time[1]) < 24 ? `${time[1].padStart(2, "0")}:${time[2]}` : null;
+  return { date: isoDate, time: hhmm };
+}
+
+function cleanMerchant(merchant: string | undefined): string | null {
+  const cleaned = merchant?.replace(/\s+/g, " ").replace(/^[\s:;,.…-]+|[\s:;,-]+$/g, "");
+  // Without a merchant the templates land on the next field: a date, a time or "***1234"
+  return cleaned && /[a-zа-яё]/i.test(cleaned) ? cleaned : null;
+}
+
+export function parseBankSms(input: string, templates: BankSmsTemplate[] = BANK_SMS_TEMPLATES): ParsedBankSms | null {
+  const text = normalizeApostrophes(input);
+  const template = templates.find(t => t.detect.test(text));
+  if (!template) return null;
+
+  const kind = findKind(text);
+  if (!kind) return null;
+
+  // The first amount with a currency is the operation; the balance, if any, comes after it
+  const amountMatch = text.match(new RegExp(`(${NUMBER})\\s*(${CURRENCY_WORDS})`, "i"));
+  const amount = amountMatch ? parseSmsNumber(amountMatch[1]) : null;
+  if (!amount || amount <= 0) return null;
+
+  const pinLine = text.match(/📍\s*(.+)/);
+  const merchant = cleanMerchant(pinLine?.[1] ?? (template.merchant ? text.match(template.merchant)?.[1] : undefined));
+  const card = text.match(/\*{1,4}\s?(\d{4})\b/);
+
+  return {
+    bank: template.bank,
+    kind,
+    amount,
+    currency: currencyOf(amountMatch![2]),
+    merchant,
+    cardLast4: card ? card[1] : null,
+    ...findDateTime(text),
+    balance: findBalance(text),
+  };
+}
+
+// A category from the user's list for the merchant, or null to let them pick
+export function guessSmsCategory(merchant: string | null, categories: string[]): string | null {
+  if (!merchant) return null;
+  const lower = merchant.toLowerCase();
+  const hinted = Object.entries(MERCHANT_CATEGORY_HINTS).find(([name]) => lower.includes(name))?.[1];
+  const guess = hinted ?? detectCategory(merchant);
+  return guess && categories.includes(guess) ? guess : null;
+}
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeBudgetStatus, getBudgetPeriod, isForecastAlertDue, type BudgetSpending } from "./budget";
+
+const monthly = { category: null, limitAmount: 1_000_000, period: "monthly", startDay: 1, periodDays: null, anchorDate: null, rollover: false };
+
+test("getBudgetPeriod: a cycle on the 10th runs across the new year", () => {
+  const limit = { ...monthly, startDay: 10 };
+  assert.deepEqual(getBudgetPeriod(limit, "2026-12-15"), { start: "2026-12-10", end: "2027-01-09" });
+  assert.deepEqual(getBudgetPeriod(limit, "2027-01-05"), { start: "2026-12-10", end: "2027-01-09" });
+  assert.deepEqual(getBudgetPeriod(limit, "2027-01-10"), { start: "2027-01-10", end: "2027-02-09" });
+});
+
+test("getBudgetPeriod: a start day past the end of a short month falls back to the 28th", () => {
+  const limit = { ...monthly, startDay: 31 };
+  assert.deepEqual(getBudgetPeriod(limit, "2026-02-27"), { start: "2026-01-28", end: "2026-02-27" });
+  assert.deepEqual(getBudgetPeriod(limit, "2026-02-28"), { start: "2026-02-28", end: "2026-03-27" });
+  assert.deepEqual(getBudgetPeriod(limit, "2026-04-30"), { start: "2026-04-28", end: "2026-05-27" });
+});
+
+const spend = (date: string, amount: number): BudgetSpending => ({ date, category: "Ovqat", amount });
+
+test("computeBudgetStatus: unspent amounts roll over, overspending doesn't eat into later periods", () => {
+  const limit = { ...monthly, rollover: true };
+
+  const underspent = [spend("2026-08-10", 600_000), spend("2026-09-10", 900_000)];
+  const status = computeBudgetStatus(limit, underspent, "2026-10-15", "2026-08-01");
+  assert.equal(status.carryOver, 500_000);
+  assert.equal(status.limit, 1_500_000);
+
+  const overspentLast = [spend("2026-08-10", 600_000), spend("2026-09-10", 1_500_000)];
+  assert.equal(computeBudgetStatus(limit, overspentLast, "2026-10-15", "2026-08-01").carryOver, 0);
+
+  const overspentFirst = [spend("2026-08-10", 1_500_000), spend("2026-09-10", 700_000)];
+  assert.equal(computeBudgetStatus(limit, overspentFirst, "2026-10-15", "2026-08-01").carryOver, 300_000);
+});
+
+test("computeBudgetStatus: rollover starts with the first full period after the limit was created", () => {
+  const spending = [spend("2026-08-20", 100_000), spend("2026-09-10", 900_000)];
+  assert.equal(computeBudgetStatus({ ...monthly, rollover: true }, spending, "2026-10-15", "2026-08-15").carryOver, 100_000);
+  assert.equal(computeBudgetStatus(monthly, spending, "2026-10-15", "2026-08-15").carryOver, 0);
+});
+
+test("isForecastAlertDue: fires once per period", () => {
+  const limit = { ...monthly, limitAmount: 3_000_000 };
+  const daily = (month: string, days: number) =>
+    Array.from({ length: days }, (_, i) => spend(`${month}-${String(i + 1).padStart(2, "0")}`, 150_000));
+
+  const october = computeBudgetStatus(limit, daily("2026-10", 10), "2026-10-10", "2026-09-01");
+  assert.equal(october.overrunDate, "2026-10-20");
+  assert.equal(isForecastAlertDue({ forecastAlertPeriod: null }, october), true);
+
+  // Sent on the 10th; the next day is still over pace but already warned about
+  const nextDay = computeBudgetStatus(limit, daily("2026-10", 11), "2026-10-11", "2026-09-01");
+  assert.equal(isForecastAlertDue({ forecastAlertPeriod: october.period.start }, nextDay), false);
+
+  const november = computeBudgetStatus(limit, daily("2026-11", 10), "2026-11-10", "2026-09-01");
+  assert.equal(isForecastAlertDue({ forecastAlertPeriod: october.period.start }, november), true);
+});
+
+test("isForecastAlertDue: stays quiet in the first days of a period", () => {
+  const limit = { ...monthly, limitAmount: 3_000_000 };
+  const status = computeBudgetStatus(limit, [spend("2026-10-02", 1_000_000)], "2026-10-02", "2026-09-01");
+  assert.ok(status.overrunDate);
+  assert.equal(isForecastAlertDue({ forecastAlertPeriod: null }, status), false);
+});
@@ -0,0 +1,149 @@
+// Budget periods and where a limit stands within its current one. Dates are
+// "YYYY-MM-DD" strings in Uzbekistan local time, as in shared/recurrence.ts,
+// so the bot, the scheduler and the statement agree on period boundaries.
+
+import { addDays } from "./dates";
+import type { BudgetLimit } from "./schema";
+
+export const BUDGET_PERIODS = ["weekly", "monthly", "custom"] as const;
+export type BudgetPeriod = typeof BUDGET_PERIODS[number];
+
+export const MAX_BUDGET_START_DAY = 28; // every month has it
+export const MIN_CUSTOM_PERIOD_DAYS = 2;
+export const MAX_CUSTOM_PERIOD_DAYS = 92;
+
+export const OVERALL_BUDGET_LABEL = "Umumiy byudjet";
+
+type Limit = Pick<BudgetLimit, "category" | "limitAmount" | "period" | "startDay" | "periodDays" | "anchorDate" | "rollover">;
+
+// Inclusive
+export interface BudgetPeriodRange {
+  start: string;
+  end: string;
+}
+
+export interface BudgetSpending {
+  date: string; // YYYY-MM-DD
+  category: string;
+  amount: number; // in the limit's currency
+}
+
+export interface BudgetStatus {
+  period: BudgetPeriodRange;
+  carryOver: number; // unused amount brought from earlier periods
+  limit: number; // limitAmount + carryOver
+  spent: number;
+  remaining: number;
+  percent: number;
+  daysElapsed: number; // including today
+  daysTotal: number;
+  projected: number; // spending by period end at the current daily pace
+  overrunDate: string | null; // day the pace crosses the limit, if that's before period end
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function monthCycleStart(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.toISOString().split("T")[0];
+}
+
+export function getBudgetLabel(limit: Pick<BudgetLimit, "category">): string {
+  return limit.category ?? OVERALL_BUDGET_LABEL;
+}
+
+export function getBudgetPeriod(limit: Limit, date: string): BudgetPeriodRange {
+  const [year, month, day] = date.split("-").map(Number);
+
+  if (limit.period === "weekly") {
+    // Weeks run Monday to Sunday
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    const start = addDays(date, -((weekday + 6) % 7));
+    return { start, end: addDays(start, 6) };
+  }
+
+  if (limit.period === "custom" && limit.periodDays && limit.anchorDate) {
+    const offset = daysBetween(limit.anchorDate, date);
+    const start = addDays(limit.anchorDate, Math.floor(offset / limit.periodDays) * limit.periodDays);
+    return { start, end: addDays(start, limit.periodDays - 1) };
+  }
+
+  // Monthly, from `startDay` to the day before it next month (e.g. a salary cycle on the 10th)
+  const startDay = Math.min(Math.max(limit.startDay || 1, 1), MAX_BUDGET_START_DAY);
+  const startMonth = day >= startDay ? month - 1 : month - 2;
+  const start = monthCycleStart(year, startMonth, startDay);
+  return { start, end: addDays(monthCycleStart(year, startMonth + 1, startDay), -1) };
+}
+
+export function describeBudgetPeriod(limit: Pick<BudgetLimit, "period" | "startDay" | "periodDays">): string {
+  if (limit.period === "weekly") return "Haftalik";
+  if (limit.period === "custom") return `Har ${limit.periodDays} kunda`;
+  return limit.startDay > 1 ? `Oylik, har oyning ${limit.startDay}-sanasidan` : "Oylik";
+}
+
+// "10.10 – 09.11"
+export function formatBudgetPeriod(period: BudgetPeriodRange): string {
+  const short = (date: string) => `${date.slice(8, 10)}.${date.slice(5, 7)}`;
+  return `${short(period.start)} – ${short(period.end)}`;
+}
+
+function spentIn(limit: Limit, spending: BudgetSpending[], period: BudgetPeriodRange): number {
+  return spending
+    .filter(s => s.date >= period.start && s.date <= period.end && (limit.category === null || s.category === limit.category))
+    .reduce((sum, s) => sum + s.amount, 0);
+}
+
+// `since` is the day the limit was created: rollover only counts the full periods after it.
+// Overspending doesn't eat into later periods; only what was left unused moves forward.
+export function computeBudgetStatus(limit: Limit, spending: BudgetSpending[], today: string, since: string): BudgetStatus {
+  const period = getBudgetPeriod(limit, today);
+
+  let carryOver = 0;
+  if (limit.rollover) {
+    let past = getBudgetPeriod(limit, since);
+    if (past.start < since) past = getBudgetPeriod(limit, addDays(past.end, 1));
+    while (past.start < period.start) {
+      carryOver = Math.max(0, carryOver + limit.limitAmount - spentIn(limit, spending, past));
+      past = getBudgetPeriod(limit, addDays(past.end, 1));
+    }
+  }
+
+  const total = limit.limitAmount + carryOver;
+  const spent = spentIn(limit, spending, period);
+  const daysTotal = daysBetween(period.start, period.end) + 1;
+  const daysElapsed = daysBetween(period.start, today) + 1;
+  const pace = spent / daysElapsed;
+
+  let overrunDate: string | null = null;
+  if (pace > 0 && spent < total) {
+    const date = addDays(period.start, Math.ceil(total / pace) - 1);
+    if (date <= period.end) overrunDate = date;
+  }
+
+  return {
+    period,
+    carryOver,
+    limit: total,
+    spent,
+    remaining: total - spent,
+    percent: total > 0 ? Math.round((spent / total) * 100) : 0,
+    daysElapsed,
+    daysTotal,
+    projected: Math.round(pace * daysTotal),
+    overrunDate,
+  };
+}
+
+// A few days of spending are needed before the pace means anything
+export function shouldWarnAboutPace(status: BudgetStatus): boolean {
+  return status.overrunDate !== null && status.daysElapsed >= Math.max(2, Math.ceil(status.daysTotal / 5));
+}
+
+// The scheduler stores the start of the period it warned for, so the alert fires once per period
+export function isForecastAlertDue(limit: Pick<BudgetLimit, "forecastAlertPeriod">, status: BudgetStatus): boolean {
+  return shouldWarnAboutPace(status) && limit.forecastAlertPeriod !== status.period.start;
+}
@@ -0,0 +1,62 @@
+// Promo campaigns: time-boxed free access, such as Ramadan, that admins set up in the bot
+// instead of a hard-coded end date. A campaign unlocks all premium features or a chosen
+// few, for everyone or for one audience.
+
+export const CAMPAIGN_AUDIENCES = ["all", "new", "expired"] as const;
+export type CampaignAudience = typeof CAMPAIGN_AUDIENCES[number];
+
+export const CAMPAIGN_AUDIENCE_LABELS: Record<CampaignAudience, string> = {
+  all: "Barcha foydalanuvchilar",
+  new: "Yangi foydalanuvchilar",
+  expired: "Obunasi tugaganlar",
+};
+
+// What a campaign can unlock; each premium bot feature checks access under one of these
+export const PROMO_FEATURES = ["tasks", "expenses", "budget", "goals", "focus", "habits", "prayer", "reports"] as const;
+export type PromoFeature = typeof PROMO_FEATURES[number];
+
+export const PROMO_FEATURE_LABELS: Record<PromoFeature, string> = {
+  tasks: "📋 Rejalar",
+  expenses: "💰 Xarajat va daromadlar",
+  budget: "💳 Byudjet",
+  goals: "🎯 Maqsadlar",
+  focus: "⏱ Fokus",
+  habits: "🔥 Odatlar",
+  prayer: "🕌 Ibodat",
+  reports: "📊 Statistika va hisobotlar",
+};
+
+export const MAX_CAMPAIGN_NAME_LENGTH = 40;
+export const MAX_CAMPAIGN_BANNER_LENGTH = 500;
+
+export function isCampaignAudience(value: unknown): value is CampaignAudience {
+  return typeof value === "string" && (CAMPAIGN_AUDIENCES as readonly string[]).includes(value);
+}
+
+export function isPromoFeature(value: unknown): value is PromoFeature {
+  return typeof value === "string" && (PROMO_FEATURES as readonly string[]).includes(value);
+}
+
+// "tasks,prayer" -> ["tasks", "prayer"]; unknown keys are dropped
+export function parseCampaignFeatures(features: string | null | undefined): PromoFeature[] {
+  return (features ?? "").split(",").map(f => f.trim()).filter(isPromoFeature);
+}
+
+// Nothing or everything selected both mean the whole bot is free, stored as null
+export function serializeCampaignFeatures(features: PromoFeature[]): string | null {
+  const selected = PROMO_FEATURES.filter(f => features.includes(f));
+  return selected.length === 0 || selected.length === PROMO_FEATURES.length ? null : selected.join(",");
+}
+
+// An empty or missing list means the campaign unlocks everything
+export function campaignUnlocks(features: string | null | undefined, feature?: PromoFeature): boolean {
+  const unlocked = parseCampaignFeatures(features);
+  if (unlocked.length === 0) return true;
+  return feature !== undefined && unlocked.includes(feature);
+}
+
+export function describeCampaignFeatures(features: string | null | undefined): string {
+  const unlocked = parseCampaignFeatures(features);
+  if (unlocked.length === 0) return "Barcha imkoniyatlar";
+  return unlocked.map(f => PROMO_FEATURE_LABELS[f]).join(", ");
+}
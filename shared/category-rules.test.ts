@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseRulePattern, findMatchingRule, MAX_RULE_PATTERN_LENGTH } from "./category-rules";
+
+const base = { field: "any", minAmount: null, maxAmount: null };
+
+test("parseRulePattern: keywords, wildcards and regexes", () => {
+  assert.deepEqual(parseRulePattern("korzinka"), { pattern: "korzinka", matchType: "keyword" });
+  assert.deepEqual(parseRulePattern("yandex*"), { pattern: "yandex*", matchType: "wildcard" });
+  assert.deepEqual(parseRulePattern("*pizza*"), { pattern: "*pizza*", matchType: "wildcard" });
+  assert.equal(parseRulePattern("/^yandex/"), null);
+  assert.equal(parseRulePattern("   "), null);
+  assert.equal(parseRulePattern("a".repeat(MAX_RULE_PATTERN_LENGTH + 1)), null);
+});
+
+test("findMatchingRule: wildcards match the whole text, keywords the start of a word", () => {
+  const rules = [
+    { ...base, pattern: "yandex*", matchType: "wildcard", category: "Yo'l" },
+    { ...base, pattern: "*pizza*", matchType: "wildcard", category: "Ovqat" },
+    { ...base, pattern: "uy", matchType: "keyword", category: "Uy-joy" },
+  ];
+  assert.equal(findMatchingRule(rules, { description: "YANDEX GO", amount: 1000 })?.category, "Yo'l");
+  assert.equal(findMatchingRule(rules, { description: "taxi", merchant: "Yandex Go", amount: 1000 })?.category, "Yo'l");
+  assert.equal(findMatchingRule(rules, { description: "my yandex", amount: 1000 }), null);
+  assert.equal(findMatchingRule(rules, { description: "Bellissimo Pizza Chilonzor", amount: 1000 })?.category, "Ovqat");
+  assert.equal(findMatchingRule(rules, { description: "uy ijarasi", amount: 1000 })?.category, "Uy-joy");
+  assert.equal(findMatchingRule(rules, { description: "buyum", amount: 1000 }), null);
+});
+
+test("findMatchingRule: a pattern that backtracks as a regex returns at once", () => {
+  const pattern = "a*a*a*a*a*a*a*a*a*a*a*a*b";
+  const parsed = parseRulePattern(pattern);
+  assert.deepEqual(parsed, { pattern, matchType: "wildcard" });
+  const rules = [{ ...base, ...parsed!, category: "Boshqa" }];
+
+  const started = Date.now();
+  for (const length of [20, 30, 5000]) {
+    assert.equal(findMatchingRule(rules, { description: "a".repeat(length), amount: 1000 }), null);
+  }
+  assert.ok(Date.now() - started < 500, "matching took too long");
+});
+
+test("findMatchingRule: regex rules saved earlier are no longer run", () => {
+  const rules = [
+    { ...base, pattern: "(a+)+$", matchType: "regex", category: "Boshqa" },
+    { ...base, pattern: "aaa", matchType: "keyword", category: "Xarid" },
+  ];
+  assert.equal(findMatchingRule(rules, { description: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!", amount: 1000 })?.category, "Xarid");
+});
+
+test("findMatchingRule: only the start of a long description is matched", () => {
+  const rules = [{ ...base, pattern: "*oxiri", matchType: "wildcard", category: "Boshqa" }];
+  assert.equal(findMatchingRule(rules, { description: `${"x".repeat(300)} oxiri`, amount: 1000 }), null);
+  assert.equal(findMatchingRule(rules, { description: "kun oxiri", amount: 1000 })?.category, "Boshqa");
+});
@@ -0,0 +1,185 @@
+// Per-user categorisation: explicit rules first, then what the user's own history suggests.
+// Shared so the bot, the card-notification import and the dashboard pick the same category.
+
+import { normalizeApostrophes, extractAmount } from "./uz-parser";
+import { formatMoney } from "./currency";
+import type { CategoryRule } from "./schema";
+
+export const RULE_FIELDS = ["any", "description", "merchant"] as const;
+export type RuleField = typeof RULE_FIELDS[number];
+
+type Rule = Pick<CategoryRule, "pattern" | "matchType" | "field" | "minAmount" | "maxAmount" | "category">;
+
+export interface CategorizationInput {
+  description: string;
+  merchant?: string | null; // set for imported card notifications
+  amount: number; // so'm
+}
+
+function normalize(text: string): string {
+  return normalizeApostrophes(text).toLowerCase().trim();
+}
+
+export const RULE_MATCH_TYPES = ["keyword", "wildcard"] as const;
+export type RuleMatchType = typeof RULE_MATCH_TYPES[number];
+
+export const MAX_RULE_PATTERN_LENGTH = 100;
+
+// Rules run on the server for every expense, SMS and CSV row, so matching has to stay cheap
+// whatever the user typed: descriptions are cut to this length first
+export const MAX_RULE_TEXT_LENGTH = 200;
+
+// "*" stands for any run of characters and "?" for exactly one; the whole text has to match.
+// Only the last "*" is ever revisited, so even "a*a*a*b" costs at most pattern × text steps.
+function wildcardMatches(pattern: string, text: string): boolean {
+  let p = 0;
+  let t = 0;
+  let star = -1;
+  let resume = 0;
+  while (t < text.length) {
+    if (p < pattern.length && (pattern[p] === "?" || pattern[p] === text[t])) {
+      p++;
+      t++;
+    } else if (p < pattern.length && pattern[p] === "*") {
+      star = p++;
+      resume = t;
+    } else if (star !== -1) {
+      p = star + 1;
+      t = ++resume;
+    } else {
+      return false;
+    }
+  }
+  while (pattern[p] === "*") p++;
+  return p === pattern.length;
+}
+
+function textMatches(rule: Rule, text: string): boolean {
+  if (!rule.pattern) return true;
+  const subject = normalize(text.slice(0, MAX_RULE_TEXT_LENGTH));
+  if (rule.matchType === "wildcard") {
+    return wildcardMatches(normalize(rule.pattern), subject);
+  }
+  // Regex rules saved before regexes were dropped are never run
+  if (rule.matchType !== "keyword") return false;
+  // Keywords match at the start of a word, so "uy" doesn't fire on "buyum"
+  const keyword = normalize(rule.pattern).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}])${keyword}`, "u").test(subject);
+}
+
+export function ruleMatches(rule: Rule, input: CategorizationInput): boolean {
+  if (rule.minAmount != null && input.amount < rule.minAmount) return false;
+  if (rule.maxAmount != null && input.amount > rule.maxAmount) return false;
+
+  const texts = rule.field === "description" ? [input.description]
+    : rule.field === "merchant" ? [input.merchant ?? ""]
+    : [input.description, input.merchant ?? ""];
+  return texts.some(text => textMatches(rule, text));
+}
+
+// Rules are checked in the order given; the first match wins
+export function findMatchingRule<R extends Rule>(rules: R[], input: CategorizationInput): R | null {
+  return rules.find(rule => ruleMatches(rule, input)) ?? null;
+}
+
+function firstWord(description: string): string | null {
+  const word = normalize(description).split(new RegExp("[^\\p{L}']+", "u")).find(w => w.length >= 3);
+  return word ?? null;
+}
+
+type HistoryEntry = { description: string; category: string };
+
+// The category the user chose most often for this description before: the same text first,
+// otherwise the same first word (at least twice, so one odd entry doesn't stick)
+export function suggestFromHistory(history: HistoryEntry[], description: string): string | null {
+  const mostCommon = (entries: HistoryEntry[], minCount: number) => {
+    const counts = new Map<string, number>();
+    entries.forEach(e => counts.set(e.category, (counts.get(e.category) ?? 0) + 1));
+    const [best] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+    return best && best[1] >= minCount ? best[0] : null;
+  };
+
+  const text = normalize(description);
+  const exact = mostCommon(history.filter(e => normalize(e.description) === text), 1);
+  if (exact) return exact;
+
+  const word = firstWord(description);
+  return word ? mostCommon(history.filter(e => firstWord(e.description) === word), 2) : null;
+}
+
+export interface LearnedRule {
+  keyword: string;
+  category: string;
+  count: number;
+}
+
+// Words the user keeps filing under the same category and no rule covers yet; offered
+// as one-tap rules
+export function learnRuleSuggestions(history: HistoryEntry[], rules: Rule[], limit = 5): LearnedRule[] {
+  const byWord = new Map<string, Map<string, number>>();
+  history.forEach(e => {
+    const word = firstWord(e.description);
+    if (!word) return;
+    const counts = byWord.get(word) ?? new Map<string, number>();
+    counts.set(e.category, (counts.get(e.category) ?? 0) + 1);
+    byWord.set(word, counts);
+  });
+
+  const suggestions: LearnedRule[] = [];
+  byWord.forEach((counts, keyword) => {
+    const total = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+    const [category, count] = Array.from(counts).sort((a, b) => b[1] - a[1])[0];
+    const covered = rules.some(rule => rule.pattern && textMatches(rule, keyword));
+    if (count >= 3 && count / total >= 0.8 && !covered) {
+      suggestions.push({ keyword, category, count });
+    }
+  });
+
+  return suggestions.sort((a, b) => b.count - a.count).slice(0, limit);
+}
+
+// "yandex*" (starts with) or "*pizza*" (contains) is a wildcard pattern, anything else a keyword.
+// "/.../" regexes aren't accepted: a user regex could stall the server for everyone.
+export function parseRulePattern(text: string): { pattern: string; matchType: RuleMatchType } | null {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed.length > MAX_RULE_PATTERN_LENGTH || /^\/.+\/$/.test(trimmed)) return null;
+  return { pattern: trimmed, matchType: /[*?]/.test(trimmed) ? "wildcard" : "keyword" };
+}
+
+// "10000-50000", "10k-50k", ">100000", "<20 ming"; so'm
+export function parseAmountRange(text: string): { minAmount: number | null; maxAmount: number | null } | null {
+  const trimmed = text.trim();
+  const amountOf = (part: string) => extractAmount(part)?.value ?? null;
+
+  if (trimmed.startsWith(">")) {
+    const min = amountOf(trimmed.slice(1));
+    return min ? { minAmount: min, maxAmount: null } : null;
+  }
+  if (trimmed.startsWith("<")) {
+    const max = amountOf(trimmed.slice(1));
+    return max ? { minAmount: null, maxAmount: max } : null;
+  }
+
+  const range = trimmed.match(/^(.+?)\s*-\s*(.+)$/);
+  if (!range) return null;
+  const min = amountOf(range[1]);
+  const max = amountOf(range[2]);
+  return min && max && min <= max ? { minAmount: min, maxAmount: max } : null;
+}
+
+export function describeRule(rule: Rule): string {
+  const parts: string[] = [];
+  if (rule.pattern) {
+    const where = rule.field === "merchant" ? " (do'kon)" : rule.field === "description" ? " (izoh)" : "";
+    // Old regex rules stay listed so the user can see and delete them
+    parts.push(rule.matchType === "regex" ? `/${rule.pattern}/${where} (endi ishlamaydi)` : `"${rule.pattern}"${where}`);
+  }
+  if (rule.minAmount != null && rule.maxAmount != null) {
+    parts.push(`${formatMoney(rule.minAmount)} – ${formatMoney(rule.maxAmount)}`);
+  } else if (rule.minAmount != null) {
+    parts.push(`> ${formatMoney(rule.minAmount)}`);
+  } else if (rule.maxAmount != null) {
+    parts.push(`< ${formatMoney(rule.maxAmount)}`);
+  }
+  return `${parts.join(", ") || "har qanday"} → ${rule.category}`;
+}
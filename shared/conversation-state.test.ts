@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConversationStateMachine, MemoryStateStore, restoreState, type UserState } from "./conversation-state";
+
+const expense: UserState = { action: "add_expense", step: "category", data: { amount: 45000, description: "Korzinka" } };
+
+test("MemoryStateStore: keeps a state until it expires or is deleted", async () => {
+  const store = new MemoryStateStore();
+  await store.set(1, expense, new Date(Date.now() + 60_000));
+  assert.deepEqual(await store.get(1), expense);
+  assert.equal(await store.get(2), undefined);
+
+  await store.delete(1);
+  assert.equal(await store.get(1), undefined);
+
+  await store.set(1, expense, new Date(Date.now() - 1));
+  assert.equal(await store.get(1), undefined);
+});
+
+test("MemoryStateStore: purgeExpired drops only the expired states", async () => {
+  const store = new MemoryStateStore();
+  await store.set(1, expense, new Date(Date.now() - 1));
+  await store.set(2, expense, new Date(Date.now() - 1));
+  await store.set(3, expense, new Date(Date.now() + 60_000));
+  assert.equal(await store.purgeExpired(), 2);
+  assert.deepEqual(await store.get(3), expense);
+});
+
+test("ConversationStateMachine: rejects a step the flow doesn't have", async () => {
+  const states = new ConversationStateMachine(new MemoryStateStore());
+  const wrongStep = { action: "add_expense", step: "priority" } as unknown as UserState;
+  await assert.rejects(states.set(1, wrongStep), /Invalid conversation step "priority" for action "add_expense"/);
+  const unknownFlow = { action: "toString", step: "input" } as unknown as UserState;
+  await assert.rejects(states.set(1, unknownFlow), /Invalid conversation step/);
+  assert.equal(await states.get(1), undefined);
+});
+
+test("ConversationStateMachine: states expire after the TTL", async () => {
+  const live = new ConversationStateMachine(new MemoryStateStore(), 60_000);
+  await live.set(1, expense);
+  assert.deepEqual(await live.get(1), expense);
+
+  const expired = new ConversationStateMachine(new MemoryStateStore(), 0);
+  await expired.set(1, expense);
+  assert.equal(await expired.get(1), undefined);
+  assert.equal(await expired.purgeExpired(), 0);
+});
+
+test("restoreState: revives dates and drops states that no longer fit a flow", () => {
+  const restored = restoreState({
+    action: "add_task",
+    step: "reminder",
+    data: { title: "Hisobot", reminderTime: "2026-10-20T04:05:00.000Z", daysOfWeek: [1, 3] },
+  });
+  assert.ok(restored?.action === "add_task");
+  assert.ok(restored.data?.reminderTime instanceof Date);
+  assert.deepEqual(restored.data?.daysOfWeek, [1, 3]);
+
+  assert.deepEqual(restoreState({ action: "export_range", step: "dates", data: null }), { action: "export_range", step: "dates", data: undefined });
+  assert.equal(restoreState({ action: "add_task", step: "dates", data: null }), undefined);
+  assert.equal(restoreState({ action: "removed_flow", step: "input", data: null }), undefined);
+  assert.equal(restoreState({ action: "constructor", step: "input", data: null }), undefined);
+  assert.equal(restoreState({ action: "add_expense", step: "input", data: "oops" }), undefined);
+});
@@ -0,0 +1,202 @@
+import type { ConvertedAmount, CurrencyCode } from "./currency";
+import type { PrayerReminder } from "./prayer-reminder";
+import type { GoalType } from "./goals";
+import type { BudgetPeriod } from "./budget";
+import type { HabitFrequency } from "./habits";
+import type { ColumnMapping } from "./csv";
+import type { RuleMatchType } from "./category-rules";
+
+// Every multi-step bot flow and the steps it may be in. Setting a step that
+// isn't listed for the flow's action is a programming error and throws.
+export const CONVERSATION_FLOWS = {
+  add_task: ["title", "priority", "recurrence", "recurrence_days", "recurrence_interval", "reminder", "reminder_custom", "saving"],
+  add_expense: ["input", "category", "account"],
+  add_income: ["input", "source", "account"],
+  add_account: ["type", "name", "balance"],
+  add_transfer: ["from", "to", "amount"],
+  add_category: ["name", "icon"],
+  add_rule: ["pattern", "amount", "category"],
+  export_range: ["dates"],
+  import_csv: ["confirm"],
+  add_budget: ["category", "amount", "period", "start_day", "custom_days", "rollover"],
+  add_goal: ["title", "type", "filter", "target", "period", "amount", "deadline"],
+  goal_contribution: ["amount"],
+  add_habit: ["title", "frequency", "target", "reminder", "time"],
+  payment: ["plan_selected", "awaiting_name", "awaiting_phone", "awaiting_receipt"],
+  payme_receipt: ["awaiting_receipt"],
+  reject_payment: ["awaiting_reason"],
+  admin_broadcast: ["message", "confirm"],
+  admin_set_card: ["number"],
+  admin_set_holder: ["name"],
+  admin_add_admin: ["user_id"],
+  admin_campaign: ["name", "period", "banner"],
+  admin_campaign_edit: ["value"],
+} as const;
+
+// What each flow carries between steps. Optional fields fill in as the user answers;
+// the rest are set when the flow starts
+type EntryDraft = Partial<ConvertedAmount> & { description?: string; createdAt?: Date | null; category?: string; ruleLabel?: string };
+
+export interface ConversationData {
+  add_task: {
+    title?: string;
+    priority?: string;
+    reminderTime?: Date | null;
+    reminderClock?: string | null;
+    prayerReminder?: PrayerReminder | null;
+    daysOfWeek?: number[];
+  };
+  add_expense: EntryDraft;
+  add_income: EntryDraft & { source?: string };
+  add_account: { type?: string; name?: string };
+  add_transfer: { fromAccountId?: number; toAccountId?: number };
+  add_category: { name?: string };
+  add_rule: { pattern?: string; matchType?: RuleMatchType; minAmount?: number | null; maxAmount?: number | null };
+  export_range: {};
+  import_csv: { fileId: string; mapping: ColumnMapping };
+  add_budget: {
+    category?: string | null;
+    amount?: number;
+    currency?: CurrencyCode;
+    period?: BudgetPeriod;
+    startDay?: number;
+    periodDays?: number;
+    anchorDate?: string;
+  };
+  add_goal: { title?: string; type?: GoalType; category?: string | null; targetCount?: number; currency?: CurrencyCode };
+  goal_contribution: { goalId: number; withdraw: boolean };
+  add_habit: { title?: string; frequency?: HabitFrequency; weeklyTarget?: number };
+  payment: {
+    planKey: string;
+    planName: string;
+    planPrice: number;
+    planDays: number;
+    paymentRequestId?: number;
+    fullName?: string;
+    phone?: string;
+  };
+  payme_receipt: { paymentRequestId: number };
+  reject_payment: { paymentId: number; telegramUserId: string };
+  admin_broadcast: { message?: string };
+  admin_set_card: {};
+  admin_set_holder: {};
+  admin_add_admin: {};
+  admin_campaign: { name?: string; startsAt?: string; endsAt?: string };
+  admin_campaign_edit: { id: number; field: string };
+}
+
+export type ConversationAction = keyof typeof CONVERSATION_FLOWS;
+export type ConversationStep<A extends ConversationAction> = typeof CONVERSATION_FLOWS[A][number];
+
+export type UserState = {
+  [A in ConversationAction]: {
+    action: A;
+    step: ConversationStep<A>;
+    data?: ConversationData[A];
+  };
+}[ConversationAction];
+
+export function isConversationStep(action: string, step: string): boolean {
+  if (!Object.prototype.hasOwnProperty.call(CONVERSATION_FLOWS, action)) return false;
+  const steps: readonly string[] = CONVERSATION_FLOWS[action as ConversationAction];
+  return steps.includes(step);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// A state saved by an older deploy may name a flow or step that no longer exists, and
+// resuming it would reach a handler that can't cope. The data is only checked to be an object.
+function isUserState(state: { action: string; step: string; data?: unknown }): state is UserState {
+  return isConversationStep(state.action, state.step) && (state.data === undefined || isPlainObject(state.data));
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// JSON turns Dates (e.g. reminderTime) into strings; turn them back on the way out
+function reviveDates(value: unknown): unknown {
+  if (typeof value === "string" && ISO_DATE_PATTERN.test(value)) return new Date(value);
+  if (Array.isArray(value)) return value.map(reviveDates);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, reviveDates(v)]));
+  }
+  return value;
+}
+
+// Rebuilds a state read back from storage; undefined when it no longer fits any flow
+export function restoreState(stored: { action: string; step: string; data: unknown }): UserState | undefined {
+  const state = {
+    action: stored.action,
+    step: stored.step,
+    data: stored.data == null ? undefined : reviveDates(stored.data),
+  };
+  return isUserState(state) ? state : undefined;
+}
+
+// Abandoned flows are dropped after this long without activity
+const STATE_TTL = 2 * 60 * 60 * 1000;
+
+export interface StateStore {
+  get(userId: number): Promise<UserState | undefined>;
+  set(userId: number, state: UserState, expiresAt: Date): Promise<void>;
+  delete(userId: number): Promise<void>;
+  purgeExpired(): Promise<number>;
+}
+
+export class MemoryStateStore implements StateStore {
+  private states = new Map<number, { state: UserState; expiresAt: number }>();
+
+  async get(userId: number): Promise<UserState | undefined> {
+    const entry = this.states.get(userId);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.states.delete(userId);
+      return undefined;
+    }
+    return entry.state;
+  }
+
+  async set(userId: number, state: UserState, expiresAt: Date): Promise<void> {
+    this.states.set(userId, { state, expiresAt: expiresAt.getTime() });
+  }
+
+  async delete(userId: number): Promise<void> {
+    this.states.delete(userId);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [userId, entry] of Array.from(this.states.entries())) {
+      if (entry.expiresAt <= now) {
+        this.states.delete(userId);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+export class ConversationStateMachine {
+  constructor(private store: StateStore, private ttl: number = STATE_TTL) {}
+
+  async get(userId: number): Promise<UserState | undefined> {
+    return await this.store.get(userId);
+  }
+
+  async set(userId: number, state: UserState): Promise<void> {
+    if (!isConversationStep(state.action, state.step)) {
+      throw new Error(`Invalid conversation step "${state.step}" for action "${state.action}"`);
+    }
+    await this.store.set(userId, state, new Date(Date.now() + this.ttl));
+  }
+
+  async delete(userId: number): Promise<void> {
+    await this.store.delete(userId);
+  }
+
+  async purgeExpired(): Promise<number> {
+    return await this.store.purgeExpired();
+  }
+}
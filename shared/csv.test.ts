@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mapImportRows, parseCsvRecords, parseImportAmount } from "./csv";
+
+const mapping = { date: 0, amount: 1, description: 2 };
+
+test("parseImportAmount: keeps the sign of the amount", () => {
+  assert.equal(parseImportAmount("-45 000,00 UZS"), -45000);
+  assert.equal(parseImportAmount("(1 200)"), -1200);
+  assert.equal(parseImportAmount("+500 000"), 500000);
+  assert.equal(parseImportAmount("12 500"), 12500);
+  assert.equal(parseImportAmount("—"), null);
+});
+
+test("mapImportRows: positive rows in a statement with minus-signed spending are credits", () => {
+  const records = parseCsvRecords("Sana;Summa;Izoh\n19.10.2026;-45 000;Korzinka\n19.10.2026;+500 000;Oylik\n20.10.2026;30 000;Qaytarildi\n");
+  const rows = mapImportRows(records, mapping, true, "UZS");
+  assert.deepEqual(rows.map(r => [r.amount, r.credit]), [[45000, false], [500000, true], [30000, true]]);
+});
+
+test("mapImportRows: unsigned amounts are expenses unless marked with a plus", () => {
+  const records = parseCsvRecords("19.10.2026,45000,Korzinka\n19.10.2026,+20000,Cashback\n");
+  const rows = mapImportRows(records, mapping, false, "UZS");
+  assert.deepEqual(rows.map(r => r.credit), [false, true]);
+});
+
+test("mapImportRows: line numbers count the blank rows that were skipped", () => {
+  const records = parseCsvRecords("Sana,Summa,Izoh\n\n19.10.2026,45000,Korzinka\n,,\n20.10.2026,abc,Taksi\n");
+  const rows = mapImportRows(records, mapping, true, "UZS");
+  assert.deepEqual(rows.map(r => r.line), [3, 5]);
+  assert.equal(rows[1].error, "Summa noto'g'ri");
+});
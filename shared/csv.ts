@@ -0,0 +1,238 @@
+// CSV reading and writing for expense exports and imports. Bank statements and spreadsheets
+// exported from Excel come with ";" or tab separators, Russian or Uzbek headers and dates
+// like "19.10.2026", so the import guesses the column mapping and the user only corrects it.
+
+import { normalizeApostrophes } from "./uz-parser";
+import { parseSmsNumber } from "./bank-sms";
+import { isCurrencyCode, type CurrencyCode } from "./currency";
+
+type Cell = string | number | null | undefined;
+
+function escapeCell(value: Cell): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The byte-order mark makes Excel open the file as UTF-8, so Uzbek and Russian text survives
+export function toCsv(rows: Cell[][]): string {
+  return "\uFEFF" + rows.map(row => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function detectDelimiter(firstLine: string): string {
+  const counts = [",", ";", "\t"].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+export interface CsvRecord {
+  line: number; // 1-based, counting blank rows, as the user sees it in a spreadsheet
+  cells: string[];
+}
+
+export function parseCsv(input: string): string[][] {
+  return parseCsvRecords(input).map(r => r.cells);
+}
+
+// Like parseCsv, but each row keeps its position in the file so blank rows don't shift it
+export function parseCsvRecords(input: string): CsvRecord[] {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text.split(/\r?\n/)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map((r, i) => ({ line: i + 1, cells: r.map(c => c.trim()) }))
+    .filter(r => r.cells.some(c => c !== ""));
+}
+
+export const IMPORT_FIELDS = ["date", "amount", "description", "category", "currency"] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Column index for each field; date, amount and description are required
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Sana",
+  amount: "Summa",
+  description: "Izoh",
+  category: "Kategoriya",
+  currency: "Valyuta",
+};
+
+const HEADER_NAMES: Record<ImportField, string[]> = {
+  date: ["sana", "date", "дата", "kun", "дата операции"],
+  amount: ["summa", "amount", "сумма", "narx", "miqdor", "sum", "сумма операции"],
+  description: ["izoh", "description", "описание", "tavsif", "nomi", "merchant", "do'kon", "назначение", "комментарий"],
+  category: ["kategoriya", "category", "категория", "turkum"],
+  currency: ["valyuta", "currency", "валюта"],
+};
+
+// "2026-10-19", "19.10.2026", "19/10/26", optionally followed by "14:32"
+export function parseImportDate(value: string): { date: string; time: string | null } | null {
+  const text = value.trim();
+  let year: string, month: string, day: string;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const local = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})/);
+  if (iso) {
+    [, year, month, day] = iso;
+  } else if (local) {
+    [, day, month, year] = local;
+    if (year.length === 2) year = `20${year}`;
+  } else {
+    return null;
+  }
+
+  const m = parseInt(month);
+  const d = parseInt(day);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+
+  const time = text.match(/(\d{1,2}):(\d{2})/);
+  return {
+    date: `${year}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`,
+    time: time && parseInt(time[1]) < 24 ? `${time[1].padStart(2, "0")}:${time[2]}` : null,
+  };
+}
+
+// Keeps the sign: statements list spending as "-45 000,00 UZS" or "(45 000)" and money
+// coming in as "+500 000", so the caller can tell expenses from refunds and income
+export function parseImportAmount(value: string): number | null {
+  const text = value.trim();
+  const cleaned = text.replace(/[^\d\s .,]/g, "").trim();
+  if (!cleaned) return null;
+  const amount = parseSmsNumber(cleaned);
+  if (!amount || amount <= 0) return null;
+  return /^[-\u2212]|^\(.*\)$/.test(text) ? -amount : amount;
+}
+
+const LETTERS = new RegExp("\\p{L}{3,}", "u");
+
+function headerField(header: string): ImportField | null {
+  const name = normalizeApostrophes(header).toLowerCase().trim();
+  const exact = IMPORT_FIELDS.find(f => HEADER_NAMES[f].includes(name));
+  return exact ?? IMPORT_FIELDS.find(f => HEADER_NAMES[f].some(h => name.startsWith(h))) ?? null;
+}
+
+// Maps columns by their header names; without a recognisable header row, by what the cells
+// look like (dates, amounts, the longest text). `hasHeader` says whether row 0 is a header.
+export function guessColumnMapping(rows: string[][]): { mapping: ColumnMapping; hasHeader: boolean } {
+  const mapping: ColumnMapping = {};
+  const header = rows[0] ?? [];
+  header.forEach((cell, i) => {
+    const field = headerField(cell);
+    if (field && mapping[field] === undefined) mapping[field] = i;
+  });
+  if (mapping.amount !== undefined || mapping.date !== undefined) {
+    return { mapping, hasHeader: true };
+  }
+
+  const sample = rows.slice(0, 20);
+  const width = Math.max(0, ...sample.map(r => r.length));
+  const share = (i: number, test: (cell: string) => boolean) =>
+    sample.filter(r => r[i] && test(r[i])).length / Math.max(sample.length, 1);
+  const columns = Array.from({ length: width }, (_, i) => i);
+
+  const date = columns.find(i => share(i, c => parseImportDate(c) !== null) >= 0.8);
+  const amount = columns.find(i => i !== date && share(i, c => /\d/.test(c) && !LETTERS.test(c) && parseImportAmount(c) !== null) >= 0.8);
+  const textColumns = columns.filter(i => i !== date && i !== amount);
+  const avgLength = (i: number) => sample.reduce((sum, r) => sum + (r[i]?.length ?? 0), 0);
+  const description = textColumns.sort((a, b) => avgLength(b) - avgLength(a))[0];
+
+  return {
+    mapping: { date, amount, description },
+    hasHeader: false,
+  };
+}
+
+export interface ImportRow {
+  line: number; // 1-based, as the user sees it in a spreadsheet
+  date: string | null; // YYYY-MM-DD
+  time: string | null;
+  amount: number | null; // in `currency`, always positive
+  credit: boolean; // money coming in (a refund, income or top-up), not an expense
+  currency: CurrencyCode;
+  description: string;
+  category: string | null;
+  error: string | null;
+}
+
+const SOM_NAMES = ["SUM", "SO'M", "СУМ", "СЎМ"];
+
+// A row is money coming in when its amount says "+", or when the file marks spending with a
+// minus and this amount has none
+export function mapImportRows(records: CsvRecord[], mapping: ColumnMapping, hasHeader: boolean, defaultCurrency: CurrencyCode): ImportRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index !== undefined ? (row[index] ?? "").trim() : "";
+  };
+
+  const body = records.slice(hasHeader ? 1 : 0);
+  const amounts = body.map(r => parseImportAmount(cell(r.cells, "amount")));
+  const debitsAreNegative = amounts.some(a => a !== null && a < 0);
+
+  return body.map(({ line, cells: row }, i) => {
+    const parsedDate = parseImportDate(cell(row, "date"));
+    const signed = amounts[i];
+    const amount = signed !== null ? Math.abs(signed) : null;
+    const credit = signed !== null && (cell(row, "amount").startsWith("+") || (debitsAreNegative && signed > 0));
+    const currencyCell = normalizeApostrophes(cell(row, "currency")).toUpperCase();
+    const currency = SOM_NAMES.includes(currencyCell) ? "UZS" : currencyCell;
+    const description = cell(row, "description");
+
+    let error: string | null = null;
+    if (!parsedDate) error = "Sana noto'g'ri";
+    else if (!amount) error = "Summa noto'g'ri";
+    else if (!description) error = "Izoh yo'q";
+    else if (currency && !isCurrencyCode(currency)) error = "Valyuta noma'lum";
+
+    return {
+      line,
+      date: parsedDate?.date ?? null,
+      time: parsedDate?.time ?? null,
+      amount,
+      credit,
+      currency: isCurrencyCode(currency) ? currency : defaultCurrency,
+      description,
+      category: cell(row, "category") || null,
+      error,
+    };
+  });
+}
+
+// Two entries on the same day with the same amount, currency and description are the same expense
+export function importDuplicateKey(entry: { date: string; amount: number; currency: string; description: string }): string {
+  const description = normalizeApostrophes(entry.description).toLowerCase().replace(/\s+/g, " ").trim();
+  return `${entry.date}|${entry.currency}|${Math.round(entry.amount * 100)}|${description}`;
+}
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isCurrencyCode } from "./currency";
+
+test("isCurrencyCode: accepts the supported codes only", () => {
+  assert.equal(isCurrencyCode("UZS"), true);
+  assert.equal(isCurrencyCode("USD"), true);
+  assert.equal(isCurrencyCode("usd"), false);
+  assert.equal(isCurrencyCode("GBP"), false);
+  assert.equal(isCurrencyCode(null), false);
+});
+
+test("isCurrencyCode: inherited object keys are not currencies", () => {
+  assert.equal(isCurrencyCode("toString"), false);
+  assert.equal(isCurrencyCode("constructor"), false);
+  assert.equal(isCurrencyCode("__proto__"), false);
+});
@@ -0,0 +1,51 @@
+// Currencies an expense can be entered in. Amounts are always stored in so'm as well
+// (see expenses.amount), so UZS doubles as the pivot for every conversion.
+
+export const CURRENCIES = {
+  UZS: { symbol: "so'm", name: "O'zbek so'mi", flag: "🇺🇿", decimals: 0 },
+  USD: { symbol: "$", name: "AQSh dollari", flag: "🇺🇸", decimals: 2 },
+  EUR: { symbol: "€", name: "Yevro", flag: "🇪🇺", decimals: 2 },
+  RUB: { symbol: "₽", name: "Rossiya rubli", flag: "🇷🇺", decimals: 2 },
+  KZT: { symbol: "₸", name: "Qozog'iston tengesi", flag: "🇰🇿", decimals: 0 },
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCIES;
+
+export const BASE_CURRENCY: CurrencyCode = "UZS";
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as [CurrencyCode, ...CurrencyCode[]];
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && Object.hasOwn(CURRENCIES, value);
+}
+
+// Symbols and words people type next to an amount: "25$", "$25", "100 rubl", "5000 tenge"
+export const CURRENCY_ALIASES: Record<string, CurrencyCode> = {
+  "$": "USD",
+  usd: "USD",
+  dollar: "USD",
+  "€": "EUR",
+  eur: "EUR",
+  euro: "EUR",
+  yevro: "EUR",
+  "₽": "RUB",
+  rub: "RUB",
+  rubl: "RUB",
+  "₸": "KZT",
+  kzt: "KZT",
+  tenge: "KZT",
+  uzs: "UZS",
+};
+
+export interface ConvertedAmount {
+  amount: number; // so'm
+  currency: CurrencyCode;
+  originalAmount: number | null;
+  exchangeRate: number;
+}
+
+export function formatMoney(amount: number, currency: CurrencyCode = BASE_CURRENCY): string {
+  const { symbol, decimals } = CURRENCIES[currency];
+  const formatted = new Intl.NumberFormat("uz-UZ", { maximumFractionDigits: decimals }).format(amount);
+  return `${formatted} ${symbol}`;
+}
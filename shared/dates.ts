@@ -0,0 +1,10 @@
+// Calendar arithmetic on "YYYY-MM-DD" date strings. They are Uzbekistan local days
+// (getUzbekistanDateString in shared/recurrence.ts) worked out in UTC, so the result
+// is the same in the bot, the scheduler and the browser.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split("T")[0];
+}
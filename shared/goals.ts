@@ -0,0 +1,98 @@
+// Savings goals: how far along a goal is and what it takes to reach it by its target date.
+// Amounts are in the goal's own currency; dates are "YYYY-MM-DD" in Uzbekistan time.
+
+import { parseImportDate } from "./csv";
+
+export const GOAL_TYPES = ["tasks", "expenses", "savings"] as const;
+export type GoalType = typeof GOAL_TYPES[number];
+
+export const GOAL_TYPE_LABELS: Record<GoalType, string> = {
+  tasks: "Vazifa",
+  expenses: "Xarajat",
+  savings: "Jamg'arma",
+};
+
+// Announced once each as a savings goal fills up
+export const GOAL_MILESTONES = [25, 50, 75, 100] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export interface SavingsInput {
+  target: number;
+  saved: number;
+  deadline: string | null;
+}
+
+export interface SavingsPlan {
+  target: number;
+  saved: number;
+  remaining: number;
+  percent: number;
+  daysLeft: number | null; // including the target date; null without one
+  monthsLeft: number | null; // rounded up
+  monthlyRequired: number | null; // to reach the target on time; null without a date or once reached
+  overdue: boolean;
+}
+
+export function getSavingsPlan({ target, saved, deadline }: SavingsInput, today: string): SavingsPlan {
+  const remaining = Math.max(0, target - saved);
+  const percent = target > 0 ? Math.min(100, Math.floor((saved / target) * 100)) : 0;
+
+  if (!deadline) {
+    return { target, saved, remaining, percent, daysLeft: null, monthsLeft: null, monthlyRequired: null, overdue: false };
+  }
+
+  const daysLeft = Math.round((Date.parse(deadline) - Date.parse(today)) / DAY_MS) + 1;
+  const overdue = daysLeft <= 0 && remaining > 0;
+  // Less than a month to go still needs the whole remainder this month
+  const months = Math.max(1, daysLeft / DAYS_PER_MONTH);
+
+  return {
+    target,
+    saved,
+    remaining,
+    percent,
+    daysLeft,
+    monthsLeft: daysLeft > 0 ? Math.ceil(daysLeft / DAYS_PER_MONTH) : 0,
+    monthlyRequired: remaining > 0 && !overdue ? Math.ceil(remaining / months) : null,
+    overdue,
+  };
+}
+
+// The highest milestone reached that hasn't been announced yet
+export function getNewMilestone(percent: number, lastMilestone: number): number | null {
+  const reached = GOAL_MILESTONES.filter(m => m <= percent && m > lastMilestone);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+}
+
+// The highest milestone still held, so one lost by a withdrawal can be announced again
+export function getReachedMilestone(percent: number): number {
+  return GOAL_MILESTONES.filter(m => m <= percent).pop() ?? 0;
+}
+
+function lastDayOfMonth(year: number, month: number): string {
+  return new Date(Date.UTC(year, month, 0)).toISOString().split("T")[0];
+}
+
+// "2027" (end of year), "12.2027" or "2027-12" (end of month), or a full date.
+// Only dates after `today` are accepted.
+export function parseGoalDeadline(text: string, today: string): string | null {
+  const value = text.trim();
+  let date: string | null = null;
+
+  const year = value.match(/^(\d{4})$/);
+  const monthYear = value.match(/^(\d{1,2})[./-](\d{4})$/);
+  const yearMonth = value.match(/^(\d{4})-(\d{1,2})$/);
+  if (year) {
+    date = `${year[1]}-12-31`;
+  } else if (monthYear || yearMonth) {
+    const month = parseInt(monthYear ? monthYear[1] : yearMonth![2]);
+    const y = parseInt(monthYear ? monthYear[2] : yearMonth![1]);
+    if (month >= 1 && month <= 12) date = lastDayOfMonth(y, month);
+  } else {
+    date = parseImportDate(value)?.date ?? null;
+  }
+
+  return date && !isNaN(Date.parse(date)) && date > today ? date : null;
+}
@@ -0,0 +1,133 @@
+// Habit streaks. Dates are "YYYY-MM-DD" strings in Uzbekistan local time; a daily
+// habit's streak counts days, a weekly habit's counts Monday-to-Sunday weeks that met
+// their target. A freeze keeps the streak alive without adding to it.
+
+import { addDays } from "./dates";
+import type { Habit, HabitCheckin } from "./schema";
+
+export const HABIT_FREQUENCIES = ["daily", "weekly"] as const;
+export type HabitFrequency = typeof HABIT_FREQUENCIES[number];
+
+export const HABIT_CHECKIN_STATUSES = ["done", "freeze"] as const;
+export type HabitCheckinStatus = typeof HABIT_CHECKIN_STATUSES[number];
+
+export const MAX_HABIT_TITLE_LENGTH = 60;
+
+type HabitRule = Pick<Habit, "frequency" | "weeklyTarget" | "freezesPerMonth">;
+type Checkin = Pick<HabitCheckin, "date" | "status">;
+
+export interface HabitStreak {
+  current: number; // days, or weeks for weekly habits
+  best: number;
+  today: HabitCheckinStatus | null;
+  weekDone: number; // done check-ins this week
+  freezesLeft: number; // this calendar month
+}
+
+export function getWeekStart(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+export function describeHabitFrequency(habit: Pick<Habit, "frequency" | "weeklyTarget">): string {
+  return habit.frequency === "weekly" ? `Haftasiga ${habit.weeklyTarget} marta` : "Har kuni";
+}
+
+export function getHabitStreakUnit(habit: Pick<Habit, "frequency">): string {
+  return habit.frequency === "weekly" ? "hafta" : "kun";
+}
+
+// Whether a period kept the streak going, added to it, or broke it
+type PeriodResult = "done" | "freeze" | "missed";
+
+function dayResult(byDate: Map<string, string>, date: string): PeriodResult {
+  const status = byDate.get(date);
+  return status === "done" ? "done" : status === "freeze" ? "freeze" : "missed";
+}
+
+function weekResult(habit: HabitRule, byDate: Map<string, string>, weekStart: string): PeriodResult {
+  let done = 0;
+  let frozen = false;
+  for (let i = 0; i < 7; i++) {
+    const result = dayResult(byDate, addDays(weekStart, i));
+    if (result === "done") done++;
+    if (result === "freeze") frozen = true;
+  }
+  if (done >= Math.max(1, habit.weeklyTarget)) return "done";
+  return frozen ? "freeze" : "missed";
+}
+
+// Periods from `first` up to the current one, oldest first
+function getPeriodResults(habit: HabitRule, byDate: Map<string, string>, first: string, today: string): PeriodResult[] {
+  const results: PeriodResult[] = [];
+  if (habit.frequency === "weekly") {
+    for (let week = getWeekStart(first); week <= today; week = addDays(week, 7)) {
+      results.push(weekResult(habit, byDate, week));
+    }
+  } else {
+    for (let date = first; date <= today; date = addDays(date, 1)) {
+      results.push(dayResult(byDate, date));
+    }
+  }
+  return results;
+}
+
+export function computeHabitStreak(habit: HabitRule, checkins: Checkin[], today: string): HabitStreak {
+  const byDate = new Map(checkins.filter(c => c.date <= today).map(c => [c.date, c.status]));
+  const dates = Array.from(byDate.keys()).sort();
+  const todayStatus = byDate.get(today);
+
+  const weekStart = getWeekStart(today);
+  const weekDone = dates.filter(d => d >= weekStart && byDate.get(d) === "done").length;
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const freezesUsed = dates.filter(d => d >= monthStart && byDate.get(d) === "freeze").length;
+  const freezesLeft = Math.max(0, habit.freezesPerMonth - freezesUsed);
+
+  if (dates.length === 0) {
+    return { current: 0, best: 0, today: null, weekDone, freezesLeft };
+  }
+
+  const results = getPeriodResults(habit, byDate, dates[0], today);
+
+  let best = 0;
+  let run = 0;
+  for (const result of results) {
+    if (result === "missed") run = 0;
+    else if (result === "done") run++;
+    best = Math.max(best, run);
+  }
+
+  // Today (or this week) is still open, so not having checked in yet doesn't break the streak
+  let end = results.length - 1;
+  if (results[end] === "missed") end--;
+  let current = 0;
+  for (let i = end; i >= 0 && results[i] !== "missed"; i--) {
+    if (results[i] === "done") current++;
+  }
+
+  return {
+    current,
+    best,
+    today: todayStatus === "done" || todayStatus === "freeze" ? todayStatus : null,
+    weekDone,
+    freezesLeft,
+  };
+}
+
+// Nothing left to check in for today: already checked in, or a weekly target already met
+export function isHabitSettled(habit: Pick<Habit, "frequency" | "weeklyTarget">, streak: HabitStreak): boolean {
+  if (streak.today) return true;
+  return habit.frequency === "weekly" && streak.weekDone >= Math.max(1, habit.weeklyTarget);
+}
+
+// "✅✅❄️▫️✅" for the last `days` days, oldest first
+export function formatHabitDays(checkins: Checkin[], today: string, days: number = 14): string {
+  const byDate = new Map(checkins.map(c => [c.date, c.status]));
+  let line = "";
+  for (let i = days - 1; i >= 0; i--) {
+    const status = byDate.get(addDays(today, -i));
+    line += status === "done" ? "✅" : status === "freeze" ? "❄️" : "▫️";
+  }
+  return line;
+}
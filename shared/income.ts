@@ -0,0 +1,41 @@
+// Income sources and the net cash-flow summary shared by the bot reports and the dashboard
+
+export const INCOME_SOURCES = [
+  { name: "Maosh", icon: "💼" },
+  { name: "Frilans", icon: "💻" },
+  { name: "Biznes", icon: "🏪" },
+  { name: "Sovg'a", icon: "🎁" },
+  { name: "Boshqa", icon: "💵" },
+] as const;
+
+export function getIncomeSourceIcon(source: string): string {
+  return INCOME_SOURCES.find(s => s.name === source)?.icon ?? "💵";
+}
+
+export interface CashFlow {
+  income: number;
+  expense: number;
+  net: number;
+  savingsRate: number | null; // % of income left over; null without income
+}
+
+export function summarizeCashFlow(income: number, expense: number): CashFlow {
+  const net = income - expense;
+  return {
+    income,
+    expense,
+    net,
+    savingsRate: income > 0 ? Math.round((net / income) * 100) : null,
+  };
+}
+
+// Markdown lines for the bot's reports; `format` renders a so'm amount in the user's currency
+export function formatCashFlowLines(flow: CashFlow, format: (amount: number) => string): string {
+  let lines = `├ Daromad: ${format(flow.income)}\n`;
+  lines += `├ Xarajat: ${format(flow.expense)}\n`;
+  lines += `${flow.savingsRate === null ? "└" : "├"} Sof balans: ${flow.net >= 0 ? "+" : "−"}${format(Math.abs(flow.net))}\n`;
+  if (flow.savingsRate !== null) {
+    lines += `└ Tejash darajasi: ${flow.savingsRate}%\n`;
+  }
+  return lines;
+}
@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculatePrayerTimes, applyPrayerOffsets, PRAYER_METHODS, UZBEKISTAN_REGIONS, type RegionCode } from "./prayer-calc";
+
+// Sun events for each region centre, UTC+5, from Astronomy Engine 2.1.19 (an independent
+// VSOP87 ephemeris checked against JPL Horizons), not from this module's formulas: the sun at
+// 15° below the horizon, upper limb rise and set, transit, and the Hanafi shadow length for Asr.
+// The Board's minute adjustments are added on top in the test.
+// Columns: Bomdod, Quyosh, Peshin, Asr, Shom, Xufton.
+const REFERENCE: Array<[RegionCode, string, string]> = [
+  ["toshkent_shahar", "2026-01-15", "06:26 07:47 12:32 15:37 17:18 18:40"],
+  ["toshkent_shahar", "2026-04-10", "04:33 05:52 12:24 17:03 18:57 20:17"],
+  ["toshkent_shahar", "2026-07-05", "03:16 04:56 12:28 17:42 19:59 21:39"],
+  ["toshkent_shahar", "2026-10-19", "05:23 06:39 12:08 15:54 17:37 18:53"],
+  ["toshkent_viloyat", "2026-01-15", "06:26 07:47 12:32 15:37 17:18 18:39"],
+  ["toshkent_viloyat", "2026-04-10", "04:32 05:52 12:24 17:03 18:57 20:17"],
+  ["toshkent_viloyat", "2026-07-05", "03:15 04:56 12:28 17:42 19:59 21:39"],
+  ["toshkent_viloyat", "2026-10-19", "05:23 06:39 12:08 15:53 17:37 18:53"],
+  ["namangan", "2026-01-15", "06:15 07:36 12:23 15:29 17:09 18:30"],
+  ["namangan", "2026-04-10", "04:24 05:43 12:15 16:53 18:47 20:07"],
+  ["namangan", "2026-07-05", "03:08 04:47 12:18 17:31 19:49 21:28"],
+  ["namangan", "2026-10-19", "05:13 06:29 11:58 15:44 17:27 18:43"],
+  ["andijon", "2026-01-15", "06:12 07:33 12:20 15:27 17:07 18:28"],
+  ["andijon", "2026-04-10", "04:21 05:40 12:12 16:50 18:44 20:03"],
+  ["andijon", "2026-07-05", "03:06 04:45 12:15 17:28 19:45 21:23"],
+  ["andijon", "2026-10-19", "05:10 06:26 11:56 15:42 17:25 18:40"],
+  ["fargona", "2026-01-15", "06:14 07:34 12:22 15:30 17:11 18:31"],
+  ["fargona", "2026-04-10", "04:25 05:43 12:14 16:52 18:46 20:05"],
+  ["fargona", "2026-07-05", "03:11 04:49 12:17 17:30 19:46 21:23"],
+  ["fargona", "2026-10-19", "05:13 06:28 11:58 15:45 17:27 18:42"],
+  ["samarqand", "2026-01-15", "06:32 07:51 12:41 15:52 17:32 18:51"],
+  ["samarqand", "2026-04-10", "04:46 06:03 12:33 17:11 19:05 20:22"],
+  ["samarqand", "2026-07-05", "03:35 05:10 12:37 17:48 20:03 21:38"],
+  ["samarqand", "2026-10-19", "05:32 06:46 12:17 16:06 17:48 19:02"],
+  ["buxoro", "2026-01-15", "06:42 08:02 12:52 16:01 17:42 19:01"],
+  ["buxoro", "2026-04-10", "04:55 06:13 12:43 17:21 19:15 20:33"],
+  ["buxoro", "2026-07-05", "03:44 05:20 12:47 17:58 20:13 21:49"],
+  ["buxoro", "2026-10-19", "05:42 06:56 12:27 16:15 17:57 19:12"],
+  ["navoiy", "2026-01-15", "06:39 07:59 12:48 15:57 17:37 18:57"],
+  ["navoiy", "2026-04-10", "04:51 06:09 12:40 17:18 19:12 20:30"],
+  ["navoiy", "2026-07-05", "03:39 05:15 12:43 17:55 20:11 21:47"],
+  ["navoiy", "2026-10-19", "05:38 06:53 12:23 16:11 17:53 19:08"],
+  ["qashqadaryo", "2026-01-15", "06:36 07:54 12:46 15:59 17:39 18:57"],
+  ["qashqadaryo", "2026-04-10", "04:52 06:08 12:38 17:16 19:09 20:25"],
+  ["qashqadaryo", "2026-07-05", "03:44 05:17 12:41 17:51 20:05 21:38"],
+  ["qashqadaryo", "2026-10-19", "05:37 06:50 12:22 16:12 17:53 19:06"],
+  ["surxondaryo", "2026-01-15", "06:28 07:44 12:40 15:58 17:37 18:53"],
+  ["surxondaryo", "2026-04-10", "04:50 06:04 12:32 17:09 19:01 20:16"],
+  ["surxondaryo", "2026-07-05", "03:47 05:16 12:35 17:42 19:55 21:24"],
+  ["surxondaryo", "2026-10-19", "05:30 06:42 12:16 16:08 17:49 19:01"],
+  ["jizzax", "2026-01-15", "06:29 07:49 12:38 15:47 17:27 18:47"],
+  ["jizzax", "2026-04-10", "04:41 05:59 12:30 17:08 19:02 20:20"],
+  ["jizzax", "2026-07-05", "03:29 05:05 12:33 17:45 20:01 21:38"],
+  ["jizzax", "2026-10-19", "05:28 06:43 12:14 16:01 17:44 18:58"],
+  ["sirdaryo", "2026-01-15", "06:27 07:48 12:35 15:41 17:22 18:42"],
+  ["sirdaryo", "2026-04-10", "04:36 05:55 12:27 17:05 18:59 20:18"],
+  ["sirdaryo", "2026-07-05", "03:21 04:59 12:30 17:43 20:00 21:39"],
+  ["sirdaryo", "2026-10-19", "05:25 06:41 12:10 15:57 17:39 18:55"],
+  ["xorazm", "2026-01-15", "07:00 08:22 13:07 16:11 17:52 19:14"],
+  ["xorazm", "2026-04-10", "05:06 06:26 12:59 17:37 19:32 20:52"],
+  ["xorazm", "2026-07-05", "03:48 05:29 13:02 18:16 20:35 22:15"],
+  ["xorazm", "2026-10-19", "05:57 07:14 12:42 16:27 18:11 19:27"],
+  ["qoraqalpogiston", "2026-01-15", "07:06 08:29 13:11 16:12 17:54 19:16"],
+  ["qoraqalpogiston", "2026-04-10", "05:08 06:29 13:03 17:41 19:37 20:59"],
+  ["qoraqalpogiston", "2026-07-05", "03:46 05:30 13:06 18:22 20:42 22:25"],
+  ["qoraqalpogiston", "2026-10-19", "06:01 07:19 12:47 16:30 18:14 19:31"],
+];
+
+const TOLERANCE_MINUTES = 2;
+
+const PRAYER_COLUMNS = ["fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha"] as const;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+test("every region has reference times", () => {
+  const covered = new Set(REFERENCE.map(([region]) => region));
+  assert.deepEqual([...covered].sort(), Object.keys(UZBEKISTAN_REGIONS).sort());
+});
+
+for (const [region, date, expected] of REFERENCE) {
+  test(`calculatePrayerTimes: ${region} ${date}`, () => {
+    const { lat, lon } = UZBEKISTAN_REGIONS[region];
+    const times = calculatePrayerTimes({ latitude: lat, longitude: lon, date, utcOffset: 5, method: "uzbekistan", asrSchool: "hanafi" });
+    const { adjustments, maghribMinutes } = PRAYER_METHODS.uzbekistan;
+    expected.split(" ").forEach((reference, i) => {
+      const key = PRAYER_COLUMNS[i];
+      const adjusted = toMinutes(reference) + (adjustments[key] ?? 0) + (key === "maghrib" ? maghribMinutes : 0);
+      const diff = Math.abs(toMinutes(times[key]) - adjusted);
+      assert.ok(diff <= TOLERANCE_MINUTES, `${key}: ${times[key]}, reference ${reference} adjusted by the Board`);
+    });
+  });
+}
+
+test("Shafi'i Asr comes before Hanafi Asr", () => {
+  const { lat, lon } = UZBEKISTAN_REGIONS.toshkent_shahar;
+  const params = { latitude: lat, longitude: lon, date: "2026-06-21", utcOffset: 5, method: "uzbekistan" as const };
+  const hanafi = calculatePrayerTimes({ ...params, asrSchool: "hanafi" });
+  const shafii = calculatePrayerTimes({ ...params, asrSchool: "shafii" });
+  assert.ok(toMinutes(shafii.asr) < toMinutes(hanafi.asr));
+  assert.equal(shafii.fajr, hanafi.fajr);
+});
+
+test("applyPrayerOffsets shifts only the given prayers and wraps midnight", () => {
+  const times = { fajr: "03:05", sunrise: "04:50", dhuhr: "12:25", asr: "17:41", sunset: "20:03", maghrib: "20:03", isha: "23:50" };
+  const shifted = applyPrayerOffsets(times, { fajr: -5, isha: 15 });
+  assert.equal(shifted.fajr, "03:00");
+  assert.equal(shifted.isha, "00:05");
+  assert.equal(shifted.dhuhr, "12:25");
+});
@@ -0,0 +1,256 @@
+// Offline prayer time calculation from the sun's position, after the PrayTimes.org
+// algorithm. Fajr and Isha are the moments the sun is a method's angle below the
+// horizon, Asr is when a shadow reaches its length at noon plus one (Shafi'i) or two
+// (Hanafi) times the object's height, and high-latitude rules bound Fajr and Isha
+// where twilight never ends. Times are "HH:MM" in the given UTC offset.
+
+export const PRAYER_METHOD_IDS = ["uzbekistan", "mwl", "egypt", "isna", "karachi"] as const;
+export type PrayerMethodId = typeof PRAYER_METHOD_IDS[number];
+
+export interface PrayerMethod {
+  name: string;
+  fajrAngle: number;
+  ishaAngle: number;
+  maghribMinutes: number; // after sunset
+  // Minutes added to the calculated times, to match a published timetable
+  adjustments: Partial<Record<keyof PrayerTimesOfDay, number>>;
+}
+
+export const PRAYER_METHODS: Record<PrayerMethodId, PrayerMethod> = {
+  // Muslims of Uzbekistan Board (namoz-vaqti.uz)
+  uzbekistan: {
+    name: "O'zbekiston musulmonlari idorasi",
+    fajrAngle: 15,
+    ishaAngle: 15,
+    maghribMinutes: 0,
+    adjustments: { fajr: -3, asr: 1, maghrib: 3, isha: 3 },
+  },
+  mwl: { name: "Muslim World League", fajrAngle: 18, ishaAngle: 17, maghribMinutes: 0, adjustments: {} },
+  egypt: { name: "Misr (Egyptian General Authority)", fajrAngle: 19.5, ishaAngle: 17.5, maghribMinutes: 0, adjustments: {} },
+  isna: { name: "ISNA (Shimoliy Amerika)", fajrAngle: 15, ishaAngle: 15, maghribMinutes: 0, adjustments: {} },
+  karachi: { name: "Karachi (University of Islamic Sciences)", fajrAngle: 18, ishaAngle: 18, maghribMinutes: 0, adjustments: {} },
+};
+
+export const ASR_SCHOOLS = ["hanafi", "shafii"] as const;
+export type AsrSchool = typeof ASR_SCHOOLS[number];
+
+export const ASR_SCHOOL_NAMES: Record<AsrSchool, string> = {
+  hanafi: "Hanafiy",
+  shafii: "Shofe'iy",
+};
+
+// Shadow length factor
+const ASR_FACTORS: Record<AsrSchool, number> = { hanafi: 2, shafii: 1 };
+
+// How much of the night Fajr and Isha may be away from sunrise and sunset
+export const HIGH_LATITUDE_RULES = ["angle_based", "middle_of_night", "seventh_of_night", "none"] as const;
+export type HighLatitudeRule = typeof HIGH_LATITUDE_RULES[number];
+
+export interface PrayerTimesOfDay {
+  fajr: string;
+  sunrise: string;
+  dhuhr: string;
+  asr: string;
+  sunset: string;
+  maghrib: string;
+  isha: string;
+}
+
+export interface PrayerCalcParams {
+  latitude: number;
+  longitude: number;
+  date: string; // YYYY-MM-DD
+  utcOffset: number; // hours
+  method: PrayerMethodId;
+  asrSchool: AsrSchool;
+  highLatitudeRule?: HighLatitudeRule;
+}
+
+export const UZBEKISTAN_UTC_OFFSET = 5;
+
+// Region centres the default timetables are calculated for
+export const UZBEKISTAN_REGIONS = {
+  toshkent_shahar: { name: "Toshkent shahri", lat: 41.2995, lon: 69.2401 },
+  toshkent_viloyat: { name: "Toshkent viloyati", lat: 41.3167, lon: 69.2500 },
+  namangan: { name: "Namangan", lat: 41.0011, lon: 71.6725 },
+  andijon: { name: "Andijon", lat: 40.7833, lon: 72.3500 },
+  fargona: { name: "Farg'ona", lat: 40.3733, lon: 71.7978 },
+  samarqand: { name: "Samarqand", lat: 39.6542, lon: 66.9597 },
+  buxoro: { name: "Buxoro", lat: 39.7681, lon: 64.4556 },
+  navoiy: { name: "Navoiy", lat: 40.0844, lon: 65.3792 },
+  qashqadaryo: { name: "Qashqadaryo", lat: 38.8500, lon: 65.8000 },
+  surxondaryo: { name: "Surxondaryo", lat: 37.2167, lon: 67.2833 },
+  jizzax: { name: "Jizzax", lat: 40.1167, lon: 67.8333 },
+  sirdaryo: { name: "Sirdaryo", lat: 40.8500, lon: 68.6667 },
+  xorazm: { name: "Xorazm", lat: 41.5500, lon: 60.6333 },
+  qoraqalpogiston: { name: "Qoraqalpog'iston", lat: 42.4611, lon: 59.6033 },
+} as const;
+
+export type RegionCode = keyof typeof UZBEKISTAN_REGIONS;
+
+// Refraction and the sun's radius: sunrise and sunset are when the top edge touches the horizon
+const SUNRISE_ANGLE = 0.833;
+
+const DEG = Math.PI / 180;
+const sin = (d: number) => Math.sin(d * DEG);
+const cos = (d: number) => Math.cos(d * DEG);
+const tan = (d: number) => Math.tan(d * DEG);
+const arcsin = (x: number) => Math.asin(x) / DEG;
+const arccos = (x: number) => Math.acos(x) / DEG;
+const arctan2 = (y: number, x: number) => Math.atan2(y, x) / DEG;
+const arccot = (x: number) => Math.atan(1 / x) / DEG;
+
+function fix(value: number, range: number): number {
+  return value - range * Math.floor(value / range);
+}
+
+const fixAngle = (angle: number) => fix(angle, 360);
+const fixHour = (hour: number) => fix(hour, 24);
+
+// Hours from `from` to `to`, wrapping past midnight
+function hoursBetween(from: number, to: number): number {
+  return fixHour(to - from);
+}
+
+function julianDate(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+// The sun's declination and the equation of time (hours) at a Julian date
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.020 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equation: q / 15 - fixHour(ra),
+  };
+}
+
+export function calculatePrayerTimes(params: PrayerCalcParams): PrayerTimesOfDay {
+  const { latitude: lat, longitude: lon, utcOffset } = params;
+  const method = PRAYER_METHODS[params.method];
+  const highLatitudeRule = params.highLatitudeRule ?? "angle_based";
+
+  const [year, month, day] = params.date.split("-").map(Number);
+  const jd = julianDate(year, month, day) - lon / (15 * 24);
+
+  // Times below are local solar hours; each step refines a first guess of the hour
+  const midDay = (hour: number) => fixHour(12 - sunPosition(jd + hour / 24).equation);
+
+  const sunAngleTime = (angle: number, hour: number, beforeNoon = false) => {
+    const { declination } = sunPosition(jd + hour / 24);
+    const noon = midDay(hour);
+    const t = arccos((-sin(angle) - sin(declination) * sin(lat)) / (cos(declination) * cos(lat))) / 15;
+    return noon + (beforeNoon ? -t : t);
+  };
+
+  const asrTime = (factor: number, hour: number) => {
+    const { declination } = sunPosition(jd + hour / 24);
+    const angle = -arccot(factor + tan(Math.abs(lat - declination)));
+    return sunAngleTime(angle, hour);
+  };
+
+  const times = {
+    fajr: sunAngleTime(method.fajrAngle, 5, true),
+    sunrise: sunAngleTime(SUNRISE_ANGLE, 6, true),
+    dhuhr: midDay(12),
+    asr: asrTime(ASR_FACTORS[params.asrSchool], 13),
+    sunset: sunAngleTime(SUNRISE_ANGLE, 18),
+    maghrib: 0,
+    isha: sunAngleTime(method.ishaAngle, 18),
+  };
+
+  // From solar time to the clock of the given UTC offset
+  const shift = utcOffset - lon / 15;
+  times.fajr += shift;
+  times.sunrise += shift;
+  times.dhuhr += shift;
+  times.asr += shift;
+  times.sunset += shift;
+  times.isha += shift;
+
+  if (highLatitudeRule !== "none") {
+    const night = hoursBetween(times.sunset, times.sunrise);
+    const portion = (angle: number) => night * (
+      highLatitudeRule === "middle_of_night" ? 1 / 2 :
+      highLatitudeRule === "seventh_of_night" ? 1 / 7 :
+      angle / 60
+    );
+
+    const fajrLimit = portion(method.fajrAngle);
+    if (isNaN(times.fajr) || hoursBetween(times.fajr, times.sunrise) > fajrLimit) {
+      times.fajr = times.sunrise - fajrLimit;
+    }
+    const ishaLimit = portion(method.ishaAngle);
+    if (isNaN(times.isha) || hoursBetween(times.sunset, times.isha) > ishaLimit) {
+      times.isha = times.sunset + ishaLimit;
+    }
+  }
+
+  times.maghrib = times.sunset + method.maghribMinutes / 60;
+
+  const result = {} as PrayerTimesOfDay;
+  for (const key of Object.keys(times) as (keyof PrayerTimesOfDay)[]) {
+    result[key] = formatHour(times[key] + (method.adjustments[key] ?? 0) / 60);
+  }
+  return result;
+}
+
+// Rounded to the nearest minute; "--:--" where the sun never reaches the angle
+function formatHour(hour: number): string {
+  if (isNaN(hour)) return "--:--";
+  const rounded = fixHour(hour + 0.5 / 60);
+  const hours = Math.floor(rounded);
+  const minutes = Math.floor((rounded - hours) * 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+export function isPrayerMethodId(value: unknown): value is PrayerMethodId {
+  return typeof value === "string" && (PRAYER_METHOD_IDS as readonly string[]).includes(value);
+}
+
+export function isAsrSchool(value: unknown): value is AsrSchool {
+  return typeof value === "string" && (ASR_SCHOOLS as readonly string[]).includes(value);
+}
+
+// The five prayers a user can nudge by a few minutes to match their mosque's timetable
+export const PRAYER_OFFSET_KEYS = ["fajr", "dhuhr", "asr", "maghrib", "isha"] as const;
+export type PrayerOffsetKey = typeof PRAYER_OFFSET_KEYS[number];
+export type PrayerOffsets = Partial<Record<PrayerOffsetKey, number>>;
+
+export const MAX_PRAYER_OFFSET_MINUTES = 30;
+
+export function clampPrayerOffset(minutes: number): number {
+  return Math.max(-MAX_PRAYER_OFFSET_MINUTES, Math.min(MAX_PRAYER_OFFSET_MINUTES, Math.round(minutes)));
+}
+
+function shiftTime(time: string, minutes: number): string {
+  const [hours, mins] = time.split(":").map(Number);
+  if (!minutes || isNaN(hours) || isNaN(mins)) return time;
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export function applyPrayerOffsets(times: PrayerTimesOfDay, offsets: PrayerOffsets): PrayerTimesOfDay {
+  const result = { ...times };
+  for (const key of PRAYER_OFFSET_KEYS) {
+    result[key] = shiftTime(times[key], offsets[key] ?? 0);
+  }
+  return result;
+}
+
+// "+2" / "-3" / "0"
+export function formatPrayerOffset(minutes: number): string {
+  return minutes > 0 ? `+${minutes}` : String(minutes);
+}
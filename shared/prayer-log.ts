@@ -0,0 +1,99 @@
+// The prayer log: each of the five daily prayers marked as prayed or qaza (missed),
+// and the qaza still owed until it is made up. Dates are "YYYY-MM-DD" in Uzbekistan time.
+
+import { addDays } from "./dates";
+import { REMINDER_PRAYERS, type ReminderPrayer } from "./prayer-reminder";
+import type { PrayerLogEntry } from "./schema";
+
+export const PRAYER_LOG_STATUSES = ["prayed", "qaza"] as const;
+export type PrayerLogStatus = typeof PRAYER_LOG_STATUSES[number];
+
+export const PRAYER_LOG_LABELS: Record<PrayerLogStatus, string> = {
+  prayed: "O'qidim",
+  qaza: "Qazo bo'ldi",
+};
+
+type Entry = Pick<PrayerLogEntry, "date" | "prayer" | "status" | "madeUpAt">;
+
+export interface PrayerLogDay {
+  date: string;
+  prayers: Record<ReminderPrayer, PrayerLogStatus | null>; // null = not marked
+}
+
+export interface PrayerConsistency {
+  prayed: number;
+  qaza: number;
+  unmarked: number;
+  total: number; // five a day
+  percent: number; // prayed out of total, 0-100
+}
+
+export interface QazaSummary {
+  outstanding: Record<ReminderPrayer, number>;
+  total: number; // still owed
+  madeUp: number;
+}
+
+export interface PrayerLogOverview {
+  range: { from: string; to: string };
+  days: PrayerLogDay[];
+  consistency: PrayerConsistency;
+  qaza: QazaSummary;
+}
+
+export function isPrayerLogStatus(value: unknown): value is PrayerLogStatus {
+  return typeof value === "string" && (PRAYER_LOG_STATUSES as readonly string[]).includes(value);
+}
+
+function emptyPrayers<T>(value: T): Record<ReminderPrayer, T> {
+  return Object.fromEntries(REMINDER_PRAYERS.map(p => [p, value])) as Record<ReminderPrayer, T>;
+}
+
+// Every day from `from` to `to`, inclusive
+export function getPrayerLogDays(entries: Entry[], from: string, to: string): PrayerLogDay[] {
+  const byKey = new Map(entries.map(e => [`${e.date}_${e.prayer}`, e.status]));
+  const days: PrayerLogDay[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const prayers = emptyPrayers<PrayerLogStatus | null>(null);
+    for (const prayer of REMINDER_PRAYERS) {
+      const status = byKey.get(`${date}_${prayer}`);
+      if (isPrayerLogStatus(status)) prayers[prayer] = status;
+    }
+    days.push({ date, prayers });
+  }
+  return days;
+}
+
+export function getPrayerConsistency(days: PrayerLogDay[]): PrayerConsistency {
+  const statuses = days.flatMap(day => REMINDER_PRAYERS.map(p => day.prayers[p]));
+  const prayed = statuses.filter(s => s === "prayed").length;
+  const qaza = statuses.filter(s => s === "qaza").length;
+  const total = statuses.length;
+  return {
+    prayed,
+    qaza,
+    unmarked: total - prayed - qaza,
+    total,
+    percent: total > 0 ? Math.round((prayed / total) * 100) : 0,
+  };
+}
+
+export function getQazaSummary(entries: Entry[]): QazaSummary {
+  const outstanding = emptyPrayers(0);
+  let madeUp = 0;
+  for (const entry of entries) {
+    if (entry.status !== "qaza") continue;
+    if (entry.madeUpAt) madeUp++;
+    else if (entry.prayer in outstanding) outstanding[entry.prayer as ReminderPrayer]++;
+  }
+  return {
+    outstanding,
+    total: REMINDER_PRAYERS.reduce((sum, p) => sum + outstanding[p], 0),
+    madeUp,
+  };
+}
+
+// "✅✅⏳✅▫️" in prayer order
+export function formatPrayerLogDay(day: PrayerLogDay): string {
+  return REMINDER_PRAYERS.map(p => day.prayers[p] === "prayed" ? "✅" : day.prayers[p] === "qaza" ? "⏳" : "▫️").join("");
+}
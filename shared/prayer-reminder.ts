@@ -0,0 +1,112 @@
+// Task reminders anchored to a prayer ("Asrdan 20 min keyin", "Shomdan 15 min oldin").
+// The anchor is stored as a prayer key plus a signed minute offset and resolved to a
+// clock time from the user's prayer times for the day the reminder fires.
+
+export const REMINDER_PRAYERS = ["fajr", "dhuhr", "asr", "maghrib", "isha"] as const;
+
+export type ReminderPrayer = typeof REMINDER_PRAYERS[number];
+
+export const PRAYER_NAMES: Record<ReminderPrayer, string> = {
+  fajr: "Bomdod",
+  dhuhr: "Peshin",
+  asr: "Asr",
+  maghrib: "Shom",
+  isha: "Xufton",
+};
+
+export interface PrayerReminder {
+  prayer: ReminderPrayer;
+  offsetMinutes: number; // negative = before the prayer, positive = after
+}
+
+// Spellings users type for each prayer, including Arabic-derived names
+const PRAYER_ALIASES: Record<ReminderPrayer, string[]> = {
+  fajr: ["bomdod", "fajr"],
+  dhuhr: ["peshin", "zuhr"],
+  asr: ["asr", "namozdigar"],
+  maghrib: ["shom", "magrib", "iftor"],
+  isha: ["xufton", "isha", "xuftun"],
+};
+
+// "Asrdan keyin" without a number means shortly after the prayer, not at the adhan
+const DEFAULT_OFFSET_MINUTES = 15;
+
+export function isReminderPrayer(value: string): value is ReminderPrayer {
+  return (REMINDER_PRAYERS as readonly string[]).includes(value);
+}
+
+export function describePrayerReminder(reminder: PrayerReminder): string {
+  const name = PRAYER_NAMES[reminder.prayer];
+  if (reminder.offsetMinutes === 0) return `${name} vaqtida`;
+  const minutes = Math.abs(reminder.offsetMinutes);
+  return reminder.offsetMinutes > 0
+    ? `${name}dan ${minutes} min keyin`
+    : `${name}dan ${minutes} min oldin`;
+}
+
+const prayerPattern = Object.values(PRAYER_ALIASES).flat().join("|");
+const minutesPattern = "(\\d{1,3})\\s*(?:min|minut|daqiqa)";
+
+// "asrdan 20 min keyin", "peshin namozidan 10 daqiqa oldin", "shomdan keyin", "xuftonda"
+const anchorFirstRegex = new RegExp(
+  `(?:^|\\s)(${prayerPattern})(?:\\s+namoz(?:i)?)?(dan|idan|da|ida|gacha)?(?:\\s+${minutesPattern})?(?:\\s+(keyin|oldin))?(?=\\s|$|[.,!])`,
+  "i"
+);
+
+// "20 min asrdan keyin"
+const minutesFirstRegex = new RegExp(
+  `(?:^|\\s)${minutesPattern}\\s+(${prayerPattern})(?:\\s+namoz(?:i)?)?(?:dan|idan)\\s+(keyin|oldin)(?=\\s|$|[.,!])`,
+  "i"
+);
+
+function findPrayer(alias: string): ReminderPrayer | null {
+  const lower = alias.toLowerCase();
+  for (const prayer of REMINDER_PRAYERS) {
+    if (PRAYER_ALIASES[prayer].includes(lower)) return prayer;
+  }
+  return null;
+}
+
+export function parsePrayerReminder(text: string): (PrayerReminder & { rest: string }) | null {
+  const minutesFirst = text.match(minutesFirstRegex);
+  if (minutesFirst) {
+    const prayer = findPrayer(minutesFirst[2]);
+    if (prayer) {
+      const minutes = parseInt(minutesFirst[1]);
+      return {
+        prayer,
+        offsetMinutes: minutesFirst[3].toLowerCase() === "oldin" ? -minutes : minutes,
+        rest: text.replace(minutesFirst[0], " ").replace(/\s+/g, " ").trim(),
+      };
+    }
+  }
+
+  const match = text.match(anchorFirstRegex);
+  if (!match) return null;
+
+  const prayer = findPrayer(match[1]);
+  if (!prayer) return null;
+
+  const suffix = (match[2] || "").toLowerCase();
+  const direction = (match[4] || "").toLowerCase();
+  // A bare prayer name ("asr") is too ambiguous to treat as a reminder
+  if (!suffix && !direction) return null;
+
+  const minutes = match[3] ? parseInt(match[3]) : null;
+  let offsetMinutes: number;
+  if (direction === "oldin" || suffix === "gacha") {
+    offsetMinutes = -(minutes ?? DEFAULT_OFFSET_MINUTES);
+  } else if (direction === "keyin") {
+    offsetMinutes = minutes ?? DEFAULT_OFFSET_MINUTES;
+  } else if (suffix === "da" || suffix === "ida") {
+    offsetMinutes = 0;
+  } else {
+    return null;
+  }
+
+  return {
+    prayer,
+    offsetMinutes,
+    rest: text.replace(match[0], " ").replace(/\s+/g, " ").trim(),
+  };
+}
@@ -0,0 +1,85 @@
+// Prayer timetables over a range of days: a calendar month, or Ramadan as an imsakiya
+// where saharlik ends at Bomdod and iftorlik is at Shom. Ramadan follows the Umm al-Qura
+// Hijri calendar, which may start a day before the Muslims of Uzbekistan Board announces.
+
+import { addDays } from "./dates";
+import type { PrayerTimesOfDay } from "./prayer-calc";
+
+export interface PrayerTimetableDay {
+  date: string; // YYYY-MM-DD
+  times: PrayerTimesOfDay;
+  ramadanDay?: number; // 1-30 during Ramadan
+}
+
+export interface PrayerTimetable {
+  place: string;
+  from: string;
+  to: string;
+  days: PrayerTimetableDay[];
+}
+
+export interface RamadanRange {
+  hijriYear: number;
+  from: string; // 1 Ramadan
+  to: string; // the last day before Eid
+}
+
+export const TIMETABLE_MONTH_NAMES = ["Yanvar", "Fevral", "Mart", "Aprel", "May", "Iyun", "Iyul", "Avgust", "Sentabr", "Oktabr", "Noyabr", "Dekabr"];
+
+export const WEEKDAY_SHORT_NAMES = ["Yak", "Du", "Se", "Chor", "Pay", "Ju", "Sha"];
+
+const RAMADAN_MONTH = 9;
+
+const hijriFormat = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+  day: "numeric",
+  month: "numeric",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+export function getHijriDate(date: string): { day: number; month: number; year: number } {
+  const parts = hijriFormat.formatToParts(new Date(`${date}T12:00:00Z`));
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? "0");
+  return { day: part("day"), month: part("month"), year: part("year") };
+}
+
+// The Ramadan still to come or under way on `today`
+export function getRamadanRange(today: string): RamadanRange {
+  // Ramadan moves about 11 days a year, so it is never more than ~355 days away
+  let date = today;
+  let hijri = getHijriDate(date);
+  while (hijri.month !== RAMADAN_MONTH) {
+    // Jumping by the days left in the Hijri month (≥ 1) keeps this to a dozen steps
+    date = addDays(date, Math.max(1, 29 - hijri.day));
+    hijri = getHijriDate(date);
+  }
+  const from = addDays(date, 1 - hijri.day);
+  let to = from;
+  while (getHijriDate(addDays(to, 1)).month === RAMADAN_MONTH) to = addDays(to, 1);
+  return { hijriYear: hijri.year, from, to };
+}
+
+export function getMonthRange(month: string): { from: string; to: string } {
+  const [year, m] = month.split("-").map(Number);
+  const last = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, "0")}` };
+}
+
+export function shiftTimetableMonth(month: string, delta: number): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 1 + delta, 1)).toISOString().slice(0, 7);
+}
+
+export function formatTimetableMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return `${TIMETABLE_MONTH_NAMES[m - 1]} ${year}`;
+}
+
+export function getWeekdayShortName(date: string): string {
+  return WEEKDAY_SHORT_NAMES[new Date(`${date}T12:00:00Z`).getUTCDay()];
+}
+
+// "19.10"
+export function formatTimetableDate(date: string): string {
+  return `${date.slice(8, 10)}.${date.slice(5, 7)}`;
+}
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getUzbekistanDateString, getWeekday, occursOn, uzDateTimeToUTC } from "./recurrence";
+
+test("getUzbekistanDateString: the day turns over at midnight in Tashkent, not UTC", () => {
+  assert.equal(getUzbekistanDateString(new Date("2026-10-19T18:59:00Z")), "2026-10-19");
+  assert.equal(getUzbekistanDateString(new Date("2026-10-19T19:00:00Z")), "2026-10-20");
+});
+
+test("uzDateTimeToUTC: wall-clock time in Tashkent is five hours ahead of UTC", () => {
+  assert.equal(uzDateTimeToUTC("2026-10-20", "00:30")?.toISOString(), "2026-10-19T19:30:00.000Z");
+  assert.equal(uzDateTimeToUTC("2026-10-20", "9:05")?.toISOString(), "2026-10-20T04:05:00.000Z");
+  assert.equal(uzDateTimeToUTC("2026-10-20", "kechqurun"), null);
+});
+
+test("getWeekday: numbers days the way daysOfWeek does", () => {
+  assert.equal(getWeekday("2026-10-18"), 0);
+  assert.equal(getWeekday("2026-10-19"), 1);
+  assert.equal(getWeekday("2026-10-24"), 6);
+});
+
+test("occursOn: monthly rules on the 31st fall back to the last day of shorter months", () => {
+  const rule = { frequency: "monthly", dayOfMonth: 31, startDate: "2026-01-31" };
+  assert.equal(occursOn(rule, "2026-02-28"), true);
+  assert.equal(occursOn(rule, "2026-04-30"), true);
+  assert.equal(occursOn(rule, "2026-04-29"), false);
+});
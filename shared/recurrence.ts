@@ -0,0 +1,128 @@
+// Recurrence rules for repeating tasks (daily, weekdays, weekly, monthly, every N days).
+// Dates are handled as "YYYY-MM-DD" strings in Uzbekistan local time so the same
+// logic works on the server (scheduler) and in the web client.
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekdays", "weekly", "monthly", "interval"] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface RecurrenceRule {
+  frequency: string;
+  interval?: number | null;
+  daysOfWeek?: string | null; // comma separated, 0 = Sunday ... 6 = Saturday
+  dayOfMonth?: number | null;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null;
+}
+
+export const WEEKDAY_SHORT_NAMES = ["Ya", "Du", "Se", "Ch", "Pa", "Ju", "Sh"];
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Har kuni",
+  weekdays: "Ish kunlari",
+  weekly: "Har hafta",
+  monthly: "Har oy",
+  interval: "Har N kunda",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UZ_TIMEZONE_OFFSET = 5 * 60 * 60 * 1000;
+
+function toUTCDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function getUzbekistanDateString(date: Date = new Date()): string {
+  return new Date(date.getTime() + UZ_TIMEZONE_OFFSET).toISOString().split("T")[0];
+}
+
+// Builds the UTC instant for a HH:MM wall-clock time on a given Uzbekistan date
+export function uzDateTimeToUTC(dateStr: string, time: string): Date | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, parseInt(match[1]), parseInt(match[2])) - UZ_TIMEZONE_OFFSET);
+}
+
+// 0 = Sunday ... 6 = Saturday, the same numbering daysOfWeek uses
+export function getWeekday(dateStr: string): number {
+  return toUTCDate(dateStr).getUTCDay();
+}
+
+export function parseDaysOfWeek(daysOfWeek: string | null | undefined): number[] {
+  if (!daysOfWeek) return [];
+  return daysOfWeek
+    .split(",")
+    .map((d) => parseInt(d.trim()))
+    .filter((d) => !isNaN(d) && d >= 0 && d <= 6);
+}
+
+export function formatDaysOfWeek(days: number[]): string {
+  return Array.from(new Set(days)).sort((a, b) => a - b).join(",");
+}
+
+export function occursOn(rule: RecurrenceRule, dateStr: string): boolean {
+  if (dateStr < rule.startDate) return false;
+  if (rule.endDate && dateStr > rule.endDate) return false;
+
+  const date = toUTCDate(dateStr);
+  const weekday = date.getUTCDay();
+
+  switch (rule.frequency) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return weekday >= 1 && weekday <= 5;
+    case "weekly": {
+      const days = parseDaysOfWeek(rule.daysOfWeek);
+      if (days.length === 0) return weekday === toUTCDate(rule.startDate).getUTCDay();
+      return days.includes(weekday);
+    }
+    case "monthly": {
+      const dayOfMonth = rule.dayOfMonth || toUTCDate(rule.startDate).getUTCDate();
+      const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      // Rules on the 29th-31st fall back to the last day of shorter months
+      return date.getUTCDate() === Math.min(dayOfMonth, lastDay);
+    }
+    case "interval": {
+      const interval = Math.max(1, rule.interval || 1);
+      const diffDays = Math.round((date.getTime() - toUTCDate(rule.startDate).getTime()) / DAY_MS);
+      return diffDays % interval === 0;
+    }
+    default:
+      return false;
+  }
+}
+
+export function getNextOccurrence(rule: RecurrenceRule, fromDateStr: string, maxDays = 366): string | null {
+  let date = toUTCDate(fromDateStr);
+  for (let i = 0; i < maxDays; i++) {
+    const dateStr = date.toISOString().split("T")[0];
+    if (occursOn(rule, dateStr)) return dateStr;
+    date = new Date(date.getTime() + DAY_MS);
+  }
+  return null;
+}
+
+export function describeRecurrence(rule: Omit<RecurrenceRule, "startDate"> & { startDate?: string }): string {
+  switch (rule.frequency) {
+    case "daily":
+      return "Har kuni";
+    case "weekdays":
+      return "Ish kunlari (Du-Ju)";
+    case "weekly": {
+      const days = parseDaysOfWeek(rule.daysOfWeek);
+      if (days.length === 0) return "Har hafta";
+      return `Har hafta: ${days.map((d) => WEEKDAY_SHORT_NAMES[d]).join(", ")}`;
+    }
+    case "monthly": {
+      const day = rule.dayOfMonth || (rule.startDate ? toUTCDate(rule.startDate).getUTCDate() : 1);
+      return `Har oyning ${day}-kuni`;
+    }
+    case "interval":
+      return `Har ${Math.max(1, rule.interval || 1)} kunda`;
+    default:
+      return rule.frequency;
+  }
+}
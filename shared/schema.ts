@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, serial, jsonb, doublePrecision, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { RECURRENCE_FREQUENCIES } from "./recurrence";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -19,16 +20,108 @@ export const tasks = pgTable("tasks", {
   telegramUserId: text("telegram_user_id"),
   reminderTime: timestamp("reminder_time"),
   reminderSent: boolean("reminder_sent").default(false),
+  reminderPrayer: text("reminder_prayer"), // fajr, dhuhr, asr, maghrib, isha
+  reminderPrayerOffset: integer("reminder_prayer_offset"), // minutes, negative = before
+  recurringTaskId: integer("recurring_task_id"),
+  recurrenceDate: text("recurrence_date"), // YYYY-MM-DD occurrence a recurring instance was created for
+  completedAt: timestamp("completed_at"), // set by storage whenever `completed` changes
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("tasks_recurrence_date_idx").on(table.recurringTaskId, table.recurrenceDate),
+]);
+
+export const recurringTasks = pgTable("recurring_tasks", {
+  id: serial("id").primaryKey(),
+  text: text("text").notNull(),
+  priority: text("priority").notNull().default("medium"),
+  category: text("category"),
+  frequency: text("frequency").notNull().default("daily"), // daily, weekdays, weekly, monthly, interval
+  interval: integer("interval").default(1),
+  daysOfWeek: text("days_of_week"), // "1,3,5" (0 = Sunday)
+  dayOfMonth: integer("day_of_month"),
+  time: text("time"), // HH:MM reminder time, Uzbekistan local
+  reminderPrayer: text("reminder_prayer"),
+  reminderPrayerOffset: integer("reminder_prayer_offset"),
+  telegramUserId: text("telegram_user_id"),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  endDate: text("end_date"),
+  lastGeneratedDate: text("last_generated_date"),
+  active: boolean("active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const expenses = pgTable("expenses", {
   id: serial("id").primaryKey(),
-  amount: integer("amount").notNull(),
+  amount: integer("amount").notNull(), // so'm, converted at exchangeRate when entered in another currency
   description: text("description").notNull(),
   category: text("category").notNull(),
+  currency: text("currency").notNull().default("UZS"), // currency the expense was entered in
+  originalAmount: doublePrecision("original_amount"), // amount in that currency, null for so'm
+  exchangeRate: doublePrecision("exchange_rate").notNull().default(1), // so'm per unit at entry time
+  accountId: integer("account_id"), // wallet the money left from; null when not tracked
+  importHash: text("import_hash"), // hash of the bank SMS it was imported from, so it's imported once
   telegramUserId: text("telegram_user_id"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("expenses_import_hash_idx").on(table.telegramUserId, table.importHash),
+]);
+
+// Money coming in (salary, freelance, gifts); amounts follow the same so'm convention as expenses
+export const incomes = pgTable("incomes", {
+  id: serial("id").primaryKey(),
+  amount: integer("amount").notNull(), // so'm
+  description: text("description").notNull(),
+  source: text("source").notNull(),
+  currency: text("currency").notNull().default("UZS"),
+  originalAmount: doublePrecision("original_amount"),
+  exchangeRate: doublePrecision("exchange_rate").notNull().default(1),
+  accountId: integer("account_id"),
+  importHash: text("import_hash"),
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("incomes_import_hash_idx").on(table.telegramUserId, table.importHash),
+]);
+
+// Wallets money is kept in (cash, bank cards, savings). Balances are derived from the opening
+// balance plus the incomes, expenses and transfers attached to the account.
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull().default("cash"),
+  openingBalance: integer("opening_balance").notNull().default(0), // so'm
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Moving money between the user's own accounts; not spending, so reports ignore it
+export const transfers = pgTable("transfers", {
+  id: serial("id").primaryKey(),
+  fromAccountId: integer("from_account_id").notNull(),
+  toAccountId: integer("to_account_id").notNull(),
+  amount: integer("amount").notNull(), // so'm
+  note: text("note"),
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Card notifications forwarded to the bot, parsed and waiting for the user's confirmation
+// before they become an expense or income. Amounts follow the so'm convention of expenses.
+export const importDrafts = pgTable("import_drafts", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull().default("expense"), // expense | income
+  amount: integer("amount").notNull(), // so'm
+  currency: text("currency").notNull().default("UZS"),
+  originalAmount: doublePrecision("original_amount"),
+  exchangeRate: doublePrecision("exchange_rate").notNull().default(1),
+  merchant: text("merchant"),
+  category: text("category"), // guessed category (or income source), null until picked
+  bank: text("bank").notNull(),
+  cardLast4: text("card_last4"),
+  rawText: text("raw_text").notNull(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const expenseCategories = pgTable("expense_categories", {
@@ -39,11 +132,31 @@ export const expenseCategories = pgTable("expense_categories", {
   telegramUserId: text("telegram_user_id"),
 });
 
-export const budgetLimits = pgTable("budget_limits", {
+// Assigns a category without asking: a keyword or wildcard ("yandex*") on the description (or the merchant of an
+// imported card notification) and/or an amount range. Empty conditions match anything.
+export const categoryRules = pgTable("category_rules", {
   id: serial("id").primaryKey(),
+  pattern: text("pattern"),
+  matchType: text("match_type").notNull().default("keyword"), // keyword | wildcard (regex rules from before are no longer run)
+  field: text("field").notNull().default("any"), // any | description | merchant
+  minAmount: integer("min_amount"), // so'm
+  maxAmount: integer("max_amount"), // so'm
   category: text("category").notNull(),
-  limitAmount: integer("limit_amount").notNull(),
-  period: text("period").notNull().default("monthly"),
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const budgetLimits = pgTable("budget_limits", {
+  id: serial("id").primaryKey(),
+  category: text("category"), // null for the overall budget across all categories
+  limitAmount: integer("limit_amount").notNull(), // in `currency`
+  currency: text("currency").notNull().default("UZS"),
+  period: text("period").notNull().default("monthly"), // weekly, monthly, custom
+  startDay: integer("start_day").notNull().default(1), // day of month a monthly cycle starts, 1-28
+  periodDays: integer("period_days"), // length of a custom cycle
+  anchorDate: text("anchor_date"), // YYYY-MM-DD, first day of the first custom cycle
+  rollover: boolean("rollover").notNull().default(false), // unused amount moves to the next period
+  forecastAlertPeriod: text("forecast_alert_period"), // start of the period the pace alert was last sent for
   telegramUserId: text("telegram_user_id").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -51,13 +164,52 @@ export const budgetLimits = pgTable("budget_limits", {
 export const goals = pgTable("goals", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
-  targetCount: integer("target_count").notNull(),
-  currentCount: integer("current_count").notNull().default(0),
-  type: text("type").notNull().default("tasks"),
-  period: text("period").notNull().default("weekly"),
+  targetCount: integer("target_count").notNull(), // for savings goals, the amount in `currency`
+  currentCount: integer("current_count").notNull().default(0), // for savings goals, the sum of contributions
+  type: text("type").notNull().default("tasks"), // tasks, expenses, savings
+  period: text("period").notNull().default("weekly"), // weekly, monthly; "deadline" for savings goals
+  category: text("category"), // only count expenses in this category, or tasks with this category or #tag
+  currency: text("currency").notNull().default("UZS"),
+  lastMilestone: integer("last_milestone").notNull().default(0), // highest milestone % already announced
   telegramUserId: text("telegram_user_id").notNull(),
   startDate: timestamp("start_date").notNull().defaultNow(),
-  endDate: timestamp("end_date"),
+  endDate: timestamp("end_date"), // savings goals: the target date, if any
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Money put into (or taken out of) a savings goal
+export const goalContributions = pgTable("goal_contributions", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull(),
+  amount: integer("amount").notNull(), // in the goal's currency; negative for a withdrawal
+  note: text("note"),
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Daily or weekly habits with an optional check-in prompt at a clock time or after a prayer
+export const habits = pgTable("habits", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  frequency: text("frequency").notNull().default("daily"), // daily, weekly
+  weeklyTarget: integer("weekly_target").notNull().default(1), // check-ins per week for weekly habits
+  reminderTime: text("reminder_time"), // HH:MM, Uzbekistan time
+  reminderPrayer: text("reminder_prayer"), // fajr, dhuhr, asr, maghrib, isha
+  reminderPrayerOffset: integer("reminder_prayer_offset"),
+  freezesPerMonth: integer("freezes_per_month").notNull().default(2), // days that may be skipped without breaking the streak
+  lastPromptDate: text("last_prompt_date"), // YYYY-MM-DD the check-in was last sent
+  active: boolean("active").notNull().default(true),
+  telegramUserId: text("telegram_user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per habit and day
+export const habitCheckins = pgTable("habit_checkins", {
+  id: serial("id").primaryKey(),
+  habitId: integer("habit_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD, Uzbekistan time
+  status: text("status").notNull().default("done"), // done, freeze
+  telegramUserId: text("telegram_user_id").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -69,6 +221,7 @@ export const userSettings = pgTable("user_settings", {
   weeklyReportEnabled: boolean("weekly_report_enabled").default(true),
   weeklyReportDay: text("weekly_report_day").default("sunday"),
   timezone: text("timezone").default("Asia/Tashkent"),
+  currency: text("currency").default("UZS"), // default for new expenses and the base for reports
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -89,6 +242,25 @@ export const prayerSettings = pgTable("prayer_settings", {
   iftorlikEnabled: boolean("iftorlik_enabled").default(false),
   saharlikMinutes: integer("saharlik_minutes").default(30),
   iftorlikMinutes: integer("iftorlik_minutes").default(10),
+  calcMethod: text("calc_method").default("uzbekistan"), // see PRAYER_METHOD_IDS
+  asrSchool: text("asr_school").default("hanafi"), // hanafi, shafii
+  // Minutes added to the calculated time of each prayer, to match the local mosque
+  fajrOffset: integer("fajr_offset").default(0),
+  dhuhrOffset: integer("dhuhr_offset").default(0),
+  asrOffset: integer("asr_offset").default(0),
+  maghribOffset: integer("maghrib_offset").default(0),
+  ishaOffset: integer("isha_offset").default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Whether each of the five daily prayers was prayed on time or became qaza (missed)
+export const prayerLog = pgTable("prayer_log", {
+  id: serial("id").primaryKey(),
+  telegramUserId: text("telegram_user_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD, Uzbekistan time
+  prayer: text("prayer").notNull(), // fajr, dhuhr, asr, maghrib, isha
+  status: text("status").notNull(), // prayed, qaza
+  madeUpAt: timestamp("made_up_at"), // when a qaza was made up
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -96,6 +268,8 @@ export const prayerTimes = pgTable("prayer_times", {
   id: serial("id").primaryKey(),
   regionCode: text("region_code").notNull(),
   date: text("date").notNull(),
+  method: text("method").notNull().default("uzbekistan"),
+  asrSchool: text("asr_school").notNull().default("hanafi"),
   fajr: text("fajr").notNull(),
   sunrise: text("sunrise").notNull(),
   dhuhr: text("dhuhr").notNull(),
@@ -157,6 +331,55 @@ export const adminSettings = pgTable("admin_settings", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Time-boxed free access set up by admins, e.g. Ramadan
+export const promoCampaigns = pgTable("promo_campaigns", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  features: text("features"), // "tasks,prayer" (PROMO_FEATURES keys); null = everything
+  audience: text("audience").notNull().default("all"), // all, new, expired
+  bannerText: text("banner_text"),
+  active: boolean("active").notNull().default(true),
+  createdBy: text("created_by"), // admin's telegram user id
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Half-finished bot conversations (add task, payment form, broadcast draft...)
+export const conversationStates = pgTable("conversation_states", {
+  id: serial("id").primaryKey(),
+  telegramUserId: text("telegram_user_id").notNull().unique(),
+  action: text("action").notNull(),
+  step: text("step").notNull(),
+  data: jsonb("data"),
+  expiresAt: timestamp("expires_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Pomodoro sessions from the web timer or the /focus bot command
+export const focusSessions = pgTable("focus_sessions", {
+  id: serial("id").primaryKey(),
+  telegramUserId: text("telegram_user_id").notNull(),
+  taskId: integer("task_id"),
+  mode: text("mode").notNull().default("focus"), // focus, break
+  durationMinutes: integer("duration_minutes").notNull(),
+  status: text("status").notNull().default("active"), // active, completed, abandoned
+  focusedMinutes: integer("focused_minutes"), // actual minutes, set when the session ends
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endsAt: timestamp("ends_at").notNull(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Daily rates (so'm per one unit of currency), snapshot per date from the configured provider
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  currency: text("currency").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD
+  rate: doublePrecision("rate").notNull(),
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -165,11 +388,25 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
   createdAt: true,
+}).extend({
+  // The web planner sends reminder times as ISO strings
+  reminderTime: z.coerce.date().nullable().optional(),
+});
+
+export const insertRecurringTaskSchema = createInsertSchema(recurringTasks).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 });
 
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
   id: true,
   createdAt: true,
+}).extend({
+  // Optional so backdated entries ("kecha taksiga 25k") keep their real day
+  createdAt: z.coerce.date().optional(),
 });
 
 export const insertExpenseCategorySchema = createInsertSchema(expenseCategories).omit({
@@ -207,6 +444,9 @@ export type User = typeof users.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
 
+export type InsertRecurringTask = z.infer<typeof insertRecurringTaskSchema>;
+export type RecurringTask = typeof recurringTasks.$inferSelect;
+
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Expense = typeof expenses.$inferSelect;
 
@@ -260,3 +500,111 @@ export type PaymentRequest = typeof paymentRequests.$inferSelect;
 
 export type InsertAdminSettings = z.infer<typeof insertAdminSettingsSchema>;
 export type AdminSettings = typeof adminSettings.$inferSelect;
+
+export const insertPromoCampaignSchema = createInsertSchema(promoCampaigns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPromoCampaign = z.infer<typeof insertPromoCampaignSchema>;
+export type PromoCampaign = typeof promoCampaigns.$inferSelect;
+
+export const insertConversationStateSchema = createInsertSchema(conversationStates).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertConversationState = z.infer<typeof insertConversationStateSchema>;
+export type ConversationState = typeof conversationStates.$inferSelect;
+
+export const insertFocusSessionSchema = createInsertSchema(focusSessions).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type InsertFocusSession = z.infer<typeof insertFocusSessionSchema>;
+export type FocusSession = typeof focusSessions.$inferSelect;
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+export const insertIncomeSchema = createInsertSchema(incomes).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  createdAt: z.coerce.date().optional(),
+});
+
+export type InsertIncome = z.infer<typeof insertIncomeSchema>;
+export type Income = typeof incomes.$inferSelect;
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+
+export const insertTransferSchema = createInsertSchema(transfers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  createdAt: z.coerce.date().optional(),
+});
+
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+export type Transfer = typeof transfers.$inferSelect;
+
+export const insertImportDraftSchema = createInsertSchema(importDrafts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertImportDraft = z.infer<typeof insertImportDraftSchema>;
+export type ImportDraft = typeof importDrafts.$inferSelect;
+
+export const insertCategoryRuleSchema = createInsertSchema(categoryRules).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCategoryRule = z.infer<typeof insertCategoryRuleSchema>;
+export type CategoryRule = typeof categoryRules.$inferSelect;
+
+export const insertGoalContributionSchema = createInsertSchema(goalContributions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertGoalContribution = z.infer<typeof insertGoalContributionSchema>;
+export type GoalContribution = typeof goalContributions.$inferSelect;
+
+export const insertHabitSchema = createInsertSchema(habits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertHabit = z.infer<typeof insertHabitSchema>;
+export type Habit = typeof habits.$inferSelect;
+
+export const insertHabitCheckinSchema = createInsertSchema(habitCheckins).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertHabitCheckin = z.infer<typeof insertHabitCheckinSchema>;
+export type HabitCheckin = typeof habitCheckins.$inferSelect;
+
+export const insertPrayerLogSchema = createInsertSchema(prayerLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPrayerLog = z.infer<typeof insertPrayerLogSchema>;
+export type PrayerLogEntry = typeof prayerLog.$inferSelect;
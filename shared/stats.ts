@@ -0,0 +1,75 @@
+// Response shapes of the /api/stats endpoints. Dates are Uzbekistan-local YYYY-MM-DD
+// and ranges are inclusive on both ends.
+
+export interface StatsRange {
+  from: string;
+  to: string;
+}
+
+export interface TaskDayStat {
+  date: string;
+  total: number;
+  completed: number;
+}
+
+export interface CategoryExpenseStat {
+  category: string;
+  total: number;
+  count: number;
+}
+
+export interface GoalProgressStat {
+  id: number;
+  title: string;
+  type: string;
+  period: string;
+  targetCount: number;
+  currentCount: number;
+  currency: string; // savings goals count money in it
+  percent: number;
+}
+
+export interface FocusDayStat {
+  date: string;
+  minutes: number;
+  sessions: number; // completed focus sessions
+}
+
+export interface HabitDayStat {
+  date: string;
+  done: number; // habits checked in that day
+  frozen: number;
+}
+
+export interface HabitStreakStat {
+  id: number;
+  title: string;
+  frequency: string;
+  current: number; // days, or weeks for weekly habits
+  best: number;
+}
+
+export interface StatsSummary {
+  tasksTotal: number;
+  tasksCompleted: number;
+  completionRate: number; // 0-100
+  expensesTotal: number;
+  focusMinutes: number;
+}
+
+export interface StatsOverview {
+  range: StatsRange;
+  summary: StatsSummary;
+  tasksByDay: TaskDayStat[];
+  expensesByCategory: CategoryExpenseStat[];
+  goals: GoalProgressStat[];
+  focusByDay: FocusDayStat[];
+  habitsByDay: HabitDayStat[];
+  habits: HabitStreakStat[]; // active habits
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isStatsDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
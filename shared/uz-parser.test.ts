@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTaskInput, parseExpenseInput, detectCategory } from "./uz-parser";
+
+// Monday
+const TODAY = "2026-10-19";
+
+const TASK_PHRASES: Array<{ input: string; title: string; date?: string | null; time?: string | null; priority?: string | null }> = [
+  { input: "ertaga soat 9da shifokorga", title: "shifokorga", date: "2026-10-20", time: "09:00" },
+  { input: "dushanba kuni hisobot topshirish", title: "hisobot topshirish", date: "2026-10-19", time: null },
+  { input: "keyingi dushanba majlis", title: "majlis", date: "2026-10-26" },
+  { input: "juma kuni kechqurun 7da to'y", title: "to'y", date: "2026-10-23", time: "19:00" },
+  { input: "kechasi 2da samolyot", title: "samolyot", time: "02:00" },
+  { input: "kechasi 11da uxlash", title: "uxlash", time: "23:00" },
+  { input: "ertalab 6da yugurish", title: "yugurish", time: "06:00" },
+  { input: "tushdan keyin 3ga bankka borish", title: "bankka borish", time: "15:00" },
+  { input: "kechqurun onamga qo'ng'iroq", title: "onamga qo'ng'iroq", time: "20:00" },
+  { input: "indinga 14:30 da uchrashuv", title: "uchrashuv", date: "2026-10-21", time: "14:30" },
+  { input: "bugun soat 18.00 sport zal", title: "sport zal", date: "2026-10-19", time: "18:00" },
+  { input: "5-noyabrda tug'ilgan kun", title: "tug'ilgan kun", date: "2026-11-05" },
+  { input: "3 ta non olish", title: "3 ta non olish", date: null, time: null },
+  { input: "muhim hisobotni yuborish", title: "hisobotni yuborish", priority: "high" },
+  { input: "muhim emas kitob o'qish", title: "kitob o'qish", priority: "low" },
+  { input: "soliq to'lash!!", title: "soliq to'lash", priority: "high" },
+  { input: "ertaga", title: "ertaga", date: "2026-10-20" },
+];
+
+for (const phrase of TASK_PHRASES) {
+  test(`parseTaskInput: "${phrase.input}"`, () => {
+    const parsed = parseTaskInput(phrase.input, TODAY);
+    assert.equal(parsed.title, phrase.title);
+    if (phrase.date !== undefined) assert.equal(parsed.date, phrase.date);
+    if (phrase.time !== undefined) assert.equal(parsed.time, phrase.time);
+    if (phrase.priority !== undefined) assert.equal(parsed.priority, phrase.priority);
+  });
+}
+
+test("parseTaskInput: prayer anchors take the place of a clock time", () => {
+  const parsed = parseTaskInput("Asrdan 20 min keyin Qur'on o'qish", TODAY);
+  assert.equal(parsed.title, "Qur'on o'qish");
+  assert.equal(parsed.time, null);
+  assert.deepEqual(parsed.prayerReminder, { prayer: "asr", offsetMinutes: 20 });
+});
+
+const EXPENSE_PHRASES: Array<{ input: string; description: string; amount: number | null; currency?: string | null; date?: string | null; category?: string | null }> = [
+  { input: "50 ming non", description: "non", amount: 50000, category: "Ovqat" },
+  { input: "1.2 mln ijara", description: "ijara", amount: 1200000, category: "Uy-joy" },
+  { input: "kecha taksiga 25k", description: "taksiga", amount: 25000, date: "2026-10-18", category: "Yo'l" },
+  { input: "Tushlik 35000", description: "Tushlik", amount: 35000, category: "Ovqat" },
+  { input: "bozor 150 000 so'm", description: "bozor", amount: 150000, category: "Xarid" },
+  { input: "dorixona 1.500.000", description: "dorixona", amount: 1500000, category: "Sog'liq" },
+  { input: "juma kuni kino 60 ming", description: "kino", amount: 60000, date: "2026-10-16", category: "O'yin-kulgi" },
+  { input: "netflix 9.99$", description: "netflix", amount: 9.99, currency: "USD", category: null },
+  { input: "internet uchun 120k", description: "internet uchun", amount: 120000, category: "To'lov" },
+  { input: "kitob", description: "kitob", amount: null, category: null },
+];
+
+for (const phrase of EXPENSE_PHRASES) {
+  test(`parseExpenseInput: "${phrase.input}"`, () => {
+    const parsed = parseExpenseInput(phrase.input, TODAY);
+    assert.equal(parsed.description, phrase.description);
+    assert.equal(parsed.amount, phrase.amount);
+    if (phrase.currency !== undefined) assert.equal(parsed.currency, phrase.currency);
+    if (phrase.date !== undefined) assert.equal(parsed.date, phrase.date);
+    if (phrase.category !== undefined) assert.equal(parsed.categoryHint, phrase.category);
+  });
+}
+
+test("detectCategory: keywords match with Uzbek endings and apostrophe variants", () => {
+  assert.equal(detectCategory("dorilarga"), "Sog'liq");
+  assert.equal(detectCategory("go‘sht"), "Ovqat");
+  assert.equal(detectCategory("nonvoy"), null);
+});
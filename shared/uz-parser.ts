@@ -0,0 +1,334 @@
+// Free-text parser for quick task and expense entry in Uzbek (Latin script).
+// Understands phrases like "ertaga soat 9da shifokorga", "dushanba kuni", "50 ming non",
+// "1.2 mln ijara", "kecha taksiga 25k" and "netflix 9.99$". Dates are "YYYY-MM-DD" strings relative to the
+// caller's "today" so the same code runs in the bot (Uzbekistan time) and in the browser.
+
+import { parsePrayerReminder, type PrayerReminder } from "./prayer-reminder";
+import { CURRENCY_ALIASES, type CurrencyCode } from "./currency";
+import { addDays } from "./dates";
+
+export type ParsedPriority = "high" | "medium" | "low";
+
+export interface ParsedTaskInput {
+  title: string;
+  date: string | null; // YYYY-MM-DD
+  time: string | null; // HH:MM
+  priority: ParsedPriority | null;
+  prayerReminder: PrayerReminder | null;
+}
+
+export interface ParsedExpenseInput {
+  description: string;
+  amount: number | null;
+  currency: CurrencyCode | null; // null when no currency was typed (the user's default applies)
+  date: string | null; // YYYY-MM-DD
+  categoryHint: string | null; // one of the default category names
+}
+
+// Word edges: whitespace, string ends or punctuation. \b can't be used because
+// the apostrophe in o', g' is part of Uzbek words.
+const START = "(?<=^|\\s)";
+const END = "(?=$|\\s|[.,!?;:])";
+
+const WEEKDAYS: Record<string, number> = {
+  yakshanba: 0,
+  dushanba: 1,
+  seshanba: 2,
+  chorshanba: 3,
+  payshanba: 4,
+  juma: 5,
+  shanba: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  yanvar: 1,
+  fevral: 2,
+  mart: 3,
+  aprel: 4,
+  may: 5,
+  iyun: 6,
+  iyul: 7,
+  avgust: 8,
+  sentabr: 9,
+  sentyabr: 9,
+  oktabr: 10,
+  oktyabr: 10,
+  noyabr: 11,
+  dekabr: 12,
+};
+
+const RELATIVE_DAYS: Record<string, number> = {
+  bugun: 0,
+  ertaga: 1,
+  indinga: 2,
+  kecha: -1,
+};
+
+const AMOUNT_UNITS: Record<string, number> = {
+  k: 1000,
+  ming: 1000,
+  mln: 1000000,
+  million: 1000000,
+  mlrd: 1000000000,
+  milliard: 1000000000,
+};
+
+// Keyword stems per default expense category (see defaultCategories in the bot)
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  "Ovqat": ["non", "nonushta", "tushlik", "ovqat", "kafe", "restoran", "choy", "kofe", "go'sht", "osh", "somsa", "lag'mon", "shashlik", "meva", "sabzavot", "sut", "pitsa", "lavash"],
+  "Yo'l": ["taksi", "taxi", "avtobus", "metro", "benzin", "metan", "propan", "yoqilg'i", "yo'l", "poyezd", "samolyot", "chipta"],
+  "Xarid": ["bozor", "do'kon", "kiyim", "poyabzal", "xarid", "supermarket", "market", "korzinka"],
+  "To'lov": ["svet", "elektr", "gaz", "internet", "telefon", "aloqa", "kredit", "to'lov", "suv", "kommunal"],
+  "Uy-joy": ["ijara", "kvartira", "uy", "remont", "ta'mir", "mebel"],
+  "Sog'liq": ["dori", "dorixona", "apteka", "shifokor", "doktor", "vrach", "kasalxona", "klinika", "tish"],
+  "O'yin-kulgi": ["kino", "konsert", "o'yin", "teatr", "sayohat"],
+};
+
+// Case and possessive endings a keyword may carry ("taksiga", "dorilar", "uyning")
+const WORD_SUFFIXES = ["", "ga", "ka", "qa", "ni", "da", "dan", "ning", "lar", "larga", "lari", "i", "si", "iga", "siga", "im", "imga", "ingiz"];
+
+export function normalizeApostrophes(text: string): string {
+  return text.replace(/[‘’ʻʼ`]/g, "'");
+}
+
+function weekdayOf(dateStr: string): number {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function cleanup(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\s+([.,!?])/g, "$1").replace(/^[\s,.;:-]+|[\s,;:-]+$/g, "").trim();
+}
+
+interface Extracted<T> {
+  value: T;
+  rest: string;
+}
+
+// direction decides which way a bare weekday or date points: planning looks
+// forward ("dushanba kuni" = the coming Monday), spending looks back.
+function extractDate(text: string, today: string, direction: "future" | "past"): Extracted<string> | null {
+  const relative = text.match(new RegExp(`${START}(bugun|ertaga|indinga|kecha)(?:gi)?${END}`, "i"));
+  if (relative) {
+    return {
+      value: addDays(today, RELATIVE_DAYS[relative[1].toLowerCase()]),
+      rest: text.replace(relative[0], " "),
+    };
+  }
+
+  const weekdayNames = Object.keys(WEEKDAYS).join("|");
+  const weekday = text.match(new RegExp(`${START}(keyingi\\s+|o'tgan\\s+)?(${weekdayNames})(?:\\s+kuni|ga|da|dagi)?${END}`, "i"));
+  if (weekday) {
+    const modifier = (weekday[1] || "").trim().toLowerCase();
+    const target = WEEKDAYS[weekday[2].toLowerCase()];
+    const current = weekdayOf(today);
+    let diff: number;
+    if (modifier === "keyingi" || (!modifier && direction === "future")) {
+      diff = (target - current + 7) % 7;
+      if (modifier === "keyingi" && diff === 0) diff = 7;
+    } else {
+      diff = -((current - target + 7) % 7);
+      if (modifier === "o'tgan" && diff === 0) diff = -7;
+    }
+    return { value: addDays(today, diff), rest: text.replace(weekday[0], " ") };
+  }
+
+  const monthNames = Object.keys(MONTHS).join("|");
+  const named = text.match(new RegExp(`${START}(\\d{1,2})(?:-|\\s+)(${monthNames})(?:da|ga|dagi)?${END}`, "i"));
+  // Numeric dates need the year so "9.30" and "1.2 mln" aren't read as dates
+  const numeric = text.match(new RegExp(`${START}(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${END}`));
+  const dateMatch = named || numeric;
+  if (dateMatch) {
+    const day = parseInt(dateMatch[1]);
+    const month = named ? MONTHS[dateMatch[2].toLowerCase()] : parseInt(dateMatch[2]);
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
+      const todayYear = parseInt(today.split("-")[0]);
+      let year = named ? todayYear : parseInt(dateMatch[3]);
+      let value = `${year}-${pad(month)}-${pad(day)}`;
+      if (named) {
+        // No year given: pick the nearest one in the parsing direction
+        if (direction === "future" && value < today) value = `${++year}-${pad(month)}-${pad(day)}`;
+        if (direction === "past" && value > today) value = `${--year}-${pad(month)}-${pad(day)}`;
+      }
+      return { value, rest: text.replace(dateMatch[0], " ") };
+    }
+  }
+
+  return null;
+}
+
+function extractTime(text: string): Extracted<string> | null {
+  let hours: number | null = null;
+  let minutes = 0;
+  let rest = text;
+
+  const clock = rest.match(new RegExp(`${START}(?:soat\\s+)?(\\d{1,2})[:.](\\d{2})(?:\\s*(?:da|ga|gacha))?${END}`, "i"));
+  const hourOnly = rest.match(new RegExp(`${START}soat\\s+(\\d{1,2})(?:\\s*(?:da|ga|gacha))?${END}`, "i"));
+  const period = rest.match(new RegExp(`${START}(ertalab|kechqurun|kechasi|tushdan\\s+keyin)${END}`, "i"));
+  // A bare "7da" is only a time next to a part of the day ("kechqurun 7da"); alone it may be a count
+  const bareHour = period ? rest.match(new RegExp(`${START}(\\d{1,2})\\s*-?(?:da|ga|gacha)${END}`, "i")) : null;
+  if (clock) {
+    hours = parseInt(clock[1]);
+    minutes = parseInt(clock[2]);
+    rest = rest.replace(clock[0], " ");
+  } else if (hourOnly) {
+    hours = parseInt(hourOnly[1]);
+    rest = rest.replace(hourOnly[0], " ");
+  } else if (bareHour) {
+    hours = parseInt(bareHour[1]);
+    rest = rest.replace(bareHour[0], " ");
+  }
+
+  if (period) {
+    const word = period[1].toLowerCase().replace(/\s+/g, " ");
+    rest = rest.replace(period[0], " ");
+    if (hours === null) {
+      // Same defaults as the reminder keyboard: morning 09:00, evening 20:00
+      if (word === "ertalab") hours = 9;
+      else if (word === "tushdan keyin") hours = 14;
+      else if (word === "kechqurun") hours = 20;
+    } else if (hours < 12 && (word === "kechqurun" || word === "tushdan keyin")) {
+      hours += 12;
+    } else if (word === "kechasi" && hours >= 6 && hours < 12) {
+      hours += 12;
+    }
+  }
+
+  if (hours === null || hours > 23 || minutes > 59) return null;
+  return { value: `${pad(hours)}:${pad(minutes)}`, rest };
+}
+
+function extractPriority(text: string): Extracted<ParsedPriority> | null {
+  const low = text.match(new RegExp(`${START}muhim\\s+emas${END}`, "i"));
+  if (low) return { value: "low", rest: text.replace(low[0], " ") };
+
+  const high = text.match(new RegExp(`${START}(juda\\s+muhim|muhim|shoshilinch|zudlik\\s+bilan)${END}`, "i"));
+  if (high) return { value: "high", rest: text.replace(high[0], " ") };
+
+  const bang = text.match(/!{2,}\s*$/);
+  if (bang) return { value: "high", rest: text.replace(bang[0], "") };
+
+  return null;
+}
+
+export function extractAmount(text: string): Extracted<number> | null {
+  const units = Object.keys(AMOUNT_UNITS).join("|");
+  const withUnit = text.match(new RegExp(`${START}(\\d+(?:[.,]\\d+)?)\\s*(${units})(?:\\s*(?:so'm|som|sum))?${END}`, "i"));
+  if (withUnit) {
+    const value = parseFloat(withUnit[1].replace(",", "."));
+    return {
+      value: Math.round(value * AMOUNT_UNITS[withUnit[2].toLowerCase()]),
+      rest: text.replace(withUnit[0], " "),
+    };
+  }
+
+  // Plain numbers, optionally grouped with spaces or dots ("100 000", "1.500.000");
+  // the last one wins, matching the old "description amount" format
+  const plainRegex = new RegExp(`${START}(\\d{1,3}(?:[ .]\\d{3})+|\\d+)(?:\\s*(?:so'm|som|sum))?${END}`, "gi");
+  const plain = Array.from(text.matchAll(plainRegex));
+  if (plain.length === 0) return null;
+
+  const last = plain[plain.length - 1];
+  const value = parseInt(last[1].replace(/[ .]/g, ""));
+  if (isNaN(value) || value <= 0) return null;
+  return { value, rest: text.slice(0, last.index) + " " + text.slice(last.index! + last[0].length) };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// An amount with a currency next to it, before or after: "25$", "$25", "9.99 usd", "5 ming rubl"
+export function extractCurrencyAmount(text: string): Extracted<{ amount: number; currency: CurrencyCode }> | null {
+  const aliases = Object.keys(CURRENCY_ALIASES)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const units = Object.keys(AMOUNT_UNITS).join("|");
+  const number = `(\\d+(?:[.,]\\d+)?)(?:\\s*(${units}))?`;
+
+  const after = text.match(new RegExp(`${START}${number}\\s*(${aliases})${END}`, "i"));
+  const before = after ? null : text.match(new RegExp(`${START}(${aliases})\\s*${number}${END}`, "i"));
+  const match = after || before;
+  if (!match) return null;
+
+  const [rawNumber, unit, alias] = after ? [after[1], after[2], after[3]] : [before![2], before![3], before![1]];
+  const multiplier = unit ? AMOUNT_UNITS[unit.toLowerCase()] : 1;
+  const amount = Math.round(parseFloat(rawNumber.replace(",", ".")) * multiplier * 100) / 100;
+  if (!amount || amount <= 0) return null;
+
+  return {
+    value: { amount, currency: CURRENCY_ALIASES[alias.toLowerCase()] },
+    rest: text.replace(match[0], " "),
+  };
+}
+
+export function detectCategory(text: string): string | null {
+  const words = normalizeApostrophes(text).toLowerCase().split(/[\s,.;:!?]+/).filter(Boolean);
+  for (const word of words) {
+    for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+      const hit = keywords.some(keyword =>
+        word.startsWith(keyword) && WORD_SUFFIXES.includes(word.slice(keyword.length))
+      );
+      if (hit) return category;
+    }
+  }
+  return null;
+}
+
+export function parseTaskInput(input: string, today: string): ParsedTaskInput {
+  let rest = normalizeApostrophes(input);
+
+  const prayer = parsePrayerReminder(rest);
+  let prayerReminder: PrayerReminder | null = null;
+  if (prayer) {
+    prayerReminder = { prayer: prayer.prayer, offsetMinutes: prayer.offsetMinutes };
+    rest = prayer.rest;
+  }
+
+  const date = extractDate(rest, today, "future");
+  if (date) rest = date.rest;
+
+  const time = prayerReminder ? null : extractTime(rest);
+  if (time) rest = time.rest;
+
+  const priority = extractPriority(rest);
+  if (priority) rest = priority.rest;
+
+  const title = cleanup(rest);
+  return {
+    // Keep the original text if everything in it was a date/time phrase
+    title: title || input.trim(),
+    date: date?.value ?? null,
+    time: time?.value ?? null,
+    priority: priority?.value ?? null,
+    prayerReminder,
+  };
+}
+
+export function parseExpenseInput(input: string, today: string): ParsedExpenseInput {
+  let rest = normalizeApostrophes(input);
+
+  const date = extractDate(rest, today, "past");
+  if (date) rest = date.rest;
+
+  const money = extractCurrencyAmount(rest);
+  if (money) rest = money.rest;
+
+  const amount = money ? null : extractAmount(rest);
+  if (amount) rest = amount.rest;
+
+  const description = cleanup(rest);
+  const categoryHint = detectCategory(description);
+  return {
+    description: description || categoryHint || "",
+    amount: money?.value.amount ?? amount?.value ?? null,
+    currency: money?.value.currency ?? null,
+    date: date?.value ?? null,
+    categoryHint,
+  };
+}